@@ -0,0 +1,68 @@
+#!/usr/bin/env npx tsx
+/**
+ * Stand in for Apify's run-completion webhook during local development, when
+ * Apify can't reach the dev server. Sends the signed payload Apify would send
+ * for a scrape run started by /api/scrape/trigger.
+ *
+ *   npx tsx scripts/apify-webhook-stub.ts <scrape-run-id>                  # run succeeded
+ *   npx tsx scripts/apify-webhook-stub.ts <scrape-run-id> ACTOR.RUN.FAILED # run failed
+ *
+ * Environment:
+ *   DATABASE_URL          - Database holding the scrape run
+ *   APIFY_WEBHOOK_SECRET  - Same secret as the dev server
+ *   APIFY_WEBHOOK_URL     - Receiver (default: http://localhost:3000/api/webhooks/apify)
+ */
+
+import { db } from "../src/lib/db";
+import { scrapeRuns } from "../src/lib/db/schema";
+import { eq } from "drizzle-orm";
+import { buildRunWebhook, type ApifyWebhookPayload } from "../src/lib/apify/webhook";
+
+const STATUS_BY_EVENT: Record<string, string> = {
+  "ACTOR.RUN.SUCCEEDED": "SUCCEEDED",
+  "ACTOR.RUN.FAILED": "FAILED",
+  "ACTOR.RUN.TIMED_OUT": "TIMED-OUT",
+  "ACTOR.RUN.ABORTED": "ABORTED",
+};
+
+async function main() {
+  const [scrapeRunId, eventType = "ACTOR.RUN.SUCCEEDED"] = process.argv.slice(2);
+  if (!scrapeRunId || !STATUS_BY_EVENT[eventType]) {
+    console.error(
+      `Usage: npx tsx scripts/apify-webhook-stub.ts <scrape-run-id> [${Object.keys(STATUS_BY_EVENT).join("|")}]`
+    );
+    process.exit(1);
+  }
+
+  const [run] = await db.select().from(scrapeRuns).where(eq(scrapeRuns.id, scrapeRunId)).limit(1);
+  if (!run?.apifyRunId) {
+    console.error(`Scrape run not found or not started on Apify: ${scrapeRunId}`);
+    process.exit(1);
+  }
+
+  process.env.APIFY_WEBHOOK_URL ||= "http://localhost:3000/api/webhooks/apify";
+  const { requestUrl, headers } = buildRunWebhook(run.id);
+
+  const payload: ApifyWebhookPayload = {
+    eventType,
+    resource: {
+      id: "local-stub",
+      status: STATUS_BY_EVENT[eventType],
+      defaultDatasetId: run.apifyRunId,
+    },
+  };
+
+  const res = await fetch(requestUrl, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...headers },
+    body: JSON.stringify(payload),
+  });
+  console.log(`${res.status} ${await res.text()}`);
+
+  process.exit(res.ok ? 0 : 1);
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
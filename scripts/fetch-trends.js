@@ -9,7 +9,8 @@
  *   node scripts/fetch-trends.js
  *
  * Uses comparative batch queries (5 per batch) with anchor-based
- * cross-batch normalization and 0-100 final scaling.
+ * cross-batch normalization and 0-100 final scaling, once per country
+ * in the fandoms' geo sets.
  */
 
 const API_URL = process.env.PLDT_API_URL || "http://localhost:3000";
@@ -29,41 +30,15 @@ function cleanJson(text) {
   return idx >= 0 ? text.substring(idx) : text;
 }
 
-// ── Keyword simplification ──────────────────────────────────────────
-const KEYWORD_MAP = {
-  "BINI Blooms": "BINI",
-  "BTS ARMY": "BTS",
-  "NewJeans Bunnies": "NewJeans",
-  "SEVENTEEN CARAT": "SEVENTEEN kpop",
-  "KAIA Fans": "KAIA girl group",
-  "ALAMAT Fans": "ALAMAT pboy group",
-  "G22 Fans": "G22 girl group",
-  "VXON - Vixies": "VXON group",
-  "YGIG - WeGo": "YGIG group",
-  "JMFyang Fans": "JMFyang",
-  "AshDres Fans": "AshDres",
-  "AlDub Nation": "AlDub",
-  "Cup of Joe (Joewahs)": "Cup of Joe band",
-  "Team Payaman / Cong TV Universe Fans": "Cong TV",
-  "r/DragRacePhilippines": "Drag Race Philippines",
-};
-
-function simplifyKeyword(name) {
-  if (KEYWORD_MAP[name]) return KEYWORD_MAP[name];
-  if (name.includes("SB19")) return "SB19";
-  if (name.includes("PLUUS")) return "PLUUS band";
-  if (name.includes("MLBB") || name.includes("MPL")) return "MPL Philippines";
-  if (name.includes("Roblox")) return "Roblox Philippines";
-  if (name.includes("Genshin")) return "Genshin Impact Philippines";
-  if (name.includes("Valorant")) return "Valorant Philippines";
-  if (name.includes("BookTok")) return "BookTok Philippines";
-  if (name.includes("Cosplay")) return "Cosplay Philippines";
-  return name
-    .split(/[/\\(]/)[0]
-    .trim()
-    .split(/\s+/)
-    .slice(0, 2)
-    .join(" ");
+// ── Search keywords ─────────────────────────────────────────────────
+// Mirrors trendsQuery() in src/lib/utils/search-keywords.ts; /api/fandoms
+// returns each fandom's keyword set (configured on the fandom detail page).
+function trendsQuery(fandom) {
+  const keywords = fandom.searchKeywords;
+  if (!keywords) return fandom.name;
+  const term = keywords.disambiguated[0] || keywords.primary;
+  const excluded = keywords.excluded.map((t) => (/\s/.test(t) ? `-"${t}"` : `-${t}`));
+  return [term, ...excluded].join(" ");
 }
 
 // ── Google Trends fetcher ───────────────────────────────────────────
@@ -180,9 +155,13 @@ async function fetchComparative(
   const cookies = await getSession(geo);
   await sleep(1500);
 
+  // A single batch needs no anchor to be comparable; its most searched
+  // keyword is reported as one so the server can align the fetch on it
   if (keywords.length <= 5) {
     const data = await fetchBatch(keywords, geo, timeRange, cookies);
-    return normalizeToHundred(keywords, data);
+    const total = (kw) => (data.get(kw) || []).reduce((s, p) => s + p.value, 0);
+    const anchor = [...keywords].sort((a, b) => total(b) - total(a))[0];
+    return { anchor, results: normalizeToHundred(keywords, data) };
   }
 
   // Anchor-based batching
@@ -246,7 +225,7 @@ async function fetchComparative(
     }
   }
 
-  return normalizeToHundred(keywords, allResults);
+  return { anchor, results: normalizeToHundred(keywords, allResults) };
 }
 
 function normalizeToHundred(keywords, dataMap) {
@@ -294,26 +273,35 @@ async function main() {
   }
   console.log(`   Found ${fandoms.length} fandoms\n`);
 
-  // Build keyword → fandom slug map
-  const kwToSlug = new Map();
-  const keywords = [];
+  // Group fandoms by the countries they are tracked in (default PH)
+  const kwToSlugByGeo = new Map();
   for (const f of fandoms) {
-    const kw = simplifyKeyword(f.name);
-    kwToSlug.set(kw, f.slug);
-    keywords.push(kw);
+    const kw = trendsQuery(f);
+    for (const geo of f.trendsGeos?.length ? f.trendsGeos : ["PH"]) {
+      if (!kwToSlugByGeo.has(geo)) kwToSlugByGeo.set(geo, new Map());
+      kwToSlugByGeo.get(geo).set(kw, f.slug);
+    }
   }
 
-  console.log(
-    `📊 Fetching Google Trends (${keywords.length} keywords, comparative batches)...\n`
-  );
-  const results = await fetchComparative(keywords);
-
-  // Format for upload
-  const trends = results.map((r) => ({
-    fandomSlug: kwToSlug.get(r.keyword),
-    keyword: r.keyword,
-    points: r.points,
-  }));
+  const trends = [];
+  for (const [geo, kwToSlug] of kwToSlugByGeo) {
+    const keywords = [...kwToSlug.keys()];
+    console.log(
+      `📊 Fetching Google Trends in ${geo} (${keywords.length} keywords, comparative batches)...\n`
+    );
+    const { anchor, results } = await fetchComparative(keywords, geo);
+
+    // Format for upload
+    for (const r of results) {
+      trends.push({
+        fandomSlug: kwToSlug.get(r.keyword),
+        keyword: r.keyword,
+        geo,
+        anchor,
+        points: r.points,
+      });
+    }
+  }
 
   const withData = trends.filter((t) => t.points.length > 0);
   console.log(
@@ -0,0 +1,64 @@
+#!/usr/bin/env npx tsx
+/**
+ * Run the scrape → normalize → ingest pipeline for one fandom, in-process.
+ *
+ * Pair with SCRAPE_PROVIDER_MODE to capture or replay provider responses:
+ *
+ *   # Capture fixtures from the live providers (uses credits)
+ *   SCRAPE_PROVIDER_MODE=record npx tsx scripts/replay-scrape.ts bini-blooms
+ *
+ *   # Re-run against the captured fixtures, no network
+ *   SCRAPE_PROVIDER_MODE=replay npx tsx scripts/replay-scrape.ts bini-blooms tiktok
+ *
+ * Environment:
+ *   DATABASE_URL         - Database the results are ingested into
+ *   SCRAPE_FIXTURES_DIR  - Fixture directory (default: data/fixtures)
+ */
+
+import { db } from "../src/lib/db";
+import { fandoms, fandomPlatforms } from "../src/lib/db/schema";
+import { eq } from "drizzle-orm";
+import { scrapeFandomPlatform } from "../src/lib/services/scrape.service";
+import { getScrapeMode } from "../src/lib/providers";
+import type { Platform } from "../src/types/fandom";
+
+async function main() {
+  const [slug, platformArg] = process.argv.slice(2);
+  if (!slug) {
+    console.error("Usage: npx tsx scripts/replay-scrape.ts <fandom-slug> [platform]");
+    process.exit(1);
+  }
+
+  const [fandom] = await db.select().from(fandoms).where(eq(fandoms.slug, slug)).limit(1);
+  if (!fandom) {
+    console.error(`Fandom not found: ${slug}`);
+    process.exit(1);
+  }
+
+  const platformRows = await db
+    .select({ platform: fandomPlatforms.platform })
+    .from(fandomPlatforms)
+    .where(eq(fandomPlatforms.fandomId, fandom.id));
+
+  const platforms = platformArg
+    ? [platformArg as Platform]
+    : platformRows.map((p) => p.platform as Platform);
+
+  console.log(`Mode: ${getScrapeMode()} — ${fandom.name}: ${platforms.join(", ")}\n`);
+
+  for (const platform of platforms) {
+    const result = await scrapeFandomPlatform(fandom.id, platform);
+    console.log(
+      `${platform}: ${result.success ? "ok" : "failed"} — ${result.itemsCount} new items` +
+        (result.source ? ` via ${result.source}` : "") +
+        (result.error ? ` (${result.error})` : "")
+    );
+  }
+
+  process.exit(0);
+}
+
+main().catch((err) => {
+  console.error("Replay scrape failed:", err);
+  process.exit(1);
+});
@@ -0,0 +1,16 @@
+#!/bin/bash
+# PLDT Scraper Agent — runs every 8 hours via launchd
+# Scrapes jobs for datacenter-blocked platforms from a residential IP and pushes to Hetzner
+
+export PATH="/opt/homebrew/bin:/usr/local/bin:/usr/bin:/bin:$PATH"
+export FANDOM_TRACKER_URL="https://pldt-fandom.aiailabs.net"
+# Agent credentials from Settings → Push Agents
+export FANDOM_AGENT_ID="<agent id>"
+export FANDOM_AGENT_SECRET="<agent secret>"
+
+LOGFILE="/tmp/pldt-scraper-agent.log"
+cd /Users/enricopena/Desktop/pldt-fandom-tracker
+
+echo "=== $(date '+%Y-%m-%d %H:%M:%S') ===" >> "$LOGFILE"
+npx tsx scripts/scraper-agent.ts --once >> "$LOGFILE" 2>&1
+echo "" >> "$LOGFILE"
@@ -0,0 +1,217 @@
+#!/usr/bin/env npx tsx
+/**
+ * Local Scraper Agent for PLDT Fandom Tracker
+ *
+ * Runs on a residential-IP machine (the Mac Mini) for platforms that block
+ * datacenter IPs. Polls the tracker for scrape jobs routed to agents
+ * (AGENT_PLATFORMS on the server), scrapes each job's targets locally,
+ * pushes the items to /api/ingest/push and reports the outcome. Heartbeats
+ * keep the agent's status current on the Settings page and the job's lease
+ * alive while it runs.
+ *
+ * Usage:
+ *   npx tsx scripts/scraper-agent.ts          # poll until stopped
+ *   npx tsx scripts/scraper-agent.ts --once   # drain due jobs, then exit
+ *
+ * Environment:
+ *   FANDOM_TRACKER_URL   - Base URL (default: https://pldt-fandom.aiailabs.net)
+ *   FANDOM_AGENT_ID      - Agent ID from Settings → Push Agents
+ *   FANDOM_AGENT_SECRET  - Agent secret (shown once when the agent is created)
+ *   AGENT_PLATFORMS      - Platforms to run, comma-separated (default: every local scraper)
+ *   AGENT_POLL_SECONDS   - Wait between polls when idle (default: 60)
+ */
+
+import { hostname } from "os";
+import { buildAgentHeaders } from "../src/lib/agents/signing";
+import { AGENT_EXECUTORS } from "../src/lib/agents/executors";
+import type { AgentHeartbeat, AgentJob, AgentJobOutcome, AgentTarget } from "../src/lib/agents/types";
+import type { Platform } from "../src/types/fandom";
+
+const AGENT_VERSION = "1.0.0";
+
+const FANDOM_TRACKER_URL =
+  process.env.FANDOM_TRACKER_URL || "https://pldt-fandom.aiailabs.net";
+const AGENT_ID = process.env.FANDOM_AGENT_ID || "";
+const AGENT_SECRET = process.env.FANDOM_AGENT_SECRET || "";
+const POLL_MS = (Number(process.env.AGENT_POLL_SECONDS) || 60) * 1000;
+
+// Delay between targets to avoid rate limiting
+const DELAY_MS = 2000;
+// Heartbeats while a job runs, well inside the server's 15-minute lease
+const HEARTBEAT_MS = 60 * 1000;
+
+const CAPABILITIES = (Object.keys(AGENT_EXECUTORS) as Platform[]).filter(
+  (p) => !process.env.AGENT_PLATFORMS || process.env.AGENT_PLATFORMS.split(",").map((s) => s.trim()).includes(p)
+);
+
+let stopping = false;
+
+function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/** Signed POST/PATCH to the tracker; throws on non-2xx */
+async function callTracker<T>(method: "POST" | "PATCH", path: string, payload: unknown): Promise<T> {
+  const body = JSON.stringify(payload);
+  const res = await fetch(`${FANDOM_TRACKER_URL}${path}`, {
+    method,
+    headers: buildAgentHeaders(AGENT_ID, AGENT_SECRET, body),
+    body,
+  });
+
+  if (!res.ok) {
+    const text = await res.text();
+    throw new Error(`${method} ${path} failed: ${res.status} — ${text.slice(0, 200)}`);
+  }
+
+  return res.json();
+}
+
+async function heartbeat(status: AgentHeartbeat["status"], jobId?: string): Promise<void> {
+  const payload: AgentHeartbeat = {
+    status,
+    jobId: jobId ?? null,
+    capabilities: CAPABILITIES,
+    host: hostname(),
+    version: AGENT_VERSION,
+  };
+  await callTracker("POST", "/api/ingest/heartbeat", payload).catch((error) =>
+    console.error(`  ⚠️  Heartbeat failed: ${error instanceof Error ? error.message : error}`)
+  );
+}
+
+function describeTarget(target: AgentTarget): string {
+  if (target.type === "handle") return `@${target.value}`;
+  return target.type === "hashtag" ? `#${target.value.replace(/^#/, "")}` : `"${target.value}"`;
+}
+
+/**
+ * Scrape and push every target of a job. The job succeeds when any account
+ * target succeeds (or, without accounts, any target), matching the server's
+ * own scrapes.
+ */
+async function runJob(job: AgentJob): Promise<AgentJobOutcome> {
+  const executor = AGENT_EXECUTORS[job.platform];
+  if (!executor) {
+    return { jobId: job.id, success: false, error: `No local scraper for ${job.platform}` };
+  }
+
+  const beat = setInterval(() => void heartbeat("busy", job.id), HEARTBEAT_MS);
+  const hasAccounts = job.targets.some((t) => t.type === "handle");
+  const errors: string[] = [];
+  let succeeded = false;
+  let scrapeRunId: string | undefined;
+
+  try {
+    for (const target of job.targets) {
+      if (stopping) {
+        errors.push("Agent stopped");
+        break;
+      }
+
+      console.log(`   🔍 ${describeTarget(target)}...`);
+      try {
+        const items = await executor(target);
+        const result = await callTracker<{ success: boolean; scrapeRunId?: string; itemsCount?: number }>(
+          "POST",
+          "/api/ingest/push",
+          { fandomId: job.fandomId, platform: job.platform, target, items }
+        );
+        scrapeRunId ??= result.scrapeRunId;
+        console.log(`      ✅ ${items.length} items, ${result.itemsCount ?? 0} new`);
+        if (result.success && (!hasAccounts || target.type === "handle")) succeeded = true;
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        console.error(`      ❌ ${message}`);
+        errors.push(`${describeTarget(target)}: ${message}`);
+      }
+
+      await delay(DELAY_MS);
+    }
+  } finally {
+    clearInterval(beat);
+  }
+
+  return {
+    jobId: job.id,
+    success: succeeded || job.targets.length === 0,
+    error: errors.length > 0 ? errors.join("; ") : undefined,
+    scrapeRunId,
+  };
+}
+
+/** Lease and run jobs until none are due; returns how many ran */
+async function drainJobs(): Promise<number> {
+  let ran = 0;
+
+  while (!stopping) {
+    const { job } = await callTracker<{ job: AgentJob | null }>("POST", "/api/ingest/jobs", {
+      capabilities: CAPABILITIES,
+    });
+    if (!job) break;
+
+    console.log(
+      `📥 ${job.fandomName} (${job.platform}) — ${job.targets.length} targets, attempt ${job.attempt}/${job.maxAttempts}`
+    );
+    const outcome = await runJob(job);
+
+    try {
+      const { outcome: state } = await callTracker<{ outcome: string }>("PATCH", "/api/ingest/jobs", outcome);
+      console.log(`   ${outcome.success ? "✅" : "❌"} Job ${state}`);
+    } catch (error) {
+      // e.g. the lease expired and another agent took the job; its outcome is dropped
+      console.error(`   ❌ ${error instanceof Error ? error.message : error}`);
+    }
+    ran++;
+  }
+
+  return ran;
+}
+
+async function main() {
+  const once = process.argv.includes("--once");
+
+  console.log("🤖 PLDT Scraper Agent");
+  console.log(`   Target: ${FANDOM_TRACKER_URL}`);
+  console.log(`   Agent: ${AGENT_ID || "❌ MISSING"}`);
+  console.log(`   Platforms: ${CAPABILITIES.join(", ") || "none"}`);
+  console.log("");
+
+  if (!AGENT_ID || !AGENT_SECRET) {
+    console.error("❌ FANDOM_AGENT_ID and FANDOM_AGENT_SECRET env vars are required");
+    process.exit(1);
+  }
+  if (CAPABILITIES.length === 0) {
+    console.error(`❌ No local scraper for AGENT_PLATFORMS=${process.env.AGENT_PLATFORMS}`);
+    process.exit(1);
+  }
+
+  const stop = () => {
+    if (stopping) process.exit(1);
+    console.log("\n⏹  Stopping after the current target (Ctrl-C again to quit now)...");
+    stopping = true;
+  };
+  process.on("SIGINT", stop);
+  process.on("SIGTERM", stop);
+
+  while (!stopping) {
+    await heartbeat("idle");
+
+    try {
+      const ran = await drainJobs();
+      if (ran > 0) console.log(`📊 Ran ${ran} jobs`);
+    } catch (error) {
+      console.error(`❌ ${error instanceof Error ? error.message : error}`);
+    }
+
+    if (once) break;
+    for (let waited = 0; waited < POLL_MS && !stopping; waited += 1000) await delay(1000);
+  }
+
+  await heartbeat("idle");
+}
+
+main().catch((err) => {
+  console.error("Fatal error:", err);
+  process.exit(1);
+});
@@ -13,6 +13,11 @@ import { EngagementChart } from "@/components/dashboard/engagement-chart";
 import { GrowthChart } from "@/components/dashboard/growth-chart";
 import { PlatformBreakdown } from "@/components/dashboard/platform-breakdown";
 import { RegionalMap } from "@/components/dashboard/regional-map";
+import { FandomKeywordsPanel } from "@/components/dashboard/fandom-keywords-panel";
+import { SubredditPanel } from "@/components/dashboard/subreddit-panel";
+import { SearchKeywordsPanel } from "@/components/dashboard/search-keywords-panel";
+import { RelatedSearchesPanel } from "@/components/dashboard/related-searches-panel";
+import { TrendsGeosPanel } from "@/components/dashboard/trends-geos-panel";
 import { formatNumber, formatPercent } from "@/lib/utils/format";
 import {
   Table,
@@ -28,6 +33,10 @@ import type {
   MetricSnapshot,
   ContentItem,
   Influencer,
+  FandomKeyword,
+  HandleRole,
+  SubredditStats,
+  FandomSearchKeywords,
 } from "@/types/fandom";
 
 const platformProfileUrls: Record<Platform, (username: string) => string> = {
@@ -52,7 +61,7 @@ interface FandomDetail {
   imageUrl: string | null;
   fandomGroup: string | null;
   demographicTags: string[];
-  platforms: { id: string; fandomId: string; platform: Platform; handle: string; followers: number; url: string | null; verified: string | null; verifiedAt: string | null }[];
+  platforms: { id: string; fandomId: string; platform: Platform; handle: string; role: HandleRole; followers: number; url: string | null; verified: string | null; verifiedAt: string | null }[];
   totalFollowers: number;
   avgEngagementRate: number;
   weeklyGrowthRate: number;
@@ -60,6 +69,10 @@ interface FandomDetail {
   content: ContentItem[];
   influencersByEngagement: Influencer[];
   influencersByFollowers: Influencer[];
+  keywords: FandomKeyword[];
+  subreddits: SubredditStats[];
+  searchKeywords: FandomSearchKeywords;
+  trendsGeos: string[];
 }
 
 export default function FandomDetailPage() {
@@ -78,14 +91,14 @@ export default function FandomDetailPage() {
   const [editingFollowers, setEditingFollowers] = useState<string | null>(null);
   const [followersValue, setFollowersValue] = useState("");
 
-  const saveHandle = async (platform: string) => {
+  const saveHandle = async (id: string) => {
     if (!fandom || !editValue.trim()) return;
     setSaving(true);
     try {
       const res = await fetch(`/api/fandoms/${fandom.slug}/`, {
         method: "PATCH",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ platform, handle: editValue.trim() }),
+        body: JSON.stringify({ id, handle: editValue.trim() }),
       });
       if (res.ok) {
         // Update local state
@@ -94,15 +107,15 @@ export default function FandomDetailPage() {
           return {
             ...prev,
             platforms: prev.platforms.map((p: any) =>
-              p.platform === platform ? { ...p, handle: editValue.trim().replace("@", "") } : p
+              p.id === id ? { ...p, handle: editValue.trim().replace("@", "") } : p
             ),
           };
         });
         setEditingPlatform(null);
-        // Clear verification status for this platform (now invalid until re-verified)
+        // Clear verification status for this handle (now invalid until re-verified)
         setHandleStatus((prev) => {
           const next = { ...prev };
-          delete next[platform];
+          delete next[id];
           return next;
         });
       }
@@ -112,14 +125,14 @@ export default function FandomDetailPage() {
     setSaving(false);
   };
 
-  const saveFollowers = async (platform: string) => {
+  const saveFollowers = async (id: string) => {
     if (!fandom) return;
     setSaving(true);
     try {
       const res = await fetch(`/api/fandoms/${fandom.slug}/`, {
         method: "PATCH",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ platform, followers: followersValue }),
+        body: JSON.stringify({ id, followers: followersValue }),
       });
       if (res.ok) {
         setFandom((prev: any) => {
@@ -127,7 +140,7 @@ export default function FandomDetailPage() {
           return {
             ...prev,
             platforms: prev.platforms.map((p: any) =>
-              p.platform === platform ? { ...p, followers: parseInt(followersValue) || 0 } : p
+              p.id === id ? { ...p, followers: parseInt(followersValue) || 0 } : p
             ),
           };
         });
@@ -151,7 +164,7 @@ export default function FandomDetailPage() {
       const data = await res.json();
       const statusMap: Record<string, { valid: boolean; error?: string; displayName?: string; followers?: number }> = {};
       for (const r of data.results || []) {
-        statusMap[r.platform] = { valid: r.valid, error: r.error, displayName: r.displayName, followers: r.followers };
+        if (r.id) statusMap[r.id] = { valid: r.valid, error: r.error, displayName: r.displayName, followers: r.followers };
       }
       setHandleStatus(statusMap);
     } catch (e) {
@@ -178,7 +191,7 @@ export default function FandomDetailPage() {
           const statusMap: Record<string, { valid: boolean; error?: string; displayName?: string; followers?: number }> = {};
           for (const p of data.platforms) {
             if (p.verified) {
-              statusMap[p.platform] = { valid: p.verified === 'valid' };
+              statusMap[p.id] = { valid: p.verified === 'valid' };
             }
           }
           setHandleStatus(statusMap);
@@ -225,7 +238,7 @@ export default function FandomDetailPage() {
           </p>
           <div className="flex items-center gap-3 mt-2">
             <PlatformIcons
-              platforms={fandom.platforms.map((p) => p.platform)}
+              platforms={[...new Set(fandom.platforms.map((p) => p.platform))]}
             />
             <span className="text-xs text-muted-foreground">
               {fandom.fandomGroup}
@@ -304,6 +317,8 @@ export default function FandomDetailPage() {
             </CardContent>
           </Card>
 
+          {fandom.subreddits.length > 0 && <SubredditPanel subreddits={fandom.subreddits} />}
+
           {/* Platform Handles with Verification */}
           <Card>
             <CardHeader className="flex flex-row items-center justify-between">
@@ -324,24 +339,25 @@ export default function FandomDetailPage() {
             <CardContent>
               <div className="space-y-2">
                 {fandom.platforms.map((p) => {
-                  const status = handleStatus[p.platform];
+                  const status = handleStatus[p.id];
                   return (
                     <div key={p.id} className="flex items-center justify-between py-2 px-3 rounded-md border text-sm">
                       <div className="flex items-center gap-3 flex-1 min-w-0">
                         <span className="font-medium capitalize w-20 shrink-0">{p.platform}</span>
-                        {editingPlatform === p.platform ? (
+                        <Badge variant="outline" className="text-[10px] capitalize shrink-0">{p.role}</Badge>
+                        {editingPlatform === p.id ? (
                           <div className="flex items-center gap-2 flex-1">
                             <input
                               type="text"
                               value={editValue}
                               onChange={(e) => setEditValue(e.target.value)}
-                              onKeyDown={(e) => { if (e.key === "Enter") saveHandle(p.platform); if (e.key === "Escape") setEditingPlatform(null); }}
+                              onKeyDown={(e) => { if (e.key === "Enter") saveHandle(p.id); if (e.key === "Escape") setEditingPlatform(null); }}
                               className="flex-1 h-7 px-2 text-xs font-mono border rounded-md bg-background focus:outline-none focus:ring-1 focus:ring-ring"
                               autoFocus
                               placeholder="Enter handle..."
                             />
                             <button
-                              onClick={() => saveHandle(p.platform)}
+                              onClick={() => saveHandle(p.id)}
                               disabled={saving}
                               className="h-7 px-2 text-xs font-medium rounded-md bg-primary text-primary-foreground hover:bg-primary/90 disabled:opacity-50"
                             >
@@ -356,7 +372,7 @@ export default function FandomDetailPage() {
                           </div>
                         ) : (
                           <button
-                            onClick={() => { setEditingPlatform(p.platform); setEditValue(p.handle); }}
+                            onClick={() => { setEditingPlatform(p.id); setEditValue(p.handle); }}
                             className="text-muted-foreground font-mono text-xs hover:text-foreground hover:underline transition-colors cursor-pointer truncate"
                             title="Click to edit handle"
                           >
@@ -364,26 +380,26 @@ export default function FandomDetailPage() {
                           </button>
                         )}
                       </div>
-                      {editingPlatform !== p.platform && (
+                      {editingPlatform !== p.id && (
                       <div className="flex items-center gap-2 shrink-0 ml-2">
                         {/* Editable follower count */}
-                        {editingFollowers === p.platform ? (
+                        {editingFollowers === p.id ? (
                           <div className="flex items-center gap-1">
                             <input
                               type="number"
                               value={followersValue}
                               onChange={(e) => setFollowersValue(e.target.value)}
-                              onKeyDown={(e) => { if (e.key === "Enter") saveFollowers(p.platform); if (e.key === "Escape") setEditingFollowers(null); }}
+                              onKeyDown={(e) => { if (e.key === "Enter") saveFollowers(p.id); if (e.key === "Escape") setEditingFollowers(null); }}
                               className="w-24 h-6 px-1 text-xs font-mono border rounded bg-background focus:outline-none focus:ring-1 focus:ring-ring"
                               autoFocus
                               placeholder="Followers"
                             />
-                            <button onClick={() => saveFollowers(p.platform)} disabled={saving} className="h-6 px-1.5 text-xs rounded bg-primary text-primary-foreground hover:bg-primary/90 disabled:opacity-50">{saving ? "..." : "✓"}</button>
+                            <button onClick={() => saveFollowers(p.id)} disabled={saving} className="h-6 px-1.5 text-xs rounded bg-primary text-primary-foreground hover:bg-primary/90 disabled:opacity-50">{saving ? "..." : "✓"}</button>
                             <button onClick={() => setEditingFollowers(null)} className="h-6 px-1.5 text-xs rounded border hover:bg-accent">✕</button>
                           </div>
                         ) : (
                           <button
-                            onClick={() => { setEditingFollowers(p.platform); setFollowersValue(String(p.followers)); }}
+                            onClick={() => { setEditingFollowers(p.id); setFollowersValue(String(p.followers)); }}
                             className="text-xs text-muted-foreground hover:text-foreground hover:underline cursor-pointer tabular-nums"
                             title="Click to edit followers"
                           >
@@ -401,7 +417,7 @@ export default function FandomDetailPage() {
                           ) : (
                             <span
                               className="flex items-center gap-1 text-red-500 text-xs cursor-pointer hover:underline"
-                              onClick={() => { setEditingPlatform(p.platform); setEditValue(p.handle); }}
+                              onClick={() => { setEditingPlatform(p.id); setEditValue(p.handle); }}
                               title="Click to fix this handle"
                             >
                               <svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><circle cx="12" cy="12" r="10"/><line x1="15" y1="9" x2="9" y2="15"/><line x1="9" y1="9" x2="15" y2="15"/></svg>
@@ -421,11 +437,24 @@ export default function FandomDetailPage() {
           </Card>
         </TabsContent>
 
-        <TabsContent value="regional">
-          <RegionalMap fandomId={fandom.id} fandomName={fandom.name} />
+        <TabsContent value="regional" className="space-y-4">
+          <SearchKeywordsPanel slug={fandom.slug} initialKeywords={fandom.searchKeywords} />
+          <TrendsGeosPanel
+            slug={fandom.slug}
+            initialGeos={fandom.trendsGeos}
+            onSaved={(trendsGeos) => setFandom((prev) => (prev ? { ...prev, trendsGeos } : prev))}
+          />
+          <RegionalMap
+            key={fandom.trendsGeos.join(",")}
+            fandomId={fandom.id}
+            fandomName={fandom.name}
+            geos={fandom.trendsGeos}
+          />
+          <RelatedSearchesPanel key={fandom.trendsGeos.join(",")} fandomId={fandom.id} geos={fandom.trendsGeos} />
         </TabsContent>
 
-        <TabsContent value="content">
+        <TabsContent value="content" className="space-y-4">
+          <FandomKeywordsPanel key={`${from}-${to}`} slug={fandom.slug} initialKeywords={fandom.keywords} />
           <Card>
             <CardHeader>
               <CardTitle className="text-sm">Top Content</CardTitle>
@@ -441,6 +470,7 @@ export default function FandomDetailPage() {
                       <TableHead>Type</TableHead>
                       <TableHead>Post</TableHead>
                       <TableHead className="text-right">Likes</TableHead>
+                      <TableHead className="text-right">Likes/hr</TableHead>
                       <TableHead className="text-right">Comments</TableHead>
                       <TableHead className="text-right">Shares</TableHead>
                       <TableHead className="text-right">Views</TableHead>
@@ -468,10 +498,20 @@ export default function FandomDetailPage() {
                           </TableCell>
                           <TableCell className="max-w-[280px] truncate text-sm text-muted-foreground">
                             {item.text || "—"}
+                            {item.targetType && item.targetType !== "handle" && (
+                              <span className="block text-[10px] font-mono">
+                                via {item.targetType === "hashtag" ? `#${item.targetValue}` : `"${item.targetValue}"`}
+                              </span>
+                            )}
                           </TableCell>
                           <TableCell className="text-right">
                             {formatNumber(item.likes)}
                           </TableCell>
+                          <TableCell className="text-right text-muted-foreground">
+                            {item.likesPerHour != null
+                              ? formatNumber(Math.round(item.likesPerHour))
+                              : "—"}
+                          </TableCell>
                           <TableCell className="text-right">
                             {formatNumber(item.comments)}
                           </TableCell>
@@ -1,6 +1,6 @@
 "use client";
 
-import { useEffect, useState, useCallback } from "react";
+import { Fragment, useEffect, useState, useCallback } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
@@ -33,7 +33,17 @@ import {
 import { Checkbox } from "@/components/ui/checkbox";
 import { TierBadge } from "@/components/dashboard/tier-badge";
 import { PlatformIcons } from "@/components/dashboard/platform-icon";
-import type { FandomWithMetrics, ScrapeRun } from "@/types/fandom";
+import { ProviderHealthPanel } from "@/components/dashboard/provider-health-panel";
+import { ProviderSpendPanel } from "@/components/dashboard/provider-spend-panel";
+import { QuarantinePanel } from "@/components/dashboard/quarantine-panel";
+import { PayloadDriftPanel } from "@/components/dashboard/payload-drift-panel";
+import { MetricBackfillUpload } from "@/components/dashboard/metric-backfill-upload";
+import { ProviderRoutingPanel } from "@/components/dashboard/provider-routing-panel";
+import { ScrapeSchedulePanel } from "@/components/dashboard/scrape-schedule-panel";
+import { IngestAgentsPanel } from "@/components/dashboard/ingest-agents-panel";
+import { HANDLE_ROLES } from "@/lib/constants";
+import { defaultHandleRole } from "@/lib/utils/accounts";
+import type { FandomWithMetrics, Platform, ScrapeRun, ScrapeQueueSummary } from "@/types/fandom";
 
 interface PipelineStatus {
   apify: {
@@ -74,7 +84,7 @@ export default function SettingsPage() {
     description: "",
     fandomGroup: "",
     demographicTags: [] as string[],
-    platforms: [{ platform: "tiktok", handle: "" }] as Array<{ platform: string; handle: string }>,
+    platforms: [{ platform: "tiktok", handle: "", role: "official" }] as Array<{ platform: string; handle: string; role: string }>,
     useAIResearch: true,
     scrapeImmediately: true,
   });
@@ -90,11 +100,16 @@ export default function SettingsPage() {
     description: "",
     fandomGroup: "",
     demographicTags: [] as string[],
-    platforms: [{ platform: "tiktok", handle: "" }] as Array<{ platform: string; handle: string }>,
+    scrapeItemCap: 50,
+    scrapeCommentPosts: 0,
+    platforms: [{ platform: "tiktok", handle: "", role: "official" }] as Array<{ platform: string; handle: string; role: string }>,
   });
 
   // Scrape activity state
   const [scrapeRuns, setScrapeRuns] = useState<ScrapeRun[]>([]);
+  const [queue, setQueue] = useState<ScrapeQueueSummary | null>(null);
+  const [retryingJobId, setRetryingJobId] = useState<string | null>(null);
+  const [expandedRunId, setExpandedRunId] = useState<string | null>(null);
   const [globalScraping, setGlobalScraping] = useState(false);
   const [generatingInsights, setGeneratingInsights] = useState(false);
   const [insightsResult, setInsightsResult] = useState<{
@@ -112,8 +127,12 @@ export default function SettingsPage() {
 
   const fetchScrapeRuns = useCallback(async () => {
     try {
-      const data = await fetch("/api/scrape/status").then((r) => r.json());
+      const [data, queueData] = await Promise.all([
+        fetch("/api/scrape/status").then((r) => r.json()),
+        fetch("/api/scrape/jobs").then((r) => r.json()),
+      ]);
       if (Array.isArray(data)) setScrapeRuns(data);
+      if (queueData?.counts) setQueue(queueData);
     } catch {
       // ignore
     }
@@ -124,23 +143,26 @@ export default function SettingsPage() {
       fetch("/api/fandoms").then((r) => r.json()),
       fetch("/api/settings/status").then((r) => r.json()),
       fetch("/api/scrape/status").then((r) => r.json()).catch(() => []),
+      fetch("/api/scrape/jobs").then((r) => r.json()).catch(() => null),
     ])
-      .then(([fandomData, statusData, runsData]) => {
+      .then(([fandomData, statusData, runsData, queueData]) => {
         setFandoms(fandomData);
         setStatus(statusData);
         if (Array.isArray(runsData)) setScrapeRuns(runsData);
+        if (queueData?.counts) setQueue(queueData);
         setLoading(false);
       })
       .catch(() => setLoading(false));
   }, []);
 
-  // Poll scrape status while any run is "running"
+  // Poll scrape status while any run is "running" or jobs are still queued
+  const pendingJobs = queue ? queue.counts.queued + queue.counts.leased : 0;
   useEffect(() => {
-    const hasRunning = scrapeRuns.some((r) => r.status === "running");
-    if (!hasRunning && !globalScraping) return;
+    const hasRunning = scrapeRuns.some((r) => r.status === "running" || r.status === "ingesting");
+    if (!hasRunning && pendingJobs === 0 && !globalScraping) return;
     const interval = setInterval(fetchScrapeRuns, 10000);
     return () => clearInterval(interval);
-  }, [scrapeRuns, globalScraping, fetchScrapeRuns]);
+  }, [scrapeRuns, pendingJobs, globalScraping, fetchScrapeRuns]);
 
   const handleAddFandom = useCallback(async () => {
     if (!formData.name.trim()) {
@@ -176,7 +198,7 @@ export default function SettingsPage() {
         description: "",
         fandomGroup: "",
         demographicTags: [],
-        platforms: [{ platform: "tiktok", handle: "" }],
+        platforms: [{ platform: "tiktok", handle: "", role: "official" }],
         useAIResearch: true,
         scrapeImmediately: true,
       });
@@ -200,9 +222,11 @@ export default function SettingsPage() {
       description: fandom.description || "",
       fandomGroup: fandom.fandomGroup || "",
       demographicTags: [...fandom.demographicTags],
+      scrapeItemCap: fandom.scrapeItemCap,
+      scrapeCommentPosts: fandom.scrapeCommentPosts,
       platforms: fandom.platforms.length > 0
-        ? fandom.platforms.map((p) => ({ platform: p.platform, handle: p.handle }))
-        : [{ platform: "tiktok", handle: "" }],
+        ? fandom.platforms.map((p) => ({ platform: p.platform, handle: p.handle, role: p.role }))
+        : [{ platform: "tiktok", handle: "", role: "official" }],
     });
     setEditError(null);
     setEditDialogOpen(true);
@@ -252,7 +276,7 @@ export default function SettingsPage() {
   const addEditPlatformRow = () => {
     setEditFormData((prev) => ({
       ...prev,
-      platforms: [...prev.platforms, { platform: "tiktok", handle: "" }],
+      platforms: [...prev.platforms, { platform: "tiktok", handle: "", role: "official" }],
     }));
   };
 
@@ -275,7 +299,7 @@ export default function SettingsPage() {
   const addPlatformRow = () => {
     setFormData((prev) => ({
       ...prev,
-      platforms: [...prev.platforms, { platform: "tiktok", handle: "" }],
+      platforms: [...prev.platforms, { platform: "tiktok", handle: "", role: "official" }],
     }));
   };
 
@@ -318,7 +342,7 @@ export default function SettingsPage() {
           setScrapeResult({
             slug,
             success: true,
-            message: `Scrape started (${data.itemsCount ?? 0} items)`,
+            message: "Scrape started; results arrive when the Apify run finishes",
           });
         } else {
           setScrapeResult({
@@ -355,7 +379,7 @@ export default function SettingsPage() {
           setScrapeResult({
             slug,
             success: true,
-            message: "All platforms scrape started",
+            message: "All platforms scrape queued",
           });
           // Start polling
           setTimeout(fetchScrapeRuns, 3000);
@@ -440,12 +464,31 @@ export default function SettingsPage() {
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({}),
       });
-      setTimeout(fetchScrapeRuns, 3000);
+      await fetchScrapeRuns();
     } catch {
       // ignore
+    } finally {
+      setGlobalScraping(false);
     }
   }, [fetchScrapeRuns]);
 
+  const handleRetryJob = useCallback(
+    async (jobId: string) => {
+      setRetryingJobId(jobId);
+      try {
+        await fetch("/api/scrape/jobs", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ jobId }),
+        });
+        await fetchScrapeRuns();
+      } finally {
+        setRetryingJobId(null);
+      }
+    },
+    [fetchScrapeRuns]
+  );
+
   if (loading) {
     return (
       <div className="space-y-6">
@@ -498,7 +541,7 @@ export default function SettingsPage() {
             ) : (
               <svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className="mr-1"><path d="M21 12a9 9 0 0 0-9-9 9.75 9.75 0 0 0-6.74 2.74L3 8" /><path d="M3 3v5h5" /><path d="M3 12a9 9 0 0 0 9 9 9.75 9.75 0 0 0 6.74-2.74L21 16" /><path d="M16 16h5v5" /></svg>
             )}
-            {globalScraping ? "Scraping..." : "Scrape All Fandoms"}
+            {globalScraping ? "Queueing..." : pendingJobs > 0 ? `Scrape All Fandoms (${pendingJobs} queued)` : "Scrape All Fandoms"}
           </Button>
           <Button
             size="sm"
@@ -697,7 +740,7 @@ export default function SettingsPage() {
                                 ...prev,
                                 platforms: prev.platforms.map((pp, pi) =>
                                   pi === i
-                                    ? { ...pp, platform: e.target.value }
+                                    ? { ...pp, platform: e.target.value, role: defaultHandleRole(e.target.value as Platform) }
                                     : pp
                                 ),
                               }))
@@ -710,6 +753,27 @@ export default function SettingsPage() {
                               </option>
                             ))}
                           </select>
+                          <select
+                            value={p.role}
+                            onChange={(e) =>
+                              setFormData((prev) => ({
+                                ...prev,
+                                platforms: prev.platforms.map((pp, pi) =>
+                                  pi === i
+                                    ? { ...pp, role: e.target.value }
+                                    : pp
+                                ),
+                              }))
+                            }
+                            className="h-9 rounded-md border border-input bg-background px-3 text-xs"
+                            title="Account role"
+                          >
+                            {HANDLE_ROLES.map((role) => (
+                              <option key={role} value={role}>
+                                {role}
+                              </option>
+                            ))}
+                          </select>
                           <Input
                             placeholder="Handle (e.g. @username)"
                             value={p.handle}
@@ -871,6 +935,46 @@ export default function SettingsPage() {
                   />
                 </div>
 
+                <div className="space-y-2">
+                  <Label htmlFor="edit-fandom-cap">Items per scrape</Label>
+                  <Input
+                    id="edit-fandom-cap"
+                    type="number"
+                    min={5}
+                    max={500}
+                    value={editFormData.scrapeItemCap}
+                    onChange={(e) =>
+                      setEditFormData((prev) => ({
+                        ...prev,
+                        scrapeItemCap: parseInt(e.target.value) || 0,
+                      }))
+                    }
+                  />
+                  <p className="text-[11px] text-muted-foreground">
+                    Cap per platform. Scrapes page back to the last post seen and stop here.
+                  </p>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="edit-fandom-comment-posts">Posts with comments fetched</Label>
+                  <Input
+                    id="edit-fandom-comment-posts"
+                    type="number"
+                    min={0}
+                    max={20}
+                    value={editFormData.scrapeCommentPosts}
+                    onChange={(e) =>
+                      setEditFormData((prev) => ({
+                        ...prev,
+                        scrapeCommentPosts: parseInt(e.target.value) || 0,
+                      }))
+                    }
+                  />
+                  <p className="text-[11px] text-muted-foreground">
+                    Most engaged posts per scrape whose comments feed tone analysis. 0 turns it off.
+                  </p>
+                </div>
+
                 <div className="space-y-2">
                   <Label htmlFor="edit-fandom-desc">Description</Label>
                   <Input
@@ -934,7 +1038,7 @@ export default function SettingsPage() {
                             ...prev,
                             platforms: prev.platforms.map((pp, pi) =>
                               pi === i
-                                ? { ...pp, platform: e.target.value }
+                                ? { ...pp, platform: e.target.value, role: defaultHandleRole(e.target.value as Platform) }
                                 : pp
                             ),
                           }))
@@ -947,6 +1051,27 @@ export default function SettingsPage() {
                           </option>
                         ))}
                       </select>
+                      <select
+                        value={p.role}
+                        onChange={(e) =>
+                          setEditFormData((prev) => ({
+                            ...prev,
+                            platforms: prev.platforms.map((pp, pi) =>
+                              pi === i
+                                ? { ...pp, role: e.target.value }
+                                : pp
+                            ),
+                          }))
+                        }
+                        className="h-9 rounded-md border border-input bg-background px-3 text-xs"
+                        title="Account role"
+                      >
+                        {HANDLE_ROLES.map((role) => (
+                          <option key={role} value={role}>
+                            {role}
+                          </option>
+                        ))}
+                      </select>
                       <Input
                         placeholder="Handle (e.g. @username)"
                         value={p.handle}
@@ -1034,7 +1159,7 @@ export default function SettingsPage() {
                   </TableCell>
                   <TableCell>
                     <PlatformIcons
-                      platforms={f.platforms.map((p) => p.platform)}
+                      platforms={[...new Set(f.platforms.map((p) => p.platform))]}
                     />
                   </TableCell>
                   <TableCell>
@@ -1089,12 +1214,12 @@ export default function SettingsPage() {
                           <DropdownMenuItem onClick={() => handleBatchScrape(f.slug)}>
                             All Platforms
                           </DropdownMenuItem>
-                          {f.platforms.map((p) => (
+                          {[...new Set(f.platforms.map((p) => p.platform))].map((platform) => (
                             <DropdownMenuItem
-                              key={p.platform}
-                              onClick={() => handleScrape(f.slug, p.platform)}
+                              key={platform}
+                              onClick={() => handleScrape(f.slug, platform)}
                             >
-                              <span className="capitalize">{p.platform}</span>
+                              <span className="capitalize">{platform}</span>
                             </DropdownMenuItem>
                           ))}
                         </DropdownMenuContent>
@@ -1152,9 +1277,9 @@ export default function SettingsPage() {
         </CardContent>
       </Card>
 
-      {scrapeRuns.length > 0 && (() => {
+      {(scrapeRuns.length > 0 || pendingJobs > 0 || (queue?.counts.dead ?? 0) > 0) && (() => {
         const succeeded = scrapeRuns.filter(r => r.status === "succeeded").length;
-        const running = scrapeRuns.filter(r => r.status === "running").length;
+        const running = scrapeRuns.filter(r => r.status === "running" || r.status === "ingesting").length;
         const failed = scrapeRuns.filter(r => r.status === "failed").length;
         const totalItems = scrapeRuns.reduce((sum, r) => sum + (r.itemsCount || 0), 0);
         const lastRun = scrapeRuns[0];
@@ -1205,6 +1330,21 @@ export default function SettingsPage() {
               <span className="text-muted-foreground">{totalItems} items collected</span>
             </div>
 
+            {/* Job queue */}
+            {queue && (pendingJobs > 0 || queue.counts.dead > 0) && (
+              <p className="text-xs text-muted-foreground">
+                Queue: <span className="font-medium text-foreground">{queue.counts.queued}</span> waiting
+                {" · "}
+                <span className="font-medium text-foreground">{queue.counts.leased}</span> in progress
+                {queue.counts.dead > 0 && (
+                  <>
+                    {" · "}
+                    <span className="font-medium text-red-500">{queue.counts.dead}</span> dead-lettered
+                  </>
+                )}
+              </p>
+            )}
+
             {/* Last run info */}
             {lastRun && (
               <p className="text-xs text-muted-foreground">
@@ -1241,13 +1381,31 @@ export default function SettingsPage() {
                                 1000
                             )
                           : null;
+                      const expanded = expandedRunId === run.id;
+                      const hasDetails = run.attempts?.length > 0 || !!run.error;
                       return (
-                        <TableRow key={run.id}>
+                        <Fragment key={run.id}>
+                        <TableRow
+                          className={hasDetails ? "cursor-pointer hover:bg-muted/50" : ""}
+                          onClick={() => {
+                            if (hasDetails) setExpandedRunId(expanded ? null : run.id);
+                          }}
+                        >
                           <TableCell className="text-sm">
+                            {hasDetails && (
+                              <span className="mr-1 inline-block w-3 text-[10px] text-muted-foreground">
+                                {expanded ? "▾" : "▸"}
+                              </span>
+                            )}
                             {run.fandomName || "—"}
                           </TableCell>
                           <TableCell className="text-xs capitalize">
                             {run.platform || "—"}
+                            {run.targetType && run.targetType !== "handle" && (
+                              <span className="ml-1 normal-case font-mono text-muted-foreground">
+                                {run.targetType === "hashtag" ? `#${run.targetValue}` : `"${run.targetValue}"`}
+                              </span>
+                            )}
                           </TableCell>
                           <TableCell>
                             <Badge
@@ -1255,14 +1413,14 @@ export default function SettingsPage() {
                               className={`text-[10px] ${
                                 run.status === "succeeded"
                                   ? "text-emerald-600 border-emerald-200"
-                                  : run.status === "running"
+                                  : run.status === "running" || run.status === "ingesting"
                                     ? "text-amber-600 border-amber-200"
                                     : run.status === "failed"
                                       ? "text-red-500 border-red-200"
                                       : "text-muted-foreground"
                               }`}
                             >
-                              {run.status === "running" && (
+                              {(run.status === "running" || run.status === "ingesting") && (
                                 <svg xmlns="http://www.w3.org/2000/svg" width="10" height="10" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className="mr-1 animate-spin"><path d="M21 12a9 9 0 1 1-6.219-8.56" /></svg>
                               )}
                               {run.status}
@@ -1275,17 +1433,138 @@ export default function SettingsPage() {
                             {duration !== null ? `${duration}s` : "—"}
                           </TableCell>
                         </TableRow>
+                        {expanded && (
+                          <TableRow className="bg-muted/30 hover:bg-muted/30">
+                            <TableCell colSpan={5} className="py-2">
+                              {run.error && (
+                                <p className="mb-2 text-xs text-red-500 whitespace-normal break-words">
+                                  {run.error}
+                                </p>
+                              )}
+                              {run.attempts?.length > 0 && (
+                                <ol className="space-y-1">
+                                  {run.attempts.map((attempt) => (
+                                    <li key={attempt.attemptNumber} className="flex flex-wrap items-center gap-2 text-xs">
+                                      <span className="text-muted-foreground">{attempt.attemptNumber}.</span>
+                                      <span className="font-medium">{attempt.provider}</span>
+                                      <Badge
+                                        variant="outline"
+                                        className={`text-[10px] ${
+                                          attempt.outcome === "success"
+                                            ? "text-emerald-600 border-emerald-200"
+                                            : attempt.outcome === "error"
+                                              ? "text-red-500 border-red-200"
+                                              : "text-amber-600 border-amber-200"
+                                        }`}
+                                      >
+                                        {attempt.outcome}
+                                      </Badge>
+                                      {attempt.httpStatus !== null && (
+                                        <span className="text-muted-foreground">HTTP {attempt.httpStatus}</span>
+                                      )}
+                                      {attempt.outcome !== "skipped" && (
+                                        <span className="text-muted-foreground">
+                                          {(attempt.latencyMs / 1000).toFixed(1)}s · {attempt.itemCount} items
+                                        </span>
+                                      )}
+                                      {attempt.failoverReason && (
+                                        <span className="text-muted-foreground">
+                                          → failover ({attempt.failoverReason.replace("_", " ")})
+                                        </span>
+                                      )}
+                                      {attempt.error && attempt.outcome !== "skipped" && (
+                                        <span
+                                          className="text-muted-foreground max-w-md truncate"
+                                          title={attempt.error}
+                                        >
+                                          {attempt.error}
+                                        </span>
+                                      )}
+                                    </li>
+                                  ))}
+                                </ol>
+                              )}
+                            </TableCell>
+                          </TableRow>
+                        )}
+                        </Fragment>
                       );
                     })}
                   </TableBody>
                 </Table>
               </div>
             </details>
+
+            {queue && queue.deadJobs.length > 0 && (
+              <details className="group">
+                <summary className="text-xs text-muted-foreground cursor-pointer hover:text-foreground transition-colors select-none">
+                  Dead-lettered jobs ({queue.deadJobs.length})
+                </summary>
+                <div className="mt-3">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Fandom</TableHead>
+                        <TableHead>Platform</TableHead>
+                        <TableHead>Last Error</TableHead>
+                        <TableHead className="text-right">Attempts</TableHead>
+                        <TableHead className="text-right" />
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {queue.deadJobs.map((job) => (
+                        <TableRow key={job.id}>
+                          <TableCell className="text-sm">
+                            {fandoms.find((f) => f.id === job.fandomId)?.name || "—"}
+                          </TableCell>
+                          <TableCell className="text-xs capitalize">
+                            {job.platform}
+                          </TableCell>
+                          <TableCell className="text-xs text-muted-foreground max-w-xs truncate" title={job.lastError || undefined}>
+                            {job.lastError || "—"}
+                          </TableCell>
+                          <TableCell className="text-right text-xs">
+                            {job.attempts}/{job.maxAttempts}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              className="h-6 text-[10px]"
+                              disabled={retryingJobId === job.id}
+                              onClick={() => handleRetryJob(job.id)}
+                            >
+                              Retry
+                            </Button>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              </details>
+            )}
           </CardContent>
         </Card>
         );
       })()}
 
+      <ScrapeSchedulePanel fandoms={fandoms} />
+
+      <QuarantinePanel />
+
+      <MetricBackfillUpload />
+
+      <PayloadDriftPanel />
+
+      <ProviderHealthPanel />
+
+      <ProviderSpendPanel />
+
+      <ProviderRoutingPanel fandoms={fandoms} />
+
+      <IngestAgentsPanel />
+
       <Card>
         <CardHeader>
           <CardTitle className="text-sm">Data Pipeline Configuration</CardTitle>
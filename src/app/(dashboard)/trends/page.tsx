@@ -1,6 +1,6 @@
 "use client";
 
-import { useEffect, useMemo, useState } from "react";
+import { useCallback, useEffect, useMemo, useState } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Skeleton } from "@/components/ui/skeleton";
 import {
@@ -11,6 +11,11 @@ import {
 import { Line, LineChart, CartesianGrid, XAxis, YAxis } from "recharts";
 import { AIInsightCard } from "@/components/dashboard/ai-insight-card";
 import { TrendsUpload } from "@/components/dashboard/trends-upload";
+import { RelatedSearchesPanel } from "@/components/dashboard/related-searches-panel";
+import { CountryTrendsTable } from "@/components/dashboard/country-trends-table";
+import { DEFAULT_TRENDS_GEO } from "@/lib/constants";
+import { trendsGeoName } from "@/lib/utils/trends-geos";
+import type { CountryTrend } from "@/types/fandom";
 
 // Deterministic color per fandom slug — stable across date ranges, add/delete
 function getFandomColor(slug: string): string {
@@ -32,46 +37,73 @@ interface TrendItem {
   date: string;
   interestValue: number;
   region: string;
+  anchorKeyword: string | null;
   fandomName: string;
   fandomSlug: string;
 }
 
+// days: 0 = all stored history
 const DATE_RANGES = [
   { label: "7 days", days: 7 },
   { label: "30 days", days: 30 },
   { label: "90 days", days: 90 },
+  { label: "6 months", days: 182 },
+  { label: "12 months", days: 365 },
+  { label: "All", days: 0 },
 ] as const;
 
+function rangeStart(days: number): string | null {
+  if (days === 0) return null;
+  const cutoff = new Date();
+  cutoff.setDate(cutoff.getDate() - days);
+  return cutoff.toISOString().split("T")[0];
+}
+
 export default function TrendsPage() {
   const [trends, setTrends] = useState<TrendItem[]>([]);
   const [loading, setLoading] = useState(true);
   const [rangeDays, setRangeDays] = useState<number>(90);
+  const [region, setRegion] = useState<string>(DEFAULT_TRENDS_GEO);
+  const [countries, setCountries] = useState<{ geos: { geo: string; name: string }[]; fandoms: CountryTrend[] }>({
+    geos: [],
+    fandoms: [],
+  });
 
-  const loadTrends = () => {
-    setLoading(true);
-    fetch("/api/trends")
-      .then((r) => r.json())
-      .then((data) => {
-        if (Array.isArray(data)) setTrends(data);
-        setLoading(false);
-      })
-      .catch(() => setLoading(false));
-  };
+  // Only the selected range and country are fetched; history can run well past a year
+  const loadTrends = useCallback(async () => {
+    const from = rangeStart(rangeDays);
+    try {
+      const [data, byCountry] = await Promise.all([
+        fetch(`/api/trends?limit=50000&region=${region}${from ? `&from=${from}` : ""}`).then((r) => r.json()),
+        fetch(`/api/trends/countries${from ? `?from=${from}` : ""}`).then((r) => r.json()),
+      ]);
+      if (Array.isArray(data)) setTrends(data);
+      if (Array.isArray(byCountry.geos)) setCountries(byCountry);
+    } catch {
+      // ignore
+    } finally {
+      setLoading(false);
+    }
+  }, [rangeDays, region]);
 
   useEffect(() => {
     loadTrends();
-  }, []);
+  }, [loadTrends]);
 
-  // Filter trends by selected date range
+  // Filter trends by selected country and date range (the previous selection's data shows until the new one loads)
   const filteredTrends = useMemo(() => {
-    const cutoff = new Date();
-    cutoff.setDate(cutoff.getDate() - rangeDays);
-    const cutoffStr = cutoff.toISOString().split("T")[0];
-    return trends.filter((t) => t.date >= cutoffStr);
-  }, [trends, rangeDays]);
+    const from = rangeStart(rangeDays);
+    return trends.filter((t) => t.region === region && (!from || t.date >= from));
+  }, [trends, rangeDays, region]);
 
-  // Build from ALL trends (not filtered) so slug list + colors are stable across date ranges
-  // Also capture the simplified keyword used for Google Trends search
+  // Countries with stored series; the selected one stays listed while it has none
+  const geoOptions = useMemo(() => {
+    const geos = countries.geos.map((g) => g.geo);
+    return geos.includes(region) ? geos : [region, ...geos];
+  }, [countries, region]);
+
+  // Build from ALL trends (not filtered) so slug list + colors are stable across date ranges.
+  // The API returns one series per fandom, under its current Trends query, shown in the legend
   const allFandomSlugs = useMemo(() => {
     const map = new Map<string, { name: string; keyword: string }>();
     trends.forEach((t) => {
@@ -130,6 +162,12 @@ export default function TrendsPage() {
     return sorted;
   }, [filteredTrends, fandomSlugs]);
 
+  // Scraped series share one index, anchored on a keyword in every batch
+  const anchorKeyword = useMemo(
+    () => filteredTrends.find((t) => t.anchorKeyword)?.anchorKeyword ?? null,
+    [filteredTrends]
+  );
+
   const chartConfig = Object.fromEntries(
     fandomSlugs.map(([slug, name, keyword]) => [
       slug,
@@ -151,11 +189,26 @@ export default function TrendsPage() {
 
   return (
     <div className="space-y-6">
-      <div>
-        <h1 className="text-2xl font-bold">Trends</h1>
-        <p className="text-sm text-muted-foreground mt-1">
-          Google Trends interest comparison across Philippine fandoms
-        </p>
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold">Trends</h1>
+          <p className="text-sm text-muted-foreground mt-1">
+            Google Trends interest comparison across fandoms in {trendsGeoName(region)}
+          </p>
+        </div>
+        {geoOptions.length > 1 && (
+          <select
+            value={region}
+            onChange={(e) => setRegion(e.target.value)}
+            className="h-8 rounded-md border border-input bg-background px-2 text-sm"
+          >
+            {geoOptions.map((geo) => (
+              <option key={geo} value={geo}>
+                {trendsGeoName(geo)}
+              </option>
+            ))}
+          </select>
+        )}
       </div>
 
       <AIInsightCard
@@ -168,12 +221,14 @@ export default function TrendsPage() {
         ]}
       />
 
-      <TrendsUpload onUploadComplete={loadTrends} />
+      <TrendsUpload onUploadComplete={loadTrends} region={region} />
 
       {trends.length === 0 ? (
         <Card>
           <CardContent className="py-12 text-center text-muted-foreground">
-            No Google Trends data available yet. Upload a CSV from Google Trends or run a scrape from Settings.
+            {region === DEFAULT_TRENDS_GEO
+              ? "No Google Trends data available yet. Upload a CSV from Google Trends or run a scrape from Settings."
+              : `No Google Trends data for ${trendsGeoName(region)} yet. Add it to a fandom's Trends countries and run a scrape from Settings.`}
           </CardContent>
         </Card>
       ) : (
@@ -181,7 +236,7 @@ export default function TrendsPage() {
           <Card>
             <CardHeader className="flex flex-row items-center justify-between">
               <CardTitle className="text-sm">
-                Interest Over Time ({rangeDays} days)
+                Interest Over Time ({DATE_RANGES.find((r) => r.days === rangeDays)?.label})
               </CardTitle>
               <div className="flex gap-1">
                 {DATE_RANGES.map((r) => (
@@ -200,6 +255,12 @@ export default function TrendsPage() {
               </div>
             </CardHeader>
             <CardContent>
+              {anchorKeyword && (
+                <p className="text-xs text-muted-foreground mb-3">
+                  Every comparison batch includes &ldquo;{anchorKeyword}&rdquo;, so all fandoms share one scale.
+                  The highest point in the selected range is 100.
+                </p>
+              )}
               <ChartContainer
                 config={chartConfig}
                 className="h-[400px] w-full"
@@ -216,7 +277,9 @@ export default function TrendsPage() {
                     dataKey="date"
                     tickFormatter={(v) => {
                       const d = new Date(v);
-                      return `${d.getMonth() + 1}/${d.getDate()}`;
+                      return rangeDays === 0 || rangeDays > 120
+                        ? d.toLocaleDateString("en-PH", { month: "short", year: "2-digit" })
+                        : `${d.getMonth() + 1}/${d.getDate()}`;
                     }}
                     className="text-xs"
                   />
@@ -255,6 +318,10 @@ export default function TrendsPage() {
           </div>
         </>
       )}
+
+      {countries.geos.length > 1 && <CountryTrendsTable geos={countries.geos} fandoms={countries.fandoms} />}
+
+      <RelatedSearchesPanel key={region} geos={[region]} />
     </div>
   );
 }
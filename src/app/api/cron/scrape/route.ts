@@ -1,8 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
-import { scrapeAllFandoms } from "@/lib/services/scrape.service";
+import { enqueueAllFandoms } from "@/lib/services/scrape.service";
 
 export const dynamic = "force-dynamic";
-export const maxDuration = 300;
 
 export async function GET(req: NextRequest) {
   const authHeader = req.headers.get("authorization");
@@ -12,20 +11,21 @@ export async function GET(req: NextRequest) {
   }
 
   try {
-    console.log("[Cron] Starting scheduled scrape for all fandoms");
-    const results = await scrapeAllFandoms();
-    const succeeded = results.filter((r) => r.success).length;
+    console.log("[Cron] Enqueueing scheduled scrape for all fandoms");
+    const { batchId, enqueued, skipped } = await enqueueAllFandoms("cron");
     console.log(
-      `[Cron] Scheduled scrape completed: ${succeeded}/${results.length} runs succeeded`
+      `[Cron] Enqueued ${enqueued} jobs (${skipped} already pending) in batch ${batchId}`
     );
 
-    return NextResponse.json({
-      success: true,
-      total: results.length,
-      succeeded,
-      failed: results.length - succeeded,
-      results,
-    });
+    return NextResponse.json(
+      {
+        success: true,
+        batchId,
+        enqueued,
+        skipped,
+      },
+      { status: 202 }
+    );
   } catch (error) {
     console.error("[Cron] Scheduled scrape failed:", error);
     return NextResponse.json(
@@ -4,6 +4,7 @@ import { aiDiscoveredFandoms, fandoms, fandomPlatforms } from "@/lib/db/schema";
 import { eq } from "drizzle-orm";
 import type { Platform } from "@/types/fandom";
 import { VALID_PLATFORMS } from "@/lib/constants";
+import { defaultHandleRole } from "@/lib/utils/accounts";
 
 export const dynamic = "force-dynamic";
 
@@ -127,12 +128,16 @@ export async function PATCH(
 
       const followers = platformFollowers.get(platform) || 0;
 
-      await db.insert(fandomPlatforms).values({
-        fandomId: newFandom.id,
-        platform: platform as Platform,
-        handle,
-        followers,
-      });
+      await db
+        .insert(fandomPlatforms)
+        .values({
+          fandomId: newFandom.id,
+          platform: platform as Platform,
+          handle,
+          role: defaultHandleRole(platform as Platform),
+          followers,
+        })
+        .onConflictDoNothing();
     }
 
     // Update discovery record
@@ -0,0 +1,116 @@
+import { NextResponse } from "next/server";
+import { db } from "@/lib/db";
+import { fandoms } from "@/lib/db/schema";
+import { eq } from "drizzle-orm";
+import { VALID_PLATFORMS } from "@/lib/constants";
+import {
+  KEYWORD_TYPES,
+  normalizeKeywordValue,
+  addFandomKeyword,
+  setFandomKeywordEnabled,
+  deleteFandomKeyword,
+} from "@/lib/services/keyword.service";
+
+export const dynamic = "force-dynamic";
+
+/** The fandomId route param is the slug */
+async function findFandomId(slug: string): Promise<string | null> {
+  const rows = await db
+    .select({ id: fandoms.id })
+    .from(fandoms)
+    .where(eq(fandoms.slug, slug))
+    .limit(1);
+
+  return rows[0]?.id ?? null;
+}
+
+/**
+ * POST { platform, type: "hashtag" | "search", value }: track a keyword.
+ * It is scraped with the fandom's next scrape of that platform.
+ */
+export async function POST(
+  req: Request,
+  { params }: { params: Promise<{ fandomId: string }> }
+) {
+  const { fandomId } = await params;
+  const body = await req.json().catch(() => ({}));
+  const { platform, type, value } = body;
+
+  if (!VALID_PLATFORMS.includes(platform)) {
+    return NextResponse.json({ error: `Invalid platform: ${platform}` }, { status: 400 });
+  }
+  if (!KEYWORD_TYPES.includes(type)) {
+    return NextResponse.json({ error: "type must be hashtag or search" }, { status: 400 });
+  }
+  if (typeof value !== "string" || !normalizeKeywordValue(type, value)) {
+    return NextResponse.json({ error: "value is required" }, { status: 400 });
+  }
+
+  try {
+    const id = await findFandomId(fandomId);
+    if (!id) {
+      return NextResponse.json({ error: "Fandom not found" }, { status: 404 });
+    }
+
+    const keyword = await addFandomKeyword(id, { platform, type, value });
+    if (!keyword) {
+      return NextResponse.json({ error: "Keyword is already tracked" }, { status: 409 });
+    }
+
+    return NextResponse.json(keyword, { status: 201 });
+  } catch (error) {
+    console.error("Failed to add keyword:", error);
+    return NextResponse.json({ error: "Failed to add keyword" }, { status: 500 });
+  }
+}
+
+/** PATCH { id, enabled }: pause or resume scraping a keyword */
+export async function PATCH(
+  req: Request,
+  { params }: { params: Promise<{ fandomId: string }> }
+) {
+  const { fandomId } = await params;
+  const body = await req.json().catch(() => ({}));
+  const { id: keywordId, enabled } = body;
+
+  if (!keywordId || typeof enabled !== "boolean") {
+    return NextResponse.json({ error: "id and enabled are required" }, { status: 400 });
+  }
+
+  try {
+    const id = await findFandomId(fandomId);
+    if (!id || !(await setFandomKeywordEnabled(id, keywordId, enabled))) {
+      return NextResponse.json({ error: "Keyword not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Failed to update keyword:", error);
+    return NextResponse.json({ error: "Failed to update keyword" }, { status: 500 });
+  }
+}
+
+/** DELETE ?id=: stop tracking a keyword; content it found is kept */
+export async function DELETE(
+  req: Request,
+  { params }: { params: Promise<{ fandomId: string }> }
+) {
+  const { fandomId } = await params;
+  const keywordId = new URL(req.url).searchParams.get("id");
+
+  if (!keywordId) {
+    return NextResponse.json({ error: "id is required" }, { status: 400 });
+  }
+
+  try {
+    const id = await findFandomId(fandomId);
+    if (!id || !(await deleteFandomKeyword(id, keywordId))) {
+      return NextResponse.json({ error: "Keyword not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Failed to delete keyword:", error);
+    return NextResponse.json({ error: "Failed to delete keyword" }, { status: 500 });
+  }
+}
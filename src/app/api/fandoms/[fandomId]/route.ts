@@ -3,7 +3,9 @@ import { db } from "@/lib/db";
 import { fandoms, fandomPlatforms } from "@/lib/db/schema";
 import { eq, and } from "drizzle-orm";
 import { getFandomBySlug } from "@/lib/services/fandom.service";
-import { VALID_PLATFORMS } from "@/lib/constants";
+import { VALID_PLATFORMS, HANDLE_ROLES, MIN_SCRAPE_ITEM_CAP, MAX_SCRAPE_ITEM_CAP, MAX_SCRAPE_COMMENT_POSTS, MAX_TRENDS_GEOS } from "@/lib/constants";
+import { accountKey, defaultHandleRole } from "@/lib/utils/accounts";
+import { normalizeTrendsGeos } from "@/lib/utils/trends-geos";
 
 export const dynamic = "force-dynamic";
 
@@ -41,7 +43,7 @@ export async function PUT(
 
   try {
     const body = await req.json();
-    const { name, tier, description, fandomGroup, demographicTags, platforms } = body;
+    const { name, tier, description, fandomGroup, demographicTags, platforms, scrapeItemCap, scrapeCommentPosts, trendsGeos } = body;
 
     // Look up fandom by slug (fandomId param is the slug)
     const rows = await db
@@ -65,9 +67,43 @@ export async function PUT(
             { status: 400 }
           );
         }
+        if (p.role && !HANDLE_ROLES.includes(p.role)) {
+          return NextResponse.json(
+            { error: `Invalid role: ${p.role}` },
+            { status: 400 }
+          );
+        }
       }
     }
 
+    if (
+      scrapeItemCap !== undefined &&
+      (!Number.isInteger(scrapeItemCap) || scrapeItemCap < MIN_SCRAPE_ITEM_CAP || scrapeItemCap > MAX_SCRAPE_ITEM_CAP)
+    ) {
+      return NextResponse.json(
+        { error: `scrapeItemCap must be a whole number from ${MIN_SCRAPE_ITEM_CAP} to ${MAX_SCRAPE_ITEM_CAP}` },
+        { status: 400 }
+      );
+    }
+
+    if (
+      scrapeCommentPosts !== undefined &&
+      (!Number.isInteger(scrapeCommentPosts) || scrapeCommentPosts < 0 || scrapeCommentPosts > MAX_SCRAPE_COMMENT_POSTS)
+    ) {
+      return NextResponse.json(
+        { error: `scrapeCommentPosts must be a whole number from 0 to ${MAX_SCRAPE_COMMENT_POSTS}` },
+        { status: 400 }
+      );
+    }
+
+    const geos = trendsGeos !== undefined ? normalizeTrendsGeos(trendsGeos) : undefined;
+    if (geos === null) {
+      return NextResponse.json(
+        { error: `trendsGeos must list 1 to ${MAX_TRENDS_GEOS} two-letter country codes` },
+        { status: 400 }
+      );
+    }
+
     // Build update fields
     const updates: Record<string, unknown> = { updatedAt: new Date() };
     if (name !== undefined) updates.name = name;
@@ -75,6 +111,9 @@ export async function PUT(
     if (description !== undefined) updates.description = description || null;
     if (fandomGroup !== undefined) updates.fandomGroup = fandomGroup || null;
     if (demographicTags !== undefined) updates.demographicTags = demographicTags;
+    if (scrapeItemCap !== undefined) updates.scrapeItemCap = scrapeItemCap;
+    if (scrapeCommentPosts !== undefined) updates.scrapeCommentPosts = scrapeCommentPosts;
+    if (geos !== undefined) updates.trendsGeos = geos;
 
     const [updated] = await db
       .update(fandoms)
@@ -82,18 +121,23 @@ export async function PUT(
       .where(eq(fandoms.id, id))
       .returning();
 
-    // Replace platforms if provided
+    // Replace platforms if provided; a platform may list several handles,
+    // and a repeated handle keeps its first entry
     if (platforms && Array.isArray(platforms)) {
       await db.delete(fandomPlatforms).where(eq(fandomPlatforms.fandomId, id));
       for (const p of platforms) {
         if (p.platform && p.handle) {
-          await db.insert(fandomPlatforms).values({
-            fandomId: id,
-            platform: p.platform,
-            handle: p.handle,
-            followers: p.followers || 0,
-            url: p.url || null,
-          });
+          await db
+            .insert(fandomPlatforms)
+            .values({
+              fandomId: id,
+              platform: p.platform,
+              handle: p.handle.replace(/^@/, ""),
+              role: p.role || defaultHandleRole(p.platform),
+              followers: p.followers || 0,
+              url: p.url || null,
+            })
+            .onConflictDoNothing();
         }
       }
     }
@@ -117,16 +161,20 @@ export async function PATCH(
 
   try {
     const body = await req.json();
-    const { platform, handle, followers } = body;
+    const { id: platformId, platform, handle, role, followers } = body;
 
-    if (!platform) {
-      return NextResponse.json({ error: "platform required" }, { status: 400 });
+    if (!platformId && !platform) {
+      return NextResponse.json({ error: "id or platform required" }, { status: 400 });
     }
 
-    if (!VALID_PLATFORMS.includes(platform)) {
+    if (platform && !VALID_PLATFORMS.includes(platform)) {
       return NextResponse.json({ error: `Invalid platform: ${platform}` }, { status: 400 });
     }
 
+    if (role !== undefined && !HANDLE_ROLES.includes(role)) {
+      return NextResponse.json({ error: `Invalid role: ${role}` }, { status: 400 });
+    }
+
     // Look up fandom by slug
     const rows = await db
       .select({ id: fandoms.id })
@@ -140,13 +188,54 @@ export async function PATCH(
 
     const id = rows[0].id;
 
-    // Update the specific platform (handle and/or followers)
+    // Update one account (handle, role and/or followers). By platform alone
+    // only when that platform has a single account.
+    const target = platformId
+      ? and(eq(fandomPlatforms.fandomId, id), eq(fandomPlatforms.id, platformId))
+      : and(eq(fandomPlatforms.fandomId, id), eq(fandomPlatforms.platform, platform));
+    if (!platformId) {
+      const accounts = await db
+        .select({ id: fandomPlatforms.id })
+        .from(fandomPlatforms)
+        .where(target);
+      if (accounts.length > 1) {
+        return NextResponse.json(
+          { error: `${platform} has several handles; pass the handle's id` },
+          { status: 400 }
+        );
+      }
+    }
+
+    // A handle that is another account's ("@bini_ph" next to "bini_ph") is refused
+    if (handle !== undefined) {
+      const [current] = await db
+        .select({ id: fandomPlatforms.id, platform: fandomPlatforms.platform })
+        .from(fandomPlatforms)
+        .where(target)
+        .limit(1);
+      if (current) {
+        const siblings = await db
+          .select({ id: fandomPlatforms.id, handle: fandomPlatforms.handle })
+          .from(fandomPlatforms)
+          .where(and(eq(fandomPlatforms.fandomId, id), eq(fandomPlatforms.platform, current.platform)));
+        if (siblings.some((s) => s.id !== current.id && accountKey(s.handle) === accountKey(handle))) {
+          return NextResponse.json(
+            { error: `${current.platform} already has the account ${handle}` },
+            { status: 409 }
+          );
+        }
+      }
+    }
+
     const updateData: Record<string, unknown> = {};
     if (handle !== undefined) {
       updateData.handle = handle.replace("@", "");
       updateData.verified = null;
       updateData.verifiedAt = null;
     }
+    if (role !== undefined) {
+      updateData.role = role;
+    }
     if (followers !== undefined) {
       updateData.followers = parseInt(followers) || 0;
     }
@@ -156,12 +245,7 @@ export async function PATCH(
     const result = await db
       .update(fandomPlatforms)
       .set(updateData)
-      .where(
-        and(
-          eq(fandomPlatforms.fandomId, id),
-          eq(fandomPlatforms.platform, platform)
-        )
-      )
+      .where(target)
       .returning();
 
     if (result.length === 0) {
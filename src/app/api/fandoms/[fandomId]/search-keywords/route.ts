@@ -0,0 +1,114 @@
+import { NextResponse } from "next/server";
+import { db } from "@/lib/db";
+import { fandoms } from "@/lib/db/schema";
+import { eq } from "drizzle-orm";
+import { suggestSearchKeywords } from "@/lib/services/ai.service";
+import { defaultSearchKeywords, normalizeSearchKeywords } from "@/lib/utils/search-keywords";
+
+export const dynamic = "force-dynamic";
+
+/** The fandomId route param is the slug */
+async function findFandom(slug: string) {
+  const rows = await db
+    .select({
+      id: fandoms.id,
+      name: fandoms.name,
+      fandomGroup: fandoms.fandomGroup,
+      description: fandoms.description,
+    })
+    .from(fandoms)
+    .where(eq(fandoms.slug, slug))
+    .limit(1);
+
+  return rows[0] ?? null;
+}
+
+/**
+ * PUT { primary, aliases, disambiguated, excluded }: save the fandom's Google
+ * Trends search keywords. A new query starts a new trend series.
+ */
+export async function PUT(
+  req: Request,
+  { params }: { params: Promise<{ fandomId: string }> }
+) {
+  const { fandomId } = await params;
+  const body = await req.json().catch(() => ({}));
+  const searchKeywords = normalizeSearchKeywords(body);
+
+  if (!searchKeywords) {
+    return NextResponse.json(
+      { error: "primary is required; aliases, disambiguated and excluded must be string arrays" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const fandom = await findFandom(fandomId);
+    if (!fandom) {
+      return NextResponse.json({ error: "Fandom not found" }, { status: 404 });
+    }
+
+    await db
+      .update(fandoms)
+      .set({ searchKeywords, updatedAt: new Date() })
+      .where(eq(fandoms.id, fandom.id));
+
+    return NextResponse.json(searchKeywords);
+  } catch (error) {
+    console.error("Failed to save search keywords:", error);
+    return NextResponse.json({ error: "Failed to save search keywords" }, { status: 500 });
+  }
+}
+
+/** POST: an AI suggestion for the fandom's search keywords; nothing is saved */
+export async function POST(
+  _req: Request,
+  { params }: { params: Promise<{ fandomId: string }> }
+) {
+  const { fandomId } = await params;
+
+  try {
+    const fandom = await findFandom(fandomId);
+    if (!fandom) {
+      return NextResponse.json({ error: "Fandom not found" }, { status: 404 });
+    }
+
+    const suggestion = await suggestSearchKeywords(fandom.name, {
+      fandomGroup: fandom.fandomGroup,
+      description: fandom.description,
+    });
+    if (!suggestion) {
+      return NextResponse.json({ error: "No suggestion available (is OPENAI_API_KEY set?)" }, { status: 503 });
+    }
+
+    return NextResponse.json(suggestion);
+  } catch (error) {
+    console.error("Failed to suggest search keywords:", error);
+    return NextResponse.json({ error: "Failed to suggest search keywords" }, { status: 500 });
+  }
+}
+
+/** DELETE: clear the configured keywords; the defaults for the name apply again */
+export async function DELETE(
+  _req: Request,
+  { params }: { params: Promise<{ fandomId: string }> }
+) {
+  const { fandomId } = await params;
+
+  try {
+    const fandom = await findFandom(fandomId);
+    if (!fandom) {
+      return NextResponse.json({ error: "Fandom not found" }, { status: 404 });
+    }
+
+    await db
+      .update(fandoms)
+      .set({ searchKeywords: null, updatedAt: new Date() })
+      .where(eq(fandoms.id, fandom.id));
+
+    return NextResponse.json(defaultSearchKeywords(fandom.name));
+  } catch (error) {
+    console.error("Failed to reset search keywords:", error);
+    return NextResponse.json({ error: "Failed to reset search keywords" }, { status: 500 });
+  }
+}
@@ -1,13 +1,15 @@
 import { NextRequest, NextResponse } from "next/server";
-import { after } from "next/server";
 import { db } from "@/lib/db";
 import { fandoms, fandomPlatforms } from "@/lib/db/schema";
 import { eq } from "drizzle-orm";
 import { getAllFandoms } from "@/lib/services/fandom.service";
-import { scrapeAllPlatformsForFandom } from "@/lib/services/scrape.service";
-import { researchSingleFandom } from "@/lib/services/ai.service";
-import type { Platform } from "@/types/fandom";
-import { VALID_PLATFORMS } from "@/lib/constants";
+import { enqueueFandomScrape } from "@/lib/services/scrape.service";
+import { researchSingleFandom, suggestSearchKeywords } from "@/lib/services/ai.service";
+import type { FandomSearchKeywords, HandleRole, Platform } from "@/types/fandom";
+import { VALID_PLATFORMS, HANDLE_ROLES, MAX_TRENDS_GEOS } from "@/lib/constants";
+import { defaultHandleRole } from "@/lib/utils/accounts";
+import { defaultSearchKeywords, normalizeSearchKeywords } from "@/lib/utils/search-keywords";
+import { normalizeTrendsGeos } from "@/lib/utils/trends-geos";
 
 export const dynamic = "force-dynamic";
 
@@ -48,6 +50,25 @@ export async function POST(req: NextRequest) {
       );
     }
 
+    let searchKeywords: FandomSearchKeywords | null = null;
+    if (body.searchKeywords !== undefined) {
+      searchKeywords = normalizeSearchKeywords(body.searchKeywords);
+      if (!searchKeywords) {
+        return NextResponse.json(
+          { error: "searchKeywords needs a primary term and string arrays" },
+          { status: 400 }
+        );
+      }
+    }
+
+    const trendsGeos = body.trendsGeos !== undefined ? normalizeTrendsGeos(body.trendsGeos) : undefined;
+    if (trendsGeos === null) {
+      return NextResponse.json(
+        { error: `trendsGeos must list 1 to ${MAX_TRENDS_GEOS} two-letter country codes` },
+        { status: 400 }
+      );
+    }
+
     // Generate slug from name
     const slug = name
       .toLowerCase()
@@ -75,13 +96,15 @@ export async function POST(req: NextRequest) {
       description: string | null;
       fandomGroup: string | null;
       demographicTags: string[];
+      searchKeywords?: FandomSearchKeywords;
+      trendsGeos?: string[];
       aiKeyBehavior?: string | null;
       aiEngagementPotential?: string | null;
       aiCommunityTone?: string | null;
       aiRationale?: string | null;
       aiGeneratedAt?: Date | null;
     };
-    let platformsToInsert: Array<{ platform: string; handle: string; followers: number }> = [];
+    let platformsToInsert: Array<{ platform: string; handle: string; role?: string; followers: number }> = [];
 
     // AI Research mode: Let AI fill in all the details
     if (useAIResearch) {
@@ -136,14 +159,28 @@ export async function POST(req: NextRequest) {
       if (platforms && Array.isArray(platforms)) {
         platformsToInsert = platforms
           .filter((p: { platform: string; handle: string }) => p.platform && p.handle?.trim())
-          .map((p: { platform: string; handle: string; followers?: number }) => ({
+          .map((p: { platform: string; handle: string; role?: string; followers?: number }) => ({
             platform: p.platform,
             handle: p.handle,
+            role: p.role,
             followers: p.followers || 0,
           }));
       }
     }
 
+    // Search keywords not given are suggested by AI, else derived from the name
+    if (!searchKeywords) {
+      searchKeywords = await suggestSearchKeywords(fandomData.name, {
+        fandomGroup: fandomData.fandomGroup,
+        description: fandomData.description,
+      }).catch((error) => {
+        console.error(`[AI] Search keyword suggestion failed for ${fandomData.name}:`, error);
+        return null;
+      });
+    }
+    fandomData.searchKeywords = searchKeywords ?? defaultSearchKeywords(fandomData.name);
+    if (trendsGeos) fandomData.trendsGeos = trendsGeos;
+
     // Insert fandom
     const [newFandom] = await db
       .insert(fandoms)
@@ -158,26 +195,26 @@ export async function POST(req: NextRequest) {
       if (!validPlatforms.includes(p.platform as Platform)) {
         continue;
       }
-      await db.insert(fandomPlatforms).values({
-        fandomId: newFandom.id,
-        platform: p.platform as Platform,
-        handle: p.handle,
-        followers: p.followers,
-        url: null,
-      });
+      await db
+        .insert(fandomPlatforms)
+        .values({
+          fandomId: newFandom.id,
+          platform: p.platform as Platform,
+          handle: p.handle.replace(/^@/, ""),
+          role: HANDLE_ROLES.includes(p.role as HandleRole)
+            ? (p.role as HandleRole)
+            : defaultHandleRole(p.platform as Platform),
+          followers: p.followers,
+          url: null,
+        })
+        .onConflictDoNothing();
       insertedPlatforms.push({ platform: p.platform, handle: p.handle });
     }
 
-    // Trigger background scraping if requested and there are platforms to scrape
+    // Queue scraping if requested and there are platforms to scrape
     if (scrapeImmediately && insertedPlatforms.length > 0) {
-      after(async () => {
-        console.log(`[Auto Scrape] Starting scrape for newly added fandom: ${newFandom.name}`);
-        const results = await scrapeAllPlatformsForFandom(newFandom.id);
-        const succeeded = results.filter((r) => r.success).length;
-        console.log(
-          `[Auto Scrape] Completed ${newFandom.name}: ${succeeded}/${results.length} platforms succeeded`
-        );
-      });
+      const { enqueued } = await enqueueFandomScrape(newFandom.id, "fandom_created");
+      console.log(`[Auto Scrape] Enqueued ${enqueued} platform jobs for newly added fandom: ${newFandom.name}`);
     }
 
     return NextResponse.json(
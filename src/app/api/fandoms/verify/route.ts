@@ -7,6 +7,8 @@ export const dynamic = "force-dynamic";
 export const maxDuration = 60;
 
 interface HandleCheck {
+  /** fandom_platforms row, when checking a tracked fandom's handles */
+  id?: string;
   platform: string;
   handle: string;
   valid: boolean;
@@ -333,7 +335,7 @@ export async function POST(req: NextRequest) {
   try {
     const { fandomId, handles } = await req.json();
 
-    let toCheck: { platform: string; handle: string }[] = [];
+    let toCheck: { id?: string; platform: string; handle: string }[] = [];
     let dbFandomId: string | null = null;
 
     if (handles && Array.isArray(handles)) {
@@ -362,23 +364,22 @@ export async function POST(req: NextRequest) {
         return NextResponse.json({ error: "Fandom not found" }, { status: 404 });
       }
 
-      const platforms = await db
-        .select({ platform: fandomPlatforms.platform, handle: fandomPlatforms.handle })
+      toCheck = await db
+        .select({ id: fandomPlatforms.id, platform: fandomPlatforms.platform, handle: fandomPlatforms.handle })
         .from(fandomPlatforms)
         .where(eq(fandomPlatforms.fandomId, dbFandomId));
-      toCheck = platforms.map((p) => ({ platform: p.platform, handle: p.handle }));
     } else {
       return NextResponse.json({ error: "fandomId or handles required" }, { status: 400 });
     }
 
     // Run all checks in parallel
     const results = await Promise.all(
-      toCheck.map(async ({ platform, handle }) => {
+      toCheck.map(async ({ id, platform, handle }) => {
         const checker = checkers[platform];
         if (!checker) {
-          return { platform, handle, valid: true, error: "No checker for platform" } as HandleCheck;
+          return { id, platform, handle, valid: true, error: "No checker for platform" } as HandleCheck;
         }
-        return checker(handle);
+        return { id, ...(await checker(handle)) };
       })
     );
 
@@ -386,6 +387,8 @@ export async function POST(req: NextRequest) {
     if (dbFandomId) {
       const now = new Date();
       for (const r of results) {
+        const platformId = r.id;
+        if (!platformId) continue;
         const updateData: Record<string, any> = {
           verified: r.valid ? "valid" : "invalid",
           verifiedAt: now,
@@ -397,12 +400,7 @@ export async function POST(req: NextRequest) {
         await db
           .update(fandomPlatforms)
           .set(updateData)
-          .where(
-            and(
-              eq(fandomPlatforms.fandomId, dbFandomId),
-              eq(fandomPlatforms.platform, r.platform as any)
-            )
-          );
+          .where(and(eq(fandomPlatforms.fandomId, dbFandomId), eq(fandomPlatforms.id, platformId)));
       }
     }
 
@@ -431,7 +429,7 @@ export async function GET(req: NextRequest) {
 
     for (const fandom of allFandoms) {
       const platforms = await db
-        .select({ platform: fandomPlatforms.platform, handle: fandomPlatforms.handle })
+        .select({ id: fandomPlatforms.id, platform: fandomPlatforms.platform, handle: fandomPlatforms.handle })
         .from(fandomPlatforms)
         .where(eq(fandomPlatforms.fandomId, fandom.id));
 
@@ -444,7 +442,7 @@ export async function GET(req: NextRequest) {
       );
 
       // Persist
-      for (const r of results) {
+      for (const [i, r] of results.entries()) {
         const updateData: Record<string, any> = {
           verified: r.valid ? "valid" : "invalid",
           verifiedAt: now,
@@ -455,12 +453,7 @@ export async function GET(req: NextRequest) {
         await db
           .update(fandomPlatforms)
           .set(updateData)
-          .where(
-            and(
-              eq(fandomPlatforms.fandomId, fandom.id),
-              eq(fandomPlatforms.platform, r.platform as any)
-            )
-          );
+          .where(eq(fandomPlatforms.id, platforms[i].id));
       }
 
       allResults.push({ fandom: fandom.name, results });
@@ -0,0 +1,102 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  listIngestAgents,
+  createIngestAgent,
+  setIngestAgentEnabled,
+  deleteIngestAgent,
+} from "@/lib/services/agent.service";
+import { VALID_PLATFORMS } from "@/lib/constants";
+import type { Platform } from "@/types/fandom";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * GET: registered push agents with their heartbeat status (secrets are never
+ * returned), the platforms routed to agents and their queued jobs
+ */
+export async function GET() {
+  try {
+    const summary = await listIngestAgents();
+    return NextResponse.json(summary);
+  } catch (error) {
+    console.error("Failed to fetch ingest agents:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch ingest agents" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST { name, platforms? }: register an agent. The response carries its
+ * secret, which is not shown again.
+ */
+export async function POST(req: NextRequest) {
+  const body = await req.json().catch(() => ({}));
+  const name = typeof body.name === "string" ? body.name.trim() : "";
+  const platforms = body.platforms ?? [];
+
+  if (!/^[a-z0-9][a-z0-9-]{0,39}$/.test(name)) {
+    return NextResponse.json(
+      { error: "name must be lowercase letters, digits and dashes (max 40)" },
+      { status: 400 }
+    );
+  }
+
+  if (!Array.isArray(platforms) || platforms.some((p: string) => !VALID_PLATFORMS.includes(p as Platform))) {
+    return NextResponse.json({ error: "platforms must be a list of valid platforms" }, { status: 400 });
+  }
+
+  try {
+    const created = await createIngestAgent(name, [...new Set(platforms as Platform[])]);
+    if (!created) {
+      return NextResponse.json({ error: `Agent ${name} already exists` }, { status: 409 });
+    }
+
+    return NextResponse.json(created, { status: 201 });
+  } catch (error) {
+    console.error("Failed to create ingest agent:", error);
+    return NextResponse.json({ error: "Failed to create ingest agent" }, { status: 500 });
+  }
+}
+
+/** PATCH { id, enabled }: disable or re-enable an agent's credentials */
+export async function PATCH(req: NextRequest) {
+  const body = await req.json().catch(() => ({}));
+  const { id, enabled } = body;
+
+  if (!id || typeof enabled !== "boolean") {
+    return NextResponse.json({ error: "id and enabled are required" }, { status: 400 });
+  }
+
+  try {
+    if (!(await setIngestAgentEnabled(id, enabled))) {
+      return NextResponse.json({ error: "Agent not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Failed to update ingest agent:", error);
+    return NextResponse.json({ error: "Failed to update ingest agent" }, { status: 500 });
+  }
+}
+
+/** DELETE ?id=: remove an agent; its past runs are kept */
+export async function DELETE(req: NextRequest) {
+  const id = new URL(req.url).searchParams.get("id");
+
+  if (!id) {
+    return NextResponse.json({ error: "id is required" }, { status: 400 });
+  }
+
+  try {
+    if (!(await deleteIngestAgent(id))) {
+      return NextResponse.json({ error: "Agent not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Failed to delete ingest agent:", error);
+    return NextResponse.json({ error: "Failed to delete ingest agent" }, { status: 500 });
+  }
+}
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authenticateAgentRequest, recordAgentHeartbeat } from "@/lib/services/agent.service";
+import { VALID_PLATFORMS } from "@/lib/constants";
+import type { AgentHeartbeat } from "@/lib/agents/types";
+import type { Platform } from "@/types/fandom";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * POST /api/ingest/heartbeat
+ *
+ * Signed like /api/ingest/push. Body: {
+ *   status: "idle" | "busy",
+ *   jobId?: string,            // the job being worked on; its lease is extended
+ *   capabilities: Platform[],  // platforms the agent can scrape
+ *   host?: string,
+ *   version?: string,
+ * }
+ */
+export async function POST(req: NextRequest) {
+  const raw = await req.text();
+
+  const agent = await authenticateAgentRequest(req.headers, raw);
+  if (!agent) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  let body: Partial<AgentHeartbeat>;
+  try {
+    body = JSON.parse(raw);
+  } catch {
+    return NextResponse.json({ error: "Body must be JSON" }, { status: 400 });
+  }
+
+  const { status, jobId, capabilities, host, version } = body;
+  if (status !== "idle" && status !== "busy") {
+    return NextResponse.json({ error: "status must be idle or busy" }, { status: 400 });
+  }
+
+  if (!Array.isArray(capabilities) || capabilities.some((p) => !VALID_PLATFORMS.includes(p as Platform))) {
+    return NextResponse.json({ error: "capabilities must be a list of valid platforms" }, { status: 400 });
+  }
+
+  try {
+    await recordAgentHeartbeat(agent, {
+      status,
+      jobId: typeof jobId === "string" ? jobId : null,
+      capabilities: [...new Set(capabilities)],
+      host: typeof host === "string" ? host.slice(0, 200) : undefined,
+      version: typeof version === "string" ? version.slice(0, 50) : undefined,
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error(`[Agent] Heartbeat failed for ${agent.name}:`, error);
+    return NextResponse.json({ error: "Failed to record heartbeat" }, { status: 500 });
+  }
+}
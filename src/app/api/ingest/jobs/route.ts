@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authenticateAgentRequest, finishAgentJob, leaseAgentJob } from "@/lib/services/agent.service";
+import { VALID_PLATFORMS } from "@/lib/constants";
+import type { AgentJobOutcome } from "@/lib/agents/types";
+import type { Platform } from "@/types/fandom";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * POST /api/ingest/jobs
+ *
+ * Lease the next queued scrape job for a platform routed to agents
+ * (AGENT_PLATFORMS). Signed like /api/ingest/push.
+ *
+ * Body: { capabilities: Platform[] }
+ * Returns { job: AgentJob | null }; the agent scrapes each target, pushes the
+ * items to /api/ingest/push with that target, then reports via PATCH.
+ */
+export async function POST(req: NextRequest) {
+  const raw = await req.text();
+
+  const agent = await authenticateAgentRequest(req.headers, raw);
+  if (!agent) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  let capabilities: unknown;
+  try {
+    capabilities = JSON.parse(raw).capabilities;
+  } catch {
+    return NextResponse.json({ error: "Body must be JSON" }, { status: 400 });
+  }
+
+  if (!Array.isArray(capabilities) || capabilities.some((p) => !VALID_PLATFORMS.includes(p as Platform))) {
+    return NextResponse.json({ error: "capabilities must be a list of valid platforms" }, { status: 400 });
+  }
+
+  try {
+    const job = await leaseAgentJob(agent, capabilities as Platform[]);
+    return NextResponse.json({ job });
+  } catch (error) {
+    console.error(`[Agent] Lease failed for ${agent.name}:`, error);
+    return NextResponse.json({ error: "Failed to lease job" }, { status: 500 });
+  }
+}
+
+/**
+ * PATCH /api/ingest/jobs
+ *
+ * Report a leased job's outcome: { jobId, success, error?, scrapeRunId? }.
+ * Failed jobs are retried with backoff like any other scrape job. 409 when
+ * the job is no longer leased to this agent.
+ */
+export async function PATCH(req: NextRequest) {
+  const raw = await req.text();
+
+  const agent = await authenticateAgentRequest(req.headers, raw);
+  if (!agent) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  let body: Partial<AgentJobOutcome>;
+  try {
+    body = JSON.parse(raw);
+  } catch {
+    return NextResponse.json({ error: "Body must be JSON" }, { status: 400 });
+  }
+
+  const { jobId, success, error, scrapeRunId } = body;
+  if (typeof jobId !== "string" || typeof success !== "boolean") {
+    return NextResponse.json({ error: "jobId and success are required" }, { status: 400 });
+  }
+
+  try {
+    const outcome = await finishAgentJob(agent, {
+      jobId,
+      success,
+      error: typeof error === "string" ? error.slice(0, 1000) : undefined,
+      scrapeRunId: typeof scrapeRunId === "string" ? scrapeRunId : undefined,
+    });
+    if (!outcome) {
+      return NextResponse.json({ error: "Job is not leased to this agent" }, { status: 409 });
+    }
+
+    return NextResponse.json({ success: true, outcome });
+  } catch (err) {
+    console.error(`[Agent] Failed to finish job ${jobId} for ${agent.name}:`, err);
+    return NextResponse.json({ error: "Failed to finish job" }, { status: 500 });
+  }
+}
@@ -0,0 +1,123 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authenticateAgentRequest, findFandomForPush, ingestAgentPush } from "@/lib/services/agent.service";
+import { VALID_PLATFORMS } from "@/lib/constants";
+import type { Platform, ScrapeTargetType } from "@/types/fandom";
+
+export const dynamic = "force-dynamic";
+
+const MAX_PUSH_ITEMS = 1000;
+const TARGET_TYPES: ScrapeTargetType[] = ["handle", "hashtag", "search"];
+
+/**
+ * POST /api/ingest/push
+ *
+ * Raw items from an external scraper agent, in the provider-normalized
+ * (Apify-shaped) form for the platform, ingested through the normal pipeline:
+ * normalization, dedup, account metrics, influencers and discovery.
+ *
+ * Headers: X-Agent-Id, X-Agent-Timestamp (Unix seconds) and X-Agent-Signature
+ * ("sha256=" + HMAC-SHA256 of "<timestamp>.<raw body>" with the agent's
+ * secret). See lib/agents/signing.ts.
+ *
+ * Body: {
+ *   fandomId: string,          // ID or slug
+ *   platform: Platform,
+ *   items: object[],           // at most 1000
+ *   target?: { type: "handle" | "hashtag" | "search", value: string },
+ * }
+ *
+ * Without a target the items count as the platform's account when the fandom
+ * has exactly one there.
+ */
+export async function POST(req: NextRequest) {
+  const raw = await req.text();
+
+  const agent = await authenticateAgentRequest(req.headers, raw);
+  if (!agent) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  let body: Record<string, unknown>;
+  try {
+    body = JSON.parse(raw);
+  } catch {
+    return NextResponse.json({ error: "Body must be JSON" }, { status: 400 });
+  }
+  const { fandomId, platform, items, target } = body as {
+    fandomId?: unknown;
+    platform?: unknown;
+    items?: unknown;
+    target?: { type?: unknown; value?: unknown };
+  };
+
+  if (typeof fandomId !== "string" || !fandomId || !Array.isArray(items)) {
+    return NextResponse.json({ error: "fandomId and items[] are required" }, { status: 400 });
+  }
+
+  if (!VALID_PLATFORMS.includes(platform as Platform)) {
+    return NextResponse.json({ error: `Invalid platform: ${platform}` }, { status: 400 });
+  }
+
+  if (agent.platforms.length > 0 && !agent.platforms.includes(platform as Platform)) {
+    return NextResponse.json({ error: `Agent ${agent.name} may not push ${platform}` }, { status: 403 });
+  }
+
+  if (items.length > MAX_PUSH_ITEMS) {
+    return NextResponse.json(
+      { error: `Too many items. Maximum ${MAX_PUSH_ITEMS} per request.` },
+      { status: 400 }
+    );
+  }
+
+  if (items.some((item) => !item || typeof item !== "object" || Array.isArray(item))) {
+    return NextResponse.json({ error: "items must be objects" }, { status: 400 });
+  }
+
+  if (
+    target !== undefined &&
+    (!TARGET_TYPES.includes(target?.type as ScrapeTargetType) || typeof target?.value !== "string" || !target.value.trim())
+  ) {
+    return NextResponse.json(
+      { error: "target must be { type: handle | hashtag | search, value }" },
+      { status: 400 }
+    );
+  }
+
+  const fandom = await findFandomForPush(fandomId);
+  if (!fandom) {
+    return NextResponse.json({ error: "Fandom not found" }, { status: 404 });
+  }
+
+  if (items.length === 0) {
+    return NextResponse.json({ success: true, itemsCount: 0 });
+  }
+
+  try {
+    const result = await ingestAgentPush(agent, {
+      fandomId: fandom.id,
+      platform: platform as Platform,
+      items: items as Record<string, unknown>[],
+      target: target
+        ? { type: target.type as ScrapeTargetType, value: (target.value as string).trim() }
+        : undefined,
+    });
+
+    console.log(`[Push] ${agent.name} → ${fandom.name} (${platform}): ${result.itemsCount} new of ${items.length} items`);
+
+    return NextResponse.json({
+      success: result.success,
+      scrapeRunId: result.scrapeRunId,
+      fandomId: fandom.id,
+      totalItems: items.length,
+      itemsCount: result.itemsCount,
+      influencerCount: result.influencerCount,
+      discoveries: result.discoveries.length > 0 ? result.discoveries : undefined,
+    });
+  } catch (error) {
+    console.error(`[Push] Failed for ${agent.name} → ${fandom.name} (${platform}):`, error);
+    return NextResponse.json(
+      { error: `Push failed: ${error instanceof Error ? error.message : "Unknown error"}` },
+      { status: 500 }
+    );
+  }
+}
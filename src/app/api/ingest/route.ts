@@ -44,7 +44,12 @@ export async function POST(req: NextRequest) {
     });
   } catch (error) {
     console.error("[Ingest] Failed:", error);
-    await updateScrapeRun(datasetId, "failed", 0);
+    await updateScrapeRun(
+      datasetId,
+      "failed",
+      0,
+      error instanceof Error ? error.message : "Ingest failed"
+    );
     return NextResponse.json(
       {
         error: "Ingest failed",
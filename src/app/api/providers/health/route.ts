@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAllProviderHealth, resetProviderCircuit } from "@/lib/providers";
+import type { ProviderName } from "@/lib/providers";
+import type { Platform } from "@/types/fandom";
+import { VALID_PLATFORMS } from "@/lib/constants";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * GET: rolling health and circuit state for every provider-platform pair.
+ */
+export async function GET() {
+  try {
+    const rows = await getAllProviderHealth();
+    return NextResponse.json(rows);
+  } catch (error) {
+    console.error("Failed to fetch provider health:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch provider health" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST { provider, platform }: manually close a tripped circuit.
+ */
+export async function POST(req: NextRequest) {
+  const body = await req.json().catch(() => ({}));
+  const { provider, platform } = body;
+
+  if (!provider || !platform) {
+    return NextResponse.json(
+      { error: "provider and platform are required" },
+      { status: 400 }
+    );
+  }
+
+  if (!VALID_PLATFORMS.includes(platform as Platform)) {
+    return NextResponse.json(
+      { error: `Invalid platform: ${platform}` },
+      { status: 400 }
+    );
+  }
+
+  const reset = await resetProviderCircuit(provider as ProviderName, platform as Platform);
+  if (!reset) {
+    return NextResponse.json({ error: "No health record for this provider" }, { status: 404 });
+  }
+
+  return NextResponse.json({ success: true });
+}
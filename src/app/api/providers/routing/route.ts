@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  PROVIDER_NAMES,
+  defaultProviderPriority,
+  isProviderName,
+  listProviderRoutes,
+  setProviderRoute,
+  deleteProviderRoute,
+} from "@/lib/providers";
+import type { Platform } from "@/types/fandom";
+import { VALID_PLATFORMS } from "@/lib/constants";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * GET: registered providers, built-in defaults, and all stored routes
+ * (global rows have fandomId = null, overrides carry a fandomId).
+ */
+export async function GET() {
+  try {
+    const routes = await listProviderRoutes();
+    return NextResponse.json({
+      providers: PROVIDER_NAMES,
+      defaults: defaultProviderPriority,
+      routes,
+    });
+  } catch (error) {
+    console.error("Failed to fetch provider routes:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch provider routes" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT { platform, providers: string[], fandomId? }: set the ordered provider
+ * list for a platform, globally or for one fandom.
+ */
+export async function PUT(req: NextRequest) {
+  const body = await req.json().catch(() => ({}));
+  const { platform, providers, fandomId } = body;
+
+  if (!VALID_PLATFORMS.includes(platform as Platform)) {
+    return NextResponse.json({ error: `Invalid platform: ${platform}` }, { status: 400 });
+  }
+
+  if (!Array.isArray(providers) || providers.length === 0) {
+    return NextResponse.json({ error: "providers must be a non-empty array" }, { status: 400 });
+  }
+
+  const unknown = providers.filter((p: string) => !isProviderName(p));
+  if (unknown.length > 0) {
+    return NextResponse.json({ error: `Unknown providers: ${unknown.join(", ")}` }, { status: 400 });
+  }
+
+  if (new Set(providers).size !== providers.length) {
+    return NextResponse.json({ error: "providers must not contain duplicates" }, { status: 400 });
+  }
+
+  try {
+    const route = await setProviderRoute(platform as Platform, providers, fandomId || null);
+    return NextResponse.json(route);
+  } catch (error) {
+    console.error("Failed to save provider route:", error);
+    return NextResponse.json(
+      { error: "Failed to save provider route" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE ?platform=&fandomId=: remove a route so it falls back to the
+ * global route (for overrides) or the built-in default (for global rows).
+ */
+export async function DELETE(req: NextRequest) {
+  const { searchParams } = new URL(req.url);
+  const platform = searchParams.get("platform");
+  const fandomId = searchParams.get("fandomId");
+
+  if (!VALID_PLATFORMS.includes(platform as Platform)) {
+    return NextResponse.json({ error: `Invalid platform: ${platform}` }, { status: 400 });
+  }
+
+  const deleted = await deleteProviderRoute(platform as Platform, fandomId);
+  if (!deleted) {
+    return NextResponse.json({ error: "Route not found" }, { status: 404 });
+  }
+
+  return NextResponse.json({ success: true });
+}
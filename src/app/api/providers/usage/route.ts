@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  isProviderName,
+  getProviderBudgetStatus,
+  getFandomCosts,
+  setProviderBudget,
+} from "@/lib/providers";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * GET ?month=YYYY-MM: spend against each provider's monthly budget and the
+ * cost per fandom for the month (default: the current month, UTC).
+ */
+export async function GET(req: NextRequest) {
+  const month = new URL(req.url).searchParams.get("month") || undefined;
+  if (month && !/^\d{4}-\d{2}$/.test(month)) {
+    return NextResponse.json({ error: "month must be YYYY-MM" }, { status: 400 });
+  }
+
+  try {
+    const [providers, fandoms] = await Promise.all([
+      getProviderBudgetStatus(month),
+      getFandomCosts(month),
+    ]);
+    return NextResponse.json({ month: providers[0]?.month ?? month, providers, fandoms });
+  } catch (error) {
+    console.error("Failed to fetch provider usage:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch provider usage" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT { provider, monthlyBudgetUsd }: set a provider's monthly budget in USD,
+ * or clear it with null.
+ */
+export async function PUT(req: NextRequest) {
+  const body = await req.json().catch(() => ({}));
+  const { provider, monthlyBudgetUsd } = body;
+
+  if (!isProviderName(provider)) {
+    return NextResponse.json({ error: `Unknown provider: ${provider}` }, { status: 400 });
+  }
+
+  if (
+    monthlyBudgetUsd !== null &&
+    (typeof monthlyBudgetUsd !== "number" || !Number.isFinite(monthlyBudgetUsd) || monthlyBudgetUsd <= 0)
+  ) {
+    return NextResponse.json(
+      { error: "monthlyBudgetUsd must be a positive number or null" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    await setProviderBudget(provider, monthlyBudgetUsd);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Failed to save provider budget:", error);
+    return NextResponse.json(
+      { error: "Failed to save provider budget" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,17 +1,27 @@
 import { NextRequest, NextResponse } from "next/server";
 import { db } from "@/lib/db";
 import { googleTrends, fandoms } from "@/lib/db/schema";
-import { eq, desc, and, sql } from "drizzle-orm";
+import { eq, desc, and, like } from "drizzle-orm";
+import { DEFAULT_TRENDS_GEO } from "@/lib/constants";
+import { isTrendsGeo, trendsGeoName } from "@/lib/utils/trends-geos";
 
 /**
- * GET /api/regional-trends?fandomId={id}
+ * GET /api/regional-trends?fandomId={id}&geo={country}
  * 
- * Fetches latest regional breakdown for a fandom.
- * Returns interest level by region (Philippine provinces/regions).
+ * Fetches latest regional breakdown for a fandom within a country
+ * (default PH). Returns interest level by region (provinces/regions).
  */
 export async function GET(request: NextRequest) {
   const { searchParams } = new URL(request.url);
   const fandomId = searchParams.get("fandomId");
+  const geo = searchParams.get("geo") || DEFAULT_TRENDS_GEO;
+
+  if (!isTrendsGeo(geo)) {
+    return NextResponse.json(
+      { error: "geo must be a two-letter country code" },
+      { status: 400 }
+    );
+  }
 
   if (!fandomId) {
     return NextResponse.json(
@@ -31,14 +41,15 @@ export async function GET(request: NextRequest) {
     }
 
     // Get latest regional data (most recent date with regional breakdown)
-    // Query for the most recent date that has regional data (region != 'PH')
+    // Query for the most recent date that has regional data for the country
+    // (region codes like 'PH-NCR'; the bare country code is the national series)
     const latestRegionalDate = await db
       .select({ date: googleTrends.date })
       .from(googleTrends)
       .where(
         and(
           eq(googleTrends.fandomId, fandomId),
-          sql`${googleTrends.region} != 'PH'`
+          like(googleTrends.region, `${geo}-%`)
         )
       )
       .orderBy(desc(googleTrends.date))
@@ -48,6 +59,8 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({
         fandomId,
         fandomName: fandom.name,
+        geo,
+        geoName: trendsGeoName(geo),
         regions: [],
         message: "No regional data available",
       });
@@ -64,7 +77,7 @@ export async function GET(request: NextRequest) {
         and(
           eq(googleTrends.fandomId, fandomId),
           eq(googleTrends.date, targetDate),
-          sql`${googleTrends.region} != 'PH'`
+          like(googleTrends.region, `${geo}-%`)
         )
       )
       .orderBy(desc(googleTrends.interestValue));
@@ -122,6 +135,8 @@ export async function GET(request: NextRequest) {
     return NextResponse.json({
       fandomId,
       fandomName: fandom.name,
+      geo,
+      geoName: trendsGeoName(geo),
       date: targetDate,
       datasets, // Array of { keyword, regions[] }
     });
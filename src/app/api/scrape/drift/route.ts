@@ -0,0 +1,21 @@
+import { NextResponse } from "next/server";
+import { getPayloadCoverage } from "@/lib/services/drift.service";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * GET: latest payload contract check per platform, provider and feed kind,
+ * with field coverage against recent runs. Alerts come first.
+ */
+export async function GET() {
+  try {
+    const rows = await getPayloadCoverage();
+    return NextResponse.json(rows);
+  } catch (error) {
+    console.error("Failed to fetch payload coverage:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch payload coverage" },
+      { status: 500 }
+    );
+  }
+}
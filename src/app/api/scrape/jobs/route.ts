@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getQueueSummary, retryDeadJob } from "@/lib/queue/jobs";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * GET: queue depth by status plus the most recent dead-lettered jobs.
+ */
+export async function GET() {
+  try {
+    const summary = await getQueueSummary();
+    return NextResponse.json(summary);
+  } catch (error) {
+    console.error("Failed to fetch scrape queue:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch scrape queue" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST { jobId }: move a dead-lettered job back to the queue.
+ */
+export async function POST(req: NextRequest) {
+  const body = await req.json().catch(() => ({}));
+  const { jobId } = body;
+
+  if (!jobId) {
+    return NextResponse.json({ error: "jobId is required" }, { status: 400 });
+  }
+
+  const retried = await retryDeadJob(jobId);
+  if (!retried) {
+    return NextResponse.json(
+      { error: "Job not found, not dead-lettered, or already re-queued" },
+      { status: 409 }
+    );
+  }
+
+  return NextResponse.json({ success: true });
+}
@@ -1,13 +1,9 @@
 import { NextRequest, NextResponse } from "next/server";
 import { db } from "@/lib/db";
-import {
-  fandoms,
-  fandomPlatforms,
-  scrapeRuns,
-  contentItems,
-  metricSnapshots,
-} from "@/lib/db/schema";
-import { eq, and, desc, sql } from "drizzle-orm";
+import { fandoms, scrapeRuns } from "@/lib/db/schema";
+import { eq } from "drizzle-orm";
+import { ingestRawItems, type IngestTarget } from "@/lib/services/ingest.service";
+import { archiveRawPayload } from "@/lib/services/archive.service";
 
 /**
  * POST /api/scrape/reddit-push
@@ -30,8 +26,15 @@ import { eq, and, desc, sql } from "drizzle-orm";
  *     author: string,
  *     subreddit: string,
  *     created_utc: number,
- *   }>
+ *   }>,
+ *   subreddit?: string,       // set when items are the subreddit's own listing
+ *   about?: { subscribers: number, active_user_count?: number },
  * }
+ *
+ * Both go through the normal ingest pipeline: a subreddit listing as a scrape of
+ * that Reddit account, so it updates its subscriber count and daily metrics; a
+ * keyword listing as a search feed (keyword, or the fandom name), which adds
+ * content and influencers but no metrics.
  */
 export async function POST(req: NextRequest) {
   // Auth: require API secret
@@ -81,7 +84,60 @@ export async function POST(req: NextRequest) {
 
   const fandom = fandomRows[0];
 
-  // Create a scrape run record
+  const subreddit = typeof body.subreddit === "string" ? body.subreddit.trim() : "";
+  const target: IngestTarget = subreddit
+    ? { type: "handle", value: subreddit }
+    : { type: "search", value: keyword || fandom.name };
+
+  return pushListing(fandom, target, items, subreddit ? body.about : undefined);
+}
+
+interface RedditPushItem {
+  id: string;
+  title?: string;
+  selftext?: string;
+  url?: string;
+  permalink?: string;
+  score?: number;
+  num_comments?: number;
+  author?: string;
+  subreddit?: string;
+  subreddit_subscribers?: number;
+  created_utc?: number;
+}
+
+/**
+ * Ingest a pushed listing as a scrape of its target: a subreddit (with its
+ * about data) as that Reddit account, a keyword search as a search feed.
+ */
+async function pushListing(
+  fandom: typeof fandoms.$inferSelect,
+  target: IngestTarget,
+  items: RedditPushItem[],
+  about?: { subscribers?: number; active_user_count?: number }
+) {
+  const label = target.type === "handle" ? `r/${target.value}` : `"${target.value}"`;
+  const rawItems: Record<string, unknown>[] = items.map((item) => ({
+    id: item.id,
+    title: item.title,
+    selftext: item.selftext || "",
+    url: item.permalink ? `https://www.reddit.com${item.permalink}` : item.url || null,
+    score: item.score || 0,
+    numComments: item.num_comments || 0,
+    author: item.author,
+    subreddit: item.subreddit,
+    subreddit_subscribers: item.subreddit_subscribers || 0,
+    createdAt: item.created_utc ? new Date(item.created_utc * 1000).toISOString() : null,
+  }));
+  if (about && typeof about.subscribers === "number") {
+    rawItems.push({
+      dataType: "community",
+      name: target.value,
+      numberOfMembers: about.subscribers,
+      activeUsers: about.active_user_count ?? null,
+    });
+  }
+
   const [scrapeRun] = await db
     .insert(scrapeRuns)
     .values({
@@ -90,140 +146,50 @@ export async function POST(req: NextRequest) {
       platform: "reddit",
       status: "running",
       startedAt: new Date(),
+      targetType: target.type,
+      targetValue: target.value,
     })
     .returning({ id: scrapeRuns.id });
 
   try {
-    let totalInserted = 0;
-
-    // Insert content items (upsert by externalId)
-    for (const item of items) {
-      const externalId = item.id || "";
-      if (!externalId) continue;
-
-      const existing = await db
-        .select({ id: contentItems.id })
-        .from(contentItems)
-        .where(
-          and(
-            eq(contentItems.fandomId, fandomId),
-            eq(contentItems.externalId, externalId)
-          )
-        )
-        .limit(1);
-
-      if (existing.length === 0) {
-        await db.insert(contentItems).values({
-          fandomId,
-          platform: "reddit",
-          externalId,
-          contentType: "thread",
-          text: item.title || null,
-          url: item.permalink
-            ? `https://www.reddit.com${item.permalink}`
-            : item.url || null,
-          likes: item.score || 0,
-          comments: item.num_comments || 0,
-          shares: 0,
-          views: 0,
-          publishedAt: item.created_utc
-            ? new Date(item.created_utc * 1000)
-            : null,
-          hashtags: [],
-        });
-        totalInserted++;
-      }
-    }
-
-    // Insert metric snapshot for today
-    const today = new Date().toISOString().split("T")[0];
-    const totalLikes = items.reduce(
-      (sum: number, item: any) => sum + (item.score || 0),
-      0
-    );
-    const totalComments = items.reduce(
-      (sum: number, item: any) => sum + (item.num_comments || 0),
-      0
-    );
+    await archiveRawPayload({
+      scrapeRunId: scrapeRun.id,
+      fandomId: fandom.id,
+      platform: "reddit",
+      source: "local/reddit-push",
+      items: rawItems,
+    });
+
+    const result = await ingestRawItems({
+      rawItems,
+      fandomId: fandom.id,
+      platform: "reddit",
+      source: "local/reddit-push",
+      target,
+    });
 
-    // Get previous snapshot for growth rate
-    const previousSnapshot = await db
-      .select({
-        followers: metricSnapshots.followers,
-      })
-      .from(metricSnapshots)
-      .where(
-        and(
-          eq(metricSnapshots.fandomId, fandomId),
-          eq(metricSnapshots.platform, "reddit"),
-          sql`${metricSnapshots.date} < ${today}`
-        )
-      )
-      .orderBy(desc(metricSnapshots.date))
-      .limit(1);
-
-    // Reddit doesn't have "followers" per se, but we can track engagement
-    await db
-      .insert(metricSnapshots)
-      .values({
-        fandomId,
-        platform: "reddit",
-        date: today,
-        followers: 0,
-        postsCount: items.length,
-        engagementTotal: totalLikes + totalComments,
-        engagementRate: "0",
-        growthRate: "0",
-        avgLikes: items.length
-          ? Math.round(totalLikes / items.length)
-          : 0,
-        avgComments: items.length
-          ? Math.round(totalComments / items.length)
-          : 0,
-        avgShares: 0,
-      })
-      .onConflictDoUpdate({
-        target: [
-          metricSnapshots.fandomId,
-          metricSnapshots.platform,
-          metricSnapshots.date,
-        ],
-        set: {
-          postsCount: items.length,
-          engagementTotal: totalLikes + totalComments,
-          avgLikes: items.length
-            ? Math.round(totalLikes / items.length)
-            : 0,
-          avgComments: items.length
-            ? Math.round(totalComments / items.length)
-            : 0,
-        },
-      });
-
-    // Mark scrape run as succeeded
     await db
       .update(scrapeRuns)
       .set({
-        status: "succeeded",
+        status: result.success ? "succeeded" : "failed",
         finishedAt: new Date(),
-        itemsCount: totalInserted,
+        itemsCount: result.itemsCount,
+        error: result.error ?? null,
       })
       .where(eq(scrapeRuns.id, scrapeRun.id));
 
-    console.log(
-      `[Reddit Push] ${fandom.name}: ${totalInserted} new items from ${items.length} total (keyword: ${keyword || fandom.name})`
-    );
+    console.log(`[Reddit Push] ${fandom.name}: ${label} ${result.itemsCount} new items from ${items.length}`);
 
     return NextResponse.json({
-      success: true,
-      fandomId,
+      success: result.success,
+      fandomId: fandom.id,
       fandomName: fandom.name,
-      keyword: keyword || fandom.name,
+      ...(target.type === "handle" ? { subreddit: target.value } : { keyword: target.value }),
       totalItems: items.length,
-      newItems: totalInserted,
+      itemsIngested: result.itemsCount,
     });
   } catch (error) {
-    console.error(`[Reddit Push] Failed for ${fandom.name}:`, error);
+    console.error(`[Reddit Push] Failed for ${fandom.name} ${label}:`, error);
 
     await db
       .update(scrapeRuns)
@@ -1,57 +1,21 @@
 import { NextRequest, NextResponse } from "next/server";
 import { db } from "@/lib/db";
-import { fandoms, googleTrends } from "@/lib/db/schema";
-import { eq } from "drizzle-orm";
+import { googleTrends } from "@/lib/db/schema";
 import { fetchRegionalInterestBatch } from "@/lib/google-trends/regional";
+import { resolveSearchKeywords, trendsQuery } from "@/lib/utils/search-keywords";
+import { isTrendsGeo } from "@/lib/utils/trends-geos";
 
 const API_SECRET = process.env.PLDT_API_SECRET || "";
 
-/**
- * Extract artist/group name from fandom name.
- * Examples:
- * - "BTS ARMY" → "BTS"
- * - "BINI Blooms" → "BINI"
- * - "SB19 A'TIN" → "SB19"
- * - "SEVENTEEN CARAT" → "SEVENTEEN"
- */
-function extractArtistName(fandomName: string): string {
-  // Common fandom suffixes to remove
-  const suffixes = [
-    " ARMY",
-    " A'TIN",
-    " Blooms",
-    " CARAT",
-    " BLINK",
-    " ONCE",
-    " Fans",
-    " Nation",
-    " Squad",
-    " Stans",
-  ];
-
-  for (const suffix of suffixes) {
-    if (fandomName.endsWith(suffix)) {
-      return fandomName.slice(0, -suffix.length).trim();
-    }
-  }
-
-  // If no suffix found, try to get first word (usually the artist name)
-  const words = fandomName.split(" ");
-  if (words.length > 1) {
-    return words[0];
-  }
-
-  return fandomName;
-}
-
 /**
  * POST /api/scrape/regional-trends
  * 
  * Fetches regional Google Trends data for all tracked fandoms
- * and stores it in the database.
+ * and stores it in the database. Each fandom is broken down within
+ * every country in its geo set, or only within `geo` when given.
  * 
  * Auth: X-API-Secret header OR Bearer token (handled by middleware for same-origin)
- * Body: { fandomIds?: string[] } (optional, defaults to all fandoms)
+ * Body: { fandomIds?: string[], geo?: string } (optional, defaults to all fandoms and their geos)
  * 
  * Returns: { success: true, fandoms: number, regions: number }
  */
@@ -64,7 +28,11 @@ export async function POST(request: NextRequest) {
 
   try {
     const body = await request.json().catch(() => ({}));
-    const { fandomIds } = body;
+    const { fandomIds, geo } = body;
+
+    if (geo !== undefined && !isTrendsGeo(geo)) {
+      return NextResponse.json({ error: "geo must be a two-letter country code" }, { status: 400 });
+    }
 
     // Get fandoms to process
     let fandomsToProcess;
@@ -87,91 +55,59 @@ export async function POST(request: NextRequest) {
 
     console.log(`[Regional Trends] Processing ${fandomsToProcess.length} fandoms`);
 
-    // For each fandom, reuse the EXISTING keywords from google_trends table
-    // (these are already disambiguated, e.g., "ALAMAT pboy group", "SEVENTEEN kpop")
-    const searchTerms: Array<{ fandomId: string; keyword: string; type: "fandom" | "artist" }> = [];
-
+    // Search each fandom by the same query as the comparative scrape, so its
+    // regional rows share a keyword with its interest-over-time series
+    const searchTermsByGeo = new Map<string, Array<{ fandomId: string; keyword: string }>>();
     for (const fandom of fandomsToProcess) {
-      // Get existing keywords for this fandom from the google_trends table
-      const existingKeywords = await db
-        .select({ keyword: googleTrends.keyword })
-        .from(googleTrends)
-        .where(eq(googleTrends.fandomId, fandom.id))
-        .groupBy(googleTrends.keyword);
-
-      if (existingKeywords.length > 0) {
-        // Use existing keywords (already disambiguated)
-        for (const { keyword } of existingKeywords) {
-          // Determine type based on keyword vs fandom name
-          const type = keyword === fandom.name ? "fandom" : "artist";
-          searchTerms.push({
-            fandomId: fandom.id,
-            keyword,
-            type,
-          });
-        }
-      } else {
-        // Fallback: no existing keywords, generate simplified artist name
-        // Use extractArtistName to get clean keyword (e.g., "ALAMAT" from "ALAMAT Fans")
-        const artistName = extractArtistName(fandom.name);
-        
-        // Only add fandom name if it's different from simplified artist name
-        if (artistName !== fandom.name) {
-          searchTerms.push({
-            fandomId: fandom.id,
-            keyword: artistName,
-            type: "artist",
-          });
-        }
-        
-        // Always add the full fandom name as well
-        searchTerms.push({
-          fandomId: fandom.id,
-          keyword: fandom.name,
-          type: "fandom",
-        });
+      const keyword = trendsQuery(resolveSearchKeywords(fandom));
+      for (const fandomGeo of fandom.trendsGeos) {
+        if (geo && fandomGeo !== geo) continue;
+        if (!searchTermsByGeo.has(fandomGeo)) searchTermsByGeo.set(fandomGeo, []);
+        searchTermsByGeo.get(fandomGeo)!.push({ fandomId: fandom.id, keyword });
       }
     }
 
-    console.log(`[Regional Trends] Collecting data for ${searchTerms.length} search terms (${fandomsToProcess.length} fandoms × 2)`);
+    let totalRegions = 0;
 
-    // Fetch regional data for all keywords
-    const keywords = searchTerms.map((t) => t.keyword);
-    const results = await fetchRegionalInterestBatch(keywords, "PH", "today 3-m");
+    for (const [country, searchTerms] of searchTermsByGeo) {
+      console.log(`[Regional Trends] Collecting data for ${searchTerms.length} search terms in ${country}`);
 
-    let totalRegions = 0;
+      // Fetch regional data for all keywords
+      const keywords = searchTerms.map((t) => t.keyword);
+      const results = await fetchRegionalInterestBatch(keywords, country, "today 3-m");
 
-    // Store regional data in database
-    for (let i = 0; i < results.length; i++) {
-      const result = results[i];
-      const searchTerm = searchTerms[i];
+      // Store regional data in database
+      for (let i = 0; i < results.length; i++) {
+        const result = results[i];
+        const searchTerm = searchTerms[i];
 
-      if (result.error || result.regions.length === 0) {
-        console.log(`[Regional Trends] No data for "${searchTerm.keyword}" (${searchTerm.type}): ${result.error || "empty"}`);
-        continue;
-      }
+        if (result.error || result.regions.length === 0) {
+          console.log(`[Regional Trends] No data for "${searchTerm.keyword}" in ${country}: ${result.error || "empty"}`);
+          continue;
+        }
 
-      // Insert regional data points
-      // Store one row per region with today's date
-      const today = new Date().toISOString().split("T")[0];
-      
-      for (const region of result.regions) {
-        await db.insert(googleTrends).values({
-          fandomId: searchTerm.fandomId,
-          keyword: searchTerm.keyword,
-          date: today,
-          interestValue: region.interestValue,
-          region: region.regionCode,
-        }).onConflictDoUpdate({
-          target: [googleTrends.fandomId, googleTrends.keyword, googleTrends.date, googleTrends.region],
-          set: { interestValue: region.interestValue },
-        });
-        totalRegions++;
-      }
+        // Insert regional data points
+        // Store one row per region with today's date
+        const today = new Date().toISOString().split("T")[0];
+
+        for (const region of result.regions) {
+          await db.insert(googleTrends).values({
+            fandomId: searchTerm.fandomId,
+            keyword: searchTerm.keyword,
+            date: today,
+            interestValue: region.interestValue,
+            region: region.regionCode,
+          }).onConflictDoUpdate({
+            target: [googleTrends.fandomId, googleTrends.keyword, googleTrends.date, googleTrends.region],
+            set: { interestValue: region.interestValue },
+          });
+          totalRegions++;
+        }
 
-      console.log(
-        `[Regional Trends] Stored ${result.regions.length} regions for "${searchTerm.keyword}" (${searchTerm.type})`
-      );
+        console.log(
+          `[Regional Trends] Stored ${result.regions.length} regions for "${searchTerm.keyword}" in ${country}`
+        );
+      }
     }
 
     return NextResponse.json({
@@ -0,0 +1,102 @@
+import { NextRequest, NextResponse } from "next/server";
+import { db } from "@/lib/db";
+import { fetchRelatedSearchesBatch } from "@/lib/google-trends/related";
+import { saveRelatedSearches } from "@/lib/services/trends.service";
+import { resolveSearchKeywords, trendsQuery } from "@/lib/utils/search-keywords";
+import { isTrendsGeo } from "@/lib/utils/trends-geos";
+
+const API_SECRET = process.env.PLDT_API_SECRET || "";
+
+/**
+ * POST /api/scrape/related-trends
+ *
+ * Fetches the related queries and topics Google Trends returns for each
+ * fandom's search query in every country in its geo set (or only in `geo`
+ * when given) and stores them under today's date.
+ *
+ * Auth: X-API-Secret header OR Bearer token (handled by middleware for same-origin)
+ * Body: { fandomIds?: string[], geo?: string } (optional, defaults to all fandoms and their geos)
+ *
+ * Returns: { success: true, fandoms: number, items: number }
+ */
+export async function POST(request: NextRequest) {
+  const apiSecret = request.headers.get("X-API-Secret");
+  if (API_SECRET && apiSecret !== API_SECRET) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const body = await request.json().catch(() => ({}));
+    const { fandomIds, geo } = body;
+
+    if (geo !== undefined && !isTrendsGeo(geo)) {
+      return NextResponse.json({ error: "geo must be a two-letter country code" }, { status: 400 });
+    }
+
+    const fandomsToProcess =
+      Array.isArray(fandomIds) && fandomIds.length > 0
+        ? await db.query.fandoms.findMany({
+            where: (fandoms, { inArray }) => inArray(fandoms.id, fandomIds),
+          })
+        : await db.query.fandoms.findMany();
+
+    if (fandomsToProcess.length === 0) {
+      return NextResponse.json({ success: true, message: "No fandoms to process", fandoms: 0, items: 0 });
+    }
+
+    // Same query as the comparative and regional scrapes
+    const searchTermsByGeo = new Map<string, Array<{ fandomId: string; keyword: string }>>();
+    for (const fandom of fandomsToProcess) {
+      const keyword = trendsQuery(resolveSearchKeywords(fandom));
+      for (const fandomGeo of fandom.trendsGeos) {
+        if (geo && fandomGeo !== geo) continue;
+        if (!searchTermsByGeo.has(fandomGeo)) searchTermsByGeo.set(fandomGeo, []);
+        searchTermsByGeo.get(fandomGeo)!.push({ fandomId: fandom.id, keyword });
+      }
+    }
+
+    const timeRange = "today 3-m";
+    let totalItems = 0;
+
+    for (const [country, searchTerms] of searchTermsByGeo) {
+      console.log(`[Related Trends] Collecting related searches for ${searchTerms.length} search terms in ${country}`);
+
+      const results = await fetchRelatedSearchesBatch(
+        searchTerms.map((t) => t.keyword),
+        country,
+        timeRange
+      );
+
+      for (let i = 0; i < results.length; i++) {
+        const result = results[i];
+        const searchTerm = searchTerms[i];
+
+        if (result.error) {
+          console.log(`[Related Trends] No data for "${searchTerm.keyword}" in ${country}: ${result.error}`);
+          continue;
+        }
+
+        totalItems += await saveRelatedSearches({
+          fandomId: searchTerm.fandomId,
+          keyword: searchTerm.keyword,
+          region: country,
+          timeRange,
+          items: result.items,
+        });
+      }
+    }
+
+    return NextResponse.json({
+      success: true,
+      fandoms: fandomsToProcess.length,
+      items: totalItems,
+      message: `Collected ${totalItems} related queries and topics for ${fandomsToProcess.length} fandoms`,
+    });
+  } catch (error) {
+    console.error("[Related Trends] Error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
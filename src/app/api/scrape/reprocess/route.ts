@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from "next/server";
+import { reprocessScrapePayloads } from "@/lib/services/ingest.service";
+import { VALID_PLATFORMS } from "@/lib/constants";
+import type { Platform } from "@/types/fandom";
+
+export const dynamic = "force-dynamic";
+export const maxDuration = 300;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * POST { scrapeRunId } or { from, to, fandomId?, platform? }:
+ * re-normalize and re-ingest archived raw payloads without re-scraping.
+ */
+export async function POST(req: NextRequest) {
+  const body = await req.json().catch(() => ({}));
+  const { scrapeRunId, from, to, fandomId, platform } = body;
+
+  if (!scrapeRunId && !(from && to)) {
+    return NextResponse.json(
+      { error: "scrapeRunId, or from and to (YYYY-MM-DD), is required" },
+      { status: 400 }
+    );
+  }
+
+  if ((from && !DATE_PATTERN.test(from)) || (to && !DATE_PATTERN.test(to))) {
+    return NextResponse.json(
+      { error: "from and to must be YYYY-MM-DD" },
+      { status: 400 }
+    );
+  }
+
+  if (platform && !VALID_PLATFORMS.includes(platform as Platform)) {
+    return NextResponse.json(
+      { error: `Invalid platform: ${platform}` },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const result = await reprocessScrapePayloads({
+      scrapeRunId,
+      from,
+      to,
+      fandomId,
+      platform,
+    });
+
+    if (result.payloads === 0 && result.failed.length === 0) {
+      return NextResponse.json(
+        { error: "No archived payloads match" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: result.failed.length === 0,
+      message: `Reprocessed ${result.payloads} payloads, ${result.itemsCount} new content items`,
+      ...result,
+    });
+  } catch (error) {
+    console.error("[Reprocess] Failed:", error);
+    return NextResponse.json(
+      { error: "Reprocess failed" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  DEFAULT_TIER_SCHEDULES,
+  ensureTierSchedules,
+  listSchedules,
+  setSchedule,
+  deleteFandomSchedule,
+} from "@/lib/queue/schedules";
+import { validateCron } from "@/lib/queue/cron";
+import type { FandomTier } from "@/types/fandom";
+
+export const dynamic = "force-dynamic";
+
+const TIERS = Object.keys(DEFAULT_TIER_SCHEDULES) as FandomTier[];
+
+/**
+ * GET: tier schedules (created with defaults on first read) and per-fandom
+ * overrides, each with its last and next run.
+ */
+export async function GET() {
+  try {
+    await ensureTierSchedules();
+    const schedules = await listSchedules();
+    return NextResponse.json({ defaults: DEFAULT_TIER_SCHEDULES, schedules });
+  } catch (error) {
+    console.error("Failed to fetch scrape schedules:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch scrape schedules" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT { tier | fandomId, cronExpression, enabled? }: set a tier's schedule
+ * or a fandom's override.
+ */
+export async function PUT(req: NextRequest) {
+  const body = await req.json().catch(() => ({}));
+  const { tier, fandomId, cronExpression, enabled = true } = body;
+
+  if (!fandomId && !TIERS.includes(tier)) {
+    return NextResponse.json({ error: "tier or fandomId is required" }, { status: 400 });
+  }
+
+  if (typeof cronExpression !== "string") {
+    return NextResponse.json({ error: "cronExpression is required" }, { status: 400 });
+  }
+
+  const cronError = validateCron(cronExpression);
+  if (cronError) {
+    return NextResponse.json({ error: `Invalid cron expression: ${cronError}` }, { status: 400 });
+  }
+
+  try {
+    const schedule = await setSchedule(
+      fandomId ? { fandomId } : { tier: tier as FandomTier },
+      { cronExpression: cronExpression.trim(), enabled: enabled !== false }
+    );
+    return NextResponse.json(schedule);
+  } catch (error) {
+    console.error("Failed to save scrape schedule:", error);
+    return NextResponse.json(
+      { error: "Failed to save scrape schedule" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE ?fandomId=: remove a fandom override so it follows its tier again.
+ */
+export async function DELETE(req: NextRequest) {
+  const fandomId = new URL(req.url).searchParams.get("fandomId");
+
+  if (!fandomId) {
+    return NextResponse.json({ error: "fandomId is required" }, { status: 400 });
+  }
+
+  const deleted = await deleteFandomSchedule(fandomId);
+  if (!deleted) {
+    return NextResponse.json({ error: "Schedule not found" }, { status: 404 });
+  }
+
+  return NextResponse.json({ success: true });
+}
@@ -1,7 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { db } from "@/lib/db";
-import { scrapeRuns, fandoms } from "@/lib/db/schema";
-import { eq, desc, and, lt, sql } from "drizzle-orm";
+import { scrapeRuns, scrapeAttempts, fandoms } from "@/lib/db/schema";
+import { eq, desc, and, lt, sql, inArray, asc, isNull } from "drizzle-orm";
 
 export const dynamic = "force-dynamic";
 
@@ -10,14 +10,17 @@ export async function GET(req: NextRequest) {
   const fandomId = searchParams.get("fandomId");
 
   try {
-    // Auto-cleanup: mark stale "running" records (>10min) as "timed_out"
+    // Auto-cleanup: mark stale "running" records (>10min) as "timed_out".
+    // Async Apify runs (apifyRunId set) wait for their webhook and are left to
+    // reapStuckScrapeRuns, which allows SCRAPE_RUN_TIMEOUT_MINUTES.
     const tenMinAgo = new Date(Date.now() - 10 * 60 * 1000);
     await db
       .update(scrapeRuns)
-      .set({ status: "failed", finishedAt: new Date() })
+      .set({ status: "failed", finishedAt: new Date(), error: "Timed out" })
       .where(
         and(
           eq(scrapeRuns.status, "running"),
+          isNull(scrapeRuns.apifyRunId),
           lt(scrapeRuns.startedAt, tenMinAgo)
         )
       );
@@ -30,6 +33,9 @@ export async function GET(req: NextRequest) {
         startedAt: scrapeRuns.startedAt,
         finishedAt: scrapeRuns.finishedAt,
         itemsCount: scrapeRuns.itemsCount,
+        error: scrapeRuns.error,
+        targetType: scrapeRuns.targetType,
+        targetValue: scrapeRuns.targetValue,
         fandomId: scrapeRuns.fandomId,
         fandomName: fandoms.name,
       })
@@ -42,7 +48,32 @@ export async function GET(req: NextRequest) {
       ? await query.where(eq(scrapeRuns.fandomId, fandomId))
       : await query;
 
-    return NextResponse.json(rows);
+    // Attach each run's provider trail
+    const attempts =
+      rows.length > 0
+        ? await db
+            .select({
+              scrapeRunId: scrapeAttempts.scrapeRunId,
+              attemptNumber: scrapeAttempts.attemptNumber,
+              provider: scrapeAttempts.provider,
+              outcome: scrapeAttempts.outcome,
+              httpStatus: scrapeAttempts.httpStatus,
+              error: scrapeAttempts.error,
+              latencyMs: scrapeAttempts.latencyMs,
+              itemCount: scrapeAttempts.itemCount,
+              failoverReason: scrapeAttempts.failoverReason,
+            })
+            .from(scrapeAttempts)
+            .where(inArray(scrapeAttempts.scrapeRunId, rows.map((r) => r.id)))
+            .orderBy(asc(scrapeAttempts.attemptNumber))
+        : [];
+
+    return NextResponse.json(
+      rows.map((row) => ({
+        ...row,
+        attempts: attempts.filter((a) => a.scrapeRunId === row.id),
+      }))
+    );
   } catch (error) {
     console.error("Failed to fetch scrape status:", error);
     return NextResponse.json(
@@ -1,14 +1,19 @@
 import { NextRequest, NextResponse } from "next/server";
 import { db } from "@/lib/db";
-import { fandoms, googleTrends, scrapeRuns } from "@/lib/db/schema";
-import { eq } from "drizzle-orm";
+import { fandoms, scrapeRuns } from "@/lib/db/schema";
+import { alignToAnchor, mergeTrendWindow, type TrendAlignment } from "@/lib/services/trends.service";
+import { DEFAULT_TRENDS_GEO } from "@/lib/constants";
+import { isTrendsGeo } from "@/lib/utils/trends-geos";
 
 export const dynamic = "force-dynamic";
 export const maxDuration = 60;
 
 /**
  * Upload Google Trends data from an external source (e.g., Mac Mini residential IP script).
- * Accepts: { trends: [{ fandomSlug, keyword, points: [{date, value}] }] }
+ * Accepts: { trends: [{ fandomSlug, keyword, geo?, anchor?, points: [{date, value}] }] }
+ * geo is the series' country code (default PH). anchor names the keyword the
+ * series were fetched against; when its series is in the payload, every
+ * series of that country shares its alignment factor. Each series is merged into the stored history (aligned on overlapping days).
  * Auth: Bearer token (API_SECRET or CRON_SECRET)
  */
 export async function POST(request: NextRequest) {
@@ -32,6 +37,23 @@ export async function POST(request: NextRequest) {
     const allFandoms = await db.select().from(fandoms);
     const slugToId = new Map(allFandoms.map((f) => [f.slug, f.id]));
 
+    // One alignment per country and anchor, from the anchor's own series in the payload
+    const alignments = new Map<string, TrendAlignment>();
+    for (const trend of trends) {
+      const geo = trend.geo ?? DEFAULT_TRENDS_GEO;
+      const key = `${geo}|${trend.anchor}`;
+      if (typeof trend.anchor !== "string" || !isTrendsGeo(geo) || alignments.has(key)) continue;
+      const anchorSeries = trends.find(
+        (t) => t.keyword === trend.anchor && (t.geo ?? DEFAULT_TRENDS_GEO) === geo && Array.isArray(t.points)
+      );
+      if (anchorSeries) {
+        alignments.set(
+          key,
+          await alignToAnchor({ region: geo, anchorKeyword: trend.anchor, anchorPoints: anchorSeries.points })
+        );
+      }
+    }
+
     let totalInserted = 0;
     let succeeded = 0;
     let failed = 0;
@@ -39,6 +61,7 @@ export async function POST(request: NextRequest) {
 
     for (const trend of trends) {
       const { fandomSlug, keyword, points } = trend;
+      const geo = trend.geo ?? DEFAULT_TRENDS_GEO;
       const fandomId = slugToId.get(fandomSlug);
 
       if (!fandomId) {
@@ -47,6 +70,12 @@ export async function POST(request: NextRequest) {
         continue;
       }
 
+      if (!isTrendsGeo(geo)) {
+        results.push({ fandomSlug, keyword, dataPoints: 0, error: `Invalid geo: ${geo}` });
+        failed++;
+        continue;
+      }
+
       if (!Array.isArray(points) || points.length === 0) {
         results.push({ fandomSlug, keyword, dataPoints: 0, error: "No data points" });
         failed++;
@@ -54,19 +83,16 @@ export async function POST(request: NextRequest) {
       }
 
       try {
-        // Delete existing trends for this fandom
-        await db.delete(googleTrends).where(eq(googleTrends.fandomId, fandomId));
-
-        // Batch insert using individual inserts (Drizzle doesn't support batch values well)
-        for (const point of points) {
-          await db.insert(googleTrends).values({
-            fandomId,
-            keyword,
-            date: point.date,
-            interestValue: point.value,
-            region: "PH",
-          });
-        }
+        const alignment = alignments.get(`${geo}|${trend.anchor}`);
+        await mergeTrendWindow({
+          fandomId,
+          keyword,
+          region: geo,
+          source: "upload",
+          points,
+          anchorKeyword: alignment ? trend.anchor : null,
+          alignment,
+        });
 
         // Create audit record
         await db.insert(scrapeRuns).values({
@@ -2,11 +2,20 @@ import { NextRequest, NextResponse } from "next/server";
 import { db } from "@/lib/db";
 import { fandoms, fandomPlatforms, scrapeRuns } from "@/lib/db/schema";
 import { eq } from "drizzle-orm";
-import { runActor } from "@/lib/apify/client";
+import { startActor } from "@/lib/apify/client";
 import { actorConfigs } from "@/lib/apify/actors";
-import { ingestDataset } from "@/lib/services/ingest.service";
+import { buildRunWebhook } from "@/lib/apify/webhook";
+import { getProvidersNearBudget } from "@/lib/providers";
+import { LOW_PRIORITY_TIERS } from "@/lib/constants";
 import type { Platform } from "@/types/fandom";
 
+/**
+ * POST { fandomSlug, platform?, limit? }: start an Apify actor run for one
+ * fandom-platform and return 202 straight away. The run's completion webhook
+ * (/api/webhooks/apify) ingests the dataset; runs that never report back are
+ * failed by the stuck-run reaper. Low-priority fandoms are refused (429)
+ * while Apify is near its monthly budget, as in queued scrapes.
+ */
 export async function POST(req: NextRequest) {
   const body = await req.json();
   const { fandomSlug, platform, limit: requestLimit } = body;
@@ -43,15 +52,34 @@ export async function POST(req: NextRequest) {
     );
   }
 
-  // Get the fandom's handle for this platform
+  if (LOW_PRIORITY_TIERS.includes(fandom.tier) && (await getProvidersNearBudget()).includes("apify")) {
+    return NextResponse.json(
+      { error: `Apify is near its monthly budget; ${fandom.tier} fandoms are skipped until it resets or is raised` },
+      { status: 429 }
+    );
+  }
+
+  // Get the fandom's handle for this platform, preferring the official account
   const platformRows = await db
     .select()
     .from(fandomPlatforms)
     .where(eq(fandomPlatforms.fandomId, fandom.id));
 
-  const platformEntry = platformRows.find((p) => p.platform === platformKey);
+  const accounts = platformRows.filter((p) => p.platform === platformKey);
+  const platformEntry = accounts.find((p) => p.role === "official") ?? accounts[0];
   const handle = platformEntry?.handle || fandom.name;
 
+  // The run is recorded first so the webhook can be signed for its ID
+  const [scrapeRun] = await db.insert(scrapeRuns).values({
+    actorId: actorConfig.actorId,
+    fandomId: fandom.id,
+    platform: actorConfig.platform,
+    status: "running",
+    startedAt: new Date(),
+    targetType: "handle",
+    targetValue: handle,
+  }).returning({ id: scrapeRuns.id });
+
   try {
     const input = actorConfig.buildInput({
       handle,
@@ -60,51 +88,45 @@ export async function POST(req: NextRequest) {
     });
 
     console.log(
-      `[Scrape] Running ${actorConfig.actorId} for ${fandom.name} (${platformKey})`
+      `[Scrape] Starting ${actorConfig.actorId} for ${fandom.name} (${platformKey})`
     );
 
-    const datasetId = await runActor(actorConfig.actorId, input);
-
-    // Log the scrape run
-    const [scrapeRun] = await db.insert(scrapeRuns).values({
-      actorId: actorConfig.actorId,
-      fandomId: fandom.id,
-      platform: actorConfig.platform,
-      status: "running",
-      startedAt: new Date(),
-      apifyRunId: datasetId,
-    }).returning({ id: scrapeRuns.id });
-
-    // Ingest the dataset results into the database
-    const ingestResult = await ingestDataset({
-      datasetId,
-      fandomId: fandom.id,
-      platform: platformKey,
-      actorId: actorConfig.actorId,
-    });
+    const { runId, datasetId } = await startActor(
+      actorConfig.actorId,
+      input,
+      buildRunWebhook(scrapeRun.id)
+    );
 
-    // Update scrape run with final status
     await db
       .update(scrapeRuns)
-      .set({
-        status: ingestResult.success ? "succeeded" : "failed",
-        finishedAt: new Date(),
-        itemsCount: ingestResult.itemsCount,
-      })
+      .set({ apifyRunId: datasetId })
       .where(eq(scrapeRuns.id, scrapeRun.id));
 
-    return NextResponse.json({
-      success: true,
-      message: `Scrape completed for ${fandom.name} on ${platformKey}`,
-      fandomId: fandom.id,
-      platform: platformKey,
-      datasetId,
-      itemsIngested: ingestResult.itemsCount,
-      influencersFound: ingestResult.influencerCount,
-    });
+    return NextResponse.json(
+      {
+        success: true,
+        message: `Scrape started for ${fandom.name} on ${platformKey}; results are ingested when the run finishes`,
+        fandomId: fandom.id,
+        platform: platformKey,
+        scrapeRunId: scrapeRun.id,
+        apifyRunId: runId,
+        datasetId,
+      },
+      { status: 202 }
+    );
   } catch (error) {
     console.error("[Scrape] Failed:", error);
 
+    await db
+      .update(scrapeRuns)
+      .set({
+        status: "failed",
+        finishedAt: new Date(),
+        error: error instanceof Error ? error.message : "Unknown error",
+      })
+      .where(eq(scrapeRuns.id, scrapeRun.id))
+      .catch((e) => console.error("[Scrape] Failed to update scrape run:", e));
+
     return NextResponse.json(
       {
         error: `Scrape failed: ${error instanceof Error ? error.message : "Unknown error"}`,
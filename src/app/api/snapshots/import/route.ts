@@ -0,0 +1,103 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  BACKFILL_CONFLICT_POLICIES,
+  MAX_BACKFILL_ROWS,
+  importMetricBackfill,
+  parseBackfillFile,
+} from "@/lib/services/backfill.service";
+import type { BackfillConflictPolicy } from "@/types/fandom";
+
+export const dynamic = "force-dynamic";
+
+/** Source tags are stored on each snapshot; "scrape" is reserved for scraped ones */
+const SOURCE_PATTERN = /^[a-z0-9][a-z0-9._:-]{0,49}$/;
+
+/**
+ * POST: import historical metric snapshots.
+ *
+ * Multipart form: file (.csv or .json), source, policy ("skip" | "overwrite"),
+ * dryRun ("true" to preview). Or JSON: { rows, source, policy, dryRun }.
+ * CSV columns: fandom (slug or name), platform, date (YYYY-MM-DD), followers,
+ * and optionally posts_count, engagement_total, engagement_rate, avg_likes,
+ * avg_comments, avg_shares.
+ *
+ * Nothing is written unless every row is valid; the response lists the
+ * errors and, per fandom-platform, the date range covered.
+ */
+export async function POST(req: NextRequest) {
+  let rows: Record<string, unknown>[];
+  let source: unknown;
+  let policy: unknown;
+  let dryRun: boolean;
+
+  if (req.headers.get("content-type")?.includes("multipart/form-data")) {
+    const formData = await req.formData().catch(() => null);
+    const file = formData?.get("file") as File | null;
+    if (!formData || !file) {
+      return NextResponse.json({ error: "No file provided" }, { status: 400 });
+    }
+
+    const format = file.name.toLowerCase().endsWith(".json") ? "json" : "csv";
+    const parsed = parseBackfillFile(await file.text(), format);
+    if (parsed.error) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+    rows = parsed.rows;
+    source = formData.get("source");
+    policy = formData.get("policy") || "skip";
+    dryRun = formData.get("dryRun") === "true";
+  } else {
+    const body = await req.json().catch(() => ({}));
+    if (!Array.isArray(body.rows)) {
+      return NextResponse.json({ error: "rows must be an array" }, { status: 400 });
+    }
+    const parsed = parseBackfillFile(JSON.stringify(body.rows), "json");
+    rows = parsed.rows;
+    source = body.source;
+    policy = body.policy ?? "skip";
+    dryRun = body.dryRun === true;
+  }
+
+  if (typeof source !== "string" || !SOURCE_PATTERN.test(source) || source === "scrape") {
+    return NextResponse.json(
+      { error: 'source must be a lowercase tag such as "socialblade" (letters, digits, ".", "_", ":", "-"), not "scrape"' },
+      { status: 400 }
+    );
+  }
+
+  if (!BACKFILL_CONFLICT_POLICIES.includes(policy as BackfillConflictPolicy)) {
+    return NextResponse.json({ error: "policy must be skip or overwrite" }, { status: 400 });
+  }
+
+  if (rows.length === 0) {
+    return NextResponse.json({ error: "No rows to import" }, { status: 400 });
+  }
+
+  if (rows.length > MAX_BACKFILL_ROWS) {
+    return NextResponse.json(
+      { error: `Too many rows. Maximum ${MAX_BACKFILL_ROWS.toLocaleString()} per import.` },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const result = await importMetricBackfill({
+      rows,
+      source,
+      policy: policy as BackfillConflictPolicy,
+      dryRun,
+    });
+
+    if (!dryRun && result.errors.length > 0) {
+      return NextResponse.json(
+        { ...result, error: `${result.rows - result.valid} invalid rows; nothing was imported` },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error("Metric backfill import failed:", error);
+    return NextResponse.json({ error: "Failed to import metrics" }, { status: 500 });
+  }
+}
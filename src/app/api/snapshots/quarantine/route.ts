@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  listQuarantinedSnapshots,
+  approveSnapshot,
+  rejectSnapshot,
+} from "@/lib/services/quarantine.service";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * GET: account snapshots held back from metrics because ingestion found them
+ * implausible, newest first.
+ */
+export async function GET() {
+  try {
+    const rows = await listQuarantinedSnapshots();
+    return NextResponse.json(rows);
+  } catch (error) {
+    console.error("Failed to fetch quarantined snapshots:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch quarantined snapshots" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST { id, action: "approve" | "reject" }: accept the snapshot's metrics
+ * as real, or delete the snapshot.
+ */
+export async function POST(req: NextRequest) {
+  const body = await req.json().catch(() => ({}));
+  const { id, action } = body;
+
+  if (!id || (action !== "approve" && action !== "reject")) {
+    return NextResponse.json(
+      { error: "id and action (approve or reject) are required" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const found = action === "approve" ? await approveSnapshot(id) : await rejectSnapshot(id);
+    if (!found) {
+      return NextResponse.json({ error: "Quarantined snapshot not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error(`Failed to ${action} snapshot:`, error);
+    return NextResponse.json(
+      { error: `Failed to ${action} snapshot` },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getTrendsByCountry } from "@/lib/services/trends.service";
+import { trendsGeoName } from "@/lib/utils/trends-geos";
+
+export const dynamic = "force-dynamic";
+
+/** GET ?from=YYYY-MM-DD: each fandom's average interest in every tracked country */
+export async function GET(req: NextRequest) {
+  try {
+    const { searchParams } = new URL(req.url);
+    const from = searchParams.get("from");
+    if (from && !/^\d{4}-\d{2}-\d{2}$/.test(from)) {
+      return NextResponse.json({ error: "from must be YYYY-MM-DD" }, { status: 400 });
+    }
+    const { geos, fandoms } = await getTrendsByCountry(from ?? undefined);
+    return NextResponse.json({
+      geos: geos.map((geo) => ({ geo, name: trendsGeoName(geo) })),
+      fandoms,
+    });
+  } catch (error) {
+    console.error("Failed to fetch trends by country:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch trends by country" },
+      { status: 500 }
+    );
+  }
+}
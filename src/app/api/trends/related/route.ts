@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from "next/server";
+import { listRelatedSearches } from "@/lib/services/trends.service";
+import { DEFAULT_TRENDS_GEO } from "@/lib/constants";
+import { isTrendsGeo } from "@/lib/utils/trends-geos";
+
+export const dynamic = "force-dynamic";
+
+/** GET ?fandomId=&region=: the latest related queries and topics in one country (default PH), for every fandom or one */
+export async function GET(req: NextRequest) {
+  try {
+    const { searchParams } = new URL(req.url);
+    const fandomId = searchParams.get("fandomId") || undefined;
+    if (fandomId && !/^[0-9a-f-]{36}$/i.test(fandomId)) {
+      return NextResponse.json({ error: "fandomId must be a UUID" }, { status: 400 });
+    }
+    const region = searchParams.get("region") || DEFAULT_TRENDS_GEO;
+    if (!isTrendsGeo(region)) {
+      return NextResponse.json({ error: "region must be a two-letter country code" }, { status: 400 });
+    }
+    const related = await listRelatedSearches({ fandomId, region });
+    return NextResponse.json(related);
+  } catch (error) {
+    console.error("Failed to fetch related searches:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch related searches" },
+      { status: 500 }
+    );
+  }
+}
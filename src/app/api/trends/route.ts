@@ -1,14 +1,25 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getAllTrends } from "@/lib/services/fandom.service";
+import { DEFAULT_TRENDS_GEO } from "@/lib/constants";
+import { isTrendsGeo } from "@/lib/utils/trends-geos";
 
 export const dynamic = "force-dynamic";
 
+/** GET ?from=YYYY-MM-DD&region=&limit=&offset=: one country's trend points (default PH) in date order */
 export async function GET(req: NextRequest) {
   try {
     const { searchParams } = new URL(req.url);
-    const limit = Math.min(parseInt(searchParams.get("limit") || "1000") || 1000, 5000);
+    const limit = Math.min(parseInt(searchParams.get("limit") || "1000") || 1000, 50000);
     const offset = parseInt(searchParams.get("offset") || "0") || 0;
-    const trends = await getAllTrends(limit, offset);
+    const from = searchParams.get("from");
+    if (from && !/^\d{4}-\d{2}-\d{2}$/.test(from)) {
+      return NextResponse.json({ error: "from must be YYYY-MM-DD" }, { status: 400 });
+    }
+    const region = searchParams.get("region") || DEFAULT_TRENDS_GEO;
+    if (!isTrendsGeo(region)) {
+      return NextResponse.json({ error: "region must be a two-letter country code" }, { status: 400 });
+    }
+    const trends = await getAllTrends(limit, offset, from ?? undefined, region);
     return NextResponse.json(trends);
   } catch (error) {
     console.error("Failed to fetch trends:", error);
@@ -1,13 +1,20 @@
 import { NextRequest, NextResponse } from "next/server";
 import { db } from "@/lib/db";
-import { googleTrends, fandoms } from "@/lib/db/schema";
-import { eq, and } from "drizzle-orm";
+import { fandoms } from "@/lib/db/schema";
+import { DEFAULT_TRENDS_GEO } from "@/lib/constants";
+import { mergeTrendWindow } from "@/lib/services/trends.service";
+import { parseCSVRow } from "@/lib/utils/csv";
+import { matchesSearchKeywords, resolveSearchKeywords, trendsQuery } from "@/lib/utils/search-keywords";
+import { isTrendsGeo } from "@/lib/utils/trends-geos";
 
 export const dynamic = "force-dynamic";
 
 // POST /api/trends/upload — Upload Google Trends CSV data
 // Accepts multipart form data with a CSV file from Google Trends export
 // CSV format: "Week,BINI: (Philippines),SB19: (Philippines)..."
+// Optional form field "region": the country the export covers (default PH).
+// Each matched column is merged into the fandom's current series (its Trends
+// query) in that country, like a scraped window.
 export async function POST(req: NextRequest) {
   try {
     const secret = req.headers.get("authorization")?.replace("Bearer ", "");
@@ -24,10 +31,14 @@ export async function POST(req: NextRequest) {
 
     const formData = await req.formData();
     const file = formData.get("file") as File | null;
+    const region = (formData.get("region") as string | null) || DEFAULT_TRENDS_GEO;
     
     if (!file) {
       return NextResponse.json({ error: "No CSV file provided" }, { status: 400 });
     }
+    if (!isTrendsGeo(region)) {
+      return NextResponse.json({ error: "region must be a two-letter country code" }, { status: 400 });
+    }
 
     const text = await file.text();
     const lines = text.split("\n").map(l => l.trim()).filter(Boolean);
@@ -55,34 +66,34 @@ export async function POST(req: NextRequest) {
     // Get all fandoms to match keywords
     const allFandoms = await db.select().from(fandoms);
     
-    // Match keywords to fandoms (by name, case-insensitive)
-    const keywordFandomMap: Record<number, string> = {};
+    // Match keywords to fandoms: a fandom's search keywords first, then its name or slug
+    const keywordFandomMap: Record<number, { fandomId: string; keyword: string }> = {};
     const matchedNames: string[] = [];
     const unmatchedNames: string[] = [];
     
     keywords.forEach((kw, idx) => {
-      const fandom = allFandoms.find(f => 
+      const fandom = allFandoms.find(f => matchesSearchKeywords(resolveSearchKeywords(f), kw)) ?? allFandoms.find(f => 
         f.name.toLowerCase() === kw.toLowerCase() ||
         f.slug.toLowerCase() === kw.toLowerCase() ||
         f.name.toLowerCase().includes(kw.toLowerCase()) ||
         kw.toLowerCase().includes(f.name.toLowerCase())
       );
       if (fandom) {
-        keywordFandomMap[idx] = fandom.id;
+        keywordFandomMap[idx] = { fandomId: fandom.id, keyword: trendsQuery(resolveSearchKeywords(fandom)) };
         matchedNames.push(`${kw} → ${fandom.name}`);
       } else {
         unmatchedNames.push(kw);
       }
     });
 
-    // Parse data rows
-    let inserted = 0;
+    // Parse data rows into one series per matched column
     const dataRows = lines.slice(headerIdx + 1);
 
     if (dataRows.length > 10000) {
       return NextResponse.json({ error: "Too many rows. Maximum 10,000 per upload." }, { status: 400 });
     }
 
+    const series: Record<number, Array<{ date: string; value: number }>> = {};
     for (const line of dataRows) {
       const cols = parseCSVRow(line);
       if (cols.length < 2) continue;
@@ -94,30 +105,24 @@ export async function POST(req: NextRequest) {
       const dateFormatted = date.toISOString().split("T")[0];
       
       for (let i = 0; i < keywords.length; i++) {
-        const fandomId = keywordFandomMap[i];
-        if (!fandomId) continue;
-        
-        const val = parseInt(cols[i + 1]) || 0;
-        
-        // Upsert — delete existing for this fandom+date then insert
-        await db.delete(googleTrends).where(
-          and(
-            eq(googleTrends.fandomId, fandomId),
-            eq(googleTrends.date, dateFormatted)
-          )
-        );
-        
-        await db.insert(googleTrends).values({
-          fandomId,
-          keyword: keywords[i],
-          date: dateFormatted,
-          interestValue: val,
-          region: "PH",
-        });
-        inserted++;
+        if (!keywordFandomMap[i]) continue;
+        (series[i] ??= []).push({ date: dateFormatted, value: parseInt(cols[i + 1]) || 0 });
       }
     }
 
+    // Merged into the stored history (aligned on overlapping days, versioned
+    // in google_trends_fetches); other keywords and countries are untouched
+    let inserted = 0;
+    for (const [idx, points] of Object.entries(series)) {
+      const merged = await mergeTrendWindow({
+        ...keywordFandomMap[Number(idx)],
+        region,
+        source: "upload",
+        points,
+      });
+      inserted += merged?.points ?? 0;
+    }
+
     return NextResponse.json({
       success: true,
       inserted,
@@ -130,23 +135,3 @@ export async function POST(req: NextRequest) {
     return NextResponse.json({ error: "Failed to process CSV" }, { status: 500 });
   }
 }
-
-function parseCSVRow(row: string): string[] {
-  const result: string[] = [];
-  let current = "";
-  let inQuotes = false;
-  
-  for (let i = 0; i < row.length; i++) {
-    const ch = row[i];
-    if (ch === '"') {
-      inQuotes = !inQuotes;
-    } else if (ch === ',' && !inQuotes) {
-      result.push(current.trim());
-      current = "";
-    } else {
-      current += ch;
-    }
-  }
-  result.push(current.trim());
-  return result;
-}
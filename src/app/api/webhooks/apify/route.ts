@@ -0,0 +1,142 @@
+import { NextRequest, NextResponse } from "next/server";
+import { db } from "@/lib/db";
+import { scrapeRuns } from "@/lib/db/schema";
+import { and, eq } from "drizzle-orm";
+import { ingestDataset, updateScrapeRun } from "@/lib/services/ingest.service";
+import { getRunUsageUsd } from "@/lib/apify/client";
+import { recordProviderUsage } from "@/lib/providers";
+import {
+  WEBHOOK_SIGNATURE_HEADER,
+  verifyScrapeRunSignature,
+  type ApifyWebhookPayload,
+} from "@/lib/apify/webhook";
+import type { Platform } from "@/types/fandom";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * POST ?scrapeRunId=: Apify run-completion webhook (registered by
+ * /api/scrape/trigger). A succeeded run's dataset is ingested; any other
+ * outcome marks the scrape run failed. Either way the run's billed usage is
+ * added to the provider ledger.
+ *
+ * Apify retries deliveries that don't get a 2xx, so runs that are no longer
+ * running (already handled, or reaped as stuck) are acknowledged and skipped.
+ * A delivery claims its run (running -> ingesting) before doing any work, so
+ * overlapping deliveries can't ingest the dataset or record its spend twice.
+ * A run with no fandom is marked failed and rejected with 422.
+ */
+export async function POST(req: NextRequest) {
+  const scrapeRunId = req.nextUrl.searchParams.get("scrapeRunId");
+  if (!scrapeRunId) {
+    return NextResponse.json({ error: "scrapeRunId is required" }, { status: 400 });
+  }
+
+  let verified: boolean;
+  try {
+    verified = verifyScrapeRunSignature(scrapeRunId, req.headers.get(WEBHOOK_SIGNATURE_HEADER));
+  } catch (error) {
+    console.error("[Webhook] Cannot verify Apify webhook:", error);
+    return NextResponse.json({ error: "Webhook not configured" }, { status: 500 });
+  }
+  if (!verified) {
+    return NextResponse.json({ error: "Invalid signature" }, { status: 401 });
+  }
+
+  const payload = (await req.json().catch(() => null)) as ApifyWebhookPayload | null;
+  if (!payload?.eventType || !payload.resource?.defaultDatasetId) {
+    return NextResponse.json({ error: "Invalid webhook payload" }, { status: 400 });
+  }
+
+  const [run] = await db
+    .select()
+    .from(scrapeRuns)
+    .where(eq(scrapeRuns.id, scrapeRunId))
+    .limit(1);
+
+  if (!run) {
+    return NextResponse.json({ error: "Scrape run not found" }, { status: 404 });
+  }
+  if (run.status !== "running") {
+    return NextResponse.json({ success: true, skipped: `Scrape run is ${run.status}` });
+  }
+  if (!run.apifyRunId) {
+    // The trigger hasn't recorded the dataset yet; Apify will retry
+    return NextResponse.json({ error: "Scrape run has no dataset yet" }, { status: 409 });
+  }
+  if (payload.resource.defaultDatasetId !== run.apifyRunId) {
+    return NextResponse.json({ error: "Dataset does not belong to this scrape run" }, { status: 400 });
+  }
+
+  const [claimed] = await db
+    .update(scrapeRuns)
+    .set({ status: "ingesting" })
+    .where(and(eq(scrapeRuns.id, scrapeRunId), eq(scrapeRuns.status, "running")))
+    .returning({ id: scrapeRuns.id });
+  if (!claimed) {
+    return NextResponse.json({ success: true, skipped: "Scrape run already claimed" });
+  }
+
+  const datasetId = run.apifyRunId;
+  const platform = run.platform as Platform;
+
+  if (!run.fandomId) {
+    // Triggered runs always carry a fandom; without one nothing can own the items
+    await updateScrapeRun(datasetId, "failed", 0, "Scrape run has no fandom");
+    await recordRunUsage(payload.resource.id, platform, null, "error", 0);
+    return NextResponse.json({ error: "Scrape run has no fandom" }, { status: 422 });
+  }
+
+  if (payload.eventType !== "ACTOR.RUN.SUCCEEDED") {
+    await updateScrapeRun(datasetId, "failed", 0, `Apify run ${payload.resource.status || payload.eventType}`);
+    await recordRunUsage(payload.resource.id, platform, run.fandomId, "error", 0);
+    console.log(`[Webhook] Scrape run ${scrapeRunId}: Apify run ${payload.resource.id} ended with ${payload.eventType}`);
+    return NextResponse.json({ success: true, status: "failed" });
+  }
+
+  try {
+    const result = await ingestDataset({
+      datasetId,
+      fandomId: run.fandomId,
+      platform,
+      actorId: run.actorId,
+    });
+    await recordRunUsage(payload.resource.id, platform, run.fandomId, result.itemsCount > 0 ? "success" : "empty", result.itemsCount);
+
+    console.log(`[Webhook] Scrape run ${scrapeRunId}: ingested ${result.itemsCount} items from ${datasetId}`);
+    return NextResponse.json({ success: true, status: "succeeded", itemsCount: result.itemsCount });
+  } catch (error) {
+    console.error(`[Webhook] Ingest failed for scrape run ${scrapeRunId}:`, error);
+    await updateScrapeRun(datasetId, "failed", 0, error instanceof Error ? error.message : "Ingest failed");
+    await recordRunUsage(payload.resource.id, platform, run.fandomId, "error", 0);
+    return NextResponse.json({ error: "Ingest failed" }, { status: 500 });
+  }
+}
+
+/**
+ * Add an async run's billed USD (read from Apify by run ID) to the ledger,
+ * one credit per result like blocking runs. Never fails the webhook.
+ */
+async function recordRunUsage(
+  apifyRunId: string | undefined,
+  platform: Platform,
+  fandomId: string | null,
+  outcome: "success" | "empty" | "error",
+  itemCount: number
+): Promise<void> {
+  if (!apifyRunId) return;
+  try {
+    const costUsd = await getRunUsageUsd(apifyRunId);
+    if (costUsd === null) return;
+    await recordProviderUsage({
+      provider: "apify",
+      platform,
+      fandomId: fandomId ?? undefined,
+      outcome,
+      itemCount,
+      usage: { credits: itemCount, costUsd },
+    });
+  } catch (error) {
+    console.warn(`[Webhook] Failed to read usage of Apify run ${apifyRunId}:`, error);
+  }
+}
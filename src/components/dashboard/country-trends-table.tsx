@@ -0,0 +1,73 @@
+"use client";
+
+import Link from "next/link";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import type { CountryTrend } from "@/types/fandom";
+
+/**
+ * Fandoms × countries: average Google Trends interest over the selected range.
+ * Each country is indexed on its own, so a row shows where a fandom stands
+ * strongest against the anchor keyword; its best country is bolded.
+ */
+export function CountryTrendsTable({
+  geos,
+  fandoms,
+}: {
+  geos: { geo: string; name: string }[];
+  fandoms: CountryTrend[];
+}) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-sm">Across Countries</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <p className="text-xs text-muted-foreground">
+          Average interest in each country over the selected range. Every country is scaled separately (100 is the
+          anchor keyword&apos;s peak there), so compare a fandom&apos;s standing between countries, not search volume.
+        </p>
+        <div className="overflow-x-auto">
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="border-b text-muted-foreground">
+                <th className="py-2 pr-3 text-left font-medium">Fandom</th>
+                {geos.map((g) => (
+                  <th key={g.geo} className="py-2 px-2 text-right font-medium whitespace-nowrap">
+                    {g.name}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {fandoms.map((f) => {
+                const best = Math.max(...Object.values(f.byGeo), 0);
+                return (
+                  <tr key={f.fandomId} className="border-b last:border-0">
+                    <td className="py-2 pr-3">
+                      <Link href={`/fandoms/${f.fandomSlug}`} className="hover:underline">
+                        {f.fandomName}
+                      </Link>
+                    </td>
+                    {geos.map((g) => {
+                      const value = f.byGeo[g.geo];
+                      return (
+                        <td
+                          key={g.geo}
+                          className={`py-2 px-2 text-right tabular-nums ${
+                            value !== undefined && value === best && best > 0 ? "font-semibold" : "text-muted-foreground"
+                          }`}
+                        >
+                          {value === undefined ? "—" : value}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -27,7 +27,7 @@ function deriveKeyBehavior(fandom: FandomWithMetrics): string {
   else if (fandom.tier === "trending") traits.push("viral content creation, cross-platform sharing");
   else traits.push("consistent brand affinity");
 
-  const platformCount = fandom.platforms.length;
+  const platformCount = new Set(fandom.platforms.map((p) => p.platform)).size;
   if (platformCount >= 4) traits.push("multi-platform reach");
   else if (platformCount >= 2) traits.push("cross-platform activity");
 
@@ -43,7 +43,7 @@ function deriveEngagementPotential(fandom: FandomWithMetrics): { level: string;
     if (fandom.tier === "emerging") actions.push("early brand activations");
     else actions.push("branded content partnerships");
     if (engRate > 10) actions.push("content collaborations");
-    if (fandom.platforms.length >= 3) actions.push("multi-platform campaigns");
+    if (new Set(fandom.platforms.map((p) => p.platform)).size >= 3) actions.push("multi-platform campaigns");
     else actions.push("micro-influencer tie-ins");
     return { level: "High", description: actions.join(", "), color: "text-emerald-600" };
   }
@@ -96,7 +96,7 @@ export function FandomCard({ fandom }: FandomCardProps) {
         <CardContent className="space-y-3">
           <div className="flex items-center gap-1.5">
             <PlatformIcons
-              platforms={fandom.platforms.map((p) => p.platform)}
+              platforms={[...new Set(fandom.platforms.map((p) => p.platform))]}
             />
           </div>
 
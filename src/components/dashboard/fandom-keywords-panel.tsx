@@ -0,0 +1,190 @@
+"use client";
+
+import { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { VALID_PLATFORMS } from "@/lib/constants";
+import { formatNumber } from "@/lib/utils/format";
+import type { FandomKeyword, KeywordType, Platform } from "@/types/fandom";
+
+function formatKeyword(keyword: Pick<FandomKeyword, "type" | "value">): string {
+  return keyword.type === "hashtag" ? `#${keyword.value}` : `"${keyword.value}"`;
+}
+
+/**
+ * Hashtags and search terms tracked for a fandom, with the volume each one
+ * found in the selected date range.
+ */
+export function FandomKeywordsPanel({
+  slug,
+  initialKeywords,
+}: {
+  slug: string;
+  initialKeywords: FandomKeyword[];
+}) {
+  const [keywords, setKeywords] = useState(initialKeywords);
+  const [draft, setDraft] = useState<{ platform: Platform; type: KeywordType; value: string }>({
+    platform: "tiktok",
+    type: "hashtag",
+    value: "",
+  });
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const add = async () => {
+    if (!draft.value.trim()) return;
+    setSaving(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/fandoms/${slug}/keywords`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(draft),
+      });
+      const body = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        setError(body.error || "Failed to add keyword");
+        return;
+      }
+      setKeywords((prev) => [
+        ...prev,
+        { ...body, lastScrapedAt: null, postsCount: 0, engagementTotal: 0 },
+      ]);
+      setDraft((prev) => ({ ...prev, value: "" }));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const toggle = async (keyword: FandomKeyword) => {
+    const res = await fetch(`/api/fandoms/${slug}/keywords`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ id: keyword.id, enabled: !keyword.enabled }),
+    });
+    if (res.ok) {
+      setKeywords((prev) => prev.map((k) => (k.id === keyword.id ? { ...k, enabled: !k.enabled } : k)));
+    }
+  };
+
+  const remove = async (keyword: FandomKeyword) => {
+    const res = await fetch(`/api/fandoms/${slug}/keywords?id=${encodeURIComponent(keyword.id)}`, {
+      method: "DELETE",
+    });
+    if (res.ok) {
+      setKeywords((prev) => prev.filter((k) => k.id !== keyword.id));
+    }
+  };
+
+  const maxPosts = Math.max(1, ...keywords.map((k) => k.postsCount));
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-sm">Tracked Hashtags &amp; Keywords</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-xs text-muted-foreground">
+          Scraped with each platform&apos;s account on every scrape. Volume counts posts each keyword
+          was first to find, published in the selected date range.
+        </p>
+        {error && <p className="text-xs text-red-500">{error}</p>}
+
+        {keywords.length > 0 && (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Platform</TableHead>
+                <TableHead>Keyword</TableHead>
+                <TableHead>Posts</TableHead>
+                <TableHead className="text-right">Engagement</TableHead>
+                <TableHead>Last Scraped</TableHead>
+                <TableHead className="text-right" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {keywords.map((k) => (
+                <TableRow key={k.id} className={k.enabled ? "" : "opacity-50"}>
+                  <TableCell className="capitalize text-xs">{k.platform}</TableCell>
+                  <TableCell>
+                    <span className="font-mono text-xs">{formatKeyword(k)}</span>
+                    <Badge variant="outline" className="ml-2 text-[10px]">
+                      {k.type}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="w-48">
+                    <div className="flex items-center gap-2">
+                      <div className="h-1.5 flex-1 rounded bg-muted">
+                        <div
+                          className="h-1.5 rounded bg-primary"
+                          style={{ width: `${(k.postsCount / maxPosts) * 100}%` }}
+                        />
+                      </div>
+                      <span className="text-xs tabular-nums w-10 text-right">{formatNumber(k.postsCount)}</span>
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-right text-xs tabular-nums">{formatNumber(k.engagementTotal)}</TableCell>
+                  <TableCell className="text-xs text-muted-foreground">
+                    {k.lastScrapedAt ? new Date(k.lastScrapedAt).toLocaleDateString("en-PH") : "—"}
+                  </TableCell>
+                  <TableCell className="text-right space-x-1">
+                    <Button variant="outline" size="sm" className="h-6 text-[10px]" onClick={() => toggle(k)}>
+                      {k.enabled ? "Pause" : "Resume"}
+                    </Button>
+                    <Button variant="outline" size="sm" className="h-6 text-[10px]" onClick={() => remove(k)}>
+                      Remove
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+
+        <div className="flex gap-2 items-center">
+          <select
+            value={draft.platform}
+            onChange={(e) => setDraft((prev) => ({ ...prev, platform: e.target.value as Platform }))}
+            className="h-8 rounded-md border border-input bg-background px-2 text-xs capitalize"
+          >
+            {VALID_PLATFORMS.map((p) => (
+              <option key={p} value={p}>
+                {p}
+              </option>
+            ))}
+          </select>
+          <select
+            value={draft.type}
+            onChange={(e) => setDraft((prev) => ({ ...prev, type: e.target.value as KeywordType }))}
+            className="h-8 rounded-md border border-input bg-background px-2 text-xs"
+          >
+            <option value="hashtag">Hashtag</option>
+            <option value="search">Search term</option>
+          </select>
+          <Input
+            value={draft.value}
+            onChange={(e) => setDraft((prev) => ({ ...prev, value: e.target.value }))}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") add();
+            }}
+            placeholder={draft.type === "hashtag" ? "#hashtag" : "search term"}
+            className="h-8 w-48 text-xs"
+          />
+          <Button variant="outline" size="sm" className="h-8 text-xs" disabled={saving || !draft.value.trim()} onClick={add}>
+            Add
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
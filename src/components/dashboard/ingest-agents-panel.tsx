@@ -0,0 +1,260 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { VALID_PLATFORMS } from "@/lib/constants";
+import type { IngestAgent, IngestAgentsSummary, Platform } from "@/types/fandom";
+
+function agentStatus(agent: IngestAgent): { label: string; className: string } {
+  if (!agent.enabled) return { label: "Disabled", className: "text-muted-foreground" };
+  if (!agent.lastHeartbeatAt) return { label: "Push only", className: "text-muted-foreground" };
+  if (!agent.online) return { label: "Offline", className: "text-red-500 border-red-200" };
+  return agent.status === "busy"
+    ? { label: "Busy", className: "text-blue-600 border-blue-200" }
+    : { label: "Idle", className: "text-emerald-600 border-emerald-200" };
+}
+
+/**
+ * External scraper agents allowed to push raw items to /api/ingest/push.
+ * Each signs its requests with its own secret, shown once at creation.
+ * Agents running scripts/scraper-agent.ts also lease the scrape jobs of
+ * platforms routed to agents and report a heartbeat.
+ */
+export function IngestAgentsPanel() {
+  const [agents, setAgents] = useState<IngestAgent[]>([]);
+  const [agentPlatforms, setAgentPlatforms] = useState<Platform[]>([]);
+  const [queuedJobs, setQueuedJobs] = useState<IngestAgentsSummary["queuedJobs"]>({});
+  const [loading, setLoading] = useState(true);
+  const [name, setName] = useState("");
+  const [platforms, setPlatforms] = useState<Platform[]>([]);
+  const [created, setCreated] = useState<{ agent: IngestAgent; secret: string } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [acting, setActing] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      const data: IngestAgentsSummary = await fetch("/api/ingest/agents").then((r) => r.json());
+      if (Array.isArray(data.agents)) {
+        setAgents(data.agents);
+        setAgentPlatforms(data.agentPlatforms);
+        setQueuedJobs(data.queuedJobs);
+      }
+    } catch {
+      // ignore
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const handleCreate = useCallback(async () => {
+    setError(null);
+    setCreated(null);
+    const res = await fetch("/api/ingest/agents", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ name: name.trim(), platforms }),
+    });
+    const data = await res.json().catch(() => ({}));
+    if (!res.ok) {
+      setError(data.error || "Failed to create agent");
+      return;
+    }
+    setCreated(data);
+    setName("");
+    setPlatforms([]);
+    load();
+  }, [name, platforms, load]);
+
+  const handleToggle = useCallback(async (agent: IngestAgent) => {
+    setActing(agent.id);
+    try {
+      const res = await fetch("/api/ingest/agents", {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ id: agent.id, enabled: !agent.enabled }),
+      });
+      if (res.ok) {
+        setAgents((prev) => prev.map((a) => (a.id === agent.id ? { ...a, enabled: !a.enabled } : a)));
+      }
+    } finally {
+      setActing(null);
+    }
+  }, []);
+
+  const handleDelete = useCallback(async (agent: IngestAgent) => {
+    if (!confirm(`Delete agent ${agent.name}? It will no longer be able to push.`)) return;
+    setActing(agent.id);
+    try {
+      const res = await fetch(`/api/ingest/agents?id=${agent.id}`, { method: "DELETE" });
+      if (res.ok) setAgents((prev) => prev.filter((a) => a.id !== agent.id));
+    } finally {
+      setActing(null);
+    }
+  }, []);
+
+  const togglePlatform = (platform: Platform) =>
+    setPlatforms((prev) => (prev.includes(platform) ? prev.filter((p) => p !== platform) : [...prev, platform]));
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle className="text-sm">Push Agents</CardTitle>
+        <Button variant="outline" size="sm" className="h-7 text-xs" onClick={load}>
+          Refresh
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap gap-2 items-center">
+          <Input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="agent name, e.g. home-pc"
+            className="h-8 w-48 text-xs"
+          />
+          {VALID_PLATFORMS.map((p) => (
+            <Badge
+              key={p}
+              variant={platforms.includes(p) ? "default" : "outline"}
+              className="text-[10px] capitalize cursor-pointer"
+              onClick={() => togglePlatform(p)}
+            >
+              {p}
+            </Badge>
+          ))}
+          <Button size="sm" className="h-8 text-xs" disabled={!name.trim()} onClick={handleCreate}>
+            Add Agent
+          </Button>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          No platforms selected means the agent may push any platform.{" "}
+          {agentPlatforms.length > 0 ? (
+            <>
+              Scrape jobs for{" "}
+              {agentPlatforms
+                .map((p) => `${p} (${queuedJobs[p] ?? 0} queued)`)
+                .join(", ")}{" "}
+              are left to agents.
+            </>
+          ) : (
+            "Set AGENT_PLATFORMS (e.g. reddit) to route a platform's scrape jobs to agents."
+          )}
+        </p>
+
+        {error && <p className="text-xs text-red-500">{error}</p>}
+
+        {created && (
+          <div className="rounded-md border border-amber-200 bg-amber-50 p-3 text-xs text-amber-800 space-y-1">
+            <p>
+              Agent <span className="font-medium">{created.agent.name}</span> created. Copy its credentials now;
+              the secret is not shown again.
+            </p>
+            <p>
+              ID: <code className="select-all">{created.agent.id}</code>
+            </p>
+            <p>
+              Secret: <code className="select-all break-all">{created.secret}</code>
+            </p>
+          </div>
+        )}
+
+        {loading ? (
+          <p className="text-xs text-muted-foreground">Loading...</p>
+        ) : agents.length === 0 ? (
+          <p className="text-xs text-muted-foreground">No agents registered.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Agent</TableHead>
+                <TableHead>Platforms</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Current Job</TableHead>
+                <TableHead>Last Seen</TableHead>
+                <TableHead className="text-right" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {agents.map((agent) => (
+                <TableRow key={agent.id}>
+                  <TableCell className="text-xs">
+                    {agent.name}
+                    <span className="block text-[10px] text-muted-foreground">{agent.id}</span>
+                  </TableCell>
+                  <TableCell className="text-xs capitalize">
+                    {agent.platforms.length > 0 ? agent.platforms.join(", ") : "Any"}
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant="outline" className={`text-[10px] ${agentStatus(agent).className}`}>
+                      {agentStatus(agent).label}
+                    </Badge>
+                    {agent.host && (
+                      <span className="block text-[10px] text-muted-foreground">
+                        {agent.host}
+                        {agent.version ? ` · v${agent.version}` : ""}
+                        {agent.capabilities.length > 0 ? ` · runs ${agent.capabilities.join(", ")}` : ""}
+                      </span>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-xs">
+                    {agent.currentJob ? (
+                      <>
+                        {agent.currentJob.fandomName}{" "}
+                        <span className="capitalize text-muted-foreground">{agent.currentJob.platform}</span>
+                      </>
+                    ) : (
+                      <span className="text-muted-foreground">—</span>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-xs text-muted-foreground">
+                    <span className="block">
+                      Heartbeat:{" "}
+                      {agent.lastHeartbeatAt ? new Date(agent.lastHeartbeatAt).toLocaleString("en-PH") : "Never"}
+                    </span>
+                    <span className="block">
+                      Push: {agent.lastPushAt ? new Date(agent.lastPushAt).toLocaleString("en-PH") : "Never"}
+                    </span>
+                  </TableCell>
+                  <TableCell className="text-right space-x-1">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="h-6 text-[10px]"
+                      disabled={acting === agent.id}
+                      onClick={() => handleToggle(agent)}
+                    >
+                      {agent.enabled ? "Disable" : "Enable"}
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="h-6 text-[10px]"
+                      disabled={acting === agent.id}
+                      onClick={() => handleDelete(agent)}
+                    >
+                      Delete
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,146 @@
+"use client";
+
+import { useCallback, useRef, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { formatDate } from "@/lib/utils/format";
+import type { BackfillConflictPolicy, BackfillResult } from "@/types/fandom";
+
+/**
+ * Import historical follower/engagement values so a new fandom's growth
+ * charts have a history. Every import is previewed (dry run) first.
+ */
+export function MetricBackfillUpload() {
+  const [file, setFile] = useState<File | null>(null);
+  const [source, setSource] = useState("import");
+  const [policy, setPolicy] = useState<BackfillConflictPolicy>("skip");
+  const [busy, setBusy] = useState(false);
+  const [preview, setPreview] = useState<BackfillResult | null>(null);
+  const [message, setMessage] = useState<{ ok: boolean; text: string } | null>(null);
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  const submit = useCallback(
+    async (dryRun: boolean) => {
+      if (!file) return;
+      setBusy(true);
+      setMessage(null);
+      const formData = new FormData();
+      formData.append("file", file);
+      formData.append("source", source.trim());
+      formData.append("policy", policy);
+      formData.append("dryRun", String(dryRun));
+      try {
+        const res = await fetch("/api/snapshots/import", { method: "POST", body: formData });
+        const data = await res.json().catch(() => ({}));
+        if (Array.isArray(data.errors)) setPreview(data);
+        if (!res.ok) {
+          setMessage({ ok: false, text: data.error || "Import failed" });
+        } else if (!dryRun) {
+          setMessage({
+            ok: true,
+            text: `Imported ${data.inserted} snapshots, overwrote ${data.overwritten}, skipped ${data.skipped}.`,
+          });
+          setPreview(null);
+          setFile(null);
+          if (fileRef.current) fileRef.current.value = "";
+        }
+      } catch {
+        setMessage({ ok: false, text: "Import failed" });
+      } finally {
+        setBusy(false);
+      }
+    },
+    [file, source, policy]
+  );
+
+  const reset = () => setPreview(null);
+  const canImport = preview !== null && preview.errors.length === 0 && preview.valid > 0;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-sm">Import Metric History</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-xs text-muted-foreground">
+          CSV or JSON with one row per fandom, platform and date. Columns: <code>fandom</code> (slug or
+          name), <code>platform</code>, <code>date</code> (YYYY-MM-DD), <code>followers</code>, and
+          optionally <code>posts_count</code>, <code>engagement_total</code>, <code>engagement_rate</code>,{" "}
+          <code>avg_likes</code>, <code>avg_comments</code>, <code>avg_shares</code>. Nothing is imported
+          unless every row is valid.
+        </p>
+
+        <div className="flex flex-wrap gap-2 items-center">
+          <input
+            ref={fileRef}
+            type="file"
+            accept=".csv,.json"
+            className="text-xs"
+            onChange={(e) => {
+              setFile(e.target.files?.[0] ?? null);
+              reset();
+            }}
+          />
+          <Input
+            value={source}
+            onChange={(e) => {
+              setSource(e.target.value);
+              reset();
+            }}
+            placeholder="source tag, e.g. socialblade"
+            className="h-8 w-48 text-xs"
+          />
+          <select
+            value={policy}
+            onChange={(e) => {
+              setPolicy(e.target.value as BackfillConflictPolicy);
+              reset();
+            }}
+            className="h-8 rounded-md border border-input bg-background px-2 text-xs"
+          >
+            <option value="skip">Keep existing snapshots</option>
+            <option value="overwrite">Overwrite existing snapshots</option>
+          </select>
+          <Button variant="outline" size="sm" className="h-8 text-xs" disabled={!file || busy} onClick={() => submit(true)}>
+            Preview
+          </Button>
+          <Button size="sm" className="h-8 text-xs" disabled={!canImport || busy} onClick={() => submit(false)}>
+            Import
+          </Button>
+        </div>
+
+        {preview && (
+          <div className="rounded-md border p-3 text-xs space-y-2">
+            <p>
+              {preview.valid} of {preview.rows} rows valid
+              {preview.errors.length === 0 &&
+                ` · ${preview.inserted} new · ${preview.overwritten} to overwrite · ${preview.skipped} to skip`}
+            </p>
+            {preview.series.length > 0 && (
+              <ul className="text-muted-foreground">
+                {preview.series.map((s) => (
+                  <li key={`${s.fandomSlug}/${s.platform}`}>
+                    {s.fandomName} · <span className="capitalize">{s.platform}</span>: {s.rows} days,{" "}
+                    {formatDate(s.from)} – {formatDate(s.to)}
+                  </li>
+                ))}
+              </ul>
+            )}
+            {preview.errors.length > 0 && (
+              <ul className="text-red-500 max-h-40 overflow-y-auto">
+                {preview.errors.map((e) => (
+                  <li key={e.row}>
+                    Row {e.row}: {e.error}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+
+        {message && <p className={`text-xs ${message.ok ? "text-emerald-600" : "text-red-500"}`}>{message.text}</p>}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,140 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import type { PayloadCoverage } from "@/types/fandom";
+
+function coverageColor(field: PayloadCoverage["fields"][number]): string {
+  if (field.dropped) return "text-red-500 border-red-200";
+  if (field.coverage < 0.5) return "text-amber-600 border-amber-200";
+  return "text-emerald-600 border-emerald-200";
+}
+
+const pct = (value: number) => `${Math.round(value * 100)}%`;
+
+/**
+ * Field coverage of the latest raw payload per platform and provider against
+ * its payload contract. A field whose coverage drops well below recent runs
+ * usually means the provider renamed it.
+ */
+export function PayloadDriftPanel() {
+  const [rows, setRows] = useState<PayloadCoverage[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const load = useCallback(async () => {
+    try {
+      const data = await fetch("/api/scrape/drift").then((r) => r.json());
+      if (Array.isArray(data)) setRows(data);
+    } catch {
+      // ignore
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const alerts = rows.filter((r) => r.alert);
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle className="text-sm">Payload Schema Drift</CardTitle>
+        <Button variant="outline" size="sm" className="h-7 text-xs" onClick={load}>
+          Refresh
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {alerts.length > 0 && (
+          <div className="rounded-md border border-red-200 bg-red-50 p-3 text-xs text-red-700 space-y-1">
+            {alerts.map((a) => (
+              <p key={`${a.platform}/${a.source}/${a.feed}`}>
+                <span className="font-medium capitalize">{a.platform}</span> ({a.source}, {a.feed} feed):{" "}
+                {a.fields
+                  .filter((f) => f.dropped)
+                  .map((f) => `${f.field} ${pct(f.baseline ?? 0)} → ${pct(f.coverage)}`)
+                  .join(", ")}
+                {a.removedKeys.length > 0 && `; keys gone: ${a.removedKeys.join(", ")}`}
+                {a.addedKeys.length > 0 && `; new keys: ${a.addedKeys.join(", ")}`}
+              </p>
+            ))}
+          </div>
+        )}
+
+        {loading ? (
+          <p className="text-xs text-muted-foreground">Loading...</p>
+        ) : rows.length === 0 ? (
+          <p className="text-xs text-muted-foreground">
+            No payloads checked yet. Coverage appears after the first scrape.
+          </p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Platform</TableHead>
+                <TableHead>Provider</TableHead>
+                <TableHead>Feed</TableHead>
+                <TableHead>Field Coverage</TableHead>
+                <TableHead>Key Changes</TableHead>
+                <TableHead>Checked</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.map((row) => (
+                <TableRow key={`${row.platform}/${row.source}/${row.feed}`}>
+                  <TableCell className="text-xs capitalize">{row.platform}</TableCell>
+                  <TableCell className="text-xs">{row.source}</TableCell>
+                  <TableCell className="text-xs capitalize">{row.feed}</TableCell>
+                  <TableCell>
+                    <div className="flex flex-wrap gap-1">
+                      {row.fields.map((f) => (
+                        <Badge
+                          key={f.field}
+                          variant="outline"
+                          className={`text-[10px] ${coverageColor(f)}`}
+                          title={`${f.path ? `from ${f.path}` : "no matching field"}${
+                            f.baseline !== null ? `, recently ${pct(f.baseline)}` : ""
+                          }`}
+                        >
+                          {f.field} {pct(f.coverage)}
+                        </Badge>
+                      ))}
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-xs text-muted-foreground max-w-xs">
+                    {row.removedKeys.length === 0 && row.addedKeys.length === 0 ? (
+                      "—"
+                    ) : (
+                      <>
+                        {row.removedKeys.length > 0 && (
+                          <span className="block text-red-500">− {row.removedKeys.join(", ")}</span>
+                        )}
+                        {row.addedKeys.length > 0 && <span className="block">+ {row.addedKeys.join(", ")}</span>}
+                      </>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-xs text-muted-foreground">
+                    {new Date(row.checkedAt).toLocaleString("en-PH")}
+                    <span className="block text-[10px]">{row.itemCount} items</span>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
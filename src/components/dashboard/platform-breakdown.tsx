@@ -6,6 +6,7 @@ import {
   ChartTooltipContent,
 } from "@/components/ui/chart";
 import { Pie, PieChart, Cell, Legend } from "recharts";
+import { sumDistinctFollowers } from "@/lib/utils/accounts";
 import type { FandomPlatform } from "@/types/fandom";
 
 interface PlatformBreakdownProps {
@@ -37,13 +38,14 @@ function formatNumber(n: number): string {
 }
 
 export function PlatformBreakdown({ platforms }: PlatformBreakdownProps) {
-  const data = platforms
-    .filter((p) => p.followers > 0)
-    .map((p) => ({
-      name: platformLabels[p.platform] || p.platform,
-      value: p.followers,
-      fill: COLORS[p.platform] || "#888888",
-    }));
+  // One slice per platform, summing its accounts
+  const data = [...new Set(platforms.map((p) => p.platform))]
+    .map((platform) => ({
+      name: platformLabels[platform] || platform,
+      value: sumDistinctFollowers(platforms.filter((p) => p.platform === platform)),
+      fill: COLORS[platform] || "#888888",
+    }))
+    .filter((d) => d.value > 0);
 
   const total = data.reduce((s, d) => s + d.value, 0);
 
@@ -0,0 +1,152 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import type { ProviderHealth } from "@/types/fandom";
+
+function scoreColor(score: number): string {
+  if (score >= 80) return "text-emerald-600 border-emerald-200";
+  if (score >= 50) return "text-amber-600 border-amber-200";
+  return "text-red-500 border-red-200";
+}
+
+function circuitColor(state: ProviderHealth["circuitState"]): string {
+  if (state === "closed") return "text-emerald-600 border-emerald-200";
+  if (state === "half_open") return "text-amber-600 border-amber-200";
+  return "text-red-500 border-red-200";
+}
+
+export function ProviderHealthPanel() {
+  const [rows, setRows] = useState<ProviderHealth[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [resetting, setResetting] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      const data = await fetch("/api/providers/health").then((r) => r.json());
+      if (Array.isArray(data)) setRows(data);
+    } catch {
+      // ignore
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const handleReset = useCallback(
+    async (provider: string, platform: string) => {
+      setResetting(`${provider}/${platform}`);
+      try {
+        await fetch("/api/providers/health", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ provider, platform }),
+        });
+        await load();
+      } finally {
+        setResetting(null);
+      }
+    },
+    [load]
+  );
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle className="text-sm">Provider Health</CardTitle>
+        <Button variant="outline" size="sm" className="h-7 text-xs" onClick={load}>
+          Refresh
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <p className="text-xs text-muted-foreground">Loading...</p>
+        ) : rows.length === 0 ? (
+          <p className="text-xs text-muted-foreground">
+            No provider calls recorded yet. Health appears after the first scrape.
+          </p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Platform</TableHead>
+                <TableHead>Provider</TableHead>
+                <TableHead className="text-right">Score</TableHead>
+                <TableHead className="text-right">Success</TableHead>
+                <TableHead className="text-right">Empty</TableHead>
+                <TableHead className="text-right">Latency</TableHead>
+                <TableHead>Circuit</TableHead>
+                <TableHead>Last Error</TableHead>
+                <TableHead className="text-right" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.map((row) => (
+                <TableRow key={row.id}>
+                  <TableCell className="text-xs capitalize">{row.platform}</TableCell>
+                  <TableCell className="text-xs">{row.provider}</TableCell>
+                  <TableCell className="text-right">
+                    <Badge variant="outline" className={`text-[10px] ${scoreColor(row.healthScore)}`}>
+                      {row.healthScore}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="text-right text-xs">
+                    {Math.round(Number(row.successRate) * 100)}%
+                  </TableCell>
+                  <TableCell className="text-right text-xs">
+                    {Math.round(Number(row.emptyRate) * 100)}%
+                  </TableCell>
+                  <TableCell className="text-right text-xs text-muted-foreground">
+                    {(row.avgLatencyMs / 1000).toFixed(1)}s
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant="outline" className={`text-[10px] ${circuitColor(row.circuitState)}`}>
+                      {row.circuitState.replace("_", "-")}
+                    </Badge>
+                    {row.circuitState === "open" && row.openUntil && (
+                      <span className="ml-1 text-[10px] text-muted-foreground">
+                        until {new Date(row.openUntil).toLocaleTimeString()}
+                      </span>
+                    )}
+                  </TableCell>
+                  <TableCell
+                    className="text-xs text-muted-foreground max-w-xs truncate"
+                    title={row.lastError || undefined}
+                  >
+                    {row.lastError || "—"}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {row.circuitState !== "closed" && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="h-6 text-[10px]"
+                        disabled={resetting === `${row.provider}/${row.platform}`}
+                        onClick={() => handleReset(row.provider, row.platform)}
+                      >
+                        Reset
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
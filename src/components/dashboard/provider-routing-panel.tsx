@@ -0,0 +1,315 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import type { Platform, ProviderRoute } from "@/types/fandom";
+
+const PLATFORM_OPTIONS: Platform[] = ["tiktok", "instagram", "twitter", "youtube", "facebook", "reddit"];
+
+interface RoutingData {
+  providers: string[];
+  defaults: Record<Platform, string[]>;
+  routes: ProviderRoute[];
+}
+
+function routeKey(platform: string, fandomId: string | null): string {
+  return `${fandomId ?? "global"}:${platform}`;
+}
+
+/** Ordered chip list with move/remove controls and add buttons for unused providers */
+function ProviderOrderEditor({
+  value,
+  available,
+  onChange,
+}: {
+  value: string[];
+  available: string[];
+  onChange: (next: string[]) => void;
+}) {
+  const move = (index: number, delta: number) => {
+    const next = [...value];
+    const [item] = next.splice(index, 1);
+    next.splice(index + delta, 0, item);
+    onChange(next);
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-1">
+      {value.map((name, i) => (
+        <span key={name} className="inline-flex items-center gap-0.5 rounded-md border px-1.5 py-0.5 text-[10px]">
+          <span className="text-muted-foreground">{i + 1}.</span>
+          <span className="font-medium">{name}</span>
+          <button type="button" className="px-0.5 disabled:opacity-30" disabled={i === 0} onClick={() => move(i, -1)}>↑</button>
+          <button type="button" className="px-0.5 disabled:opacity-30" disabled={i === value.length - 1} onClick={() => move(i, 1)}>↓</button>
+          <button
+            type="button"
+            className="px-0.5 text-red-500 disabled:opacity-30"
+            disabled={value.length === 1}
+            onClick={() => onChange(value.filter((v) => v !== name))}
+          >
+            ×
+          </button>
+        </span>
+      ))}
+      {available
+        .filter((name) => !value.includes(name))
+        .map((name) => (
+          <button
+            key={name}
+            type="button"
+            className="rounded-md border border-dashed px-1.5 py-0.5 text-[10px] text-muted-foreground hover:text-foreground"
+            onClick={() => onChange([...value, name])}
+          >
+            + {name}
+          </button>
+        ))}
+    </div>
+  );
+}
+
+export function ProviderRoutingPanel({ fandoms }: { fandoms: Array<{ id: string; name: string }> }) {
+  const [data, setData] = useState<RoutingData | null>(null);
+  const [drafts, setDrafts] = useState<Record<string, string[]>>({});
+  const [saving, setSaving] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [newOverride, setNewOverride] = useState<{ fandomId: string; platform: Platform }>({
+    fandomId: "",
+    platform: "tiktok",
+  });
+
+  const load = useCallback(async () => {
+    try {
+      const res = await fetch("/api/providers/routing").then((r) => r.json());
+      if (res?.routes) {
+        setData(res);
+        setDrafts({});
+      }
+    } catch {
+      // ignore
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const globalOrder = useCallback(
+    (platform: Platform): string[] => {
+      if (!data) return [];
+      const route = data.routes.find((r) => r.platform === platform && r.fandomId === null);
+      return route?.providers ?? data.defaults[platform] ?? [];
+    },
+    [data]
+  );
+
+  const save = useCallback(
+    async (platform: string, fandomId: string | null, providers: string[]) => {
+      const key = routeKey(platform, fandomId);
+      setSaving(key);
+      setError(null);
+      try {
+        const res = await fetch("/api/providers/routing", {
+          method: "PUT",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ platform, fandomId, providers }),
+        });
+        if (!res.ok) {
+          const body = await res.json().catch(() => ({}));
+          setError(body.error || "Failed to save route");
+          return;
+        }
+        await load();
+      } finally {
+        setSaving(null);
+      }
+    },
+    [load]
+  );
+
+  const remove = useCallback(
+    async (platform: string, fandomId: string | null) => {
+      const key = routeKey(platform, fandomId);
+      setSaving(key);
+      setError(null);
+      try {
+        const qs = new URLSearchParams({ platform });
+        if (fandomId) qs.set("fandomId", fandomId);
+        await fetch(`/api/providers/routing?${qs.toString()}`, { method: "DELETE" });
+        await load();
+      } finally {
+        setSaving(null);
+      }
+    },
+    [load]
+  );
+
+  if (!data) return null;
+
+  const overrides = data.routes.filter((r) => r.fandomId !== null);
+  const fandomName = (id: string | null) => fandoms.find((f) => f.id === id)?.name || "Unknown fandom";
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-sm">Provider Routing</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-xs text-muted-foreground">
+          Providers are tried in order; the next one is used when the previous fails, returns nothing,
+          or has a tripped circuit. Changes apply to the next scrape without a deploy.
+        </p>
+        {error && <p className="text-xs text-red-500">{error}</p>}
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Platform</TableHead>
+              <TableHead>Priority</TableHead>
+              <TableHead>Source</TableHead>
+              <TableHead className="text-right" />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {PLATFORM_OPTIONS.map((platform) => {
+              const key = routeKey(platform, null);
+              const stored = data.routes.find((r) => r.platform === platform && r.fandomId === null);
+              const value = drafts[key] ?? globalOrder(platform);
+              return (
+                <TableRow key={platform}>
+                  <TableCell className="text-xs capitalize">{platform}</TableCell>
+                  <TableCell>
+                    <ProviderOrderEditor
+                      value={value}
+                      available={data.providers}
+                      onChange={(next) => setDrafts((prev) => ({ ...prev, [key]: next }))}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant="outline" className="text-[10px]">
+                      {stored ? "custom" : "default"}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="text-right space-x-1">
+                    {drafts[key] && (
+                      <Button
+                        size="sm"
+                        className="h-6 text-[10px]"
+                        disabled={saving === key}
+                        onClick={() => save(platform, null, value)}
+                      >
+                        Save
+                      </Button>
+                    )}
+                    {stored && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="h-6 text-[10px]"
+                        disabled={saving === key}
+                        onClick={() => remove(platform, null)}
+                      >
+                        Reset
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+
+        <div className="space-y-2">
+          <h4 className="text-xs font-medium">Per-fandom overrides</h4>
+          {overrides.length > 0 && (
+            <Table>
+              <TableBody>
+                {overrides.map((route) => {
+                  const key = routeKey(route.platform, route.fandomId);
+                  const value = drafts[key] ?? route.providers;
+                  return (
+                    <TableRow key={route.id}>
+                      <TableCell className="text-xs">{fandomName(route.fandomId)}</TableCell>
+                      <TableCell className="text-xs capitalize">{route.platform}</TableCell>
+                      <TableCell>
+                        <ProviderOrderEditor
+                          value={value}
+                          available={data.providers}
+                          onChange={(next) => setDrafts((prev) => ({ ...prev, [key]: next }))}
+                        />
+                      </TableCell>
+                      <TableCell className="text-right space-x-1">
+                        {drafts[key] && (
+                          <Button
+                            size="sm"
+                            className="h-6 text-[10px]"
+                            disabled={saving === key}
+                            onClick={() => save(route.platform, route.fandomId, value)}
+                          >
+                            Save
+                          </Button>
+                        )}
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className="h-6 text-[10px]"
+                          disabled={saving === key}
+                          onClick={() => remove(route.platform, route.fandomId)}
+                        >
+                          Remove
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+          <div className="flex gap-2 items-center">
+            <select
+              value={newOverride.fandomId}
+              onChange={(e) => setNewOverride((prev) => ({ ...prev, fandomId: e.target.value }))}
+              className="h-8 rounded-md border border-input bg-background px-2 text-xs"
+            >
+              <option value="">Select fandom…</option>
+              {fandoms.map((f) => (
+                <option key={f.id} value={f.id}>
+                  {f.name}
+                </option>
+              ))}
+            </select>
+            <select
+              value={newOverride.platform}
+              onChange={(e) => setNewOverride((prev) => ({ ...prev, platform: e.target.value as Platform }))}
+              className="h-8 rounded-md border border-input bg-background px-2 text-xs"
+            >
+              {PLATFORM_OPTIONS.map((pl) => (
+                <option key={pl} value={pl}>
+                  {pl}
+                </option>
+              ))}
+            </select>
+            <Button
+              variant="outline"
+              size="sm"
+              className="h-8 text-xs"
+              disabled={!newOverride.fandomId || saving !== null}
+              onClick={() => save(newOverride.platform, newOverride.fandomId, globalOrder(newOverride.platform))}
+            >
+              Add override
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,225 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { LOW_PRIORITY_TIERS } from "@/lib/constants";
+import { formatNumber } from "@/lib/utils/format";
+import type { FandomCost, ProviderBudgetStatus } from "@/types/fandom";
+
+function formatUsd(value: number): string {
+  return `$${value.toFixed(value >= 100 ? 0 : 2)}`;
+}
+
+function usedColor(status: ProviderBudgetStatus): string {
+  if (status.usedPct === null) return "text-muted-foreground border-muted";
+  if (status.usedPct >= 100) return "text-red-500 border-red-200";
+  if (status.nearExhaustion) return "text-amber-600 border-amber-200";
+  return "text-emerald-600 border-emerald-200";
+}
+
+/**
+ * Provider spend for a month against each provider's budget, and what each
+ * fandom cost. Low-priority tiers stop using a provider once it is near its
+ * budget.
+ */
+export function ProviderSpendPanel() {
+  const [month, setMonth] = useState(() => new Date().toISOString().slice(0, 7));
+  const [providers, setProviders] = useState<ProviderBudgetStatus[]>([]);
+  const [fandoms, setFandoms] = useState<FandomCost[]>([]);
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      const data = await fetch(`/api/providers/usage?month=${month}`).then((r) => r.json());
+      if (Array.isArray(data.providers)) {
+        setProviders(data.providers);
+        setDrafts(
+          Object.fromEntries(
+            data.providers.map((p: ProviderBudgetStatus) => [p.provider, p.monthlyBudgetUsd?.toString() ?? ""])
+          )
+        );
+      }
+      if (Array.isArray(data.fandoms)) setFandoms(data.fandoms);
+    } catch {
+      // ignore
+    } finally {
+      setLoading(false);
+    }
+  }, [month]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const saveBudget = useCallback(
+    async (provider: string) => {
+      const raw = drafts[provider]?.trim() ?? "";
+      setSaving(provider);
+      setError(null);
+      try {
+        const res = await fetch("/api/providers/usage", {
+          method: "PUT",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ provider, monthlyBudgetUsd: raw === "" ? null : Number(raw) }),
+        });
+        if (!res.ok) {
+          const body = await res.json().catch(() => ({}));
+          setError(body.error || "Failed to save budget");
+          return;
+        }
+        await load();
+      } finally {
+        setSaving(null);
+      }
+    },
+    [drafts, load]
+  );
+
+  const totalSpend = fandoms.reduce((s, f) => s + f.costUsd, 0);
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle className="text-sm">Provider Spend &amp; Budgets</CardTitle>
+        <div className="flex items-center gap-2">
+          <Input
+            type="month"
+            value={month}
+            onChange={(e) => e.target.value && setMonth(e.target.value)}
+            className="h-7 w-36 text-xs"
+          />
+          <Button variant="outline" size="sm" className="h-7 text-xs" onClick={load}>
+            Refresh
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <p className="text-xs text-muted-foreground">
+          Spend is each provider&apos;s own estimate per call. Once a provider reaches 90% of its
+          monthly budget, {LOW_PRIORITY_TIERS.join(", ")} fandoms stop using it until the month rolls
+          over or the budget is raised. Leave a budget empty for no cap.
+        </p>
+        {error && <p className="text-xs text-red-500">{error}</p>}
+
+        {loading ? (
+          <p className="text-xs text-muted-foreground">Loading...</p>
+        ) : (
+          <>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Provider</TableHead>
+                  <TableHead className="text-right">Calls</TableHead>
+                  <TableHead className="text-right">Credits</TableHead>
+                  <TableHead className="text-right">Spent</TableHead>
+                  <TableHead>Monthly Budget (USD)</TableHead>
+                  <TableHead className="text-right">Used</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {providers.map((p) => (
+                  <TableRow key={p.provider}>
+                    <TableCell className="text-xs">{p.provider}</TableCell>
+                    <TableCell className="text-right text-xs tabular-nums">{formatNumber(p.calls)}</TableCell>
+                    <TableCell className="text-right text-xs tabular-nums">{formatNumber(p.credits)}</TableCell>
+                    <TableCell className="text-right text-xs tabular-nums">{formatUsd(p.spentUsd)}</TableCell>
+                    <TableCell>
+                      <div className="flex items-center gap-1">
+                        <Input
+                          type="number"
+                          min={0}
+                          step="0.01"
+                          value={drafts[p.provider] ?? ""}
+                          onChange={(e) => setDrafts((prev) => ({ ...prev, [p.provider]: e.target.value }))}
+                          placeholder="No cap"
+                          className="h-6 w-24 text-xs"
+                        />
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className="h-6 text-[10px]"
+                          disabled={
+                            saving === p.provider ||
+                            (drafts[p.provider] ?? "") === (p.monthlyBudgetUsd?.toString() ?? "")
+                          }
+                          onClick={() => saveBudget(p.provider)}
+                        >
+                          Save
+                        </Button>
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Badge variant="outline" className={`text-[10px] ${usedColor(p)}`}>
+                        {p.usedPct === null ? "—" : `${Math.round(p.usedPct)}%`}
+                      </Badge>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+
+            {fandoms.length === 0 ? (
+              <p className="text-xs text-muted-foreground">No provider spend recorded for {month}.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Fandom</TableHead>
+                    <TableHead>Tier</TableHead>
+                    <TableHead className="text-right">Calls</TableHead>
+                    <TableHead className="text-right">Credits</TableHead>
+                    <TableHead>By Provider</TableHead>
+                    <TableHead className="text-right">Cost</TableHead>
+                    <TableHead className="text-right">Share</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {fandoms.map((f) => (
+                    <TableRow key={f.fandomId ?? "unattributed"}>
+                      <TableCell className="text-xs">
+                        {f.slug ? (
+                          <Link href={`/fandoms/${f.slug}`} className="hover:underline">
+                            {f.name}
+                          </Link>
+                        ) : (
+                          <span className="text-muted-foreground">{f.name}</span>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-xs capitalize">{f.tier ?? "—"}</TableCell>
+                      <TableCell className="text-right text-xs tabular-nums">{formatNumber(f.calls)}</TableCell>
+                      <TableCell className="text-right text-xs tabular-nums">{formatNumber(f.credits)}</TableCell>
+                      <TableCell className="text-xs text-muted-foreground">
+                        {Object.entries(f.byProvider)
+                          .map(([provider, cost]) => `${provider} ${formatUsd(cost)}`)
+                          .join(" · ")}
+                      </TableCell>
+                      <TableCell className="text-right text-xs tabular-nums">{formatUsd(f.costUsd)}</TableCell>
+                      <TableCell className="text-right text-xs tabular-nums text-muted-foreground">
+                        {totalSpend > 0 ? `${Math.round((f.costUsd / totalSpend) * 100)}%` : "—"}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
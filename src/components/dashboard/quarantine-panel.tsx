@@ -0,0 +1,138 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { formatDate, formatNumber } from "@/lib/utils/format";
+import type { QuarantinedSnapshot } from "@/types/fandom";
+
+/**
+ * Account snapshots ingestion flagged as implausible (a follower count of 0,
+ * a follower jump or drop, an engagement spike). They are left out of growth
+ * rates and KPIs until approved; rejecting deletes them.
+ */
+export function QuarantinePanel() {
+  const [rows, setRows] = useState<QuarantinedSnapshot[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [acting, setActing] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      const data = await fetch("/api/snapshots/quarantine").then((r) => r.json());
+      if (Array.isArray(data)) setRows(data);
+    } catch {
+      // ignore
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const handleAction = useCallback(
+    async (id: string, action: "approve" | "reject") => {
+      setActing(id);
+      try {
+        const res = await fetch("/api/snapshots/quarantine", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ id, action }),
+        });
+        if (res.ok) setRows((prev) => prev.filter((r) => r.id !== id));
+      } finally {
+        setActing(null);
+      }
+    },
+    []
+  );
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle className="text-sm">
+          Quarantined Snapshots{rows.length > 0 ? ` (${rows.length})` : ""}
+        </CardTitle>
+        <Button variant="outline" size="sm" className="h-7 text-xs" onClick={load}>
+          Refresh
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <p className="text-xs text-muted-foreground">Loading...</p>
+        ) : rows.length === 0 ? (
+          <p className="text-xs text-muted-foreground">
+            No quarantined snapshots. Implausible follower or engagement changes show up here for review.
+          </p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Fandom</TableHead>
+                <TableHead>Account</TableHead>
+                <TableHead>Date</TableHead>
+                <TableHead className="text-right">Followers</TableHead>
+                <TableHead className="text-right">Previous</TableHead>
+                <TableHead>Reason</TableHead>
+                <TableHead className="text-right" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.map((row) => (
+                <TableRow key={row.id}>
+                  <TableCell className="text-xs">
+                    <Link href={`/fandoms/${row.fandomSlug}`} className="hover:underline">
+                      {row.fandomName}
+                    </Link>
+                  </TableCell>
+                  <TableCell className="text-xs">
+                    <span className="capitalize">{row.platform}</span>{" "}
+                    <span className="text-muted-foreground">{row.handle}</span>
+                  </TableCell>
+                  <TableCell className="text-xs">{formatDate(row.date)}</TableCell>
+                  <TableCell className="text-right text-xs tabular-nums">{formatNumber(row.followers)}</TableCell>
+                  <TableCell className="text-right text-xs tabular-nums text-muted-foreground">
+                    {row.previousFollowers !== null ? formatNumber(row.previousFollowers) : "—"}
+                  </TableCell>
+                  <TableCell className="text-xs text-amber-600 max-w-xs truncate" title={row.anomalyReason || undefined}>
+                    {row.anomalyReason || "—"}
+                  </TableCell>
+                  <TableCell className="text-right space-x-1">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="h-6 text-[10px]"
+                      disabled={acting === row.id}
+                      onClick={() => handleAction(row.id, "approve")}
+                    >
+                      Approve
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="h-6 text-[10px]"
+                      disabled={acting === row.id}
+                      onClick={() => handleAction(row.id, "reject")}
+                    >
+                      Reject
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
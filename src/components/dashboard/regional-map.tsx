@@ -2,6 +2,8 @@
 
 import { useEffect, useState } from "react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { DEFAULT_TRENDS_GEO } from "@/lib/constants";
+import { trendsGeoName } from "@/lib/utils/trends-geos";
 
 interface RegionalData {
   regionCode: string;
@@ -17,13 +19,16 @@ interface DatasetResponse {
 interface RegionalMapProps {
   fandomId: string;
   fandomName: string;
+  /** Countries the fandom is tracked in; a switch is shown when there are several */
+  geos?: string[];
 }
 
 /**
- * Philippine Regional Heat Map
- * Shows fandom interest strength by province/region
+ * Regional Heat Map
+ * Shows fandom interest strength by province/region within a country
  */
-export function RegionalMap({ fandomId, fandomName }: RegionalMapProps) {
+export function RegionalMap({ fandomId, fandomName, geos = [DEFAULT_TRENDS_GEO] }: RegionalMapProps) {
+  const [geo, setGeo] = useState(geos[0] ?? DEFAULT_TRENDS_GEO);
   const [datasets, setDatasets] = useState<DatasetResponse[]>([]);
   const [selectedKeyword, setSelectedKeyword] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
@@ -33,13 +38,14 @@ export function RegionalMap({ fandomId, fandomName }: RegionalMapProps) {
     async function fetchRegionalData() {
       try {
         setLoading(true);
-        const res = await fetch(`/api/regional-trends?fandomId=${fandomId}`);
+        const res = await fetch(`/api/regional-trends?fandomId=${fandomId}&geo=${geo}`);
         if (!res.ok) throw new Error("Failed to fetch regional data");
         const data = await res.json();
         const fetchedDatasets = data.datasets || [];
         setDatasets(fetchedDatasets);
         
         // Auto-select the dataset with the most data
+        setSelectedKeyword(null);
         if (fetchedDatasets.length > 0) {
           const best = fetchedDatasets.reduce((a: DatasetResponse, b: DatasetResponse) => {
             const aMax = Math.max(...a.regions.map((r) => r.interestValue), 0);
@@ -58,7 +64,7 @@ export function RegionalMap({ fandomId, fandomName }: RegionalMapProps) {
     }
 
     fetchRegionalData();
-  }, [fandomId]);
+  }, [fandomId, geo]);
 
   const selectedDataset = datasets.find((d) => d.keyword === selectedKeyword);
   const rawRegions = selectedDataset?.regions || [];
@@ -83,12 +89,29 @@ export function RegionalMap({ fandomId, fandomName }: RegionalMapProps) {
     return `hsl(0, 70%, ${lightness}%)`;
   };
 
+  const geoSwitch = geos.length > 1 && (
+    <div className="mt-2 flex flex-wrap gap-1">
+      {geos.map((code) => (
+        <button
+          key={code}
+          onClick={() => setGeo(code)}
+          className={`px-2 py-1 text-xs rounded-md transition-colors ${
+            geo === code ? "bg-primary text-primary-foreground" : "bg-muted hover:bg-muted/80"
+          }`}
+        >
+          {trendsGeoName(code)}
+        </button>
+      ))}
+    </div>
+  );
+
   if (loading) {
     return (
       <Card>
         <CardHeader>
           <CardTitle>Geographic Distribution</CardTitle>
           <CardDescription>Loading regional data...</CardDescription>
+          {geoSwitch}
         </CardHeader>
       </Card>
     );
@@ -100,8 +123,9 @@ export function RegionalMap({ fandomId, fandomName }: RegionalMapProps) {
         <CardHeader>
           <CardTitle>Geographic Distribution</CardTitle>
           <CardDescription>
-            {error || "No regional data available. Run regional scrape to collect data."}
+            {error || `No regional data available for ${trendsGeoName(geo)}. Run regional scrape to collect data.`}
           </CardDescription>
+          {geoSwitch}
         </CardHeader>
       </Card>
     );
@@ -114,8 +138,9 @@ export function RegionalMap({ fandomId, fandomName }: RegionalMapProps) {
       <CardHeader>
         <CardTitle>Geographic Distribution</CardTitle>
         <CardDescription>
-          Search interest for <strong>{fandomName}</strong> by Philippine region
+          Search interest for <strong>{fandomName}</strong> by region in {trendsGeoName(geo)}
         </CardDescription>
+        {geoSwitch}
         
         {/* Keyword selector if multiple datasets */}
         {datasets.length > 1 && (
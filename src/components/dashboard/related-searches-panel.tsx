@@ -0,0 +1,153 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { formatDate } from "@/lib/utils/format";
+import { DEFAULT_TRENDS_GEO } from "@/lib/constants";
+import { trendsGeoName } from "@/lib/utils/trends-geos";
+import type { RelatedSearch, RelatedSearchKind, RelatedSearchRanking } from "@/types/fandom";
+
+const LISTS: { kind: RelatedSearchKind; ranking: RelatedSearchRanking; title: string }[] = [
+  { kind: "query", ranking: "rising", title: "Rising searches" },
+  { kind: "query", ranking: "top", title: "Top searches" },
+  { kind: "topic", ranking: "rising", title: "Rising topics" },
+  { kind: "topic", ranking: "top", title: "Top topics" },
+];
+
+/** Items shown per list */
+const LIST_SIZE = 10;
+
+/**
+ * "What people search for": the related queries and topics Google Trends
+ * returned for a fandom's search query on its latest fetch. Without a
+ * fandomId it covers every fandom, showing rising terms across all of them
+ * until one is picked. Lists are per country; with several geos the panel
+ * switches between them.
+ */
+export function RelatedSearchesPanel({
+  fandomId,
+  geos = [DEFAULT_TRENDS_GEO],
+}: {
+  fandomId?: string;
+  geos?: string[];
+}) {
+  const [items, setItems] = useState<RelatedSearch[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [selected, setSelected] = useState("");
+  const [geo, setGeo] = useState(geos[0] ?? DEFAULT_TRENDS_GEO);
+
+  useEffect(() => {
+    fetch(`/api/trends/related?region=${geo}${fandomId ? `&fandomId=${fandomId}` : ""}`)
+      .then((r) => r.json())
+      .then((data) => {
+        setItems(Array.isArray(data) ? data : []);
+      })
+      .catch(() => {})
+      .finally(() => setLoading(false));
+  }, [fandomId, geo]);
+
+  const fandomOptions = useMemo(() => {
+    const byId = new Map<string, string>();
+    for (const item of items) byId.set(item.fandomId, item.fandomName);
+    return [...byId.entries()];
+  }, [items]);
+
+  const scoped = fandomId || selected;
+  const visible = selected ? items.filter((i) => i.fandomId === selected) : items;
+  const lists = scoped ? LISTS : LISTS.filter((l) => l.ranking === "rising");
+  const latestDate = visible.reduce<string | null>((max, i) => (!max || i.date > max ? i.date : max), null);
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle className="text-sm">What People Search For</CardTitle>
+        {geos.length > 1 && (
+          <div className="flex flex-wrap gap-1">
+            {geos.map((code) => (
+              <button
+                key={code}
+                onClick={() => setGeo(code)}
+                className={`px-2 py-1 text-xs rounded-md transition-colors ${
+                  geo === code ? "bg-primary text-primary-foreground" : "bg-muted hover:bg-muted/80"
+                }`}
+              >
+                {trendsGeoName(code)}
+              </button>
+            ))}
+          </div>
+        )}
+        {!fandomId && fandomOptions.length > 0 && (
+          <select
+            value={selected}
+            onChange={(e) => setSelected(e.target.value)}
+            className="h-7 rounded-md border border-input bg-background px-2 text-xs"
+          >
+            <option value="">All fandoms (rising)</option>
+            {fandomOptions.map(([id, name]) => (
+              <option key={id} value={id}>
+                {name}
+              </option>
+            ))}
+          </select>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {loading ? (
+          <p className="text-xs text-muted-foreground">Loading...</p>
+        ) : visible.length === 0 ? (
+          <p className="text-xs text-muted-foreground">
+            No related searches yet. They are collected after each Google Trends scrape.
+          </p>
+        ) : (
+          <>
+            <p className="text-xs text-muted-foreground">
+              Related queries and topics from Google Trends in {trendsGeoName(geo)} over the last 3 months
+              {latestDate ? `, fetched ${formatDate(latestDate)}` : ""}. Top is ranked by search volume; rising
+              by growth, where Breakout means more than 5000%.
+            </p>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {lists.map((list) => {
+                const entries = visible.filter((i) => i.kind === list.kind && i.ranking === list.ranking);
+                const shown = scoped ? entries : [...entries].sort((a, b) => b.value - a.value);
+                return (
+                  <div key={`${list.kind}-${list.ranking}`} className="space-y-1">
+                    <p className="text-xs font-medium">{list.title}</p>
+                    {shown.length === 0 ? (
+                      <p className="text-xs text-muted-foreground">None</p>
+                    ) : (
+                      <ul className="space-y-1">
+                        {shown.slice(0, LIST_SIZE).map((item) => (
+                          <li
+                            key={`${item.fandomId}-${item.term}`}
+                            className="flex items-center justify-between gap-2 text-xs"
+                          >
+                            <span className="truncate">
+                              {item.term}
+                              {item.topicType && (
+                                <span className="text-muted-foreground"> · {item.topicType}</span>
+                              )}
+                              {!scoped && <span className="text-muted-foreground"> · {item.fandomName}</span>}
+                            </span>
+                            <Badge
+                              variant="outline"
+                              className={`text-[10px] shrink-0 ${
+                                item.formattedValue === "Breakout" ? "text-amber-600 border-amber-200" : ""
+                              }`}
+                            >
+                              {item.formattedValue}
+                            </Badge>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
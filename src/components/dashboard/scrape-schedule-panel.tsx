@@ -0,0 +1,229 @@
+"use client";
+
+import { useCallback, useEffect, useState, type ReactNode } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import type { FandomTier, ScrapeSchedule } from "@/types/fandom";
+
+const TIER_ORDER: FandomTier[] = ["trending", "emerging", "existing"];
+
+interface ScheduleDraft {
+  cronExpression: string;
+  enabled: boolean;
+}
+
+function formatRun(value: string | null): string {
+  if (!value) return "—";
+  return new Date(value).toLocaleString("en-PH", {
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+}
+
+export function ScrapeSchedulePanel({ fandoms }: { fandoms: Array<{ id: string; name: string }> }) {
+  const [schedules, setSchedules] = useState<ScrapeSchedule[] | null>(null);
+  const [drafts, setDrafts] = useState<Record<string, ScheduleDraft>>({});
+  const [saving, setSaving] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [newOverride, setNewOverride] = useState({ fandomId: "", cronExpression: "0 */3 * * *" });
+
+  const load = useCallback(async () => {
+    try {
+      const res = await fetch("/api/scrape/schedules").then((r) => r.json());
+      if (Array.isArray(res?.schedules)) {
+        setSchedules(res.schedules);
+        setDrafts({});
+      }
+    } catch {
+      // ignore
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const save = useCallback(
+    async (key: string, scope: { tier: FandomTier } | { fandomId: string }, draft: ScheduleDraft) => {
+      setSaving(key);
+      setError(null);
+      try {
+        const res = await fetch("/api/scrape/schedules", {
+          method: "PUT",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ ...scope, ...draft }),
+        });
+        if (!res.ok) {
+          const body = await res.json().catch(() => ({}));
+          setError(body.error || "Failed to save schedule");
+          return false;
+        }
+        await load();
+        return true;
+      } finally {
+        setSaving(null);
+      }
+    },
+    [load]
+  );
+
+  const remove = useCallback(
+    async (fandomId: string) => {
+      setSaving(fandomId);
+      setError(null);
+      try {
+        await fetch(`/api/scrape/schedules?fandomId=${encodeURIComponent(fandomId)}`, { method: "DELETE" });
+        await load();
+      } finally {
+        setSaving(null);
+      }
+    },
+    [load]
+  );
+
+  if (!schedules) return null;
+
+  const tierRows = TIER_ORDER.map((tier) => schedules.find((s) => s.tier === tier && !s.fandomId)).filter(
+    (s): s is ScrapeSchedule => !!s
+  );
+  const overrides = schedules.filter((s) => s.fandomId);
+  const fandomName = (id: string | null) => fandoms.find((f) => f.id === id)?.name || "Unknown fandom";
+
+  const renderRow = (schedule: ScrapeSchedule, label: ReactNode, isOverride: boolean) => {
+    const key = schedule.id;
+    const draft = drafts[key] ?? { cronExpression: schedule.cronExpression, enabled: schedule.enabled };
+    const dirty = !!drafts[key];
+    const scope = schedule.fandomId ? { fandomId: schedule.fandomId } : { tier: schedule.tier as FandomTier };
+    const setDraft = (patch: Partial<ScheduleDraft>) =>
+      setDrafts((prev) => ({ ...prev, [key]: { ...draft, ...patch } }));
+
+    return (
+      <TableRow key={key}>
+        <TableCell className="text-xs capitalize">{label}</TableCell>
+        <TableCell>
+          <Input
+            value={draft.cronExpression}
+            onChange={(e) => setDraft({ cronExpression: e.target.value })}
+            className="h-7 w-36 font-mono text-xs"
+          />
+        </TableCell>
+        <TableCell>
+          <input
+            type="checkbox"
+            checked={draft.enabled}
+            onChange={(e) => setDraft({ enabled: e.target.checked })}
+            aria-label="Enabled"
+          />
+        </TableCell>
+        <TableCell className="text-xs text-muted-foreground">{formatRun(schedule.lastRunAt)}</TableCell>
+        <TableCell className="text-xs text-muted-foreground">
+          {schedule.enabled ? formatRun(schedule.nextRunAt) : "paused"}
+        </TableCell>
+        <TableCell className="text-right space-x-1">
+          {dirty && (
+            <Button
+              size="sm"
+              className="h-6 text-[10px]"
+              disabled={saving === key}
+              onClick={() => save(key, scope, draft)}
+            >
+              Save
+            </Button>
+          )}
+          {isOverride && schedule.fandomId && (
+            <Button
+              variant="outline"
+              size="sm"
+              className="h-6 text-[10px]"
+              disabled={saving === schedule.fandomId}
+              onClick={() => remove(schedule.fandomId!)}
+            >
+              Remove
+            </Button>
+          )}
+        </TableCell>
+      </TableRow>
+    );
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-sm">Scrape Schedule</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-xs text-muted-foreground">
+          Cron expressions (minute hour day month weekday, UTC) per tier. A fandom override replaces its
+          tier&apos;s schedule; a paused override stops automatic scrapes for that fandom.
+        </p>
+        {error && <p className="text-xs text-red-500">{error}</p>}
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Tier / Fandom</TableHead>
+              <TableHead>Schedule</TableHead>
+              <TableHead>On</TableHead>
+              <TableHead>Last Run</TableHead>
+              <TableHead>Next Run</TableHead>
+              <TableHead className="text-right" />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {tierRows.map((s) => renderRow(s, s.tier, false))}
+            {overrides.map((s) => renderRow(s, <span className="normal-case">{fandomName(s.fandomId)}</span>, true))}
+          </TableBody>
+        </Table>
+
+        <div className="flex gap-2 items-center">
+          <select
+            value={newOverride.fandomId}
+            onChange={(e) => setNewOverride((prev) => ({ ...prev, fandomId: e.target.value }))}
+            className="h-8 rounded-md border border-input bg-background px-2 text-xs"
+          >
+            <option value="">Select fandom…</option>
+            {fandoms
+              .filter((f) => !overrides.some((o) => o.fandomId === f.id))
+              .map((f) => (
+                <option key={f.id} value={f.id}>
+                  {f.name}
+                </option>
+              ))}
+          </select>
+          <Input
+            value={newOverride.cronExpression}
+            onChange={(e) => setNewOverride((prev) => ({ ...prev, cronExpression: e.target.value }))}
+            className="h-8 w-36 font-mono text-xs"
+          />
+          <Button
+            variant="outline"
+            size="sm"
+            className="h-8 text-xs"
+            disabled={!newOverride.fandomId || saving !== null}
+            onClick={async () => {
+              const ok = await save(
+                "new",
+                { fandomId: newOverride.fandomId },
+                { cronExpression: newOverride.cronExpression, enabled: true }
+              );
+              if (ok) setNewOverride((prev) => ({ ...prev, fandomId: "" }));
+            }}
+          >
+            Add override
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
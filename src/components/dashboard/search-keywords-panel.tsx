@@ -0,0 +1,168 @@
+"use client";
+
+import { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { trendsQuery } from "@/lib/utils/search-keywords";
+import type { FandomSearchKeywords } from "@/types/fandom";
+
+type TermList = "aliases" | "disambiguated" | "excluded";
+
+const TERM_LISTS: { key: TermList; label: string; placeholder: string }[] = [
+  { key: "aliases", label: "Aliases", placeholder: "other names fans search, comma separated" },
+  { key: "disambiguated", label: "Disambiguated", placeholder: "e.g. SEVENTEEN kpop; the first is charted" },
+  { key: "excluded", label: "Excluded", placeholder: "terms to leave out, e.g. hotel" },
+];
+
+interface Draft {
+  primary: string;
+  aliases: string;
+  disambiguated: string;
+  excluded: string;
+}
+
+function toDraft(keywords: FandomSearchKeywords): Draft {
+  return {
+    primary: keywords.primary,
+    aliases: keywords.aliases.join(", "),
+    disambiguated: keywords.disambiguated.join(", "),
+    excluded: keywords.excluded.join(", "),
+  };
+}
+
+function splitTerms(value: string): string[] {
+  return value.split(",").map((t) => t.trim()).filter(Boolean);
+}
+
+function fromDraft(draft: Draft): FandomSearchKeywords {
+  return {
+    primary: draft.primary.trim(),
+    aliases: splitTerms(draft.aliases),
+    disambiguated: splitTerms(draft.disambiguated),
+    excluded: splitTerms(draft.excluded),
+  };
+}
+
+/**
+ * The terms a fandom is searched by on Google Trends. The comparative and
+ * regional scrapes chart the query shown; uploaded Trends CSV columns are
+ * matched against every term.
+ */
+export function SearchKeywordsPanel({
+  slug,
+  initialKeywords,
+}: {
+  slug: string;
+  initialKeywords: FandomSearchKeywords;
+}) {
+  const [saved, setSaved] = useState(initialKeywords);
+  const [draft, setDraft] = useState(() => toDraft(initialKeywords));
+  const [busy, setBusy] = useState<"save" | "suggest" | "reset" | null>(null);
+  const [message, setMessage] = useState<{ ok: boolean; text: string } | null>(null);
+
+  const keywords = fromDraft(draft);
+  const query = keywords.primary ? trendsQuery(keywords) : "";
+  const changed = query !== trendsQuery(saved);
+
+  const request = async (action: "save" | "suggest" | "reset") => {
+    setBusy(action);
+    setMessage(null);
+    try {
+      const res = await fetch(`/api/fandoms/${slug}/search-keywords`, {
+        method: action === "save" ? "PUT" : action === "suggest" ? "POST" : "DELETE",
+        headers: { "Content-Type": "application/json" },
+        body: action === "save" ? JSON.stringify(keywords) : undefined,
+      });
+      const body = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        setMessage({ ok: false, text: body.error || "Request failed" });
+        return;
+      }
+      setDraft(toDraft(body));
+      if (action === "suggest") {
+        setMessage({ ok: true, text: "Suggestion loaded. Review it and save to use it." });
+      } else {
+        setSaved(body);
+        setMessage({ ok: true, text: action === "save" ? "Saved." : "Reset to the defaults for the name." });
+      }
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle className="text-sm">Search Keywords</CardTitle>
+        <div className="flex gap-1">
+          <Button
+            variant="outline"
+            size="sm"
+            className="h-7 text-xs"
+            disabled={busy !== null}
+            onClick={() => request("suggest")}
+          >
+            {busy === "suggest" ? "Suggesting..." : "Suggest with AI"}
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            className="h-7 text-xs"
+            disabled={busy !== null}
+            onClick={() => request("reset")}
+          >
+            Reset
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <p className="text-xs text-muted-foreground">
+          Google Trends is queried for <span className="font-mono text-foreground">{query || "—"}</span> in the
+          comparative and regional scrapes. Uploaded Trends CSV columns matching any term are imported for this
+          fandom. Changing the query starts a new trend series.
+        </p>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+          <label className="space-y-1">
+            <span className="text-xs font-medium">Primary</span>
+            <Input
+              value={draft.primary}
+              onChange={(e) => setDraft((prev) => ({ ...prev, primary: e.target.value }))}
+              placeholder="artist or group, e.g. BINI"
+              className="h-8 text-xs"
+            />
+          </label>
+          {TERM_LISTS.map((list) => (
+            <label key={list.key} className="space-y-1">
+              <span className="text-xs font-medium">{list.label}</span>
+              <Input
+                value={draft[list.key]}
+                onChange={(e) => setDraft((prev) => ({ ...prev, [list.key]: e.target.value }))}
+                placeholder={list.placeholder}
+                className="h-8 text-xs"
+              />
+            </label>
+          ))}
+        </div>
+
+        <div className="flex items-center gap-2">
+          <Button
+            size="sm"
+            className="h-8 text-xs"
+            disabled={busy !== null || !keywords.primary}
+            onClick={() => request("save")}
+          >
+            {busy === "save" ? "Saving..." : "Save"}
+          </Button>
+          {changed && keywords.primary && (
+            <span className="text-xs text-amber-600">Saving changes the Trends query.</span>
+          )}
+          {message && (
+            <span className={`text-xs ${message.ok ? "text-emerald-600" : "text-red-500"}`}>{message.text}</span>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,111 @@
+"use client";
+
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { formatDate, formatNumber } from "@/lib/utils/format";
+import type { SubredditStats } from "@/types/fandom";
+
+function average(values: number[]): number {
+  return values.length > 0 ? values.reduce((s, v) => s + v, 0) / values.length : 0;
+}
+
+/**
+ * Community stats for a fandom's subreddits: subscribers, active users, daily
+ * post/comment volume and top posts in the selected date range.
+ */
+export function SubredditPanel({ subreddits }: { subreddits: SubredditStats[] }) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-sm">Subreddits</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {subreddits.map((s) => {
+          const maxPosts = Math.max(1, ...s.daily.map((d) => d.posts));
+          return (
+            <div key={s.handle} className="space-y-3">
+              <div className="flex items-baseline justify-between">
+                <a
+                  href={`https://www.reddit.com/r/${s.handle}`}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="font-medium text-sm hover:underline"
+                >
+                  r/{s.handle}
+                </a>
+                <span className="text-xs text-muted-foreground">
+                  {s.lastSnapshotDate ? `as of ${formatDate(s.lastSnapshotDate)}` : "Not scraped yet"}
+                </span>
+              </div>
+
+              <div className="grid grid-cols-4 gap-3 text-center">
+                <div>
+                  <p className="text-lg font-semibold tabular-nums">{formatNumber(s.subscribers)}</p>
+                  <p className="text-[10px] text-muted-foreground">
+                    Subscribers
+                    {s.subscriberChange !== 0 && (
+                      <span className={s.subscriberChange > 0 ? "text-emerald-600" : "text-red-500"}>
+                        {" "}
+                        {s.subscriberChange > 0 ? "+" : ""}
+                        {formatNumber(s.subscriberChange)}
+                      </span>
+                    )}
+                  </p>
+                </div>
+                <div>
+                  <p className="text-lg font-semibold tabular-nums">
+                    {s.activeUsers !== null ? formatNumber(s.activeUsers) : "—"}
+                  </p>
+                  <p className="text-[10px] text-muted-foreground">Active users</p>
+                </div>
+                <div>
+                  <p className="text-lg font-semibold tabular-nums">
+                    {average(s.daily.map((d) => d.posts)).toFixed(1)}
+                  </p>
+                  <p className="text-[10px] text-muted-foreground">Posts / day</p>
+                </div>
+                <div>
+                  <p className="text-lg font-semibold tabular-nums">
+                    {formatNumber(Math.round(average(s.daily.map((d) => d.comments))))}
+                  </p>
+                  <p className="text-[10px] text-muted-foreground">Comments / day</p>
+                </div>
+              </div>
+
+              {s.daily.length > 0 && (
+                <div className="flex items-end gap-px h-12" title="Posts per day">
+                  {s.daily.map((d) => (
+                    <div
+                      key={d.date}
+                      className="flex-1 rounded-sm bg-primary/70"
+                      style={{ height: `${(d.posts / maxPosts) * 100}%` }}
+                      title={`${d.date}: ${d.posts} posts, ${d.comments} comments`}
+                    />
+                  ))}
+                </div>
+              )}
+
+              {s.topPosts.length > 0 && (
+                <ul className="space-y-1">
+                  {s.topPosts.map((p) => (
+                    <li key={p.id} className="flex items-center justify-between gap-3 text-xs">
+                      {p.url ? (
+                        <a href={p.url} target="_blank" rel="noopener noreferrer" className="truncate hover:underline">
+                          {p.text || "(untitled)"}
+                        </a>
+                      ) : (
+                        <span className="truncate">{p.text || "(untitled)"}</span>
+                      )}
+                      <span className="shrink-0 tabular-nums text-muted-foreground">
+                        {formatNumber(p.likes)} pts · {formatNumber(p.comments)} comments
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+}
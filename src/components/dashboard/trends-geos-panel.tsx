@@ -0,0 +1,101 @@
+"use client";
+
+import { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { MAX_TRENDS_GEOS, TRENDS_GEOS } from "@/lib/constants";
+import { trendsGeoName } from "@/lib/utils/trends-geos";
+
+/**
+ * The countries a fandom is tracked in on Google Trends. Each one gets its
+ * own comparative and regional scrape, e.g. PH plus the diaspora markets.
+ */
+export function TrendsGeosPanel({
+  slug,
+  initialGeos,
+  onSaved,
+}: {
+  slug: string;
+  initialGeos: string[];
+  onSaved?: (geos: string[]) => void;
+}) {
+  const [saved, setSaved] = useState(initialGeos);
+  const [draft, setDraft] = useState(initialGeos);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<{ ok: boolean; text: string } | null>(null);
+
+  // Listed countries first, then any other code the fandom already tracks
+  const options = [...Object.keys(TRENDS_GEOS), ...saved.filter((g) => !(g in TRENDS_GEOS))];
+  const changed = draft.length !== saved.length || draft.some((g) => !saved.includes(g));
+
+  const toggle = (geo: string) => {
+    setMessage(null);
+    setDraft((prev) => (prev.includes(geo) ? prev.filter((g) => g !== geo) : [...prev, geo]));
+  };
+
+  const save = async () => {
+    setSaving(true);
+    setMessage(null);
+    try {
+      const res = await fetch(`/api/fandoms/${slug}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ trendsGeos: draft }),
+      });
+      const body = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        setMessage({ ok: false, text: body.error || "Request failed" });
+        return;
+      }
+      setSaved(draft);
+      onSaved?.(draft);
+      setMessage({ ok: true, text: "Saved. New countries are collected on the next Trends scrape." });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-sm">Trends Countries</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <p className="text-xs text-muted-foreground">
+          Google Trends is scraped for this fandom in each selected country (up to {MAX_TRENDS_GEOS}). Interest is
+          indexed per country, so 100 is the peak within that country.
+        </p>
+        <div className="flex flex-wrap gap-1">
+          {options.map((geo) => (
+            <button
+              key={geo}
+              onClick={() => toggle(geo)}
+              className={`px-2 py-1 text-xs rounded-md transition-colors ${
+                draft.includes(geo) ? "bg-primary text-primary-foreground" : "bg-muted hover:bg-muted/80"
+              }`}
+            >
+              {trendsGeoName(geo)}
+            </button>
+          ))}
+        </div>
+        <div className="flex items-center gap-2">
+          <Button
+            size="sm"
+            className="h-8 text-xs"
+            disabled={saving || !changed || draft.length === 0 || draft.length > MAX_TRENDS_GEOS}
+            onClick={save}
+          >
+            {saving ? "Saving..." : "Save"}
+          </Button>
+          {draft.length === 0 && <span className="text-xs text-amber-600">Pick at least one country.</span>}
+          {draft.length > MAX_TRENDS_GEOS && (
+            <span className="text-xs text-amber-600">Pick at most {MAX_TRENDS_GEOS} countries.</span>
+          )}
+          {message && (
+            <span className={`text-xs ${message.ok ? "text-emerald-600" : "text-red-500"}`}>{message.text}</span>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
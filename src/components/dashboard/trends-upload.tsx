@@ -2,6 +2,7 @@
 
 import { useCallback, useRef, useState } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { DEFAULT_TRENDS_GEO } from "@/lib/constants";
 
 interface UploadResult {
   success: boolean;
@@ -12,7 +13,8 @@ interface UploadResult {
   error?: string;
 }
 
-export function TrendsUpload({ onUploadComplete }: { onUploadComplete: () => void }) {
+/** `region` is the country the uploaded export covers (the Trends page's selected country) */
+export function TrendsUpload({ onUploadComplete, region = DEFAULT_TRENDS_GEO }: { onUploadComplete: () => void; region?: string }) {
   const [uploading, setUploading] = useState(false);
   const [result, setResult] = useState<UploadResult | null>(null);
   const [dragOver, setDragOver] = useState(false);
@@ -23,6 +25,7 @@ export function TrendsUpload({ onUploadComplete }: { onUploadComplete: () => voi
     setResult(null);
     const formData = new FormData();
     formData.append("file", file);
+    formData.append("region", region);
     try {
       const res = await fetch("/api/trends/upload", { method: "POST", body: formData });
       const data = await res.json();
@@ -34,7 +37,7 @@ export function TrendsUpload({ onUploadComplete }: { onUploadComplete: () => voi
       setResult({ success: false, inserted: 0, matched: [], unmatched: [], dateRange: "", error: "Upload failed" });
     }
     setUploading(false);
-  }, [onUploadComplete]);
+  }, [onUploadComplete, region]);
 
   const onDrop = useCallback((e: React.DragEvent) => {
     e.preventDefault();
@@ -78,7 +81,7 @@ export function TrendsUpload({ onUploadComplete }: { onUploadComplete: () => voi
               <p className="text-sm font-medium">Drop CSV here or click to browse</p>
               <p className="text-xs text-muted-foreground mt-1">
                 Export from{" "}
-                <a href="https://trends.google.com/trends/explore?geo=PH" target="_blank" rel="noopener noreferrer" className="underline hover:text-foreground" onClick={(e) => e.stopPropagation()}>
+                <a href={`https://trends.google.com/trends/explore?geo=${region}`} target="_blank" rel="noopener noreferrer" className="underline hover:text-foreground" onClick={(e) => e.stopPropagation()}>
                   Google Trends
                 </a>
                 {" "}→ Download CSV → Upload here
@@ -0,0 +1,21 @@
+/**
+ * Next.js startup hook: boots the scrape job worker and scheduler alongside the server.
+ *
+ * Set SCRAPE_WORKER_DISABLED=true to run the web process without a worker
+ * (e.g. when a dedicated worker replica is deployed), and
+ * SCRAPE_SCHEDULER_DISABLED=true to run without the in-app scheduler.
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== "nodejs") return;
+  if (!process.env.DATABASE_URL) return;
+
+  if (process.env.SCRAPE_WORKER_DISABLED !== "true") {
+    const { startScrapeWorker } = await import("@/lib/queue/worker");
+    startScrapeWorker();
+  }
+
+  if (process.env.SCRAPE_SCHEDULER_DISABLED !== "true") {
+    const { startScrapeScheduler } = await import("@/lib/queue/scheduler");
+    startScrapeScheduler();
+  }
+}
@@ -0,0 +1,17 @@
+import { VALID_PLATFORMS } from "@/lib/constants";
+import type { Platform } from "@/types/fandom";
+
+/** An agent with no heartbeat for this long shows as offline */
+export const AGENT_HEARTBEAT_TIMEOUT_MS = 3 * 60 * 1000;
+
+/**
+ * Platforms whose scrape jobs are left to external agents (AGENT_PLATFORMS,
+ * comma-separated, e.g. "reddit"): the in-process worker never leases them,
+ * agents lease nothing else. Empty by default.
+ */
+export function getAgentPlatforms(): Platform[] {
+  return (process.env.AGENT_PLATFORMS || "")
+    .split(",")
+    .map((p) => p.trim().toLowerCase())
+    .filter((p): p is Platform => VALID_PLATFORMS.includes(p as Platform));
+}
@@ -0,0 +1,15 @@
+import type { Platform } from "@/types/fandom";
+import type { AgentTarget } from "../types";
+import { scrapeReddit } from "./reddit";
+
+/**
+ * Local scrapers the agent CLI can run, by platform. Each returns raw items in
+ * the provider-normalized (Apify actor) shape for its platform, ready to push.
+ * An agent advertises these platforms as its capabilities and is only leased
+ * jobs for them.
+ */
+export type AgentExecutor = (target: AgentTarget) => Promise<Record<string, unknown>[]>;
+
+export const AGENT_EXECUTORS: Partial<Record<Platform, AgentExecutor>> = {
+  reddit: scrapeReddit,
+};
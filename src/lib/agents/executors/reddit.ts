@@ -0,0 +1,89 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import type { AgentTarget } from "../types";
+
+/**
+ * Reddit from a residential IP: public JSON endpoints, which block
+ * datacenter IPs (Apify, Hetzner). Items come out in the Apify actor shape
+ * the Reddit normalizer reads; a subreddit scrape adds one community item
+ * with its subscribers and users online.
+ */
+
+const USER_AGENT =
+  "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/131.0.0.0 Safari/537.36";
+
+// Delay between Reddit API calls to avoid rate limiting
+const DELAY_MS = 2000;
+const ITEMS_PER_TARGET = 25;
+
+function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+async function fetchRedditJson(url: string): Promise<any> {
+  const res = await fetch(url, {
+    headers: {
+      "User-Agent": USER_AGENT,
+      "Accept": "text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8",
+      "Accept-Language": "en-US,en;q=0.5",
+    },
+  });
+
+  if (!res.ok) {
+    throw new Error(`Reddit request failed for ${url}: ${res.status}`);
+  }
+
+  return res.json();
+}
+
+function toItems(listing: any): Record<string, unknown>[] {
+  const children = listing?.data?.children || [];
+
+  return children.map((child: any) => {
+    const p = child.data;
+    return {
+      id: p.id,
+      title: p.title,
+      selftext: p.selftext || "",
+      url: p.permalink ? `https://www.reddit.com${p.permalink}` : p.url || null,
+      score: p.score || 0,
+      numComments: p.num_comments || 0,
+      author: p.author || "[deleted]",
+      subreddit: p.subreddit,
+      subreddit_subscribers: p.subreddit_subscribers || 0,
+      createdAt: p.created_utc ? new Date(p.created_utc * 1000).toISOString() : null,
+    };
+  });
+}
+
+/**
+ * Handles are subreddits (stored without "r/"); a handle with spaces is a
+ * fandom name standing in for an untracked account, so it is searched.
+ * Hashtags and search terms search the past week, newest first.
+ */
+export async function scrapeReddit(target: AgentTarget): Promise<Record<string, unknown>[]> {
+  const subreddit = target.value.replace(/^\/?r\//i, "").trim();
+
+  if (target.type === "handle" && !/\s/.test(subreddit)) {
+    const name = encodeURIComponent(subreddit);
+    const listing = await fetchRedditJson(`https://www.reddit.com/r/${name}/new.json?limit=${ITEMS_PER_TARGET}`);
+    await delay(DELAY_MS);
+    const about = await fetchRedditJson(`https://www.reddit.com/r/${name}/about.json`).catch(() => null);
+
+    const items = toItems(listing);
+    if (typeof about?.data?.subscribers === "number") {
+      items.push({
+        dataType: "community",
+        name: subreddit,
+        numberOfMembers: about.data.subscribers,
+        activeUsers: about.data.active_user_count ?? null,
+      });
+    }
+    return items;
+  }
+
+  const query = target.type === "hashtag" ? `#${target.value.replace(/^#/, "")}` : target.value;
+  const listing = await fetchRedditJson(
+    `https://www.reddit.com/search.json?q=${encodeURIComponent(query)}&sort=new&limit=${ITEMS_PER_TARGET}&t=week`
+  );
+  return toItems(listing);
+}
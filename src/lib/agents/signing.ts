@@ -0,0 +1,47 @@
+import { createHmac, timingSafeEqual } from "crypto";
+
+/**
+ * Request signing for external scraper agents pushing to /api/ingest/push.
+ *
+ * Each agent has its own secret. A request carries the agent's ID, a Unix
+ * timestamp and an HMAC-SHA256 over "<timestamp>.<raw body>", so the body
+ * can't be altered and an old request can't be replayed once it falls
+ * outside MAX_CLOCK_SKEW_SECONDS (replays inside the window are harmless:
+ * ingestion dedupes).
+ */
+
+export const AGENT_ID_HEADER = "x-agent-id";
+export const AGENT_TIMESTAMP_HEADER = "x-agent-timestamp";
+export const AGENT_SIGNATURE_HEADER = "x-agent-signature";
+
+/** How far an agent's clock (and a request in flight) may drift from the server's */
+export const MAX_CLOCK_SKEW_SECONDS = 300;
+
+export function signAgentPayload(secret: string, timestamp: string, body: string): string {
+  return `sha256=${createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex")}`;
+}
+
+/** Headers for a signed push; the body must be sent exactly as signed */
+export function buildAgentHeaders(agentId: string, secret: string, body: string): Record<string, string> {
+  const timestamp = String(Math.floor(Date.now() / 1000));
+  return {
+    "Content-Type": "application/json",
+    "X-Agent-Id": agentId,
+    "X-Agent-Timestamp": timestamp,
+    "X-Agent-Signature": signAgentPayload(secret, timestamp, body),
+  };
+}
+
+export function verifyAgentSignature(
+  secret: string,
+  timestamp: string | null,
+  body: string,
+  signature: string | null
+): boolean {
+  if (!timestamp || !signature || !/^\d+$/.test(timestamp)) return false;
+  if (Math.abs(Date.now() / 1000 - Number(timestamp)) > MAX_CLOCK_SKEW_SECONDS) return false;
+
+  const expected = Buffer.from(signAgentPayload(secret, timestamp, body));
+  const actual = Buffer.from(signature);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
@@ -0,0 +1,41 @@
+import type { Platform, ScrapeTargetType } from "@/types/fandom";
+
+/**
+ * Wire format between the server and the agent CLI. Plain types only: the
+ * CLI imports this file outside the Next.js app.
+ */
+
+/** One feed to scrape, pushed back with the same target */
+export interface AgentTarget {
+  type: ScrapeTargetType;
+  value: string;
+}
+
+/** A leased scrape job: every target of one fandom-platform */
+export interface AgentJob {
+  id: string;
+  fandomId: string;
+  fandomName: string;
+  platform: Platform;
+  attempt: number;
+  maxAttempts: number;
+  leasedUntil: string;
+  targets: AgentTarget[];
+}
+
+export interface AgentHeartbeat {
+  status: "idle" | "busy";
+  /** Job being worked on; its lease is extended */
+  jobId?: string | null;
+  capabilities: Platform[];
+  host?: string;
+  version?: string;
+}
+
+export interface AgentJobOutcome {
+  jobId: string;
+  success: boolean;
+  error?: string;
+  /** Run of the first pushed target, linked from the job */
+  scrapeRunId?: string;
+}
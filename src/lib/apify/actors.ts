@@ -1,14 +1,22 @@
-import type { Platform } from "@/types/fandom";
+import type { KeywordType, Platform } from "@/types/fandom";
 
 export interface ActorConfig {
   actorId: string;
   platform: Platform;
   description: string;
+  /** Keyword feeds the actor can scrape; `feed` is only passed for these */
+  feeds?: KeywordType[];
   buildInput: (params: {
     handle: string;
     keyword?: string;
+    feed?: KeywordType;
     limit?: number;
   }) => Record<string, unknown>;
+  /** Actor that scrapes the comments on a single post, when one is available */
+  comments?: {
+    actorId: string;
+    buildInput: (params: { url: string; limit: number }) => Record<string, unknown>;
+  };
 }
 
 export const actorConfigs: Record<string, ActorConfig> = {
@@ -16,21 +24,39 @@ export const actorConfigs: Record<string, ActorConfig> = {
     actorId: "menoob/pldt-instagram-scraper",
     platform: "instagram",
     description: "Scrapes Instagram profiles, posts, and hashtags",
-    buildInput: ({ handle, limit = 20 }) => ({
-      directUrls: [`https://www.instagram.com/${handle.replace("@", "")}/`],
+    feeds: ["hashtag"],
+    buildInput: ({ handle, keyword, feed, limit = 20 }) => ({
+      directUrls: [
+        feed === "hashtag" && keyword
+          ? `https://www.instagram.com/explore/tags/${encodeURIComponent(keyword)}/`
+          : `https://www.instagram.com/${handle.replace("@", "")}/`,
+      ],
       resultsType: "posts",
       resultsLimit: limit,
     }),
+    comments: {
+      actorId: "apify/instagram-comment-scraper",
+      buildInput: ({ url, limit }) => ({ directUrls: [url], resultsLimit: limit }),
+    },
   },
   tiktok: {
     actorId: "menoob/pldt-tiktok-scraper",
     platform: "tiktok",
     description: "Scrapes TikTok profiles, videos, and hashtags",
-    buildInput: ({ handle, limit = 20 }) => ({
-      profiles: [handle.replace("@", "")],
+    feeds: ["hashtag", "search"],
+    buildInput: ({ handle, keyword, feed, limit = 20 }) => ({
+      ...(feed === "hashtag" && keyword
+        ? { hashtags: [keyword] }
+        : feed === "search" && keyword
+          ? { searchQueries: [keyword] }
+          : { profiles: [handle.replace("@", "")] }),
       resultsPerPage: limit,
       shouldDownloadVideos: false,
     }),
+    comments: {
+      actorId: "clockworks/tiktok-comments-scraper",
+      buildInput: ({ url, limit }) => ({ postURLs: [url], commentsPerPost: limit }),
+    },
   },
   facebook: {
     actorId: "menoob/facebook-banking-scraper",
@@ -40,23 +66,42 @@ export const actorConfigs: Record<string, ActorConfig> = {
       startUrls: [{ url: `https://www.facebook.com/${handle}` }],
       resultsLimit: limit,
     }),
+    comments: {
+      actorId: "apify/facebook-comments-scraper",
+      buildInput: ({ url, limit }) => ({ startUrls: [{ url }], resultsLimit: limit }),
+    },
   },
   youtube: {
     actorId: "menoob/pldt-youtube-scraper",
     platform: "youtube",
     description: "Custom YouTube scraper via page data extraction",
-    buildInput: ({ handle, limit = 20 }) => ({
-      startUrls: [{ url: `https://www.youtube.com/@${handle}` }],
+    feeds: ["hashtag", "search"],
+    buildInput: ({ handle, keyword, feed, limit = 20 }) => ({
+      startUrls: [
+        {
+          url:
+            feed === "hashtag" && keyword
+              ? `https://www.youtube.com/hashtag/${encodeURIComponent(keyword)}`
+              : feed === "search" && keyword
+                ? `https://www.youtube.com/results?search_query=${encodeURIComponent(keyword)}`
+                : `https://www.youtube.com/@${handle}`,
+        },
+      ],
       maxResults: limit,
       type: "video",
     }),
+    comments: {
+      actorId: "streamers/youtube-comments-scraper",
+      buildInput: ({ url, limit }) => ({ startUrls: [{ url }], maxComments: limit }),
+    },
   },
   twitter: {
     actorId: "menoob/pldt-twitter-scraper",
     platform: "twitter",
     description: "Scrapes tweets by keyword or hashtag",
-    buildInput: ({ handle, keyword, limit = 20 }) => ({
-      searchTerms: keyword ? [keyword] : [handle],
+    feeds: ["hashtag", "search"],
+    buildInput: ({ handle, keyword, feed, limit = 20 }) => ({
+      searchTerms: keyword ? [feed === "hashtag" ? `#${keyword}` : keyword] : [handle],
       maxTweets: limit,
       searchMode: "live",
     }),
@@ -65,13 +110,31 @@ export const actorConfigs: Record<string, ActorConfig> = {
     actorId: "menoob/pldt-reddit-scraper",
     platform: "reddit",
     description: "Custom Reddit scraper via public JSON API",
-    buildInput: ({ handle, keyword, limit = 20 }) => ({
-      startUrls: keyword
-        ? [{ url: `https://www.reddit.com/search.json?q=${encodeURIComponent(keyword)}&sort=new&limit=${limit}` }]
-        : [{ url: `https://www.reddit.com/search.json?q=${encodeURIComponent(handle)}&sort=new&limit=${limit}` }],
-      maxItems: limit,
-      sort: "new",
-    }),
+    // Reddit has no hashtags; both feeds run a search. Accounts are subreddits:
+    // their newest posts plus the about page (subscribers, active users).
+    feeds: ["hashtag", "search"],
+    buildInput: ({ handle, keyword, feed, limit = 20 }) => {
+      const subreddit = handle.replace(/^\/?r\//i, "");
+      return {
+        startUrls:
+          feed && keyword
+            ? [{ url: `https://www.reddit.com/search.json?q=${encodeURIComponent(keyword)}&sort=new&limit=${limit}` }]
+            : [
+                { url: `https://www.reddit.com/r/${encodeURIComponent(subreddit)}/new.json?limit=${limit}` },
+                { url: `https://www.reddit.com/r/${encodeURIComponent(subreddit)}/about.json` },
+              ],
+        maxItems: limit,
+        sort: "new",
+      };
+    },
+    // A post's JSON listing holds the post followed by its comment tree
+    comments: {
+      actorId: "menoob/pldt-reddit-scraper",
+      buildInput: ({ url, limit }) => ({
+        startUrls: [{ url: `${url.replace(/\/+$/, "")}.json?limit=${limit}&sort=top` }],
+        maxItems: limit,
+      }),
+    },
   },
   googleTrends: {
     actorId: "menoob/pldt-google-trends-scraper",
@@ -17,9 +17,75 @@ export async function runActor(
   actorId: string,
   input: Record<string, unknown>
 ): Promise<string> {
+  const { datasetId } = await runActorWithUsage(actorId, input);
+  return datasetId;
+}
+
+/** A run that finished without succeeding; Apify still bills what it used */
+export class ApifyRunFailedError extends Error {
+  constructor(
+    readonly runId: string,
+    readonly status: string,
+    readonly usageUsd: number
+  ) {
+    super(`Apify run ${runId} ended with ${status}`);
+    this.name = "ApifyRunFailedError";
+  }
+}
+
+/**
+ * Blocking: waits for the run to finish. Used by the provider layer, which
+ * needs the items inline; usageUsd is what Apify billed for the run. A run
+ * that fails, times out or is aborted throws ApifyRunFailedError.
+ */
+export async function runActorWithUsage(
+  actorId: string,
+  input: Record<string, unknown>
+): Promise<{ datasetId: string; usageUsd: number }> {
   const apify = getApifyClient();
   const run = await apify.actor(actorId).call(input);
-  return run.defaultDatasetId;
+  if (run.status !== "SUCCEEDED") {
+    throw new ApifyRunFailedError(run.id, run.status, run.usageTotalUsd ?? 0);
+  }
+  return { datasetId: run.defaultDatasetId, usageUsd: run.usageTotalUsd ?? 0 };
+}
+
+/** What Apify billed for a run so far (USD); null when the run can't be read */
+export async function getRunUsageUsd(runId: string): Promise<number | null> {
+  const apify = getApifyClient();
+  const run = await apify.run(runId).get();
+  return run ? run.usageTotalUsd ?? 0 : null;
+}
+
+/** Run events that end an actor run; the completion webhook fires on each */
+const RUN_FINISHED_EVENTS = [
+  "ACTOR.RUN.SUCCEEDED",
+  "ACTOR.RUN.FAILED",
+  "ACTOR.RUN.TIMED_OUT",
+  "ACTOR.RUN.ABORTED",
+] as const;
+
+/**
+ * Start an actor run without waiting for it. An ad-hoc webhook is registered
+ * on the run and POSTs Apify's default payload to `webhook.requestUrl` with
+ * `webhook.headers` once the run finishes, however it finishes.
+ */
+export async function startActor(
+  actorId: string,
+  input: Record<string, unknown>,
+  webhook: { requestUrl: string; headers: Record<string, string> }
+): Promise<{ runId: string; datasetId: string }> {
+  const apify = getApifyClient();
+  const run = await apify.actor(actorId).start(input, {
+    webhooks: [
+      {
+        eventTypes: [...RUN_FINISHED_EVENTS],
+        requestUrl: webhook.requestUrl,
+        headersTemplate: JSON.stringify(webhook.headers),
+      },
+    ],
+  });
+  return { runId: run.id, datasetId: run.defaultDatasetId };
 }
 
 export async function getDatasetItems<T = Record<string, unknown>>(
@@ -0,0 +1,186 @@
+import type { FieldCoverage, Platform } from "@/types/fandom";
+import { isSubredditInfo } from "./normalize";
+
+/**
+ * Payload contracts: the raw fields each platform normalizer in normalize.ts
+ * reads, with the fallbacks it tries. SociaVault maps its responses onto the
+ * same Apify-shaped items, so one contract covers every provider.
+ *
+ * A renamed upstream field doesn't throw — the normalizer's `|| 0` turns it
+ * into silent zeros — so each batch is checked for how many items actually
+ * carry a value (see checkPayloadContract). Keep these in step with the
+ * normalizers.
+ */
+
+export interface ContractField {
+  /** Normalized field the value feeds */
+  field: string;
+  /** Raw paths in the normalizer's fallback order; dotted for nested values */
+  paths: string[];
+  /**
+   * "item": share of content items carrying it; "batch": carried by at least
+   * one item (account-level values the normalizer takes from the first match)
+   */
+  scope: "item" | "batch";
+  /** Only checked on account feeds; keyword feeds are other people's posts */
+  accountOnly?: boolean;
+}
+
+export interface PayloadContract {
+  fields: ContractField[];
+  /** Items the item-scoped fields apply to, when a batch mixes in profile items */
+  isContentItem?: (item: Record<string, unknown>) => boolean;
+}
+
+const item = (field: string, ...paths: string[]): ContractField => ({ field, paths, scope: "item" });
+const account = (field: string, ...paths: string[]): ContractField => ({
+  field,
+  paths,
+  scope: "batch",
+  accountOnly: true,
+});
+
+export const PAYLOAD_CONTRACTS: Record<Platform, PayloadContract> = {
+  instagram: {
+    fields: [
+      item("externalId", "id", "shortCode"),
+      item("text", "caption"),
+      item("url", "url"),
+      item("likes", "likesCount"),
+      item("comments", "commentsCount"),
+      item("publishedAt", "timestamp"),
+      account("followers", "ownerFollowerCount"),
+    ],
+  },
+  tiktok: {
+    fields: [
+      item("externalId", "id"),
+      item("text", "text", "desc"),
+      item("url", "webVideoUrl"),
+      item("likes", "diggCount", "likes"),
+      item("comments", "commentCount", "comments"),
+      item("views", "playCount", "views"),
+      item("publishedAt", "createTime"),
+      account("followers", "followerCount", "fans", "authorMeta.fans", "authorMeta.followers"),
+    ],
+    isContentItem: (i) => i.type !== "profile",
+  },
+  facebook: {
+    fields: [
+      item("externalId", "postId", "id"),
+      item("text", "text", "message"),
+      item("url", "url"),
+      item("likes", "likes", "reactionsCount"),
+      item("comments", "comments", "commentsCount"),
+      item("publishedAt", "time", "timestamp"),
+    ],
+  },
+  youtube: {
+    fields: [
+      item("externalId", "id"),
+      item("text", "title"),
+      item("url", "url"),
+      item("likes", "likes"),
+      item("comments", "commentsCount"),
+      item("views", "viewCount", "views"),
+      item("publishedAt", "date", "uploadDate"),
+      account("followers", "channelSubscribers"),
+    ],
+  },
+  twitter: {
+    fields: [
+      item("externalId", "id"),
+      item("text", "full_text", "text"),
+      item("url", "url"),
+      item("likes", "favorite_count", "likeCount"),
+      item("comments", "reply_count", "replyCount"),
+      item("publishedAt", "created_at"),
+    ],
+  },
+  reddit: {
+    fields: [
+      item("externalId", "id"),
+      item("text", "title"),
+      item("url", "url"),
+      item("likes", "upVotes", "score"),
+      item("comments", "numberOfComments", "numComments"),
+      item("publishedAt", "createdAt"),
+      account("followers", "numberOfMembers", "subscribers", "subreddit_subscribers"),
+    ],
+    isContentItem: (i) => !isSubredditInfo(i),
+  },
+};
+
+export interface ContractCheck {
+  fields: FieldCoverage[];
+  /** Contract fields no item carried */
+  missingFields: string[];
+  /** Top-level keys seen across the batch, sorted */
+  keys: string[];
+}
+
+const MAX_KEYS = 200;
+
+function readPath(obj: Record<string, unknown>, path: string): unknown {
+  let value: unknown = obj;
+  for (const part of path.split(".")) {
+    if (value === null || typeof value !== "object") return undefined;
+    value = (value as Record<string, unknown>)[part];
+  }
+  return value;
+}
+
+/** Zero counts and empty strings are what a renamed field turns into, so they don't count */
+function hasValue(value: unknown): boolean {
+  if (value === undefined || value === null || value === "") return false;
+  if (typeof value === "number") return value !== 0;
+  if (typeof value === "string" && /^\d+$/.test(value)) return Number(value) !== 0;
+  return true;
+}
+
+/** Measure how well a batch of raw items fills its platform's contract */
+export function checkPayloadContract(
+  platform: Platform,
+  items: Record<string, unknown>[],
+  options: { accountFeed: boolean }
+): ContractCheck {
+  const contract = PAYLOAD_CONTRACTS[platform];
+  const contentItems = contract.isContentItem ? items.filter(contract.isContentItem) : items;
+
+  const fields: FieldCoverage[] = [];
+  for (const spec of contract.fields) {
+    if (spec.accountOnly && !options.accountFeed) continue;
+    const applicable = spec.scope === "item" ? contentItems : items;
+    if (applicable.length === 0) continue;
+
+    const pathCounts = new Map<string, number>();
+    let covered = 0;
+    for (const raw of applicable) {
+      const path = spec.paths.find((p) => hasValue(readPath(raw, p)));
+      if (!path) continue;
+      covered++;
+      pathCounts.set(path, (pathCounts.get(path) ?? 0) + 1);
+    }
+
+    const topPath = [...pathCounts.entries()].sort((a, b) => b[1] - a[1])[0]?.[0] ?? null;
+    fields.push({
+      field: spec.field,
+      coverage: spec.scope === "batch" ? (covered > 0 ? 1 : 0) : covered / applicable.length,
+      path: topPath,
+    });
+  }
+
+  const keys = new Set<string>();
+  for (const raw of items) {
+    for (const key of Object.keys(raw)) {
+      if (keys.size >= MAX_KEYS) break;
+      if (!key.startsWith("_")) keys.add(key);
+    }
+  }
+
+  return {
+    fields,
+    missingFields: fields.filter((f) => f.coverage === 0).map((f) => f.field),
+    keys: [...keys].sort(),
+  };
+}
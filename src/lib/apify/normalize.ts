@@ -7,6 +7,8 @@ interface NormalizedMetric {
   avgLikes: number;
   avgComments: number;
   avgShares: number;
+  /** Reddit only: users online in the subreddit */
+  activeUsers?: number;
 }
 
 interface NormalizedContent {
@@ -22,6 +24,14 @@ interface NormalizedContent {
   hashtags: string[];
 }
 
+interface NormalizedComment {
+  externalId: string;
+  author: string | null;
+  text: string;
+  likes: number;
+  publishedAt: string | null;
+}
+
 interface NormalizedInfluencer {
   username: string;
   displayName: string | null;
@@ -142,7 +152,7 @@ export function normalizeContent(
         hashtags: extractHashtags(item.text || item.message || ""),
       }));
     case "reddit":
-      return rawData.map((item) => ({
+      return rawData.filter((item) => !isSubredditInfo(item)).map((item) => ({
         externalId: item.id || "",
         contentType: "thread",
         text: item.title || null,
@@ -159,6 +169,50 @@ export function normalizeContent(
   }
 }
 
+/**
+ * Comments from a post's comments feed. Comment actors and SociaVault use
+ * different field names per platform, so each field falls back through the
+ * known variants; Reddit listings may also arrive as raw { kind, data } things,
+ * where only "t1" (comments) are kept. Comments without text are dropped.
+ */
+export function normalizeComments(
+  platform: Platform,
+  rawData: any[]
+): NormalizedComment[] {
+  const items =
+    platform === "reddit"
+      ? rawData.filter((item) => !item.kind || item.kind === "t1").map((item) => item.data || item)
+      : rawData;
+
+  return items
+    .map((item) => {
+      const author = item.author ?? item.user ?? item.owner;
+      const epoch = item.create_time || item.createTime || item.created_utc;
+      return {
+        externalId: String(item.id || item.cid || item.commentId || ""),
+        author:
+          (typeof author === "string"
+            ? author
+            : author?.username || author?.unique_id || author?.uniqueId || author?.name) ||
+          item.ownerUsername ||
+          item.uniqueId ||
+          item.authorText ||
+          item.profileName ||
+          null,
+        text: String(item.text || item.body || item.comment || item.content || "").trim(),
+        likes:
+          Number(
+            item.likesCount || item.likeCount || item.diggCount || item.digg_count ||
+              item.voteCount || item.score || item.ups
+          ) || 0,
+        publishedAt: typeof epoch === "number"
+          ? new Date(epoch * 1000).toISOString()
+          : safeParseDate(item.timestamp || item.createdAt || item.created_at || item.date || item.publishedTimeText || null),
+      };
+    })
+    .filter((c) => c.externalId && c.text);
+}
+
 export function normalizeInfluencers(
   platform: Platform,
   rawData: any[]
@@ -439,24 +493,43 @@ function normalizeTwitterMetrics(rawData: any[]): NormalizedMetric {
   };
 }
 
+/**
+ * Subreddit scrapes carry one community item (Apify `dataType: "community"`,
+ * or the raw about.json data) alongside the posts.
+ */
+export function isSubredditInfo(item: any): boolean {
+  return item.dataType === "community" || typeof item.subscribers === "number";
+}
+
 function normalizeRedditMetrics(rawData: any[]): NormalizedMetric {
-  const totalLikes = rawData.reduce(
+  const info = rawData.find(isSubredditInfo);
+  const posts = rawData.filter((item) => !isSubredditInfo(item));
+  const totalLikes = posts.reduce(
     (sum, item) => sum + (item.upVotes || item.score || 0),
     0
   );
-  const totalComments = rawData.reduce(
+  const totalComments = posts.reduce(
     (sum, item) => sum + (item.numberOfComments || item.numComments || 0),
     0
   );
+  // Subscribers from the community item, else from the listing's posts (keyword
+  // searches span many subreddits, so their posts are not used)
+  const followers = info
+    ? info.numberOfMembers || info.subscribers || 0
+    : posts.length > 0 && posts.every((item) => item.subreddit && item.subreddit === posts[0].subreddit)
+      ? Math.max(...posts.map((item) => item.subreddit_subscribers || 0))
+      : 0;
+  const activeUsers = info ? info.activeUsers ?? info.active_user_count ?? info.accounts_active : undefined;
   return {
-    followers: 0,
-    postsCount: rawData.length,
+    followers,
+    postsCount: posts.length,
     engagementTotal: totalLikes + totalComments,
-    avgLikes: rawData.length ? Math.round(totalLikes / rawData.length) : 0,
-    avgComments: rawData.length
-      ? Math.round(totalComments / rawData.length)
+    avgLikes: posts.length ? Math.round(totalLikes / posts.length) : 0,
+    avgComments: posts.length
+      ? Math.round(totalComments / posts.length)
       : 0,
     avgShares: 0,
+    activeUsers: typeof activeUsers === "number" ? activeUsers : undefined,
   };
 }
 
@@ -0,0 +1,56 @@
+import { createHmac, timingSafeEqual } from "crypto";
+
+/**
+ * Signing for Apify run-completion webhooks.
+ *
+ * Apify can't compute a signature over its own payload, so the signature is
+ * fixed when the run is started: an HMAC-SHA256 of the scrape_runs ID, keyed
+ * with APIFY_WEBHOOK_SECRET, sent back as the X-Webhook-Signature header. The
+ * receiver also checks that the payload's dataset is the run's own, so a
+ * signature can't be replayed against another dataset.
+ */
+
+export const WEBHOOK_SIGNATURE_HEADER = "x-webhook-signature";
+
+/** Subset of Apify's default webhook payload the receiver reads */
+export interface ApifyWebhookPayload {
+  eventType: string;
+  resource: {
+    id: string;
+    status: string;
+    defaultDatasetId: string;
+  };
+}
+
+function getWebhookSecret(): string {
+  const secret = process.env.APIFY_WEBHOOK_SECRET;
+  if (!secret) throw new Error("APIFY_WEBHOOK_SECRET environment variable is required");
+  return secret;
+}
+
+function getWebhookUrl(): string {
+  const url = process.env.APIFY_WEBHOOK_URL;
+  if (!url) throw new Error("APIFY_WEBHOOK_URL environment variable is required");
+  return url;
+}
+
+export function signScrapeRun(scrapeRunId: string): string {
+  return `sha256=${createHmac("sha256", getWebhookSecret()).update(scrapeRunId).digest("hex")}`;
+}
+
+export function verifyScrapeRunSignature(scrapeRunId: string, signature: string | null): boolean {
+  if (!signature) return false;
+  const expected = Buffer.from(signScrapeRun(scrapeRunId));
+  const actual = Buffer.from(signature);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+/** Webhook target for one scrape run: the receiver URL plus its signed headers */
+export function buildRunWebhook(scrapeRunId: string): { requestUrl: string; headers: Record<string, string> } {
+  const url = new URL(getWebhookUrl());
+  url.searchParams.set("scrapeRunId", scrapeRunId);
+  return {
+    requestUrl: url.toString(),
+    headers: { "X-Webhook-Signature": signScrapeRun(scrapeRunId) },
+  };
+}
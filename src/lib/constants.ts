@@ -1,4 +1,4 @@
-import type { Platform } from "@/types/fandom";
+import type { FandomTier, HandleRole, Platform } from "@/types/fandom";
 
 export const VALID_PLATFORMS: Platform[] = [
   "instagram",
@@ -8,3 +8,56 @@ export const VALID_PLATFORMS: Platform[] = [
   "twitter",
   "reddit",
 ];
+
+export const HANDLE_ROLES: HandleRole[] = ["official", "fanbase", "news", "subreddit"];
+
+/**
+ * Anomaly checks on account metrics: a snapshot is quarantined when followers
+ * drop to 0, move by FOLLOWER_ANOMALY_RATIO or more against the recent
+ * baseline (accounts with at least ANOMALY_MIN_FOLLOWERS), or average
+ * engagement per post jumps by ENGAGEMENT_ANOMALY_RATIO.
+ */
+export const FOLLOWER_ANOMALY_RATIO = 2;
+export const ENGAGEMENT_ANOMALY_RATIO = 10;
+export const ANOMALY_MIN_FOLLOWERS = 1000;
+/** Accepted snapshots per account whose median forms the baseline */
+export const ANOMALY_BASELINE_SNAPSHOTS = 7;
+
+/** Tiers that stop using a provider once it is near its monthly budget */
+export const LOW_PRIORITY_TIERS: FandomTier[] = ["existing"];
+
+/** Bounds for a fandom's per-platform scrape item cap (fandoms.scrape_item_cap) */
+export const MIN_SCRAPE_ITEM_CAP = 5;
+export const MAX_SCRAPE_ITEM_CAP = 500;
+
+/** Bounds for how many top posts get their comments fetched per scrape (fandoms.scrape_comment_posts) */
+export const MAX_SCRAPE_COMMENT_POSTS = 20;
+/** Comments fetched per post */
+export const COMMENTS_PER_POST = 50;
+
+/** Home market: every Google Trends series defaults to it */
+export const DEFAULT_TRENDS_GEO = "PH";
+
+/**
+ * Countries offered for a fandom's Google Trends geo set (fandoms.trends_geos):
+ * the Philippines and OFW-heavy markets. Any ISO 3166-1 alpha-2 code is
+ * accepted; these are the ones named in the dashboard.
+ */
+export const TRENDS_GEOS: Record<string, string> = {
+  PH: "Philippines",
+  AE: "UAE",
+  SA: "Saudi Arabia",
+  US: "United States",
+  JP: "Japan",
+  SG: "Singapore",
+  QA: "Qatar",
+  KW: "Kuwait",
+  HK: "Hong Kong",
+  CA: "Canada",
+  GB: "United Kingdom",
+  AU: "Australia",
+  IT: "Italy",
+};
+
+/** Most countries per fandom; each adds a comparative batch run per scrape */
+export const MAX_TRENDS_GEOS = 8;
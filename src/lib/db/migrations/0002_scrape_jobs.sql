@@ -0,0 +1,25 @@
+CREATE TYPE "public"."scrape_job_status" AS ENUM('queued', 'leased', 'succeeded', 'dead');--> statement-breakpoint
+CREATE TABLE "scrape_jobs" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"fandom_id" uuid NOT NULL,
+	"platform" "platform" NOT NULL,
+	"status" "scrape_job_status" DEFAULT 'queued' NOT NULL,
+	"batch_id" uuid,
+	"trigger" text DEFAULT 'manual' NOT NULL,
+	"attempts" integer DEFAULT 0 NOT NULL,
+	"max_attempts" integer DEFAULT 5 NOT NULL,
+	"run_at" timestamp DEFAULT now() NOT NULL,
+	"leased_by" text,
+	"leased_until" timestamp,
+	"last_error" text,
+	"scrape_run_id" uuid,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	"finished_at" timestamp
+);
+--> statement-breakpoint
+ALTER TABLE "scrape_jobs" ADD CONSTRAINT "scrape_jobs_fandom_id_fandoms_id_fk" FOREIGN KEY ("fandom_id") REFERENCES "public"."fandoms"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "scrape_jobs" ADD CONSTRAINT "scrape_jobs_scrape_run_id_scrape_runs_id_fk" FOREIGN KEY ("scrape_run_id") REFERENCES "public"."scrape_runs"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "scrape_jobs_active_pair_idx" ON "scrape_jobs" USING btree ("fandom_id","platform") WHERE "scrape_jobs"."status" in ('queued', 'leased');--> statement-breakpoint
+CREATE INDEX "scrape_jobs_status_run_at_idx" ON "scrape_jobs" USING btree ("status","run_at");--> statement-breakpoint
+CREATE INDEX "scrape_jobs_batch_idx" ON "scrape_jobs" USING btree ("batch_id");
\ No newline at end of file
@@ -0,0 +1,19 @@
+CREATE TYPE "public"."circuit_state" AS ENUM('closed', 'open', 'half_open');--> statement-breakpoint
+CREATE TABLE "provider_health" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"provider" text NOT NULL,
+	"platform" "platform" NOT NULL,
+	"success_rate" numeric(5, 4) DEFAULT '1' NOT NULL,
+	"empty_rate" numeric(5, 4) DEFAULT '0' NOT NULL,
+	"avg_latency_ms" integer DEFAULT 0 NOT NULL,
+	"total_calls" integer DEFAULT 0 NOT NULL,
+	"consecutive_failures" integer DEFAULT 0 NOT NULL,
+	"circuit_state" "circuit_state" DEFAULT 'closed' NOT NULL,
+	"open_until" timestamp,
+	"last_error" text,
+	"last_success_at" timestamp,
+	"last_failure_at" timestamp,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX "provider_health_provider_platform_idx" ON "provider_health" USING btree ("provider","platform");
\ No newline at end of file
@@ -0,0 +1,11 @@
+CREATE TABLE "provider_routes" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"platform" "platform" NOT NULL,
+	"fandom_id" uuid,
+	"providers" text[] NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "provider_routes" ADD CONSTRAINT "provider_routes_fandom_id_fandoms_id_fk" FOREIGN KEY ("fandom_id") REFERENCES "public"."fandoms"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "provider_routes_global_platform_idx" ON "provider_routes" USING btree ("platform") WHERE "provider_routes"."fandom_id" is null;--> statement-breakpoint
+CREATE UNIQUE INDEX "provider_routes_fandom_platform_idx" ON "provider_routes" USING btree ("fandom_id","platform") WHERE "provider_routes"."fandom_id" is not null;
\ No newline at end of file
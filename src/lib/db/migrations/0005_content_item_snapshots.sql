@@ -0,0 +1,12 @@
+CREATE TABLE "content_item_snapshots" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"content_item_id" uuid NOT NULL,
+	"captured_at" timestamp DEFAULT now() NOT NULL,
+	"likes" integer DEFAULT 0 NOT NULL,
+	"comments" integer DEFAULT 0 NOT NULL,
+	"shares" integer DEFAULT 0 NOT NULL,
+	"views" integer DEFAULT 0 NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "content_item_snapshots" ADD CONSTRAINT "content_item_snapshots_content_item_id_content_items_id_fk" FOREIGN KEY ("content_item_id") REFERENCES "public"."content_items"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "content_item_snapshots_item_captured_at_idx" ON "content_item_snapshots" USING btree ("content_item_id","captured_at");
\ No newline at end of file
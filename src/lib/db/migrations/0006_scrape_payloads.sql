@@ -0,0 +1,19 @@
+CREATE TABLE "scrape_payloads" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"scrape_run_id" uuid NOT NULL,
+	"fandom_id" uuid NOT NULL,
+	"platform" "platform" NOT NULL,
+	"source" text NOT NULL,
+	"item_count" integer DEFAULT 0 NOT NULL,
+	"raw_bytes" integer DEFAULT 0 NOT NULL,
+	"payload" "bytea" NOT NULL,
+	"captured_at" timestamp DEFAULT now() NOT NULL,
+	"reprocessed_at" timestamp
+);
+--> statement-breakpoint
+DROP INDEX "content_item_snapshots_item_captured_at_idx";--> statement-breakpoint
+ALTER TABLE "scrape_payloads" ADD CONSTRAINT "scrape_payloads_scrape_run_id_scrape_runs_id_fk" FOREIGN KEY ("scrape_run_id") REFERENCES "public"."scrape_runs"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "scrape_payloads" ADD CONSTRAINT "scrape_payloads_fandom_id_fandoms_id_fk" FOREIGN KEY ("fandom_id") REFERENCES "public"."fandoms"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "scrape_payloads_scrape_run_idx" ON "scrape_payloads" USING btree ("scrape_run_id");--> statement-breakpoint
+CREATE INDEX "scrape_payloads_captured_at_idx" ON "scrape_payloads" USING btree ("captured_at");--> statement-breakpoint
+CREATE UNIQUE INDEX "content_item_snapshots_item_captured_at_idx" ON "content_item_snapshots" USING btree ("content_item_id","captured_at");
\ No newline at end of file
@@ -0,0 +1,18 @@
+CREATE TYPE "public"."scrape_attempt_outcome" AS ENUM('success', 'empty', 'error', 'skipped');--> statement-breakpoint
+CREATE TABLE "scrape_attempts" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"scrape_run_id" uuid NOT NULL,
+	"attempt_number" integer NOT NULL,
+	"provider" text NOT NULL,
+	"outcome" "scrape_attempt_outcome" NOT NULL,
+	"http_status" integer,
+	"error" text,
+	"latency_ms" integer DEFAULT 0 NOT NULL,
+	"item_count" integer DEFAULT 0 NOT NULL,
+	"failover_reason" text,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "scrape_runs" ADD COLUMN "error" text;--> statement-breakpoint
+ALTER TABLE "scrape_attempts" ADD CONSTRAINT "scrape_attempts_scrape_run_id_scrape_runs_id_fk" FOREIGN KEY ("scrape_run_id") REFERENCES "public"."scrape_runs"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "scrape_attempts_scrape_run_idx" ON "scrape_attempts" USING btree ("scrape_run_id","attempt_number");
\ No newline at end of file
@@ -0,0 +1,12 @@
+CREATE TABLE "scrape_cursors" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"fandom_id" uuid NOT NULL,
+	"platform" "platform" NOT NULL,
+	"last_published_at" timestamp,
+	"last_external_id" text,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "fandoms" ADD COLUMN "scrape_item_cap" integer DEFAULT 50 NOT NULL;--> statement-breakpoint
+ALTER TABLE "scrape_cursors" ADD CONSTRAINT "scrape_cursors_fandom_id_fandoms_id_fk" FOREIGN KEY ("fandom_id") REFERENCES "public"."fandoms"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "scrape_cursors_fandom_platform_idx" ON "scrape_cursors" USING btree ("fandom_id","platform");
\ No newline at end of file
@@ -0,0 +1,15 @@
+CREATE TABLE "scrape_schedules" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"tier" "fandom_tier",
+	"fandom_id" uuid,
+	"cron_expression" text NOT NULL,
+	"enabled" boolean DEFAULT true NOT NULL,
+	"last_run_at" timestamp,
+	"next_run_at" timestamp,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "scrape_schedules" ADD CONSTRAINT "scrape_schedules_fandom_id_fandoms_id_fk" FOREIGN KEY ("fandom_id") REFERENCES "public"."fandoms"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "scrape_schedules_tier_idx" ON "scrape_schedules" USING btree ("tier") WHERE "scrape_schedules"."fandom_id" is null;--> statement-breakpoint
+CREATE UNIQUE INDEX "scrape_schedules_fandom_idx" ON "scrape_schedules" USING btree ("fandom_id") WHERE "scrape_schedules"."fandom_id" is not null;--> statement-breakpoint
+CREATE INDEX "scrape_schedules_next_run_idx" ON "scrape_schedules" USING btree ("next_run_at");
\ No newline at end of file
@@ -0,0 +1,20 @@
+CREATE TYPE "public"."keyword_type" AS ENUM('hashtag', 'search');--> statement-breakpoint
+CREATE TYPE "public"."scrape_target_type" AS ENUM('handle', 'hashtag', 'search');--> statement-breakpoint
+CREATE TABLE "fandom_keywords" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"fandom_id" uuid NOT NULL,
+	"platform" "platform" NOT NULL,
+	"type" "keyword_type" NOT NULL,
+	"value" text NOT NULL,
+	"enabled" boolean DEFAULT true NOT NULL,
+	"last_scraped_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "content_items" ADD COLUMN "target_type" "scrape_target_type";--> statement-breakpoint
+ALTER TABLE "content_items" ADD COLUMN "target_value" text;--> statement-breakpoint
+ALTER TABLE "scrape_runs" ADD COLUMN "target_type" "scrape_target_type";--> statement-breakpoint
+ALTER TABLE "scrape_runs" ADD COLUMN "target_value" text;--> statement-breakpoint
+ALTER TABLE "fandom_keywords" ADD CONSTRAINT "fandom_keywords_fandom_id_fandoms_id_fk" FOREIGN KEY ("fandom_id") REFERENCES "public"."fandoms"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "fandom_keywords_fandom_platform_type_value_idx" ON "fandom_keywords" USING btree ("fandom_id","platform","type","value");--> statement-breakpoint
+CREATE INDEX "content_items_fandom_target_idx" ON "content_items" USING btree ("fandom_id","target_type","target_value");
\ No newline at end of file
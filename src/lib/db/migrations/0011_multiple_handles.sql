@@ -0,0 +1,27 @@
+CREATE TYPE "public"."handle_role" AS ENUM('official', 'fanbase', 'news', 'subreddit');--> statement-breakpoint
+CREATE TABLE "account_snapshots" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"fandom_id" uuid NOT NULL,
+	"platform" "platform" NOT NULL,
+	"handle" text NOT NULL,
+	"date" date NOT NULL,
+	"followers" integer DEFAULT 0 NOT NULL,
+	"posts_count" integer DEFAULT 0 NOT NULL,
+	"engagement_total" integer DEFAULT 0 NOT NULL,
+	"avg_likes" integer DEFAULT 0 NOT NULL,
+	"avg_comments" integer DEFAULT 0 NOT NULL,
+	"avg_shares" integer DEFAULT 0 NOT NULL
+);
+--> statement-breakpoint
+DROP INDEX "fandom_platforms_fandom_platform_idx";--> statement-breakpoint
+DROP INDEX "scrape_cursors_fandom_platform_idx";--> statement-breakpoint
+ALTER TABLE "fandom_platforms" ADD COLUMN "role" "handle_role" DEFAULT 'official' NOT NULL;--> statement-breakpoint
+ALTER TABLE "scrape_cursors" ADD COLUMN "handle" text DEFAULT '' NOT NULL;--> statement-breakpoint
+ALTER TABLE "account_snapshots" ADD CONSTRAINT "account_snapshots_fandom_id_fandoms_id_fk" FOREIGN KEY ("fandom_id") REFERENCES "public"."fandoms"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "account_snapshots_fandom_platform_handle_date_idx" ON "account_snapshots" USING btree ("fandom_id","platform","handle","date");--> statement-breakpoint
+CREATE UNIQUE INDEX "fandom_platforms_fandom_platform_handle_idx" ON "fandom_platforms" USING btree ("fandom_id","platform",lower("handle"));--> statement-breakpoint
+-- Existing cursors belonged to the platform's only account
+UPDATE "scrape_cursors" SET "handle" = lower(regexp_replace(regexp_replace(trim(fp."handle"), '^@', ''), '^/?r/', '', 'i'))
+FROM "fandom_platforms" fp
+WHERE fp."fandom_id" = "scrape_cursors"."fandom_id" AND fp."platform" = "scrape_cursors"."platform";--> statement-breakpoint
+CREATE UNIQUE INDEX "scrape_cursors_fandom_platform_handle_idx" ON "scrape_cursors" USING btree ("fandom_id","platform","handle");
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TABLE "account_snapshots" ADD COLUMN "active_users" integer;--> statement-breakpoint
+-- Reddit handles are scraped as subreddits
+UPDATE "fandom_platforms" SET "role" = 'subreddit' WHERE "platform" = 'reddit' AND "role" = 'official';
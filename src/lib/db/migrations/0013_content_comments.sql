@@ -0,0 +1,18 @@
+CREATE TABLE "content_comments" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"content_item_id" uuid NOT NULL,
+	"fandom_id" uuid NOT NULL,
+	"platform" "platform" NOT NULL,
+	"external_id" text NOT NULL,
+	"author" text,
+	"text" text NOT NULL,
+	"likes" integer DEFAULT 0 NOT NULL,
+	"published_at" timestamp,
+	"scraped_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "fandoms" ADD COLUMN "scrape_comment_posts" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "content_comments" ADD CONSTRAINT "content_comments_content_item_id_content_items_id_fk" FOREIGN KEY ("content_item_id") REFERENCES "public"."content_items"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "content_comments" ADD CONSTRAINT "content_comments_fandom_id_fandoms_id_fk" FOREIGN KEY ("fandom_id") REFERENCES "public"."fandoms"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "content_comments_item_external_id_idx" ON "content_comments" USING btree ("content_item_id","external_id");--> statement-breakpoint
+CREATE INDEX "content_comments_fandom_likes_idx" ON "content_comments" USING btree ("fandom_id","likes");
\ No newline at end of file
@@ -0,0 +1,22 @@
+CREATE TABLE "provider_budgets" (
+	"provider" text PRIMARY KEY NOT NULL,
+	"monthly_budget_usd" numeric(12, 2) NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "provider_usage" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"provider" text NOT NULL,
+	"platform" "platform" NOT NULL,
+	"fandom_id" uuid,
+	"feed" text,
+	"outcome" text NOT NULL,
+	"item_count" integer DEFAULT 0 NOT NULL,
+	"credits" integer DEFAULT 0 NOT NULL,
+	"cost_usd" numeric(12, 6) DEFAULT '0' NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "provider_usage" ADD CONSTRAINT "provider_usage_fandom_id_fandoms_id_fk" FOREIGN KEY ("fandom_id") REFERENCES "public"."fandoms"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "provider_usage_provider_created_at_idx" ON "provider_usage" USING btree ("provider","created_at");--> statement-breakpoint
+CREATE INDEX "provider_usage_fandom_created_at_idx" ON "provider_usage" USING btree ("fandom_id","created_at");
\ No newline at end of file
@@ -0,0 +1,4 @@
+CREATE TYPE "public"."snapshot_status" AS ENUM('accepted', 'quarantined');--> statement-breakpoint
+ALTER TABLE "account_snapshots" ADD COLUMN "status" "snapshot_status" DEFAULT 'accepted' NOT NULL;--> statement-breakpoint
+ALTER TABLE "account_snapshots" ADD COLUMN "anomaly_reason" text;--> statement-breakpoint
+ALTER TABLE "metric_snapshots" ADD COLUMN "status" "snapshot_status" DEFAULT 'accepted' NOT NULL;
\ No newline at end of file
@@ -0,0 +1,17 @@
+CREATE TABLE "payload_checks" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"scrape_run_id" uuid NOT NULL,
+	"platform" "platform" NOT NULL,
+	"source" text NOT NULL,
+	"target_type" "scrape_target_type",
+	"item_count" integer DEFAULT 0 NOT NULL,
+	"fields" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"missing_fields" text[] DEFAULT '{}' NOT NULL,
+	"added_keys" text[] DEFAULT '{}' NOT NULL,
+	"removed_keys" text[] DEFAULT '{}' NOT NULL,
+	"keys" text[] DEFAULT '{}' NOT NULL,
+	"checked_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "payload_checks" ADD CONSTRAINT "payload_checks_scrape_run_id_scrape_runs_id_fk" FOREIGN KEY ("scrape_run_id") REFERENCES "public"."scrape_runs"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "payload_checks_platform_source_checked_at_idx" ON "payload_checks" USING btree ("platform","source","checked_at");
\ No newline at end of file
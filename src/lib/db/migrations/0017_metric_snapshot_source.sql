@@ -0,0 +1 @@
+ALTER TABLE "metric_snapshots" ADD COLUMN "source" text DEFAULT 'scrape' NOT NULL;
\ No newline at end of file
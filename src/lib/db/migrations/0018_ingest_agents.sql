@@ -0,0 +1,10 @@
+CREATE TABLE "ingest_agents" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"name" text NOT NULL,
+	"secret" text NOT NULL,
+	"platforms" "platform"[] DEFAULT '{}' NOT NULL,
+	"enabled" boolean DEFAULT true NOT NULL,
+	"last_push_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "ingest_agents_name_unique" UNIQUE("name")
+);
@@ -0,0 +1,7 @@
+ALTER TABLE "ingest_agents" ADD COLUMN "last_heartbeat_at" timestamp;--> statement-breakpoint
+ALTER TABLE "ingest_agents" ADD COLUMN "status" text;--> statement-breakpoint
+ALTER TABLE "ingest_agents" ADD COLUMN "capabilities" "platform"[] DEFAULT '{}' NOT NULL;--> statement-breakpoint
+ALTER TABLE "ingest_agents" ADD COLUMN "host" text;--> statement-breakpoint
+ALTER TABLE "ingest_agents" ADD COLUMN "version" text;--> statement-breakpoint
+ALTER TABLE "ingest_agents" ADD COLUMN "current_job_id" uuid;--> statement-breakpoint
+ALTER TABLE "ingest_agents" ADD CONSTRAINT "ingest_agents_current_job_id_scrape_jobs_id_fk" FOREIGN KEY ("current_job_id") REFERENCES "public"."scrape_jobs"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
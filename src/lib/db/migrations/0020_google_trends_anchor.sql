@@ -0,0 +1,2 @@
+ALTER TABLE "google_trends" ADD COLUMN "anchor_keyword" text;--> statement-breakpoint
+ALTER TABLE "google_trends" ADD COLUMN "scale_factor" numeric(12, 6);
\ No newline at end of file
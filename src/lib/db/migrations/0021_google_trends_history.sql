@@ -0,0 +1,20 @@
+CREATE TABLE "google_trends_fetches" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"fandom_id" uuid NOT NULL,
+	"keyword" text NOT NULL,
+	"region" text DEFAULT 'PH' NOT NULL,
+	"source" text NOT NULL,
+	"window_start" date NOT NULL,
+	"window_end" date NOT NULL,
+	"points" jsonb NOT NULL,
+	"anchor_keyword" text,
+	"scale_factor" numeric(12, 6),
+	"align_factor" numeric(12, 6) NOT NULL,
+	"overlap_days" integer DEFAULT 0 NOT NULL,
+	"fetched_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "google_trends" ADD COLUMN "fetch_id" uuid;--> statement-breakpoint
+ALTER TABLE "google_trends_fetches" ADD CONSTRAINT "google_trends_fetches_fandom_id_fandoms_id_fk" FOREIGN KEY ("fandom_id") REFERENCES "public"."fandoms"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "google_trends_fetches_series_idx" ON "google_trends_fetches" USING btree ("fandom_id","keyword","region","fetched_at");--> statement-breakpoint
+ALTER TABLE "google_trends" ADD CONSTRAINT "google_trends_fetch_id_google_trends_fetches_id_fk" FOREIGN KEY ("fetch_id") REFERENCES "public"."google_trends_fetches"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,15 @@
+ALTER TABLE "fandoms" ADD COLUMN "search_keywords" jsonb;--> statement-breakpoint
+-- Keep charting fandoms with trend history under the keyword they were last searched by
+UPDATE "fandoms" SET "search_keywords" = jsonb_build_object(
+  'primary', t."keyword",
+  'aliases', CASE WHEN lower(t."keyword") = lower("fandoms"."name") THEN '[]'::jsonb ELSE jsonb_build_array("fandoms"."name") END,
+  'disambiguated', '[]'::jsonb,
+  'excluded', '[]'::jsonb
+)
+FROM (
+  SELECT DISTINCT ON ("fandom_id") "fandom_id", "keyword"
+  FROM "google_trends"
+  WHERE "region" = 'PH'
+  ORDER BY "fandom_id", "date" DESC
+) t
+WHERE t."fandom_id" = "fandoms"."id";
@@ -0,0 +1,20 @@
+CREATE TABLE "google_trends_related" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"fandom_id" uuid NOT NULL,
+	"keyword" text NOT NULL,
+	"region" text DEFAULT 'PH' NOT NULL,
+	"kind" text NOT NULL,
+	"ranking" text NOT NULL,
+	"term" text NOT NULL,
+	"topic_type" text,
+	"value" integer NOT NULL,
+	"formatted_value" text NOT NULL,
+	"position" integer NOT NULL,
+	"time_range" text NOT NULL,
+	"date" date NOT NULL,
+	"fetched_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "google_trends_related" ADD CONSTRAINT "google_trends_related_fandom_id_fandoms_id_fk" FOREIGN KEY ("fandom_id") REFERENCES "public"."fandoms"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "google_trends_related_entry_idx" ON "google_trends_related" USING btree ("fandom_id","keyword","region","date","kind","ranking","term");--> statement-breakpoint
+CREATE INDEX "google_trends_related_fandom_date_idx" ON "google_trends_related" USING btree ("fandom_id","date");
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "fandoms" ADD COLUMN "trends_geos" text[] DEFAULT '{"PH"}' NOT NULL;
\ No newline at end of file
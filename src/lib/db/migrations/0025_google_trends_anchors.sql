@@ -0,0 +1,17 @@
+CREATE TABLE "google_trends_anchors" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"keyword" text NOT NULL,
+	"region" text DEFAULT 'PH' NOT NULL,
+	"date" date NOT NULL,
+	"interest_value" integer NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX "google_trends_anchors_series_date_idx" ON "google_trends_anchors" USING btree ("keyword","region","date");--> statement-breakpoint
+-- Seed each anchor's series from a fandom series charted under the anchor keyword itself
+INSERT INTO "google_trends_anchors" ("keyword", "region", "date", "interest_value")
+SELECT DISTINCT ON ("keyword", "region", "date") "keyword", "region", "date", "interest_value"
+FROM "google_trends"
+WHERE "anchor_keyword" IS NOT NULL AND "keyword" = "anchor_keyword"
+ORDER BY "keyword", "region", "date"
+ON CONFLICT DO NOTHING;
@@ -0,0 +1 @@
+ALTER TYPE "public"."scrape_status" ADD VALUE 'ingesting' BEFORE 'succeeded';
\ No newline at end of file
@@ -0,0 +1,10 @@
+DROP INDEX "fandom_platforms_fandom_platform_handle_idx";--> statement-breakpoint
+-- Handles that are the same account ("@bini_ph" / "bini_ph", "r/bini" / "bini"):
+-- keep the row with the most followers
+DELETE FROM "fandom_platforms" fp
+USING "fandom_platforms" keep
+WHERE keep."fandom_id" = fp."fandom_id" AND keep."platform" = fp."platform"
+  AND lower(regexp_replace(regexp_replace(trim(keep."handle"), '^@', ''), '^/?r/', '', 'i'))
+    = lower(regexp_replace(regexp_replace(trim(fp."handle"), '^@', ''), '^/?r/', '', 'i'))
+  AND (keep."followers" > fp."followers" OR (keep."followers" = fp."followers" AND keep."id" < fp."id"));--> statement-breakpoint
+CREATE UNIQUE INDEX "fandom_platforms_fandom_platform_account_idx" ON "fandom_platforms" USING btree ("fandom_id","platform",lower(regexp_replace(regexp_replace(trim("handle"), '^@', ''), '^/?r/', '', 'i')));
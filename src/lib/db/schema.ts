@@ -9,7 +9,12 @@ import {
   pgEnum,
   uniqueIndex,
   index,
+  customType,
+  boolean,
+  jsonb,
 } from "drizzle-orm/pg-core";
+import { sql } from "drizzle-orm";
+import type { FieldCoverage, FandomSearchKeywords, RelatedSearchKind, RelatedSearchRanking } from "@/types/fandom";
 
 export const fandomTierEnum = pgEnum("fandom_tier", [
   "emerging",
@@ -34,9 +39,37 @@ export const contentTypeEnum = pgEnum("content_type", [
   "thread",
 ]);
 
+/** Why an account is tracked for a fandom; a platform can have several */
+export const handleRoleEnum = pgEnum("handle_role", [
+  "official",
+  "fanbase",
+  "news",
+  "subreddit",
+]);
+
+/** What a scrape fetched: the platform account itself, or a keyword feed */
+export const scrapeTargetTypeEnum = pgEnum("scrape_target_type", [
+  "handle",
+  "hashtag",
+  "search",
+]);
+
+export const keywordTypeEnum = pgEnum("keyword_type", [
+  "hashtag",
+  "search",
+]);
+
+/** Snapshots with implausible metrics are quarantined until a user approves them */
+export const snapshotStatusEnum = pgEnum("snapshot_status", [
+  "accepted",
+  "quarantined",
+]);
+
+/** "ingesting": an async run's completion webhook has claimed it and is ingesting its dataset */
 export const scrapeStatusEnum = pgEnum("scrape_status", [
   "pending",
   "running",
+  "ingesting",
   "succeeded",
   "failed",
 ]);
@@ -50,6 +83,14 @@ export const fandoms = pgTable("fandoms", {
   imageUrl: text("image_url"),
   fandomGroup: text("fandom_group"),
   demographicTags: text("demographic_tags").array().notNull().default([]),
+  /** Most items fetched per platform per scrape; providers paginate up to this */
+  scrapeItemCap: integer("scrape_item_cap").default(50).notNull(),
+  /** Posts per scrape whose comments are fetched, most engaged first; 0 turns comment fetching off */
+  scrapeCommentPosts: integer("scrape_comment_posts").default(0).notNull(),
+  /** Google Trends search terms; null falls back to defaults derived from the name */
+  searchKeywords: jsonb("search_keywords").$type<FandomSearchKeywords>(),
+  /** Countries (ISO 3166-1 alpha-2) whose Google Trends interest is tracked */
+  trendsGeos: text("trends_geos").array().notNull().default(["PH"]),
   aiKeyBehavior: text("ai_key_behavior"),
   aiEngagementPotential: text("ai_engagement_potential"),
   aiCommunityTone: text("ai_community_tone"),
@@ -67,12 +108,53 @@ export const fandomPlatforms = pgTable("fandom_platforms", {
     .notNull(),
   platform: platformEnum("platform").notNull(),
   handle: text("handle").notNull(),
+  role: handleRoleEnum("role").default("official").notNull(),
   followers: integer("followers").default(0).notNull(),
   url: text("url"),
   verified: text("verified"),
   verifiedAt: timestamp("verified_at"),
 }, (table) => [
-  uniqueIndex("fandom_platforms_fandom_platform_idx").on(table.fandomId, table.platform),
+  // One row per account: the expression is accountKey() in SQL
+  uniqueIndex("fandom_platforms_fandom_platform_account_idx").on(
+    table.fandomId,
+    table.platform,
+    sql`lower(regexp_replace(regexp_replace(trim(${table.handle}), '^@', ''), '^/?r/', '', 'i'))`
+  ),
+]);
+
+/**
+ * Hashtags and search terms scraped alongside a fandom's platform accounts.
+ * Values are stored without a leading "#".
+ */
+export const fandomKeywords = pgTable("fandom_keywords", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  fandomId: uuid("fandom_id")
+    .references(() => fandoms.id, { onDelete: "cascade" })
+    .notNull(),
+  platform: platformEnum("platform").notNull(),
+  type: keywordTypeEnum("type").notNull(),
+  value: text("value").notNull(),
+  enabled: boolean("enabled").default(true).notNull(),
+  lastScrapedAt: timestamp("last_scraped_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("fandom_keywords_fandom_platform_type_value_idx").on(table.fandomId, table.platform, table.type, table.value),
+]);
+
+/** Newest post seen per fandom account; scrapes paginate back until they reach it */
+export const scrapeCursors = pgTable("scrape_cursors", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  fandomId: uuid("fandom_id")
+    .references(() => fandoms.id, { onDelete: "cascade" })
+    .notNull(),
+  platform: platformEnum("platform").notNull(),
+  /** accountKey() of the handle, so the cursor survives re-saving the fandom's accounts */
+  handle: text("handle").default("").notNull(),
+  lastPublishedAt: timestamp("last_published_at"),
+  lastExternalId: text("last_external_id"),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("scrape_cursors_fandom_platform_handle_idx").on(table.fandomId, table.platform, table.handle),
 ]);
 
 export const metricSnapshots = pgTable("metric_snapshots", {
@@ -97,10 +179,47 @@ export const metricSnapshots = pgTable("metric_snapshots", {
   avgLikes: integer("avg_likes").default(0).notNull(),
   avgComments: integer("avg_comments").default(0).notNull(),
   avgShares: integer("avg_shares").default(0).notNull(),
+  /** Quarantined while any account snapshot rolled into it is */
+  status: snapshotStatusEnum("status").default("accepted").notNull(),
+  /** "scrape" for rolled-up snapshots, else the tag given to a backfill import */
+  source: text("source").default("scrape").notNull(),
 }, (table) => [
   uniqueIndex("metric_snapshots_fandom_platform_date_idx").on(table.fandomId, table.platform, table.date),
 ]);
 
+/**
+ * Daily metrics per tracked account. The platform's metric_snapshots row for
+ * the same day is rolled up from these, one row per account.
+ */
+export const accountSnapshots = pgTable("account_snapshots", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  fandomId: uuid("fandom_id")
+    .references(() => fandoms.id, { onDelete: "cascade" })
+    .notNull(),
+  platform: platformEnum("platform").notNull(),
+  /** accountKey() of the handle */
+  handle: text("handle").notNull(),
+  date: date("date").notNull(),
+  followers: integer("followers").default(0).notNull(),
+  postsCount: integer("posts_count").default(0).notNull(),
+  engagementTotal: integer("engagement_total").default(0).notNull(),
+  avgLikes: integer("avg_likes").default(0).notNull(),
+  avgComments: integer("avg_comments").default(0).notNull(),
+  avgShares: integer("avg_shares").default(0).notNull(),
+  /** Reddit only: users online in the subreddit when scraped */
+  activeUsers: integer("active_users"),
+  status: snapshotStatusEnum("status").default("accepted").notNull(),
+  /** Why ingestion quarantined the snapshot, e.g. "Followers 12,000 vs 120,400 recently" */
+  anomalyReason: text("anomaly_reason"),
+}, (table) => [
+  uniqueIndex("account_snapshots_fandom_platform_handle_date_idx").on(
+    table.fandomId,
+    table.platform,
+    table.handle,
+    table.date
+  ),
+]);
+
 export const contentItems = pgTable("content_items", {
   id: uuid("id").defaultRandom().primaryKey(),
   fandomId: uuid("fandom_id")
@@ -118,9 +237,49 @@ export const contentItems = pgTable("content_items", {
   publishedAt: timestamp("published_at"),
   scrapedAt: timestamp("scraped_at").defaultNow().notNull(),
   hashtags: text("hashtags").array().default([]).notNull(),
+  /** Target whose scrape first found this item (null for rows ingested before targets were tracked) */
+  targetType: scrapeTargetTypeEnum("target_type"),
+  targetValue: text("target_value"),
 }, (table) => [
   uniqueIndex("content_items_fandom_external_id_idx").on(table.fandomId, table.externalId),
   index("content_items_fandom_published_at_idx").on(table.fandomId, table.publishedAt),
+  index("content_items_fandom_target_idx").on(table.fandomId, table.targetType, table.targetValue),
+]);
+
+/** Engagement counts for a content item each time it is re-scraped */
+export const contentItemSnapshots = pgTable("content_item_snapshots", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  contentItemId: uuid("content_item_id")
+    .references(() => contentItems.id, { onDelete: "cascade" })
+    .notNull(),
+  capturedAt: timestamp("captured_at").defaultNow().notNull(),
+  likes: integer("likes").default(0).notNull(),
+  comments: integer("comments").default(0).notNull(),
+  shares: integer("shares").default(0).notNull(),
+  views: integer("views").default(0).notNull(),
+}, (table) => [
+  uniqueIndex("content_item_snapshots_item_captured_at_idx").on(table.contentItemId, table.capturedAt),
+]);
+
+/** Comments fetched for a fandom's most engaged posts */
+export const contentComments = pgTable("content_comments", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  contentItemId: uuid("content_item_id")
+    .references(() => contentItems.id, { onDelete: "cascade" })
+    .notNull(),
+  fandomId: uuid("fandom_id")
+    .references(() => fandoms.id, { onDelete: "cascade" })
+    .notNull(),
+  platform: platformEnum("platform").notNull(),
+  externalId: text("external_id").notNull(),
+  author: text("author"),
+  text: text("text").notNull(),
+  likes: integer("likes").default(0).notNull(),
+  publishedAt: timestamp("published_at"),
+  scrapedAt: timestamp("scraped_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("content_comments_item_external_id_idx").on(table.contentItemId, table.externalId),
+  index("content_comments_fandom_likes_idx").on(table.fandomId, table.likes),
 ]);
 
 export const influencers = pgTable("influencers", {
@@ -161,10 +320,93 @@ export const googleTrends = pgTable("google_trends", {
   date: date("date").notNull(),
   interestValue: integer("interest_value").default(0).notNull(),
   region: text("region").default("PH").notNull(),
+  /**
+   * Comparative scrapes: the anchor keyword the row's batch was rescaled
+   * against, and the multiplier from Google's raw batch value to
+   * interest_value (anchor scaling times the history alignment, see
+   * trends.service.ts). Null for CSV uploads and regional rows.
+   */
+  anchorKeyword: text("anchor_keyword"),
+  scaleFactor: decimal("scale_factor", { precision: 12, scale: 6 }),
+  /** Fetch that last wrote this point */
+  fetchId: uuid("fetch_id").references(() => googleTrendsFetches.id, { onDelete: "set null" }),
 }, (table) => [
   uniqueIndex("google_trends_fandom_keyword_date_region_idx").on(table.fandomId, table.keyword, table.date, table.region),
 ]);
 
+/**
+ * One row per Google Trends window merged into google_trends: the points as
+ * fetched and the factor that aligned them to the stored series, so the
+ * history can be audited or rebuilt.
+ */
+export const googleTrendsFetches = pgTable("google_trends_fetches", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  fandomId: uuid("fandom_id")
+    .references(() => fandoms.id, { onDelete: "cascade" })
+    .notNull(),
+  keyword: text("keyword").notNull(),
+  region: text("region").default("PH").notNull(),
+  /** "scrape" | "upload" */
+  source: text("source").notNull(),
+  windowStart: date("window_start").notNull(),
+  windowEnd: date("window_end").notNull(),
+  points: jsonb("points").$type<Array<{ date: string; value: number }>>().notNull(),
+  anchorKeyword: text("anchor_keyword"),
+  scaleFactor: decimal("scale_factor", { precision: 12, scale: 6 }),
+  /** Multiplier onto the stored series, from the overlap with it or, for comparative fetches, with the anchor's series (1 = no overlap) */
+  alignFactor: decimal("align_factor", { precision: 12, scale: 6 }).notNull(),
+  overlapDays: integer("overlap_days").default(0).notNull(),
+  fetchedAt: timestamp("fetched_at").defaultNow().notNull(),
+}, (table) => [
+  index("google_trends_fetches_series_idx").on(table.fandomId, table.keyword, table.region, table.fetchedAt),
+]);
+
+/**
+ * The comparative anchor keyword's own series per country, on the shared
+ * index. Each comparative fetch is aligned to it, so every keyword in the
+ * fetch gets one factor and stays comparable with the stored history.
+ */
+export const googleTrendsAnchors = pgTable("google_trends_anchors", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  keyword: text("keyword").notNull(),
+  region: text("region").default("PH").notNull(),
+  date: date("date").notNull(),
+  interestValue: integer("interest_value").notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("google_trends_anchors_series_date_idx").on(table.keyword, table.region, table.date),
+]);
+
+/**
+ * Related queries and topics Google Trends returned for a fandom's keyword,
+ * one list per fetch day, so what fans search for can be followed over time.
+ */
+export const googleTrendsRelated = pgTable("google_trends_related", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  fandomId: uuid("fandom_id")
+    .references(() => fandoms.id, { onDelete: "cascade" })
+    .notNull(),
+  keyword: text("keyword").notNull(),
+  region: text("region").default("PH").notNull(),
+  kind: text("kind").$type<RelatedSearchKind>().notNull(),
+  ranking: text("ranking").$type<RelatedSearchRanking>().notNull(),
+  term: text("term").notNull(),
+  topicType: text("topic_type"),
+  value: integer("value").notNull(),
+  formattedValue: text("formatted_value").notNull(),
+  /** Position in Google's list, 0 = first */
+  position: integer("position").notNull(),
+  /** Google Trends range the list covers, e.g. "today 3-m" */
+  timeRange: text("time_range").notNull(),
+  date: date("date").notNull(),
+  fetchedAt: timestamp("fetched_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("google_trends_related_entry_idx").on(
+    table.fandomId, table.keyword, table.region, table.date, table.kind, table.ranking, table.term
+  ),
+  index("google_trends_related_fandom_date_idx").on(table.fandomId, table.date),
+]);
+
 export const aiPageInsights = pgTable("ai_page_insights", {
   id: uuid("id").defaultRandom().primaryKey(),
   page: text("page").notNull().unique(),
@@ -219,6 +461,245 @@ export const scrapeRuns = pgTable("scrape_runs", {
   finishedAt: timestamp("finished_at"),
   itemsCount: integer("items_count").default(0).notNull(),
   apifyRunId: text("apify_run_id"),
+  error: text("error"),
+  targetType: scrapeTargetTypeEnum("target_type"),
+  targetValue: text("target_value"),
 }, (table) => [
   index("scrape_runs_apify_run_id_idx").on(table.apifyRunId),
 ]);
+
+export const scrapeAttemptOutcomeEnum = pgEnum("scrape_attempt_outcome", [
+  "success",
+  "empty",
+  "error",
+  "skipped",
+]);
+
+/** Provider trail for a scrape run: one row per provider tried or skipped, in order */
+export const scrapeAttempts = pgTable("scrape_attempts", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  scrapeRunId: uuid("scrape_run_id")
+    .references(() => scrapeRuns.id, { onDelete: "cascade" })
+    .notNull(),
+  attemptNumber: integer("attempt_number").notNull(),
+  provider: text("provider").notNull(),
+  outcome: scrapeAttemptOutcomeEnum("outcome").notNull(),
+  httpStatus: integer("http_status"),
+  error: text("error"),
+  latencyMs: integer("latency_ms").default(0).notNull(),
+  itemCount: integer("item_count").default(0).notNull(),
+  failoverReason: text("failover_reason"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("scrape_attempts_scrape_run_idx").on(table.scrapeRunId, table.attemptNumber),
+]);
+
+const bytea = customType<{ data: Buffer; driverData: Buffer }>({
+  dataType() {
+    return "bytea";
+  },
+});
+
+/** Gzipped raw provider response for a scrape run, kept so it can be re-normalized later */
+export const scrapePayloads = pgTable("scrape_payloads", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  scrapeRunId: uuid("scrape_run_id")
+    .references(() => scrapeRuns.id, { onDelete: "cascade" })
+    .notNull(),
+  fandomId: uuid("fandom_id")
+    .references(() => fandoms.id, { onDelete: "cascade" })
+    .notNull(),
+  platform: platformEnum("platform").notNull(),
+  source: text("source").notNull(),
+  itemCount: integer("item_count").default(0).notNull(),
+  rawBytes: integer("raw_bytes").default(0).notNull(),
+  payload: bytea("payload").notNull(),
+  capturedAt: timestamp("captured_at").defaultNow().notNull(),
+  reprocessedAt: timestamp("reprocessed_at"),
+}, (table) => [
+  index("scrape_payloads_scrape_run_idx").on(table.scrapeRunId),
+  index("scrape_payloads_captured_at_idx").on(table.capturedAt),
+]);
+
+/**
+ * Payload contract check for a scrape run's raw items: field coverage, and
+ * top-level keys that appeared or vanished against the provider's recent runs
+ * (a rename shows up as one of each).
+ */
+export const payloadChecks = pgTable("payload_checks", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  scrapeRunId: uuid("scrape_run_id")
+    .references(() => scrapeRuns.id, { onDelete: "cascade" })
+    .notNull(),
+  platform: platformEnum("platform").notNull(),
+  source: text("source").notNull(),
+  targetType: scrapeTargetTypeEnum("target_type"),
+  itemCount: integer("item_count").default(0).notNull(),
+  fields: jsonb("fields").$type<FieldCoverage[]>().default([]).notNull(),
+  missingFields: text("missing_fields").array().default([]).notNull(),
+  addedKeys: text("added_keys").array().default([]).notNull(),
+  removedKeys: text("removed_keys").array().default([]).notNull(),
+  keys: text("keys").array().default([]).notNull(),
+  checkedAt: timestamp("checked_at").defaultNow().notNull(),
+}, (table) => [
+  index("payload_checks_platform_source_checked_at_idx").on(table.platform, table.source, table.checkedAt),
+]);
+
+export const scrapeJobStatusEnum = pgEnum("scrape_job_status", [
+  "queued",
+  "leased",
+  "succeeded",
+  "dead",
+]);
+
+export const scrapeJobs = pgTable("scrape_jobs", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  fandomId: uuid("fandom_id")
+    .references(() => fandoms.id, { onDelete: "cascade" })
+    .notNull(),
+  platform: platformEnum("platform").notNull(),
+  status: scrapeJobStatusEnum("status").default("queued").notNull(),
+  /** Groups jobs enqueued together (e.g. one "Scrape All" click) */
+  batchId: uuid("batch_id"),
+  /** What enqueued the job: "cron" | "manual" | "fandom_created" */
+  trigger: text("trigger").default("manual").notNull(),
+  attempts: integer("attempts").default(0).notNull(),
+  maxAttempts: integer("max_attempts").default(5).notNull(),
+  runAt: timestamp("run_at").defaultNow().notNull(),
+  leasedBy: text("leased_by"),
+  leasedUntil: timestamp("leased_until"),
+  lastError: text("last_error"),
+  scrapeRunId: uuid("scrape_run_id").references(() => scrapeRuns.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  finishedAt: timestamp("finished_at"),
+}, (table) => [
+  // At most one pending job per fandom-platform pair; re-enqueueing is a no-op
+  uniqueIndex("scrape_jobs_active_pair_idx")
+    .on(table.fandomId, table.platform)
+    .where(sql`${table.status} in ('queued', 'leased')`),
+  index("scrape_jobs_status_run_at_idx").on(table.status, table.runAt),
+  index("scrape_jobs_batch_idx").on(table.batchId),
+]);
+
+export const circuitStateEnum = pgEnum("circuit_state", [
+  "closed",
+  "open",
+  "half_open",
+]);
+
+export const providerHealth = pgTable("provider_health", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  provider: text("provider").notNull(),
+  platform: platformEnum("platform").notNull(),
+  /** Exponentially weighted rolling rates (0-1) */
+  successRate: decimal("success_rate", { precision: 5, scale: 4 }).default("1").notNull(),
+  emptyRate: decimal("empty_rate", { precision: 5, scale: 4 }).default("0").notNull(),
+  avgLatencyMs: integer("avg_latency_ms").default(0).notNull(),
+  totalCalls: integer("total_calls").default(0).notNull(),
+  consecutiveFailures: integer("consecutive_failures").default(0).notNull(),
+  circuitState: circuitStateEnum("circuit_state").default("closed").notNull(),
+  /** End of the cool-down while open; the trial deadline while half-open */
+  openUntil: timestamp("open_until"),
+  lastError: text("last_error"),
+  lastSuccessAt: timestamp("last_success_at"),
+  lastFailureAt: timestamp("last_failure_at"),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("provider_health_provider_platform_idx").on(table.provider, table.platform),
+]);
+
+export const providerRoutes = pgTable("provider_routes", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  platform: platformEnum("platform").notNull(),
+  /** Null = global default for the platform; set = per-fandom override */
+  fandomId: uuid("fandom_id").references(() => fandoms.id, { onDelete: "cascade" }),
+  /** Provider names in priority order, e.g. ["sociavault", "apify"] */
+  providers: text("providers").array().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("provider_routes_global_platform_idx")
+    .on(table.platform)
+    .where(sql`${table.fandomId} is null`),
+  uniqueIndex("provider_routes_fandom_platform_idx")
+    .on(table.fandomId, table.platform)
+    .where(sql`${table.fandomId} is not null`),
+]);
+
+/**
+ * External scraper agents that push raw items to /api/ingest/push. Each signs
+ * its requests with its own secret and may be limited to some platforms.
+ */
+export const ingestAgents = pgTable("ingest_agents", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  name: text("name").unique().notNull(),
+  /** HMAC-SHA256 key for the agent's request signatures; shown once when created */
+  secret: text("secret").notNull(),
+  /** Platforms the agent may push; empty = all */
+  platforms: platformEnum("platforms").array().default([]).notNull(),
+  enabled: boolean("enabled").default(true).notNull(),
+  lastPushAt: timestamp("last_push_at"),
+  /** Reported by the agent CLI (scripts/scraper-agent.ts) on every heartbeat */
+  lastHeartbeatAt: timestamp("last_heartbeat_at"),
+  /** "idle" | "busy" */
+  status: text("status"),
+  /** Platforms the agent can scrape locally */
+  capabilities: platformEnum("capabilities").array().default([]).notNull(),
+  host: text("host"),
+  version: text("version"),
+  currentJobId: uuid("current_job_id").references(() => scrapeJobs.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+/**
+ * One row per billable provider call: estimated credits and USD cost, with
+ * the fandom it was made for (null for calls outside a fandom scrape).
+ */
+export const providerUsage = pgTable("provider_usage", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  provider: text("provider").notNull(),
+  platform: platformEnum("platform").notNull(),
+  fandomId: uuid("fandom_id").references(() => fandoms.id, { onDelete: "set null" }),
+  /** Keyword or comments feed, null for account scrapes */
+  feed: text("feed"),
+  outcome: text("outcome").notNull(),
+  itemCount: integer("item_count").default(0).notNull(),
+  /** Provider credits: SociaVault API requests, Apify results */
+  credits: integer("credits").default(0).notNull(),
+  costUsd: decimal("cost_usd", { precision: 12, scale: 6 }).default("0").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("provider_usage_provider_created_at_idx").on(table.provider, table.createdAt),
+  index("provider_usage_fandom_created_at_idx").on(table.fandomId, table.createdAt),
+]);
+
+/** Monthly spend cap per provider, in USD; providers without a row are uncapped */
+export const providerBudgets = pgTable("provider_budgets", {
+  provider: text("provider").primaryKey(),
+  monthlyBudgetUsd: decimal("monthly_budget_usd", { precision: 12, scale: 2 }).notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+/**
+ * Cron schedules for the in-app scheduler. Rows without a fandom apply to a
+ * whole tier; a fandom row overrides its tier's schedule.
+ */
+export const scrapeSchedules = pgTable("scrape_schedules", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  tier: fandomTierEnum("tier"),
+  fandomId: uuid("fandom_id").references(() => fandoms.id, { onDelete: "cascade" }),
+  /** Five-field cron expression, evaluated in UTC */
+  cronExpression: text("cron_expression").notNull(),
+  enabled: boolean("enabled").default(true).notNull(),
+  lastRunAt: timestamp("last_run_at"),
+  nextRunAt: timestamp("next_run_at"),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("scrape_schedules_tier_idx")
+    .on(table.tier)
+    .where(sql`${table.fandomId} is null`),
+  uniqueIndex("scrape_schedules_fandom_idx")
+    .on(table.fandomId)
+    .where(sql`${table.fandomId} is not null`),
+  index("scrape_schedules_next_run_idx").on(table.nextRunAt),
+]);
@@ -1,9 +1,13 @@
 /**
  * Google Trends client — comparative batch queries for proper relative scaling.
- * Queries keywords in groups of 5 (Google's max) with an anchor keyword
- * so all values are normalized relative to each other, not individually.
+ * Queries keywords in groups of 5 (Google's max), each with a shared anchor
+ * keyword, so all values are normalized onto one index, not per batch.
+ * Any country geo works; each geo's index is separate (100 = the anchor's
+ * peak in that country).
  */
 
+import { DEFAULT_TRENDS_GEO } from "@/lib/constants";
+
 const UA = "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/131.0.0.0 Safari/537.36";
 
 function sleep(ms: number) {
@@ -46,6 +50,12 @@ export interface TrendResult {
   keyword: string;
   geo: string;
   dataPoints: TrendDataPoint[];
+  /** Keyword every batch was rescaled against */
+  anchor?: string;
+  /** Multiplier from the batch's raw values to the common index; null when the batch couldn't be anchored */
+  scaleFactor?: number | null;
+  /** The anchor's own series on the common index; the same for every result of a fetch */
+  anchorPoints?: TrendDataPoint[];
   error?: string;
 }
 
@@ -165,140 +175,111 @@ async function fetchBatch(
   return result;
 }
 
+/**
+ * Shared anchor injected into every comparative batch (GOOGLE_TRENDS_ANCHOR).
+ * It should be steadily searched in the geo and in the same range as the
+ * tracked keywords: much bigger and their values round down to 0, much
+ * smaller and its own series is too noisy to scale by.
+ */
+export const DEFAULT_TRENDS_ANCHOR = "BTS";
+
+export function getTrendsAnchor(): string {
+  return process.env.GOOGLE_TRENDS_ANCHOR?.trim() || DEFAULT_TRENDS_ANCHOR;
+}
+
+const sumValues = (points: TrendDataPoint[]) => points.reduce((sum, p) => sum + p.value, 0);
+
 /**
  * Fetch Google Trends data for multiple keywords using comparative batch queries.
  *
- * Strategy:
- * - Sort keywords, pick the most "popular" as anchor (first batch determines this)
- * - Query in batches of 4 + 1 anchor keyword
- * - Anchor keyword appears in every batch so we can normalize across batches
- * - Final values are all on the same relative scale
+ * Google scales each comparison (max 5 keywords) so its own peak is 100, so
+ * values from different batches aren't comparable. Every batch is the anchor
+ * plus up to 4 keywords, and each batch is rescaled by how the anchor came
+ * out in it: scale = (100 / anchor peak in the reference batch) × (anchor
+ * total in the reference batch / anchor total in this batch). All series end
+ * up on one index where 100 = the anchor's peak interest over the window;
+ * keywords searched more than the anchor go above 100.
+ *
+ * If the anchor has no data in the first batch (e.g. not searched in the
+ * geo), that batch's most searched keyword becomes the anchor.
  */
 export async function fetchGoogleTrendsComparative(
   keywords: string[],
-  geo = "PH",
-  timeRange = "today 3-m"
+  geo = DEFAULT_TRENDS_GEO,
+  timeRange = "today 3-m",
+  anchor = getTrendsAnchor()
 ): Promise<TrendResult[]> {
   if (keywords.length === 0) return [];
 
   const cookies = await getSession(geo);
   await sleep(1500);
 
-  // If 5 or fewer keywords, single batch — perfect comparison
   // (Google's internal API caps at 5 per comparison despite UI showing 8)
-  if (keywords.length <= 5) {
-    const batchData = await fetchBatch(keywords, geo, timeRange, cookies);
-    return keywords.map((kw) => ({
-      keyword: kw,
-      geo,
-      dataPoints: batchData.get(kw) || [],
-      error: (batchData.get(kw) || []).length === 0 ? "No data" : undefined,
-    }));
-  }
-
-  // More than 5: use anchor-based batching
-  // Use a known high-interest keyword as anchor for normalization
-  // BTS and BINI are the most searched fandoms in PH
-  const preferredAnchors = ["BTS", "BINI", "SB19", "SEVENTEEN", "NewJeans"];
-  let anchorKeyword = keywords.find((k) => preferredAnchors.includes(k)) || keywords[0];
-
-  // First batch: anchor + first 4 other keywords (5 total per batch)
-  const otherKeywords = keywords.filter((k) => k !== anchorKeyword);
-  const firstBatch = [anchorKeyword, ...otherKeywords.slice(0, 4)];
+  let anchorKeyword = anchor;
+  let others = keywords.filter((k) => k !== anchorKeyword);
+  const firstBatch = [anchorKeyword, ...others.slice(0, 4)];
   const firstData = await fetchBatch(firstBatch, geo, timeRange, cookies);
 
-  // Verify anchor has data, fall back if not
-  const anchorPoints = firstData.get(anchorKeyword) || [];
-  const anchorTotal = anchorPoints.reduce((sum, p) => sum + p.value, 0);
-  if (anchorTotal === 0) {
-    // Find any keyword with data from first batch
-    for (const kw of firstBatch) {
-      const pts = firstData.get(kw) || [];
-      const total = pts.reduce((sum, p) => sum + p.value, 0);
-      if (total > anchorTotal) {
-        anchorKeyword = kw;
-        break;
-      }
+  if (sumValues(firstData.get(anchorKeyword) || []) === 0) {
+    const fallback = firstBatch
+      .map((kw) => ({ kw, total: sumValues(firstData.get(kw) || []) }))
+      .sort((a, b) => b.total - a.total)[0];
+    if (fallback.total > 0) {
+      console.log(`[GoogleTrends] Anchor "${anchorKeyword}" has no data in ${geo}, using "${fallback.kw}"`);
+      anchorKeyword = fallback.kw;
     }
   }
 
-  console.log(`[GoogleTrends] Anchor keyword: "${anchorKeyword}" (total interest: ${anchorPoints.reduce((s, p) => s + p.value, 0)})`);
-
-  // Collect all results — first batch is already done
-  const allResults = new Map<string, TrendDataPoint[]>();
-  for (const kw of firstBatch) {
-    allResults.set(kw, firstData.get(kw) || []);
-  }
-
-  // Process remaining keywords in batches of 4 (+ anchor = 5)
-  const remaining = otherKeywords.slice(4);
-  for (let i = 0; i < remaining.length; i += 4) {
-    await sleep(8000); // 8s delay between batches to avoid 429
-
-    const batch = remaining.slice(i, i + 4);
-    const batchWithAnchor = [anchorKeyword, ...batch];
-
-    const batchData = await fetchBatch(
-      batchWithAnchor,
-      geo,
-      timeRange,
-      cookies
-    );
-
-    // Normalize this batch relative to the anchor's first-batch values
-    const batchAnchorPoints = batchData.get(anchorKeyword) || [];
+  const anchorPoints = firstData.get(anchorKeyword) || [];
+  const anchorTotal = sumValues(anchorPoints);
+  const anchorPeak = Math.max(...anchorPoints.map((p) => p.value), 0);
+  console.log(`[GoogleTrends] Anchor keyword: "${anchorKeyword}" (total interest: ${anchorTotal}, peak: ${anchorPeak})`);
+  const scaledAnchorPoints =
+    anchorPeak > 0 ? anchorPoints.map((p) => ({ date: p.date, value: Math.round((p.value * 100) / anchorPeak) })) : [];
+
+  const scaled = new Map<string, { points: TrendDataPoint[]; scaleFactor: number | null }>();
+  const collect = (batch: string[], data: Map<string, TrendDataPoint[]>) => {
+    const batchAnchorTotal = sumValues(data.get(anchorKeyword) || []);
+    const scaleFactor =
+      anchorPeak > 0 && batchAnchorTotal > 0 ? (100 / anchorPeak) * (anchorTotal / batchAnchorTotal) : null;
 
     for (const kw of batch) {
-      const kwPoints = batchData.get(kw) || [];
-
-      if (kwPoints.length === 0 || batchAnchorPoints.length === 0) {
-        allResults.set(kw, kwPoints);
-        continue;
-      }
-
-      // Cross-batch normalization:
-      // In this batch, anchor peaked at batchAnchorMax.
-      // In the first batch, anchor peaked at anchorMax.
-      // Scale factor = anchorMax / batchAnchorMax
-      const anchorMax = Math.max(...anchorPoints.map((p) => p.value), 1);
-      const batchAnchorMax = Math.max(
-        ...batchAnchorPoints.map((p) => p.value),
-        1
-      );
-      const scaleFactor = anchorMax / batchAnchorMax;
+      const points = data.get(kw) || [];
+      scaled.set(kw, {
+        points: scaleFactor === null ? [] : points.map((p) => ({ date: p.date, value: Math.round(p.value * scaleFactor) })),
+        scaleFactor,
+      });
+    }
+  };
 
-      const normalizedPoints = kwPoints.map((p) => ({
-        date: p.date,
-        value: Math.round(p.value * scaleFactor),
-      }));
+  collect(firstBatch, firstData);
 
-      allResults.set(kw, normalizedPoints);
-    }
-  }
+  // Remaining keywords in batches of 4 (+ anchor = 5)
+  others = keywords.filter((k) => !scaled.has(k));
+  for (let i = 0; i < others.length; i += 4) {
+    await sleep(8000); // 8s delay between batches to avoid 429
 
-  // Final normalization: scale everything to 0-100 like Google Trends does
-  // Find the global maximum across all keywords and all dates
-  let globalMax = 0;
-  for (const points of allResults.values()) {
-    for (const p of points) {
-      if (p.value > globalMax) globalMax = p.value;
-    }
+    const batch = others.slice(i, i + 4);
+    const batchData = await fetchBatch([anchorKeyword, ...batch], geo, timeRange, cookies);
+    collect(batch, batchData);
   }
 
   return keywords.map((kw) => {
-    const points = allResults.get(kw) || [];
-    const normalizedPoints =
-      globalMax > 0
-        ? points.map((p) => ({
-            date: p.date,
-            value: Math.round((p.value / globalMax) * 100),
-          }))
-        : points;
+    const result = scaled.get(kw);
+    const dataPoints = result?.points || [];
     return {
       keyword: kw,
       geo,
-      dataPoints: normalizedPoints,
-      error: normalizedPoints.length === 0 ? "No data" : undefined,
+      dataPoints,
+      anchor: anchorKeyword,
+      scaleFactor: result?.scaleFactor ?? null,
+      anchorPoints: scaledAnchorPoints,
+      error:
+        dataPoints.length > 0
+          ? undefined
+          : result?.scaleFactor === null
+            ? `No data (anchor "${anchorKeyword}" missing from batch)`
+            : "No data",
     };
   });
 }
@@ -308,7 +289,7 @@ export async function fetchGoogleTrendsComparative(
  */
 export async function fetchGoogleTrends(
   keyword: string,
-  geo = "PH",
+  geo = DEFAULT_TRENDS_GEO,
   timeRange = "today 3-m"
 ): Promise<TrendResult> {
   const results = await fetchGoogleTrendsComparative(
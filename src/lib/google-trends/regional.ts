@@ -1,8 +1,11 @@
 /**
  * Google Trends Regional Breakdown API
- * Fetches "Interest by Region" data for Philippines provinces/regions
+ * Fetches "Interest by Region" data for a country's provinces/regions
+ * (Philippine regions by default)
  */
 
+import { DEFAULT_TRENDS_GEO } from "@/lib/constants";
+
 const UA = "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/131.0.0.0 Safari/537.36";
 
 function sleep(ms: number) {
@@ -37,11 +40,17 @@ async function fetchWithCookies(
 }
 
 export interface RegionalInterest {
-  regionCode: string;   // e.g., "PH-NCR", "PH-CAL"
+  regionCode: string;   // e.g., "PH-NCR", "PH-CAL", "AE-DU"
   regionName: string;   // e.g., "National Capital Region", "Calabarzon"
   interestValue: number; // 0-100 (100 = highest interest region)
 }
 
+interface GeoMapItem {
+  geoCode: string;
+  geoName: string;
+  value: number[] | number;
+}
+
 export interface RegionalTrendResult {
   keyword: string;
   geo: string;
@@ -50,28 +59,6 @@ export interface RegionalTrendResult {
   error?: string;
 }
 
-/**
- * Philippine region code mapping (Google Trends format)
- */
-const PH_REGIONS = [
-  { code: "PH-NCR", name: "National Capital Region" },
-  { code: "PH-CAL", name: "Calabarzon" },
-  { code: "PH-CEN", name: "Central Luzon" },
-  { code: "PH-07", name: "Central Visayas" },
-  { code: "PH-11", name: "Davao Region" },
-  { code: "PH-03", name: "Ilocos Region" },
-  { code: "PH-10", name: "Northern Mindanao" },
-  { code: "PH-05", name: "Bicol Region" },
-  { code: "PH-06", name: "Western Visayas" },
-  { code: "PH-08", name: "Eastern Visayas" },
-  { code: "PH-02", name: "Cagayan Valley" },
-  { code: "PH-09", name: "Zamboanga Peninsula" },
-  { code: "PH-12", name: "Soccsksargen" },
-  { code: "PH-CAR", name: "Cordillera" },
-  { code: "PH-13", name: "Caraga" },
-  { code: "PH-14", name: "ARMM" },
-];
-
 /**
  * Establish a Google Trends session and return cookies.
  */
@@ -88,12 +75,13 @@ async function getSession(geo: string): Promise<string> {
 }
 
 /**
- * Fetch regional interest breakdown for a keyword in Philippines.
- * Returns interest levels by province/region (0-100 scale, 100 = highest).
+ * Fetch regional interest breakdown for a keyword in a country (geo is an
+ * ISO 3166-1 alpha-2 code). Returns interest levels by province/region
+ * (0-100 scale, 100 = highest).
  */
 export async function fetchRegionalInterest(
   keyword: string,
-  geo = "PH",
+  geo = DEFAULT_TRENDS_GEO,
   timeRange = "today 3-m"
 ): Promise<RegionalTrendResult> {
   try {
@@ -176,7 +164,7 @@ export async function fetchRegionalInterest(
 
     // Parse the regional data
     // Format: { geoCode: "PH-NCR", geoName: "National Capital Region", value: [85], ... }
-    const regions: RegionalInterest[] = geoMapData.map((item: any) => ({
+    const regions: RegionalInterest[] = geoMapData.map((item: GeoMapItem) => ({
       regionCode: item.geoCode,
       regionName: item.geoName,
       interestValue: Array.isArray(item.value) ? item.value[0] : item.value || 0,
@@ -215,7 +203,7 @@ export async function fetchRegionalInterest(
  */
 export async function fetchRegionalInterestBatch(
   keywords: string[],
-  geo = "PH",
+  geo = DEFAULT_TRENDS_GEO,
   timeRange = "today 3-m"
 ): Promise<RegionalTrendResult[]> {
   const results: RegionalTrendResult[] = [];
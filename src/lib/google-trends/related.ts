@@ -0,0 +1,218 @@
+/**
+ * Google Trends Related Searches API
+ * Fetches the "Related queries" and "Related topics" lists (top and rising)
+ * Google shows under a keyword's interest chart.
+ */
+
+import { DEFAULT_TRENDS_GEO } from "@/lib/constants";
+import type { RelatedSearchKind, RelatedSearchRanking } from "@/types/fandom";
+
+const UA = "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/131.0.0.0 Safari/537.36";
+
+function sleep(ms: number) {
+  return new Promise((r) => setTimeout(r, ms));
+}
+
+function cleanJson(text: string): string {
+  const idx = text.indexOf("{");
+  return idx >= 0 ? text.substring(idx) : text;
+}
+
+async function fetchWithCookies(
+  url: string,
+  cookies = ""
+): Promise<{ status: number; text: string; cookies: string }> {
+  const headers: Record<string, string> = {
+    "User-Agent": UA,
+    Accept: "application/json",
+    "Accept-Language": "en-US,en;q=0.9",
+    Referer: "https://trends.google.com/trends/explore",
+  };
+  if (cookies) headers["Cookie"] = cookies;
+
+  const resp = await fetch(url, {
+    headers,
+    redirect: "follow",
+    signal: AbortSignal.timeout(15000),
+  });
+  const setCookies = resp.headers.getSetCookie?.() || [];
+  const newCookies = setCookies.map((c) => c.split(";")[0]).join("; ");
+  return { status: resp.status, text: await resp.text(), cookies: newCookies };
+}
+
+export interface RelatedSearchItem {
+  kind: RelatedSearchKind;
+  ranking: RelatedSearchRanking;
+  /** The query, or the topic's title */
+  term: string;
+  /** Topics only, e.g. "Girl group" */
+  topicType: string | null;
+  value: number;
+  formattedValue: string;
+  /** Position in Google's list, 0 = first */
+  position: number;
+}
+
+export interface RelatedSearchResult {
+  keyword: string;
+  geo: string;
+  timeRange: string;
+  items: RelatedSearchItem[];
+  error?: string;
+}
+
+/** Explore widget id → what its list holds */
+const RELATED_WIDGETS: Record<string, RelatedSearchKind> = {
+  RELATED_QUERIES: "query",
+  RELATED_TOPICS: "topic",
+};
+
+/** Google returns the top list first, then the rising list */
+const RANKINGS: RelatedSearchRanking[] = ["top", "rising"];
+
+interface RankedKeyword {
+  query?: string;
+  topic?: { title?: string; type?: string };
+  value?: number | number[];
+  formattedValue?: string;
+}
+
+/**
+ * Establish a Google Trends session and return cookies.
+ */
+async function getSession(geo: string): Promise<string> {
+  const session = await fetchWithCookies(
+    `https://trends.google.com/trends/?geo=${geo}`
+  );
+  let cookies = session.cookies;
+  if (!cookies.includes("CONSENT")) {
+    cookies +=
+      "; CONSENT=PENDING+999; SOCS=CAISNQgDEitib3FfaWRlbnRpdHlmcm9udGVuZHVpc2VydmVyXzIwMjMwODI5LjA3X3AxGgJlbiACGgYIgJnPpwY";
+  }
+  return cookies;
+}
+
+function parseRankedList(
+  kind: RelatedSearchKind,
+  rankedList: Array<{ rankedKeyword?: RankedKeyword[] }>
+): RelatedSearchItem[] {
+  const items: RelatedSearchItem[] = [];
+  rankedList.slice(0, RANKINGS.length).forEach((list, i) => {
+    (list.rankedKeyword || []).forEach((entry, position) => {
+      const term = kind === "query" ? entry.query : entry.topic?.title;
+      if (!term) return;
+      const value = Array.isArray(entry.value) ? entry.value[0] : entry.value;
+      items.push({
+        kind,
+        ranking: RANKINGS[i],
+        term,
+        topicType: kind === "topic" ? entry.topic?.type || null : null,
+        value: value || 0,
+        formattedValue: entry.formattedValue || String(value || 0),
+        position,
+      });
+    });
+  });
+  return items;
+}
+
+/**
+ * Fetch related queries and topics for a keyword. Both lists come from the
+ * one explore request; a list that fails is skipped and the other is kept.
+ */
+export async function fetchRelatedSearches(
+  keyword: string,
+  geo = DEFAULT_TRENDS_GEO,
+  timeRange = "today 3-m"
+): Promise<RelatedSearchResult> {
+  try {
+    const cookies = await getSession(geo);
+    await sleep(1500);
+
+    const exploreReq = JSON.stringify({
+      comparisonItem: [{ keyword, geo, time: timeRange }],
+      category: 0,
+      property: "",
+    });
+
+    const exploreUrl = `https://trends.google.com/trends/api/explore?hl=en-US&tz=-480&req=${encodeURIComponent(exploreReq)}`;
+    const explore = await fetchWithCookies(exploreUrl, cookies);
+
+    if (explore.status !== 200) {
+      console.log(`[GoogleTrends Related] Explore returned ${explore.status} for "${keyword}"`);
+      return { keyword, geo, timeRange, items: [], error: `HTTP ${explore.status}` };
+    }
+
+    const widgets: Array<{ id: string; request: unknown; token: string }> =
+      JSON.parse(cleanJson(explore.text)).widgets || [];
+    const relatedWidgets = widgets.filter((w) => w.id in RELATED_WIDGETS);
+
+    if (relatedWidgets.length === 0) {
+      console.log(`[GoogleTrends Related] No related widgets found for "${keyword}"`);
+      return { keyword, geo, timeRange, items: [], error: "No related searches available" };
+    }
+
+    const items: RelatedSearchItem[] = [];
+    for (const widget of relatedWidgets) {
+      await sleep(2000);
+
+      const widgetUrl = `https://trends.google.com/trends/api/widgetdata/relatedsearches?hl=en-US&tz=-480&req=${encodeURIComponent(
+        JSON.stringify(widget.request)
+      )}&token=${encodeURIComponent(widget.token)}`;
+
+      const resp = await fetchWithCookies(widgetUrl, cookies);
+      if (resp.status !== 200) {
+        console.log(`[GoogleTrends Related] ${widget.id} returned ${resp.status} for "${keyword}"`);
+        continue;
+      }
+
+      const data = JSON.parse(cleanJson(resp.text));
+      items.push(...parseRankedList(RELATED_WIDGETS[widget.id], data.default?.rankedList || []));
+    }
+
+    console.log(
+      `[GoogleTrends Related] "${keyword}": ${items.filter((i) => i.kind === "query").length} queries, ${items.filter((i) => i.kind === "topic").length} topics`
+    );
+
+    return {
+      keyword,
+      geo,
+      timeRange,
+      items,
+      error: items.length === 0 ? "No related searches" : undefined,
+    };
+  } catch (e) {
+    console.error(
+      `[GoogleTrends Related] Error:`,
+      e instanceof Error ? e.message : e
+    );
+    return {
+      keyword,
+      geo,
+      timeRange,
+      items: [],
+      error: e instanceof Error ? e.message : "Unknown error",
+    };
+  }
+}
+
+/**
+ * Fetch related searches for multiple keywords (sequential to avoid rate limits).
+ */
+export async function fetchRelatedSearchesBatch(
+  keywords: string[],
+  geo = DEFAULT_TRENDS_GEO,
+  timeRange = "today 3-m"
+): Promise<RelatedSearchResult[]> {
+  const results: RelatedSearchResult[] = [];
+
+  for (let i = 0; i < keywords.length; i++) {
+    if (i > 0) {
+      // 10s delay between keywords to avoid 429
+      await sleep(10000);
+    }
+    results.push(await fetchRelatedSearches(keywords[i], geo, timeRange));
+  }
+
+  return results;
+}
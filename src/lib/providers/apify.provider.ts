@@ -1,18 +1,28 @@
+import { ApifyApiError } from "apify-client";
 import type { Platform } from "@/types/fandom";
-import type { ScrapeProvider, ScrapeParams, ProviderResult } from "./types";
-import { runActor, getDatasetItems } from "@/lib/apify/client";
+import type { ScrapeFeed, ScrapeProvider, ScrapeParams, ProviderResult } from "./types";
+import { ApifyRunFailedError, runActorWithUsage, getDatasetItems } from "@/lib/apify/client";
 import { actorConfigs } from "@/lib/apify/actors";
 
 /**
  * Apify provider — wraps existing Apify actor execution.
  * Runs the actor, fetches dataset items, and returns raw items.
+ *
+ * Actors paginate internally up to params.limit (the fandom's item cap). They
+ * take no cursor input, so already-seen posts come back and are refreshed by ingest.
+ * Usage is the run's billed USD, with one credit per result; runs that fail
+ * after starting are still billed and report their usage with the error.
+ * Keyword feeds are limited to those listed in the actor's `feeds`; the
+ * comments feed runs the actor's separate `comments` actor on one post URL.
  */
 export const apifyProvider: ScrapeProvider = {
   name: "apify",
 
-  supports(platform: Platform): boolean {
+  supports(platform: Platform, feed?: ScrapeFeed): boolean {
     const config = actorConfigs[platform];
-    return !!config && config.platform === platform;
+    if (!config || config.platform !== platform) return false;
+    if (feed === "comments") return !!config.comments;
+    return !feed || !!config.feeds?.includes(feed);
   },
 
   async scrape(platform: Platform, params: ScrapeParams): Promise<ProviderResult> {
@@ -25,17 +35,48 @@ export const apifyProvider: ScrapeProvider = {
         error: `No Apify actor configured for platform: ${platform}`,
       };
     }
+    const commentsActor = actorConfig.comments;
+    if (params.feed === "comments" && !commentsActor) {
+      return {
+        success: false,
+        items: [],
+        source: "apify",
+        error: `No Apify comments actor configured for platform: ${platform}`,
+      };
+    }
+    if (params.feed && params.feed !== "comments" && !actorConfig.feeds?.includes(params.feed)) {
+      return {
+        success: false,
+        items: [],
+        source: "apify",
+        error: `Apify actor for ${platform} does not support ${params.feed} feeds`,
+      };
+    }
 
+    let billedUsd: number | undefined;
     try {
-      const input = actorConfig.buildInput({
-        handle: params.handle,
-        keyword: params.keyword,
-        limit: params.limit || 20,
-      });
+      const limit = params.limit || 20;
+      const feed = params.feed;
+      const { actorId, input } =
+        feed === "comments" && commentsActor
+          ? {
+              actorId: commentsActor.actorId,
+              input: commentsActor.buildInput({ url: params.handle, limit }),
+            }
+          : {
+              actorId: actorConfig.actorId,
+              input: actorConfig.buildInput({
+                handle: params.handle,
+                keyword: params.keyword,
+                feed: feed === "comments" ? undefined : feed,
+                limit,
+              }),
+            };
 
-      console.log(`[Apify] Running ${actorConfig.actorId} for ${params.handle} (${platform})`);
+      console.log(`[Apify] Running ${actorId} for ${params.handle} (${platform})`);
 
-      const datasetId = await runActor(actorConfig.actorId, input);
+      const { datasetId, usageUsd } = await runActorWithUsage(actorId, input);
+      billedUsd = usageUsd;
       const items = await getDatasetItems(datasetId);
 
       console.log(`[Apify] Got ${items.length} items for ${params.handle} (${platform})`);
@@ -45,15 +86,19 @@ export const apifyProvider: ScrapeProvider = {
         items: items as Record<string, unknown>[],
         source: "apify",
         datasetId,
+        usage: { credits: items.length, costUsd: usageUsd },
       };
     } catch (error) {
       const errorMsg = error instanceof Error ? error.message : "Unknown Apify error";
       console.error(`[Apify] Failed for ${params.handle} (${platform}):`, errorMsg);
+      if (error instanceof ApifyRunFailedError) billedUsd = error.usageUsd;
       return {
         success: false,
         items: [],
         source: "apify",
         error: errorMsg,
+        httpStatus: error instanceof ApifyApiError ? error.statusCode : undefined,
+        usage: billedUsd !== undefined ? { credits: 0, costUsd: billedUsd } : undefined,
       };
     }
   },
@@ -1,8 +1,10 @@
 import type { Platform } from "@/types/fandom";
-import type { PlatformProviderConfig } from "./types";
+import type { ProviderName } from "./types";
 
 /**
- * Per-platform provider priority configuration.
+ * Built-in provider priority per platform, used when the provider_routes
+ * table has no row for a platform (see routing.ts). Edit routing from the
+ * Settings page rather than here.
  * 
  * SociaVault is PRIMARY for ALL platforms.
  * Apify serves as fallback only.
@@ -12,29 +14,11 @@ import type { PlatformProviderConfig } from "./types";
  * - SociaVault tested and working for all 6 platforms
  * - Reddit: Apify IPs blocked industry-wide, SociaVault only option
  */
-export const platformProviderConfig: Record<Platform, PlatformProviderConfig> = {
-  reddit: {
-    primary: "sociavault",
-    secondary: "apify",
-  },
-  tiktok: {
-    primary: "sociavault",
-    secondary: "apify",
-  },
-  instagram: {
-    primary: "sociavault",
-    secondary: "apify",
-  },
-  youtube: {
-    primary: "sociavault",
-    secondary: "apify",
-  },
-  twitter: {
-    primary: "sociavault",
-    secondary: "apify",
-  },
-  facebook: {
-    primary: "sociavault",
-    secondary: "apify",
-  },
+export const defaultProviderPriority: Record<Platform, ProviderName[]> = {
+  reddit: ["sociavault", "apify"],
+  tiktok: ["sociavault", "apify"],
+  instagram: ["sociavault", "apify"],
+  youtube: ["sociavault", "apify"],
+  twitter: ["sociavault", "apify"],
+  facebook: ["sociavault", "apify"],
 };
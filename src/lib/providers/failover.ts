@@ -1,108 +1,185 @@
 import type { Platform } from "@/types/fandom";
-import type { ScrapeProvider, ScrapeParams, ProviderResult, ProviderName } from "./types";
-import { platformProviderConfig } from "./config";
-import { apifyProvider } from "./apify.provider";
-import { sociavaultProvider } from "./sociavault.provider";
+import type { ScrapeParams, ProviderResult, ProviderName } from "./types";
+import { providers } from "./registry";
+import { getProviderPriority } from "./routing";
+import { isProviderAvailable, recordProviderOutcome } from "./health";
+import { recordProviderUsage } from "./usage";
 
-const providers: Record<ProviderName, ScrapeProvider> = {
-  apify: apifyProvider,
-  sociavault: sociavaultProvider,
-};
+/** Why the failover loop moved past a provider */
+export type FailoverReason = "circuit_open" | "unsupported" | "budget" | "error" | "empty";
+
+/** One step of the provider trail for a single scrape */
+export interface ProviderAttempt {
+  provider: ProviderName;
+  outcome: "success" | "empty" | "error" | "skipped";
+  httpStatus?: number;
+  error?: string;
+  latencyMs: number;
+  itemCount: number;
+  /** Set on every attempt that didn't serve the scrape */
+  failoverReason?: FailoverReason;
+}
 
 export interface FailoverResult extends ProviderResult {
   /** Which provider actually succeeded */
   source: ProviderName;
-  /** Whether failover was triggered (primary failed, secondary used) */
+  /** Whether failover was triggered (primary failed or skipped, a later provider used) */
   failoverTriggered: boolean;
   /** Error from primary provider if failover was triggered */
   primaryError?: string;
+  /** Every provider tried or skipped, in order */
+  attempts: ProviderAttempt[];
 }
 
 /**
  * Scrape a platform with automatic failover.
  * 
- * Tries the primary provider first. If it fails (error, timeout, or empty results),
- * silently tries the secondary provider.
+ * Provider order comes from provider_routes (per-fandom override, then the
+ * platform's global route, then config.ts defaults). Tries each provider in
+ * order; if one fails (error, timeout, or empty results), silently tries the next.
  * 
+ * Providers whose circuit is open for this platform (see health.ts) are skipped.
+ * Availability is checked just before each call, so a half-open trial is only
+ * claimed for a provider that is actually called; when every circuit is open
+ * the scrape fails without calling anything.
+ * 
+ * Providers in options.skipProviders (over budget for a low-priority fandom,
+ * see usage.ts) are skipped as "budget". Every call's estimated spend goes to
+ * the provider_usage ledger.
+ *
+ * With options.recordHealth false the calls leave provider_health alone and
+ * never claim a half-open trial: for per-post feeds like comments, where an
+ * empty or failed post says little about the provider's platform health.
+ *
  * Source tagging: every item gets a `_source` field for auditing.
  */
 export async function scrapeWithFailover(
   platform: Platform,
-  params: ScrapeParams
+  params: ScrapeParams,
+  options: { fandomId?: string; skipProviders?: ProviderName[]; recordHealth?: boolean } = {}
 ): Promise<FailoverResult> {
-  const config = platformProviderConfig[platform];
-  if (!config) {
+  const recordHealth = options.recordHealth ?? true;
+  const priority = await getProviderPriority(platform, options.fandomId);
+  if (priority.length === 0) {
     return {
       success: false,
       items: [],
       source: "apify",
       failoverTriggered: false,
       error: `No provider config for platform: ${platform}`,
+      attempts: [],
     };
   }
 
-  const primaryProvider = providers[config.primary];
-  const secondaryProvider = providers[config.secondary];
+  const primary = priority[0];
+  const errors: string[] = [];
+  const attempts: ProviderAttempt[] = [];
+  for (const [index, name] of priority.entries()) {
+    const provider = providers[name];
 
-  // Try primary provider
-  console.log(`[Failover] Trying ${config.primary} for ${platform} (${params.handle})`);
-  const primaryResult = await primaryProvider.scrape(platform, params);
+    if (options.skipProviders?.includes(name)) {
+      console.log(`[Failover] ${name} is near its monthly budget, skipping`);
+      errors.push(`${name}: near monthly budget`);
+      attempts.push({
+        provider: name,
+        outcome: "skipped",
+        error: "Near monthly budget",
+        latencyMs: 0,
+        itemCount: 0,
+        failoverReason: "budget",
+      });
+      continue;
+    }
 
-  if (primaryResult.success && primaryResult.items.length > 0) {
-    // Tag items with source
-    tagItems(primaryResult.items, config.primary);
-    return {
-      ...primaryResult,
-      failoverTriggered: false,
-    };
-  }
+    if (!provider.supports(platform, params.feed)) {
+      const target = params.feed ? `${platform} ${params.feed} feeds` : platform;
+      console.log(`[Failover] ${name} does not support ${target}, skipping`);
+      errors.push(`${name}: not supported for ${target}`);
+      attempts.push({
+        provider: name,
+        outcome: "skipped",
+        error: `Not supported for ${target}`,
+        latencyMs: 0,
+        itemCount: 0,
+        failoverReason: "unsupported",
+      });
+      continue;
+    }
 
-  // Primary failed or returned empty — try secondary
-  const primaryError = primaryResult.error || "Empty results";
-  console.log(
-    `[Failover] ${config.primary} failed for ${platform}: ${primaryError}. Trying ${config.secondary}...`
-  );
+    if (!(await isProviderAvailable(name, platform, recordHealth))) {
+      console.log(`[Failover] Circuit open for ${name} on ${platform}, skipping`);
+      errors.push(`${name}: circuit open`);
+      attempts.push({
+        provider: name,
+        outcome: "skipped",
+        error: "Circuit open",
+        latencyMs: 0,
+        itemCount: 0,
+        failoverReason: "circuit_open",
+      });
+      continue;
+    }
 
-  // Check if secondary supports this platform
-  if (!secondaryProvider.supports(platform)) {
-    console.log(`[Failover] ${config.secondary} does not support ${platform}, skipping`);
-    return {
-      ...primaryResult,
-      failoverTriggered: true,
-      primaryError,
-      error: `Primary (${config.primary}): ${primaryError}. Secondary (${config.secondary}): not supported for ${platform}.`,
-    };
-  }
+    console.log(`[Failover] Trying ${name} for ${platform} (${params.handle})`);
+    const startedAt = Date.now();
+    const result = await provider.scrape(platform, params);
+    const latencyMs = Date.now() - startedAt;
 
-  const secondaryResult = await secondaryProvider.scrape(platform, params);
+    await recordProviderUsage({
+      provider: name,
+      platform,
+      fandomId: options.fandomId,
+      feed: params.feed,
+      outcome: result.success && result.items.length > 0 ? "success" : result.error ? "error" : "empty",
+      itemCount: result.items.length,
+      usage: result.usage,
+    });
 
-  if (secondaryResult.success && secondaryResult.items.length > 0) {
-    // Tag items with source
-    tagItems(secondaryResult.items, config.secondary);
-    console.log(
-      `[Failover] ${config.secondary} succeeded for ${platform} with ${secondaryResult.items.length} items`
-    );
-    return {
-      ...secondaryResult,
-      failoverTriggered: true,
-      primaryError,
-    };
+    if (result.success && result.items.length > 0) {
+      if (recordHealth) await recordProviderOutcome(name, platform, "success", latencyMs);
+      attempts.push({ provider: name, outcome: "success", latencyMs, itemCount: result.items.length });
+      tagItems(result.items, name);
+      const failoverTriggered = name !== primary;
+      if (failoverTriggered) {
+        console.log(`[Failover] ${name} succeeded for ${platform} with ${result.items.length} items`);
+      }
+      return {
+        ...result,
+        failoverTriggered,
+        primaryError: failoverTriggered ? errors[0] : undefined,
+        attempts,
+      };
+    }
+
+    const error = result.error || "Empty results";
+    const outcome = result.error ? "error" : "empty";
+    if (recordHealth) await recordProviderOutcome(name, platform, outcome, latencyMs, error);
+    errors.push(`${name}: ${error}`);
+    attempts.push({
+      provider: name,
+      outcome,
+      httpStatus: result.httpStatus,
+      error,
+      latencyMs,
+      itemCount: result.items.length,
+      failoverReason: outcome,
+    });
+
+    if (index < priority.length - 1) {
+      console.log(`[Failover] ${name} failed for ${platform}: ${error}. Trying next provider...`);
+    }
   }
 
-  // Both failed
-  const secondaryError = secondaryResult.error || "Empty results";
-  console.error(
-    `[Failover] Both providers failed for ${platform}: ` +
-    `primary(${config.primary}): ${primaryError}, secondary(${config.secondary}): ${secondaryError}`
-  );
+  console.error(`[Failover] All providers failed for ${platform}: ${errors.join("; ")}`);
 
   return {
     success: false,
     items: [],
-    source: config.primary,
-    failoverTriggered: true,
-    primaryError,
-    error: `Both providers failed. Primary (${config.primary}): ${primaryError}. Secondary (${config.secondary}): ${secondaryError}.`,
+    source: primary,
+    failoverTriggered: priority.length > 1,
+    primaryError: errors[0],
+    error: `All providers failed. ${errors.join(". ")}.`,
+    attempts,
   };
 }
 
@@ -0,0 +1,186 @@
+import { db } from "@/lib/db";
+import { providerHealth } from "@/lib/db/schema";
+import { and, eq, inArray, isNull, lte, or, sql } from "drizzle-orm";
+import type { Platform } from "@/types/fandom";
+import type { ProviderName } from "./types";
+
+/**
+ * Per-provider, per-platform health tracking and circuit breaker.
+ *
+ * Rates are exponentially weighted (each call moves the average by EWMA_ALPHA),
+ * so a provider that has been failing for hours scores low even if it
+ * succeeded yesterday. After FAILURE_THRESHOLD consecutive errors the
+ * circuit opens and failover skips the provider until the cool-down passes;
+ * after that a single caller claims a half-open trial and everyone else keeps
+ * skipping the provider until the trial's outcome is recorded.
+ *
+ * Empty results only move emptyRate: a quiet subreddit or a keyword with no
+ * new posts is a valid answer, so empties neither count toward the threshold
+ * nor reset it, and an empty trial closes the circuit.
+ */
+
+const EWMA_ALPHA = 0.2;
+const FAILURE_THRESHOLD = 3;
+const COOL_DOWN_MS = 30 * 60 * 1000;
+/** A half-open trial that never reports back can be re-claimed after this */
+const TRIAL_TIMEOUT_MS = 15 * 60 * 1000;
+/** Latency at or above this scores zero on the latency component */
+const SLOW_LATENCY_MS = 30000;
+
+export type ProviderOutcome = "success" | "empty" | "error";
+
+export type ProviderHealthRow = typeof providerHealth.$inferSelect;
+
+export interface ProviderHealthStatus extends ProviderHealthRow {
+  /** 0-100: 80% rolling success rate, 20% latency */
+  healthScore: number;
+}
+
+export function computeHealthScore(row: Pick<ProviderHealthRow, "successRate" | "avgLatencyMs">): number {
+  const success = Number(row.successRate);
+  const latency = Math.max(0, 1 - row.avgLatencyMs / SLOW_LATENCY_MS);
+  return Math.round((success * 0.8 + latency * 0.2) * 100);
+}
+
+/**
+ * Returns false while the provider's circuit is open or half-open for this
+ * platform. Once the cool-down passes, the caller whose update flips the row
+ * to half-open gets true and makes the trial call; openUntil then holds the
+ * trial's deadline, so a trial lost to a crash is re-claimed after it.
+ * With claimTrial false (calls whose outcome isn't recorded) only a closed
+ * circuit counts as available.
+ * Health lookups never block scraping: on DB errors the provider is allowed.
+ */
+export async function isProviderAvailable(
+  provider: ProviderName,
+  platform: Platform,
+  claimTrial = true
+): Promise<boolean> {
+  try {
+    const [row] = await db
+      .select()
+      .from(providerHealth)
+      .where(and(eq(providerHealth.provider, provider), eq(providerHealth.platform, platform)))
+      .limit(1);
+
+    if (!row || row.circuitState === "closed") return true;
+    if (!claimTrial || (row.openUntil && row.openUntil > new Date())) return false;
+
+    // Only one caller's update matches; the rest see the trial deadline
+    const now = new Date();
+    const claimed = await db
+      .update(providerHealth)
+      .set({
+        circuitState: "half_open",
+        openUntil: new Date(now.getTime() + TRIAL_TIMEOUT_MS),
+        updatedAt: now,
+      })
+      .where(
+        and(
+          eq(providerHealth.id, row.id),
+          inArray(providerHealth.circuitState, ["open", "half_open"]),
+          or(isNull(providerHealth.openUntil), lte(providerHealth.openUntil, now))
+        )
+      )
+      .returning({ id: providerHealth.id });
+    return claimed.length > 0;
+  } catch (error) {
+    console.warn(`[Health] Failed to read health for ${provider}/${platform}:`, error);
+    return true;
+  }
+}
+
+/**
+ * Record the outcome of one provider call. Done as a single upsert so
+ * concurrent worker lanes don't overwrite each other's counters.
+ */
+export async function recordProviderOutcome(
+  provider: ProviderName,
+  platform: Platform,
+  outcome: ProviderOutcome,
+  latencyMs: number,
+  error?: string
+): Promise<void> {
+  const ok = outcome === "success";
+  const failed = outcome === "error";
+  const successSample = ok ? 1 : 0;
+  const emptySample = outcome === "empty" ? 1 : 0;
+  const now = new Date();
+  const openUntil = new Date(now.getTime() + COOL_DOWN_MS);
+  // A failed half-open trial, or too many errors in a row, trips the breaker
+  const trips = sql`(${providerHealth.circuitState} = 'half_open' or ${providerHealth.consecutiveFailures} + 1 >= ${FAILURE_THRESHOLD})`;
+
+  try {
+    await db
+      .insert(providerHealth)
+      .values({
+        provider,
+        platform,
+        successRate: String(successSample),
+        emptyRate: String(emptySample),
+        avgLatencyMs: Math.round(latencyMs),
+        totalCalls: 1,
+        consecutiveFailures: failed ? 1 : 0,
+        circuitState: "closed",
+        lastError: failed ? error ?? null : null,
+        lastSuccessAt: ok ? now : null,
+        lastFailureAt: failed ? now : null,
+        updatedAt: now,
+      })
+      .onConflictDoUpdate({
+        target: [providerHealth.provider, providerHealth.platform],
+        set: {
+          successRate: sql`${providerHealth.successRate} * ${1 - EWMA_ALPHA} + ${successSample * EWMA_ALPHA}`,
+          emptyRate: sql`${providerHealth.emptyRate} * ${1 - EWMA_ALPHA} + ${emptySample * EWMA_ALPHA}`,
+          avgLatencyMs: sql`round(${providerHealth.avgLatencyMs} * ${1 - EWMA_ALPHA} + ${Math.round(latencyMs) * EWMA_ALPHA})`,
+          totalCalls: sql`${providerHealth.totalCalls} + 1`,
+          updatedAt: now,
+          ...(ok
+            ? {
+                consecutiveFailures: 0,
+                circuitState: "closed" as const,
+                openUntil: null,
+                lastSuccessAt: now,
+              }
+            : failed
+              ? {
+                  consecutiveFailures: sql`${providerHealth.consecutiveFailures} + 1`,
+                  circuitState: sql`case when ${trips} then 'open'::circuit_state else ${providerHealth.circuitState} end`,
+                  openUntil: sql`case when ${trips} then ${openUntil.toISOString()}::timestamp else ${providerHealth.openUntil} end`,
+                  lastError: error ?? null,
+                  lastFailureAt: now,
+                }
+              : {
+                  // Empty: the provider answered, so a half-open trial passes
+                  circuitState: sql`case when ${providerHealth.circuitState} = 'half_open' then 'closed'::circuit_state else ${providerHealth.circuitState} end`,
+                  openUntil: sql`case when ${providerHealth.circuitState} = 'half_open' then null else ${providerHealth.openUntil} end`,
+                }),
+        },
+      });
+  } catch (err) {
+    console.warn(`[Health] Failed to record ${outcome} for ${provider}/${platform}:`, err);
+  }
+}
+
+export async function getAllProviderHealth(): Promise<ProviderHealthStatus[]> {
+  const rows = await db
+    .select()
+    .from(providerHealth)
+    .orderBy(providerHealth.platform, providerHealth.provider);
+
+  return rows.map((row) => ({ ...row, healthScore: computeHealthScore(row) }));
+}
+
+/** Manually close a circuit (e.g. after a provider outage is confirmed fixed) */
+export async function resetProviderCircuit(
+  provider: ProviderName,
+  platform: Platform
+): Promise<boolean> {
+  const updated = await db
+    .update(providerHealth)
+    .set({ circuitState: "closed", consecutiveFailures: 0, openUntil: null, updatedAt: new Date() })
+    .where(and(eq(providerHealth.provider, provider), eq(providerHealth.platform, platform)))
+    .returning({ id: providerHealth.id });
+
+  return updated.length > 0;
+}
@@ -1,6 +1,22 @@
 export { scrapeWithFailover } from "./failover";
-export type { FailoverResult } from "./failover";
-export type { ProviderName, ScrapeParams, ProviderResult, ScrapeProvider, PlatformProviderConfig } from "./types";
-export { platformProviderConfig } from "./config";
+export type { FailoverResult, FailoverReason, ProviderAttempt } from "./failover";
+export type { ProviderName, ProviderUsage, ScrapeFeed, ScrapeParams, ScrapeCursor, ProviderResult, ScrapeProvider, ProviderPriority } from "./types";
+export { reachedCursor, MAX_PAGES } from "./pagination";
+export { defaultProviderPriority } from "./config";
+export { providers, PROVIDER_NAMES, isProviderName } from "./registry";
+export { getProviderPriority, listProviderRoutes, setProviderRoute, deleteProviderRoute } from "./routing";
+export type { ProviderRoute } from "./routing";
 export { apifyProvider } from "./apify.provider";
 export { sociavaultProvider } from "./sociavault.provider";
+export { replayProvider, withRecording, getScrapeMode } from "./replay.provider";
+export type { ScrapeMode } from "./replay.provider";
+export { isProviderAvailable, recordProviderOutcome, getAllProviderHealth, resetProviderCircuit } from "./health";
+export type { ProviderOutcome, ProviderHealthStatus } from "./health";
+export {
+  BUDGET_NEAR_EXHAUSTION,
+  recordProviderUsage,
+  getProviderBudgetStatus,
+  getProvidersNearBudget,
+  setProviderBudget,
+  getFandomCosts,
+} from "./usage";
@@ -0,0 +1,26 @@
+import type { Platform } from "@/types/fandom";
+import { normalizeContent } from "@/lib/apify/normalize";
+import type { ScrapeCursor } from "./types";
+
+/** Hard stop for paginated providers, whatever the item cap */
+export const MAX_PAGES = 10;
+
+/**
+ * True when a page of raw items contains the cursor post, or anything
+ * published at or before it — older pages have already been ingested.
+ */
+export function reachedCursor(
+  platform: Platform,
+  items: Record<string, unknown>[],
+  cursor?: ScrapeCursor
+): boolean {
+  if (!cursor || (!cursor.externalId && !cursor.publishedAt)) return false;
+  const cutoff = cursor.publishedAt ? new Date(cursor.publishedAt).getTime() : null;
+
+  return normalizeContent(platform, items).some((item) => {
+    if (cursor.externalId && String(item.externalId) === cursor.externalId) return true;
+    if (cutoff === null || !item.publishedAt) return false;
+    const published = new Date(item.publishedAt).getTime();
+    return !isNaN(published) && published <= cutoff;
+  });
+}
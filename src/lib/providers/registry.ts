@@ -0,0 +1,23 @@
+import type { ProviderName, ScrapeProvider } from "./types";
+import { apifyProvider } from "./apify.provider";
+import { sociavaultProvider } from "./sociavault.provider";
+import { replayProvider, withRecording, getScrapeMode } from "./replay.provider";
+
+const recording = getScrapeMode() === "record";
+
+/** Every scrape provider the failover system can dispatch to */
+export const providers: Record<ProviderName, ScrapeProvider> = {
+  apify: recording ? withRecording(apifyProvider) : apifyProvider,
+  sociavault: recording ? withRecording(sociavaultProvider) : sociavaultProvider,
+  replay: replayProvider,
+};
+
+/**
+ * Live providers that can appear in provider_routes. The replay provider is
+ * not routable; it is selected for every platform by SCRAPE_PROVIDER_MODE=replay.
+ */
+export const PROVIDER_NAMES: ProviderName[] = ["sociavault", "apify"];
+
+export function isProviderName(name: string): name is ProviderName {
+  return (PROVIDER_NAMES as string[]).includes(name);
+}
@@ -0,0 +1,147 @@
+import { createHash } from "crypto";
+import { mkdir, readFile, writeFile, readdir } from "fs/promises";
+import path from "path";
+import type { Platform } from "@/types/fandom";
+import type { ScrapeProvider, ScrapeParams, ProviderResult } from "./types";
+
+/**
+ * Record-and-replay support for offline development and regression testing.
+ *
+ * SCRAPE_PROVIDER_MODE selects the behaviour:
+ *   - "live"   (default) real providers only
+ *   - "record" real providers, and every result is written to a fixture file
+ *   - "replay" only the replay provider is used; no network calls are made
+ *
+ * Fixtures live under SCRAPE_FIXTURES_DIR (default: data/fixtures) as
+ *   <provider>/<platform>/<handle>-<hash of params>.json
+ * and hold the provider's raw items exactly as normalize.ts receives them.
+ */
+
+export type ScrapeMode = "live" | "record" | "replay";
+
+interface Fixture {
+  provider: string;
+  platform: Platform;
+  params: ScrapeParams;
+  recordedAt: string;
+  result: ProviderResult;
+}
+
+export function getScrapeMode(): ScrapeMode {
+  const mode = process.env.SCRAPE_PROVIDER_MODE;
+  return mode === "record" || mode === "replay" ? mode : "live";
+}
+
+function getFixturesDir(): string {
+  return path.resolve(process.env.SCRAPE_FIXTURES_DIR || "data/fixtures");
+}
+
+/** Stable file name for a request: same params always map to the same fixture */
+function fixtureFileName(params: ScrapeParams): string {
+  const handle = params.handle.replace(/[^a-zA-Z0-9_-]+/g, "_").slice(0, 60) || "_";
+  const hash = createHash("sha256")
+    .update(
+      JSON.stringify([
+        params.handle,
+        params.keyword ?? null,
+        params.limit ?? null,
+        // Only keyword feeds add a field, so account fixtures keep their names
+        ...(params.feed ? [params.feed] : []),
+      ])
+    )
+    .digest("hex")
+    .slice(0, 12);
+  return `${handle}-${hash}.json`;
+}
+
+async function saveFixture(
+  provider: string,
+  platform: Platform,
+  params: ScrapeParams,
+  result: ProviderResult
+): Promise<void> {
+  const dir = path.join(getFixturesDir(), provider, platform);
+  await mkdir(dir, { recursive: true });
+
+  const fixture: Fixture = {
+    provider,
+    platform,
+    params,
+    recordedAt: new Date().toISOString(),
+    result,
+  };
+  await writeFile(path.join(dir, fixtureFileName(params)), JSON.stringify(fixture, null, 2));
+}
+
+/**
+ * Wrap a live provider so each result is also recorded to disk.
+ * Only successful, non-empty results are kept so replays don't capture outages.
+ */
+export function withRecording(provider: ScrapeProvider): ScrapeProvider {
+  return {
+    name: provider.name,
+    supports: (platform, feed) => provider.supports(platform, feed),
+    async scrape(platform, params) {
+      const result = await provider.scrape(platform, params);
+      if (result.success && result.items.length > 0) {
+        try {
+          await saveFixture(provider.name, platform, params, result);
+        } catch (error) {
+          console.warn(`[Record] Failed to save fixture for ${provider.name}/${platform}:`, error);
+        }
+      }
+      return result;
+    },
+  };
+}
+
+async function loadFixture(platform: Platform, params: ScrapeParams): Promise<Fixture | null> {
+  const root = getFixturesDir();
+  const fileName = fixtureFileName(params);
+
+  let providerDirs: string[];
+  try {
+    providerDirs = (await readdir(root)).sort();
+  } catch {
+    return null;
+  }
+
+  // Deterministic: first recording provider in alphabetical order wins
+  for (const dir of providerDirs) {
+    try {
+      const raw = await readFile(path.join(root, dir, platform, fileName), "utf8");
+      return JSON.parse(raw) as Fixture;
+    } catch {
+      // Not recorded by this provider
+    }
+  }
+  return null;
+}
+
+export const replayProvider: ScrapeProvider = {
+  name: "replay",
+
+  supports(): boolean {
+    return true;
+  },
+
+  async scrape(platform: Platform, params: ScrapeParams): Promise<ProviderResult> {
+    const fixture = await loadFixture(platform, params);
+    if (!fixture) {
+      return {
+        success: false,
+        items: [],
+        source: "replay",
+        error: `No fixture for ${platform}/${fixtureFileName(params)} in ${getFixturesDir()}`,
+      };
+    }
+
+    console.log(
+      `[Replay] ${platform} (${params.handle}): ${fixture.result.items.length} items recorded from ${fixture.provider} at ${fixture.recordedAt}`
+    );
+
+    // Fresh copies each time — failover tags items in place
+    const items = structuredClone(fixture.result.items);
+    return { success: items.length > 0, items, source: "replay" };
+  },
+};
@@ -0,0 +1,101 @@
+import { db } from "@/lib/db";
+import { providerRoutes } from "@/lib/db/schema";
+import { and, eq, isNull, or } from "drizzle-orm";
+import type { Platform } from "@/types/fandom";
+import type { ProviderPriority } from "./types";
+import { defaultProviderPriority } from "./config";
+import { isProviderName } from "./registry";
+import { getScrapeMode } from "./replay.provider";
+
+export type ProviderRoute = typeof providerRoutes.$inferSelect;
+
+/**
+ * Resolve the provider priority for a platform at scrape time.
+ *
+ * Lookup order: per-fandom override → global row for the platform →
+ * built-in default from config.ts. Unknown provider names stored in the
+ * DB (e.g. a provider that was removed) are dropped.
+ * In replay mode every platform routes to recorded fixtures only.
+ */
+export async function getProviderPriority(
+  platform: Platform,
+  fandomId?: string
+): Promise<ProviderPriority> {
+  if (getScrapeMode() === "replay") return ["replay"];
+
+  try {
+    const rows = await db
+      .select()
+      .from(providerRoutes)
+      .where(
+        and(
+          eq(providerRoutes.platform, platform),
+          fandomId
+            ? or(isNull(providerRoutes.fandomId), eq(providerRoutes.fandomId, fandomId))
+            : isNull(providerRoutes.fandomId)
+        )
+      );
+
+    const route =
+      rows.find((r) => r.fandomId !== null) ?? rows.find((r) => r.fandomId === null);
+    const priority = (route?.providers ?? []).filter(isProviderName);
+    if (priority.length > 0) return priority;
+  } catch (error) {
+    console.warn(`[Routing] Failed to read provider routes for ${platform}, using defaults:`, error);
+  }
+
+  return defaultProviderPriority[platform] ?? [];
+}
+
+export async function listProviderRoutes(): Promise<ProviderRoute[]> {
+  return db.select().from(providerRoutes).orderBy(providerRoutes.platform);
+}
+
+/**
+ * Create or replace the route for a platform (globally, or for one fandom).
+ */
+export async function setProviderRoute(
+  platform: Platform,
+  priority: ProviderPriority,
+  fandomId?: string | null
+): Promise<ProviderRoute> {
+  const scope = and(
+    eq(providerRoutes.platform, platform),
+    fandomId ? eq(providerRoutes.fandomId, fandomId) : isNull(providerRoutes.fandomId)
+  );
+
+  const [existing] = await db.select({ id: providerRoutes.id }).from(providerRoutes).where(scope).limit(1);
+
+  if (existing) {
+    const [updated] = await db
+      .update(providerRoutes)
+      .set({ providers: priority, updatedAt: new Date() })
+      .where(eq(providerRoutes.id, existing.id))
+      .returning();
+    return updated;
+  }
+
+  const [inserted] = await db
+    .insert(providerRoutes)
+    .values({ platform, fandomId: fandomId ?? null, providers: priority })
+    .returning();
+  return inserted;
+}
+
+/** Remove a route so the platform (or fandom) falls back to the next level */
+export async function deleteProviderRoute(
+  platform: Platform,
+  fandomId?: string | null
+): Promise<boolean> {
+  const deleted = await db
+    .delete(providerRoutes)
+    .where(
+      and(
+        eq(providerRoutes.platform, platform),
+        fandomId ? eq(providerRoutes.fandomId, fandomId) : isNull(providerRoutes.fandomId)
+      )
+    )
+    .returning({ id: providerRoutes.id });
+
+  return deleted.length > 0;
+}
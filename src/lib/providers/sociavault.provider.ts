@@ -1,5 +1,7 @@
-import type { Platform } from "@/types/fandom";
-import type { ScrapeProvider, ScrapeParams, ProviderResult } from "./types";
+import { AsyncLocalStorage } from "async_hooks";
+import type { KeywordType, Platform } from "@/types/fandom";
+import type { ScrapeFeed, ScrapeProvider, ScrapeParams, ProviderResult } from "./types";
+import { MAX_PAGES, reachedCursor } from "./pagination";
 
 /**
  * SociaVault provider — calls the SociaVault API via the monitor proxy.
@@ -12,11 +14,52 @@ import type { ScrapeProvider, ScrapeParams, ProviderResult } from "./types";
  *   - YouTube:   /youtube/channel?handle=... + /youtube/channel-videos?handle=...
  *   - Twitter:   /twitter/user-tweets?handle=...
  *   - Facebook:  /facebook/profile/posts?url=...
- *   - Reddit:    /reddit/search?query=...
+ *   - Reddit:    /reddit/subreddit?subreddit=... + /reddit/subreddit/details?subreddit=...
+ *
+ * Keyword feeds (params.feed):
+ *   - TikTok:    /tiktok/search/hashtag?hashtag=... and /tiktok/search/keyword?query=...
+ *   - YouTube:   /youtube/search/hashtag?hashtag=... and /youtube/search?query=...
+ *   - Reddit:    /reddit/search?query=... (Reddit has no hashtags; both feeds search)
+ *
+ * Comments feed (params.handle is the post URL): see COMMENT_PATHS. Twitter has none.
+ *
+ * Instagram, YouTube videos, Facebook and Reddit are paginated back to the
+ * fandom's scrape cursor (capped at params.limit); TikTok and Twitter return a
+ * single page, as do the TikTok and YouTube keyword feeds.
+ *
+ * SociaVault bills one credit per request, so every request made for a scrape
+ * (pages, fallbacks, detail calls) is counted and reported as its usage.
  */
 
 const MONITOR_APP_NAME = "pldt-fandom";
 
+/** Keyword feeds SociaVault can scrape, per platform */
+const SUPPORTED_FEEDS: Partial<Record<Platform, KeywordType[]>> = {
+  tiktok: ["hashtag", "search"],
+  youtube: ["hashtag", "search"],
+  reddit: ["hashtag", "search"],
+};
+
+/** Post comments endpoints, each taking the post's ?url= */
+const COMMENT_PATHS: Partial<Record<Platform, string>> = {
+  tiktok: "/tiktok/comments",
+  instagram: "/instagram/comments",
+  youtube: "/youtube/video/comments",
+  facebook: "/facebook/post/comments",
+  reddit: "/reddit/post/comments",
+};
+
+/** Estimated USD per credit; override with SOCIAVAULT_USD_PER_CREDIT for the account's plan */
+const DEFAULT_USD_PER_CREDIT = 0.002;
+
+/** Requests made by the scrape in progress; scrapes run concurrently, so each gets its own counter */
+const requestCounter = new AsyncLocalStorage<{ requests: number }>();
+
+function getUsdPerCredit(): number {
+  const value = Number(process.env.SOCIAVAULT_USD_PER_CREDIT);
+  return process.env.SOCIAVAULT_USD_PER_CREDIT && Number.isFinite(value) && value >= 0 ? value : DEFAULT_USD_PER_CREDIT;
+}
+
 // Timeout for SociaVault API calls (30 seconds)
 const SOCIAVAULT_TIMEOUT_MS = 30000;
 
@@ -66,6 +109,17 @@ async function fetchWithTimeout(url: string, options: RequestInit, timeoutMs: nu
   }
 }
 
+/** Non-2xx response from SociaVault; keeps the status for the scrape attempt log */
+class SociavaultHttpError extends Error {
+  constructor(
+    readonly status: number,
+    message: string
+  ) {
+    super(message);
+    this.name = "SociavaultHttpError";
+  }
+}
+
 /**
  * Helper: call a SociaVault endpoint and return parsed JSON data.
  * Throws on HTTP errors or API-level errors.
@@ -78,6 +132,9 @@ async function callSociavault(
   const url = buildProxyUrl(path, queryParams);
   console.log(`[SociaVault] ${label}: ${url}`);
 
+  const counter = requestCounter.getStore();
+  if (counter) counter.requests++;
+
   const response = await fetchWithTimeout(
     url,
     { method: "GET", headers: getHeaders() },
@@ -86,7 +143,10 @@ async function callSociavault(
 
   if (!response.ok) {
     const errorText = await response.text().catch(() => "");
-    throw new Error(`SociaVault API returned ${response.status}: ${errorText}`);
+    throw new SociavaultHttpError(
+      response.status,
+      `SociaVault API returned ${response.status}: ${errorText}`
+    );
   }
 
   const json = (await response.json()) as Record<string, unknown>;
@@ -103,6 +163,57 @@ async function callSociavault(
   return data;
 }
 
+/**
+ * Follow a paginated SociaVault endpoint until the fandom's cursor is reached,
+ * params.limit items are collected, the response has no next-page token, or
+ * MAX_PAGES is hit. A failure after the first page keeps what was collected.
+ */
+async function callSociavaultPaged(
+  platform: Platform,
+  path: string,
+  queryParams: Record<string, string>,
+  label: string,
+  params: ScrapeParams,
+  normalizePage: (data: Record<string, unknown>) => Record<string, unknown>[],
+  pageToken: { request: string; response: string }
+): Promise<Record<string, unknown>[]> {
+  const limit = params.limit || 20;
+  const items: Record<string, unknown>[] = [];
+  let token: string | undefined;
+
+  for (let page = 1; page <= MAX_PAGES; page++) {
+    let data: Record<string, unknown>;
+    try {
+      data = await callSociavault(
+        path,
+        token ? { ...queryParams, [pageToken.request]: token } : queryParams,
+        page > 1 ? `${label} (page ${page})` : label
+      );
+    } catch (error) {
+      if (page === 1) throw error;
+      console.log(`[SociaVault] ${label} page ${page} failed, keeping ${items.length} items:`, error instanceof Error ? error.message : error);
+      break;
+    }
+
+    const pageItems = normalizePage(data);
+    items.push(...pageItems);
+
+    const next = data[pageToken.response];
+    if (
+      pageItems.length === 0 ||
+      items.length >= limit ||
+      reachedCursor(platform, pageItems, params.since) ||
+      typeof next !== "string" ||
+      !next
+    ) {
+      break;
+    }
+    token = next;
+  }
+
+  return items.slice(0, limit);
+}
+
 /**
  * Convert SociaVault indexed-object responses ({ "0": {...}, "1": {...} }) to arrays.
  * Also handles cases where the value is already an array or null/undefined.
@@ -119,7 +230,7 @@ function indexedObjectToArray(obj: unknown): Record<string, unknown>[] {
 }
 
 // ─────────────────────────────────────────────────────────
-// Reddit (existing implementation, unchanged)
+// Reddit
 // ─────────────────────────────────────────────────────────
 
 /**
@@ -152,17 +263,60 @@ function normalizeSociavaultRedditPosts(data: Record<string, unknown>): Record<s
   }));
 }
 
+/**
+ * Reddit accounts are subreddits: page through the newest posts and add the
+ * subreddit's details (subscribers, active users) as a community item. A
+ * details failure keeps the posts, which carry subreddit_subscribers.
+ */
+async function scrapeSubreddit(params: ScrapeParams): Promise<ProviderResult> {
+  const subreddit = params.handle.replace(/^\/?r\//i, "");
+  const limit = params.limit || 20;
+
+  const items = await callSociavaultPaged(
+    "reddit",
+    "/reddit/subreddit",
+    { subreddit, sort: "new", limit: String(Math.min(limit, 100)) },
+    `Fetching r/${subreddit} posts (limit: ${limit})`,
+    params,
+    normalizeSociavaultRedditPosts,
+    { request: "after", response: "after" }
+  );
+
+  try {
+    const details = await callSociavault(
+      "/reddit/subreddit/details",
+      { subreddit },
+      `Fetching r/${subreddit} details`
+    );
+    items.push({
+      dataType: "community",
+      name: details.display_name || subreddit,
+      numberOfMembers: details.subscribers || 0,
+      activeUsers: details.active_user_count ?? details.accounts_active ?? null,
+    });
+  } catch (error) {
+    console.log(`[SociaVault] r/${subreddit} details failed:`, error instanceof Error ? error.message : error);
+  }
+
+  console.log(`[SociaVault] Got ${items.length} items for r/${subreddit}`);
+
+  return { success: items.length > 0, items, source: "sociavault" };
+}
+
 async function scrapeReddit(params: ScrapeParams): Promise<ProviderResult> {
   const query = params.keyword || params.handle;
   const limit = params.limit || 20;
 
-  const data = await callSociavault(
+  const items = await callSociavaultPaged(
+    "reddit",
     "/reddit/search",
-    { query, sort: "new", limit: String(limit) },
-    `Fetching Reddit search for "${query}" (limit: ${limit})`
+    { query, sort: "new", limit: String(Math.min(limit, 100)) },
+    `Fetching Reddit search for "${query}" (limit: ${limit})`,
+    params,
+    normalizeSociavaultRedditPosts,
+    { request: "after", response: "after" }
   );
 
-  const items = normalizeSociavaultRedditPosts(data);
   console.log(`[SociaVault] Got ${items.length} Reddit posts for "${query}"`);
 
   return { success: items.length > 0, items, source: "sociavault" };
@@ -257,6 +411,71 @@ async function scrapeTikTok(params: ScrapeParams): Promise<ProviderResult> {
   return { success: items.length > 0, items, source: "sociavault" };
 }
 
+/**
+ * Normalize SociaVault TikTok hashtag/keyword search results to the same
+ * Apify-style video items as normalizeTikTokProfile. Search results carry their
+ * own author on each video, and there is no profile item (no follower metrics).
+ *
+ * Hashtag search returns { aweme_list: {...} }; keyword search returns
+ * { search_item_list: { "0": { aweme_info: {...} } } }.
+ */
+function normalizeTikTokSearch(data: Record<string, unknown>): Record<string, unknown>[] {
+  /* eslint-disable @typescript-eslint/no-explicit-any */
+  const videos = data.aweme_list
+    ? indexedObjectToArray(data.aweme_list)
+    : indexedObjectToArray(data.search_item_list || data.videos).map((v: any) => v.aweme_info || v);
+
+  return videos.map((video: any) => {
+    const stats = video.statistics || video.stats || {};
+    const author = video.author || {};
+    const uniqueId = author.unique_id || author.uniqueId || "";
+    const authorMeta = {
+      name: uniqueId,
+      nickName: author.nickname || "",
+      nickname: author.nickname || "",
+      fans: author.follower_count || 0,
+      followers: author.follower_count || 0,
+      avatar: author.avatar_thumb?.url_list?.[0] || "",
+      signature: author.signature || "",
+      region: author.region || "",
+    };
+    const id = video.aweme_id || video.id || "";
+
+    return {
+      id,
+      text: video.desc || "",
+      desc: video.desc || "",
+      webVideoUrl: video.share_url || (uniqueId && id ? `https://www.tiktok.com/@${uniqueId}/video/${id}` : ""),
+      diggCount: stats.digg_count || stats.diggCount || 0,
+      likes: stats.digg_count || stats.diggCount || 0,
+      commentCount: stats.comment_count || stats.commentCount || 0,
+      comments: stats.comment_count || stats.commentCount || 0,
+      shareCount: stats.share_count || stats.shareCount || 0,
+      shares: stats.share_count || stats.shareCount || 0,
+      playCount: stats.play_count || stats.playCount || 0,
+      views: stats.play_count || stats.playCount || 0,
+      createTime: video.create_time || video.createTime || 0,
+      hashtags: indexedObjectToArray(video.text_extra || video.textExtra)
+        .map((h: any) => ({ name: h.hashtag_name || h.hashtagName || "" }))
+        .filter((h: any) => h.name),
+      authorMeta,
+    };
+  });
+}
+
+async function scrapeTikTokFeed(params: ScrapeParams, feed: KeywordType): Promise<ProviderResult> {
+  const keyword = params.keyword || params.handle;
+
+  const data = feed === "hashtag"
+    ? await callSociavault("/tiktok/search/hashtag", { hashtag: keyword }, `TikTok hashtag #${keyword}`)
+    : await callSociavault("/tiktok/search/keyword", { query: keyword }, `TikTok search "${keyword}"`);
+
+  const items = normalizeTikTokSearch(data).slice(0, params.limit || 20);
+  console.log(`[SociaVault] Got ${items.length} TikTok videos for ${feed} "${keyword}"`);
+
+  return { success: items.length > 0, items, source: "sociavault" };
+}
+
 // ─────────────────────────────────────────────────────────
 // Instagram
 // ─────────────────────────────────────────────────────────
@@ -368,13 +587,15 @@ async function scrapeInstagram(params: ScrapeParams): Promise<ProviderResult> {
   // Primary: use /instagram/posts for cleaner item-level data
   try {
     console.log(`[SociaVault] Fetching Instagram posts for "${handle}"`);
-    const data = await callSociavault(
+    const items = await callSociavaultPaged(
+      "instagram",
       "/instagram/posts",
       { handle },
-      `Instagram posts for @${handle}`
+      `Instagram posts for @${handle}`,
+      params,
+      normalizeInstagramPosts,
+      { request: "next_max_id", response: "next_max_id" }
     );
-
-    const items = normalizeInstagramPosts(data);
     console.log(`[SociaVault] Got ${items.length} Instagram posts for "${handle}"`);
 
     if (items.length > 0) {
@@ -469,24 +690,27 @@ async function scrapeYouTube(params: ScrapeParams): Promise<ProviderResult> {
   };
 
   // Step 2: Get recent videos
-  let videoItems: Record<string, unknown>[] = [];
+  let items: Record<string, unknown>[] = [];
   try {
     console.log(`[SociaVault] Fetching YouTube channel-videos for "${handle}"`);
-    const videosData = await callSociavault(
+    items = await callSociavaultPaged(
+      "youtube",
       "/youtube/channel-videos",
       { handle },
-      `YouTube channel-videos for @${handle}`
+      `YouTube channel-videos for @${handle}`,
+      params,
+      // Videos may be in data.videos (indexed object) or data directly
+      (videosData) =>
+        normalizeYouTubeVideos(
+          indexedObjectToArray(videosData.videos || videosData.items || videosData),
+          channelMeta
+        ),
+      { request: "continuationToken", response: "continuationToken" }
     );
-
-    // Videos may be in data.videos (indexed object) or data directly
-    const rawVideos = videosData.videos || videosData.items || videosData;
-    videoItems = indexedObjectToArray(rawVideos);
   } catch (videosErr) {
     console.log(`[SociaVault] YouTube channel-videos failed for "${handle}":`, videosErr instanceof Error ? videosErr.message : videosErr);
   }
 
-  const items = normalizeYouTubeVideos(videoItems, channelMeta);
-
   // If no videos found, still return a synthetic item with channel metadata
   // so the metrics normalizer can at least extract subscriber count
   if (items.length === 0) {
@@ -513,6 +737,37 @@ async function scrapeYouTube(params: ScrapeParams): Promise<ProviderResult> {
   return { success: items.length > 0, items, source: "sociavault" };
 }
 
+/**
+ * YouTube hashtag/keyword search. Each result names its own channel, so
+ * channel metadata is taken per video (no subscriber counts in search results).
+ */
+async function scrapeYouTubeFeed(params: ScrapeParams, feed: KeywordType): Promise<ProviderResult> {
+  const keyword = params.keyword || params.handle;
+
+  const data = feed === "hashtag"
+    ? await callSociavault("/youtube/search/hashtag", { hashtag: keyword }, `YouTube hashtag #${keyword}`)
+    : await callSociavault("/youtube/search", { query: keyword }, `YouTube search "${keyword}"`);
+
+  /* eslint-disable @typescript-eslint/no-explicit-any */
+  const videos = indexedObjectToArray(data.videos || data.items || data);
+  const items = videos
+    .flatMap((video: any) => {
+      const channel = video.channel || {};
+      return normalizeYouTubeVideos([video], {
+        name: channel.title || channel.name || "",
+        url: channel.url || (channel.handle ? `https://www.youtube.com/${channel.handle}` : ""),
+        subscribers: 0,
+        country: "",
+        thumbnail: channel.thumbnail || "",
+      });
+    })
+    .slice(0, params.limit || 20);
+
+  console.log(`[SociaVault] Got ${items.length} YouTube videos for ${feed} "${keyword}"`);
+
+  return { success: items.length > 0, items, source: "sociavault" };
+}
+
 // ─────────────────────────────────────────────────────────
 // Twitter / X
 // ─────────────────────────────────────────────────────────
@@ -664,61 +919,114 @@ async function scrapeFacebook(params: ScrapeParams): Promise<ProviderResult> {
     : `https://www.facebook.com/${handle}`;
 
   console.log(`[SociaVault] Fetching Facebook profile-posts for "${handle}"`);
-  const data = await callSociavault(
+  const items = await callSociavaultPaged(
+    "facebook",
     "/facebook/profile/posts",
     { url: fbUrl },
-    `Facebook profile-posts for ${handle}`
+    `Facebook profile-posts for ${handle}`,
+    params,
+    normalizeFacebookPosts,
+    { request: "cursor", response: "cursor" }
   );
-
-  const items = normalizeFacebookPosts(data);
   console.log(`[SociaVault] Got ${items.length} Facebook posts for "${handle}"`);
 
   return { success: items.length > 0, items, source: "sociavault" };
 }
 
 // ─────────────────────────────────────────────────────────
-// Provider export
+// Comments
 // ─────────────────────────────────────────────────────────
 
-export const sociavaultProvider: ScrapeProvider = {
-  name: "sociavault",
+/**
+ * Comments on one post. Every endpoint returns { comments: {...} } as an
+ * indexed object (Reddit's may nest under data.comments); items are passed
+ * through as-is for normalizeComments.
+ */
+async function scrapeComments(platform: Platform, params: ScrapeParams): Promise<ProviderResult> {
+  const path = COMMENT_PATHS[platform];
+  if (!path) {
+    return {
+      success: false,
+      items: [],
+      source: "sociavault",
+      error: `SociaVault does not support comments for platform: ${platform}`,
+    };
+  }
 
-  supports(platform: Platform): boolean {
-    return ["reddit", "tiktok", "instagram", "youtube", "twitter", "facebook"].includes(platform);
-  },
+  const data = await callSociavault(path, { url: params.handle }, `${platform} comments for ${params.handle}`);
+  const items = indexedObjectToArray(data.comments || data.items || data).slice(0, params.limit || 20);
+  console.log(`[SociaVault] Got ${items.length} ${platform} comments for ${params.handle}`);
 
-  async scrape(platform: Platform, params: ScrapeParams): Promise<ProviderResult> {
-    try {
-      switch (platform) {
-        case "reddit":
-          return await scrapeReddit(params);
-        case "tiktok":
-          return await scrapeTikTok(params);
-        case "instagram":
-          return await scrapeInstagram(params);
-        case "youtube":
-          return await scrapeYouTube(params);
-        case "twitter":
-          return await scrapeTwitter(params);
-        case "facebook":
-          return await scrapeFacebook(params);
-        default:
-          return {
-            success: false,
-            items: [],
-            source: "sociavault",
-            error: `SociaVault does not support platform: ${platform}`,
-          };
-      }
-    } catch (error) {
-      const errorMsg = error instanceof Error ? error.message : "Unknown SociaVault error";
-      console.error(`[SociaVault] Failed for ${params.handle} (${platform}):`, errorMsg);
+  return { success: items.length > 0, items, source: "sociavault" };
+}
+
+/** Dispatch a scrape to the platform's endpoint(s); errors become failed results */
+async function scrapePlatform(platform: Platform, params: ScrapeParams): Promise<ProviderResult> {
+  try {
+    if (params.feed === "comments") return await scrapeComments(platform, params);
+    if (params.feed && !SUPPORTED_FEEDS[platform]?.includes(params.feed)) {
       return {
         success: false,
         items: [],
         source: "sociavault",
-        error: errorMsg,
+        error: `SociaVault does not support ${params.feed} feeds for platform: ${platform}`,
       };
     }
+    if (params.feed && platform === "tiktok") return await scrapeTikTokFeed(params, params.feed);
+    if (params.feed && platform === "youtube") return await scrapeYouTubeFeed(params, params.feed);
+
+    switch (platform) {
+      case "reddit":
+        return params.feed ? await scrapeReddit(params) : await scrapeSubreddit(params);
+      case "tiktok":
+        return await scrapeTikTok(params);
+      case "instagram":
+        return await scrapeInstagram(params);
+      case "youtube":
+        return await scrapeYouTube(params);
+      case "twitter":
+        return await scrapeTwitter(params);
+      case "facebook":
+        return await scrapeFacebook(params);
+      default:
+        return {
+          success: false,
+          items: [],
+          source: "sociavault",
+          error: `SociaVault does not support platform: ${platform}`,
+        };
+    }
+  } catch (error) {
+    const errorMsg = error instanceof Error ? error.message : "Unknown SociaVault error";
+    console.error(`[SociaVault] Failed for ${params.handle} (${platform}):`, errorMsg);
+    return {
+      success: false,
+      items: [],
+      source: "sociavault",
+      error: errorMsg,
+      httpStatus: error instanceof SociavaultHttpError ? error.status : undefined,
+    };
+  }
+}
+
+// ─────────────────────────────────────────────────────────
+// Provider export
+// ─────────────────────────────────────────────────────────
+
+export const sociavaultProvider: ScrapeProvider = {
+  name: "sociavault",
+
+  supports(platform: Platform, feed?: ScrapeFeed): boolean {
+    if (feed === "comments") return !!COMMENT_PATHS[platform];
+    if (feed) return !!SUPPORTED_FEEDS[platform]?.includes(feed);
+    return ["reddit", "tiktok", "instagram", "youtube", "twitter", "facebook"].includes(platform);
+  },
+
+  async scrape(platform: Platform, params: ScrapeParams): Promise<ProviderResult> {
+    const counter = { requests: 0 };
+    const result = await requestCounter.run(counter, () => scrapePlatform(platform, params));
+    return counter.requests > 0
+      ? { ...result, usage: { credits: counter.requests, costUsd: counter.requests * getUsdPerCredit() } }
+      : result;
   },
 };
@@ -1,11 +1,28 @@
-import type { Platform } from "@/types/fandom";
+import type { KeywordType, Platform } from "@/types/fandom";
 
-export type ProviderName = "apify" | "sociavault";
+export type ProviderName = "apify" | "sociavault" | "replay";
+
+/**
+ * What to scrape besides an account's own posts: a keyword feed, or the
+ * comments on one post (params.handle is then the post URL).
+ */
+export type ScrapeFeed = KeywordType | "comments";
+
+/** Newest post already ingested for a fandom-platform */
+export interface ScrapeCursor {
+  publishedAt: string | null;
+  externalId: string | null;
+}
 
 export interface ScrapeParams {
   handle: string;
   keyword?: string;
+  /** Scrape the hashtag or search feed for `keyword`, or a post's comments, instead of the account's own posts */
+  feed?: ScrapeFeed;
+  /** Item cap: providers paginate until the cursor is reached or this many items are fetched */
   limit?: number;
+  /** Stop paginating once a page reaches this post; omitted on a fandom's first scrape */
+  since?: ScrapeCursor;
 }
 
 export interface ProviderResult {
@@ -13,19 +30,26 @@ export interface ProviderResult {
   items: Record<string, unknown>[];
   source: ProviderName;
   error?: string;
+  /** HTTP status of the failed upstream call, when the provider knows it */
+  httpStatus?: number;
   /** Apify dataset ID if applicable */
   datasetId?: string;
+  /** Estimated billable usage of the call, for the cost ledger; omitted when free */
+  usage?: ProviderUsage;
+}
+
+export interface ProviderUsage {
+  credits: number;
+  costUsd: number;
 }
 
 export interface ScrapeProvider {
   name: ProviderName;
-  /** Returns true if this provider supports the given platform */
-  supports(platform: Platform): boolean;
+  /** Returns true if this provider supports the given platform (and feed, when set) */
+  supports(platform: Platform, feed?: ScrapeFeed): boolean;
   /** Scrape a platform and return normalized raw items */
   scrape(platform: Platform, params: ScrapeParams): Promise<ProviderResult>;
 }
 
-export interface PlatformProviderConfig {
-  primary: ProviderName;
-  secondary: ProviderName;
-}
+/** Ordered provider list for a platform; the first entry is the primary */
+export type ProviderPriority = ProviderName[];
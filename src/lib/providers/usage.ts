@@ -0,0 +1,172 @@
+import { db } from "@/lib/db";
+import { fandoms, providerBudgets, providerUsage } from "@/lib/db/schema";
+import { and, desc, eq, gte, lt, sql } from "drizzle-orm";
+import type { FandomCost, Platform, ProviderBudgetStatus } from "@/types/fandom";
+import type { ProviderName, ProviderUsage, ScrapeFeed } from "./types";
+import { PROVIDER_NAMES } from "./registry";
+
+/**
+ * Provider spend ledger and monthly budgets.
+ *
+ * Every billable provider call appends a provider_usage row with the
+ * provider's own estimate (see ProviderResult.usage). Budgets are per
+ * provider per calendar month (UTC); once spend reaches
+ * BUDGET_NEAR_EXHAUSTION of a budget, low-priority fandoms stop using that
+ * provider until the month rolls over or the budget is raised.
+ */
+
+/** Share of a monthly budget at which low-priority fandoms stop using the provider */
+export const BUDGET_NEAR_EXHAUSTION = 0.9;
+
+/** First instant of a YYYY-MM month (UTC), and of the month after it */
+function monthRange(month?: string): { start: Date; end: Date; month: string } {
+  const now = new Date();
+  const [year, monthIndex] = month && /^\d{4}-\d{2}$/.test(month)
+    ? [Number(month.slice(0, 4)), Number(month.slice(5, 7)) - 1]
+    : [now.getUTCFullYear(), now.getUTCMonth()];
+  const start = new Date(Date.UTC(year, monthIndex, 1));
+  const end = new Date(Date.UTC(year, monthIndex + 1, 1));
+  return { start, end, month: start.toISOString().slice(0, 7) };
+}
+
+/** Append one call to the ledger; logging spend must never fail the scrape */
+export async function recordProviderUsage(entry: {
+  provider: ProviderName;
+  platform: Platform;
+  fandomId?: string;
+  feed?: ScrapeFeed;
+  outcome: string;
+  itemCount: number;
+  usage?: ProviderUsage;
+}): Promise<void> {
+  if (!entry.usage) return;
+  try {
+    await db.insert(providerUsage).values({
+      provider: entry.provider,
+      platform: entry.platform,
+      fandomId: entry.fandomId ?? null,
+      feed: entry.feed ?? null,
+      outcome: entry.outcome,
+      itemCount: entry.itemCount,
+      credits: entry.usage.credits,
+      costUsd: entry.usage.costUsd.toFixed(6),
+    });
+  } catch (error) {
+    console.warn(`[Usage] Failed to record usage for ${entry.provider}/${entry.platform}:`, error);
+  }
+}
+
+/** Spend against each live provider's budget for a month (default: this month) */
+export async function getProviderBudgetStatus(month?: string): Promise<ProviderBudgetStatus[]> {
+  const range = monthRange(month);
+
+  const [spend, budgets] = await Promise.all([
+    db
+      .select({
+        provider: providerUsage.provider,
+        spentUsd: sql<string>`coalesce(sum(${providerUsage.costUsd}), 0)`,
+        credits: sql<number>`coalesce(sum(${providerUsage.credits}), 0)`,
+        calls: sql<number>`count(*)`,
+      })
+      .from(providerUsage)
+      .where(and(gte(providerUsage.createdAt, range.start), lt(providerUsage.createdAt, range.end)))
+      .groupBy(providerUsage.provider),
+    db.select().from(providerBudgets),
+  ]);
+
+  return PROVIDER_NAMES.map((provider) => {
+    const row = spend.find((s) => s.provider === provider);
+    const budget = budgets.find((b) => b.provider === provider);
+    const spentUsd = Number(row?.spentUsd ?? 0);
+    const monthlyBudgetUsd = budget ? Number(budget.monthlyBudgetUsd) : null;
+    const usedPct = monthlyBudgetUsd ? (spentUsd / monthlyBudgetUsd) * 100 : null;
+    return {
+      provider,
+      month: range.month,
+      monthlyBudgetUsd,
+      spentUsd,
+      credits: Number(row?.credits ?? 0),
+      calls: Number(row?.calls ?? 0),
+      usedPct,
+      nearExhaustion: usedPct !== null && usedPct >= BUDGET_NEAR_EXHAUSTION * 100,
+    };
+  });
+}
+
+/**
+ * Providers at or past BUDGET_NEAR_EXHAUSTION of this month's budget.
+ * Budget lookups never block scraping: on DB errors nothing is reported.
+ */
+export async function getProvidersNearBudget(): Promise<ProviderName[]> {
+  try {
+    const status = await getProviderBudgetStatus();
+    return status.filter((s) => s.nearExhaustion).map((s) => s.provider as ProviderName);
+  } catch (error) {
+    console.warn("[Usage] Failed to read provider budgets:", error);
+    return [];
+  }
+}
+
+/** Set a provider's monthly budget, or remove it (null) to leave the provider uncapped */
+export async function setProviderBudget(provider: ProviderName, monthlyBudgetUsd: number | null): Promise<void> {
+  if (monthlyBudgetUsd === null) {
+    await db.delete(providerBudgets).where(eq(providerBudgets.provider, provider));
+    return;
+  }
+
+  await db
+    .insert(providerBudgets)
+    .values({ provider, monthlyBudgetUsd: monthlyBudgetUsd.toFixed(2), updatedAt: new Date() })
+    .onConflictDoUpdate({
+      target: providerBudgets.provider,
+      set: { monthlyBudgetUsd: monthlyBudgetUsd.toFixed(2), updatedAt: new Date() },
+    });
+}
+
+/**
+ * Spend per fandom for a month, most expensive first. Calls made outside a
+ * fandom scrape are grouped under a null fandom.
+ */
+export async function getFandomCosts(month?: string): Promise<FandomCost[]> {
+  const range = monthRange(month);
+
+  const rows = await db
+    .select({
+      fandomId: providerUsage.fandomId,
+      name: fandoms.name,
+      slug: fandoms.slug,
+      tier: fandoms.tier,
+      provider: providerUsage.provider,
+      costUsd: sql<string>`coalesce(sum(${providerUsage.costUsd}), 0)`,
+      credits: sql<number>`coalesce(sum(${providerUsage.credits}), 0)`,
+      calls: sql<number>`count(*)`,
+    })
+    .from(providerUsage)
+    .leftJoin(fandoms, eq(providerUsage.fandomId, fandoms.id))
+    .where(and(gte(providerUsage.createdAt, range.start), lt(providerUsage.createdAt, range.end)))
+    .groupBy(providerUsage.fandomId, fandoms.name, fandoms.slug, fandoms.tier, providerUsage.provider)
+    .orderBy(desc(sql`sum(${providerUsage.costUsd})`));
+
+  const byFandom = new Map<string, FandomCost>();
+  for (const row of rows) {
+    const key = row.fandomId ?? "";
+    const entry = byFandom.get(key) ?? {
+      fandomId: row.fandomId,
+      name: row.name ?? "Unattributed",
+      slug: row.slug,
+      tier: row.tier,
+      costUsd: 0,
+      credits: 0,
+      calls: 0,
+      byProvider: {},
+    };
+    const cost = Number(row.costUsd);
+    entry.costUsd += cost;
+    entry.credits += Number(row.credits);
+    entry.calls += Number(row.calls);
+    entry.byProvider[row.provider] = (entry.byProvider[row.provider] ?? 0) + cost;
+    byFandom.set(key, entry);
+  }
+
+  return [...byFandom.values()].sort((a, b) => b.costUsd - a.costUsd);
+}
@@ -0,0 +1,149 @@
+/**
+ * Minimal five-field cron expressions: minute hour day-of-month month day-of-week.
+ *
+ * Each field accepts `*`, numbers, ranges (`1-5`), steps (`*\/3`, `0-30/10`) and
+ * comma-separated lists. Day-of-week is 0-7 with both 0 and 7 meaning Sunday.
+ * As in standard cron, when both day fields are restricted a day matching
+ * either one fires. Expressions are evaluated in UTC.
+ */
+
+interface CronField {
+  values: Set<number>;
+  /** True when the field was `*` (or `*\/1`), i.e. unrestricted */
+  any: boolean;
+}
+
+export interface CronSchedule {
+  minute: CronField;
+  hour: CronField;
+  dayOfMonth: CronField;
+  month: CronField;
+  dayOfWeek: CronField;
+}
+
+const FIELD_RANGES: Array<[number, number]> = [
+  [0, 59],
+  [0, 23],
+  [1, 31],
+  [1, 12],
+  [0, 7],
+];
+
+/** Give up searching for a match after this far ahead (e.g. "0 0 30 2 *") */
+const MAX_LOOKAHEAD_MS = 4 * 366 * 24 * 60 * 60 * 1000;
+
+/** A plain non-negative integer; Number() would take "", "0x5" or "1e1" */
+function parseNumber(text: string | undefined, kind: string): number {
+  if (text === undefined || !/^\d+$/.test(text)) {
+    throw new Error(`Invalid ${kind} "${text ?? ""}"`);
+  }
+  return Number(text);
+}
+
+function parseField(field: string, [min, max]: [number, number]): CronField {
+  const values = new Set<number>();
+  let any = false;
+
+  for (const part of field.split(",")) {
+    const [rangePart, stepPart] = part.split("/");
+    const step = stepPart === undefined ? 1 : parseNumber(stepPart, "step");
+    if (step < 1) {
+      throw new Error(`Invalid step "${stepPart}"`);
+    }
+
+    let start: number;
+    let end: number;
+    if (rangePart === "*") {
+      start = min;
+      end = max;
+      if (step === 1) any = true;
+    } else if (rangePart.includes("-")) {
+      const bounds = rangePart.split("-");
+      if (bounds.length !== 2) throw new Error(`Invalid range "${rangePart}"`);
+      start = parseNumber(bounds[0], "range start");
+      end = parseNumber(bounds[1], "range end");
+    } else {
+      start = parseNumber(rangePart, "value");
+      // "5/15" means every 15 starting at 5
+      end = stepPart === undefined ? start : max;
+    }
+
+    if (!Number.isInteger(start) || !Number.isInteger(end) || start < min || end > max || start > end) {
+      throw new Error(`Value "${part}" is out of range ${min}-${max}`);
+    }
+
+    for (let v = start; v <= end; v += step) values.add(v);
+  }
+
+  return { values, any };
+}
+
+export function parseCron(expression: string): CronSchedule {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error("Expected 5 fields: minute hour day-of-month month day-of-week");
+  }
+
+  const [minute, hour, dayOfMonth, month, dayOfWeek] = fields.map((f, i) =>
+    parseField(f, FIELD_RANGES[i])
+  );
+  if (dayOfWeek.values.has(7)) dayOfWeek.values.add(0);
+
+  return { minute, hour, dayOfMonth, month, dayOfWeek };
+}
+
+/** Returns an error message, or null when the expression is valid */
+export function validateCron(expression: string): string | null {
+  try {
+    parseCron(expression);
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : "Invalid cron expression";
+  }
+}
+
+function dayMatches(schedule: CronSchedule, date: Date): boolean {
+  const dom = schedule.dayOfMonth.values.has(date.getUTCDate());
+  const dow = schedule.dayOfWeek.values.has(date.getUTCDay());
+  if (schedule.dayOfMonth.any) return dow;
+  if (schedule.dayOfWeek.any) return dom;
+  return dom || dow;
+}
+
+/**
+ * First time strictly after `after` that the expression fires,
+ * or null if it never does within the lookahead window.
+ */
+export function nextCronRun(expression: string | CronSchedule, after: Date = new Date()): Date | null {
+  const schedule = typeof expression === "string" ? parseCron(expression) : expression;
+  const limit = after.getTime() + MAX_LOOKAHEAD_MS;
+
+  const t = new Date(after.getTime());
+  t.setUTCSeconds(0, 0);
+  t.setUTCMinutes(t.getUTCMinutes() + 1);
+
+  // Skip whole months/days/hours at a time rather than testing every minute
+  while (t.getTime() <= limit) {
+    if (!schedule.month.values.has(t.getUTCMonth() + 1)) {
+      t.setUTCMonth(t.getUTCMonth() + 1, 1);
+      t.setUTCHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!dayMatches(schedule, t)) {
+      t.setUTCDate(t.getUTCDate() + 1);
+      t.setUTCHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!schedule.hour.values.has(t.getUTCHours())) {
+      t.setUTCHours(t.getUTCHours() + 1, 0, 0, 0);
+      continue;
+    }
+    if (!schedule.minute.values.has(t.getUTCMinutes())) {
+      t.setUTCMinutes(t.getUTCMinutes() + 1, 0, 0);
+      continue;
+    }
+    return t;
+  }
+
+  return null;
+}
@@ -0,0 +1,23 @@
+export {
+  enqueueScrapeJobs,
+  leaseNextJob,
+  extendJobLease,
+  completeJob,
+  failJob,
+  reclaimExpiredLeases,
+  retryDeadJob,
+  getQueueSummary,
+  countQueuedJobsByPlatform,
+} from "./jobs";
+export type { ScrapeJob, ScrapeJobTrigger } from "./jobs";
+export { startScrapeWorker, finalizeJob } from "./worker";
+export { startScrapeScheduler } from "./scheduler";
+export {
+  DEFAULT_TIER_SCHEDULES,
+  ensureTierSchedules,
+  listSchedules,
+  setSchedule,
+  deleteFandomSchedule,
+} from "./schedules";
+export type { ScrapeSchedule } from "./schedules";
+export { parseCron, validateCron, nextCronRun } from "./cron";
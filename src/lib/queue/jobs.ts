@@ -0,0 +1,260 @@
+import { db } from "@/lib/db";
+import { scrapeJobs } from "@/lib/db/schema";
+import { eq, and, asc, desc, lte, lt, inArray, notInArray, sql } from "drizzle-orm";
+import type { Platform } from "@/types/fandom";
+
+export type ScrapeJob = typeof scrapeJobs.$inferSelect;
+export type ScrapeJobTrigger = "cron" | "schedule" | "manual" | "fandom_created";
+
+/** How long a worker owns a job before another worker may reclaim it */
+export const LEASE_DURATION_MS = 15 * 60 * 1000;
+
+// Exponential backoff: 2m, 4m, 8m, 16m ... capped at 1h
+const BASE_BACKOFF_MS = 2 * 60 * 1000;
+const MAX_BACKOFF_MS = 60 * 60 * 1000;
+
+export function backoffDelayMs(attempts: number): number {
+  return Math.min(BASE_BACKOFF_MS * 2 ** Math.max(attempts - 1, 0), MAX_BACKOFF_MS);
+}
+
+/**
+ * Enqueue one job per fandom-platform pair.
+ * Pairs that already have a queued or leased job are skipped (partial unique
+ * index), so re-clicking "Scrape All" or an overlapping cron tick is a no-op.
+ */
+export async function enqueueScrapeJobs(
+  pairs: Array<{ fandomId: string; platform: Platform }>,
+  options: { trigger: ScrapeJobTrigger; batchId?: string }
+): Promise<{ enqueued: number; skipped: number }> {
+  if (pairs.length === 0) return { enqueued: 0, skipped: 0 };
+
+  const inserted = await db
+    .insert(scrapeJobs)
+    .values(
+      pairs.map((p) => ({
+        fandomId: p.fandomId,
+        platform: p.platform,
+        trigger: options.trigger,
+        batchId: options.batchId ?? null,
+      }))
+    )
+    .onConflictDoNothing()
+    .returning({ id: scrapeJobs.id });
+
+  return { enqueued: inserted.length, skipped: pairs.length - inserted.length };
+}
+
+/**
+ * Atomically claim the next due job. Uses SKIP LOCKED so concurrent workers
+ * (or replicas) never receive the same job.
+ *
+ * `platforms` limits the job to those platforms; `excludePlatforms` skips
+ * them (jobs left to external agents, see lib/agents/config.ts).
+ */
+export async function leaseNextJob(
+  workerId: string,
+  filter: { platforms?: Platform[]; excludePlatforms?: Platform[] } = {}
+): Promise<ScrapeJob | null> {
+  const now = new Date();
+
+  const conditions = [eq(scrapeJobs.status, "queued"), lte(scrapeJobs.runAt, now)];
+  if (filter.platforms) conditions.push(inArray(scrapeJobs.platform, filter.platforms));
+  if (filter.excludePlatforms?.length) conditions.push(notInArray(scrapeJobs.platform, filter.excludePlatforms));
+
+  const nextDue = db
+    .select({ id: scrapeJobs.id })
+    .from(scrapeJobs)
+    .where(and(...conditions))
+    .orderBy(asc(scrapeJobs.runAt))
+    .limit(1)
+    .for("update", { skipLocked: true });
+
+  const [job] = await db
+    .update(scrapeJobs)
+    .set({
+      status: "leased",
+      leasedBy: workerId,
+      leasedUntil: new Date(now.getTime() + LEASE_DURATION_MS),
+      attempts: sql`${scrapeJobs.attempts} + 1`,
+      updatedAt: now,
+    })
+    .where(inArray(scrapeJobs.id, nextDue))
+    .returning();
+
+  return job ?? null;
+}
+
+/** Push back the lease of a job its worker is still running */
+export async function extendJobLease(jobId: string, workerId: string): Promise<boolean> {
+  const updated = await db
+    .update(scrapeJobs)
+    .set({ leasedUntil: new Date(Date.now() + LEASE_DURATION_MS), updatedAt: new Date() })
+    .where(and(eq(scrapeJobs.id, jobId), eq(scrapeJobs.status, "leased"), eq(scrapeJobs.leasedBy, workerId)))
+    .returning({ id: scrapeJobs.id });
+
+  return updated.length > 0;
+}
+
+/**
+ * Mark a job succeeded. Only the worker holding the lease may; false when the
+ * lease was lost (it expired and the job was reclaimed or re-leased).
+ */
+export async function completeJob(jobId: string, workerId: string, scrapeRunId?: string): Promise<boolean> {
+  const updated = await db
+    .update(scrapeJobs)
+    .set({
+      status: "succeeded",
+      scrapeRunId: scrapeRunId ?? null,
+      leasedUntil: null,
+      lastError: null,
+      finishedAt: new Date(),
+      updatedAt: new Date(),
+    })
+    .where(and(eq(scrapeJobs.id, jobId), eq(scrapeJobs.status, "leased"), eq(scrapeJobs.leasedBy, workerId)))
+    .returning({ id: scrapeJobs.id });
+
+  return updated.length > 0;
+}
+
+/**
+ * Record a failed attempt. The job is re-queued with exponential backoff,
+ * or moved to the dead-letter state once its attempts are exhausted.
+ * Only the lease `job` was leased under counts; null when it was lost.
+ */
+export async function failJob(
+  job: ScrapeJob,
+  error: string,
+  scrapeRunId?: string
+): Promise<"queued" | "dead" | null> {
+  if (!job.leasedBy) return null;
+
+  const exhausted = job.attempts >= job.maxAttempts;
+  const now = new Date();
+
+  const updated = await db
+    .update(scrapeJobs)
+    .set({
+      status: exhausted ? "dead" : "queued",
+      runAt: exhausted ? job.runAt : new Date(now.getTime() + backoffDelayMs(job.attempts)),
+      scrapeRunId: scrapeRunId ?? job.scrapeRunId,
+      leasedBy: null,
+      leasedUntil: null,
+      lastError: error,
+      finishedAt: exhausted ? now : null,
+      updatedAt: now,
+    })
+    .where(and(eq(scrapeJobs.id, job.id), eq(scrapeJobs.status, "leased"), eq(scrapeJobs.leasedBy, job.leasedBy)))
+    .returning({ id: scrapeJobs.id });
+
+  if (updated.length === 0) return null;
+  return exhausted ? "dead" : "queued";
+}
+
+/**
+ * Return jobs whose lease expired (worker crashed or the process restarted)
+ * to the queue so another worker resumes them, with the same backoff and
+ * dead-lettering as failJob. One conditional update, so concurrent lanes
+ * never reclaim the same lease twice or touch a job that was just re-leased.
+ */
+export async function reclaimExpiredLeases(): Promise<number> {
+  const now = new Date();
+  const nowParam = sql`${now.toISOString()}::timestamp`;
+  const exhausted = sql`${scrapeJobs.attempts} >= ${scrapeJobs.maxAttempts}`;
+
+  const reclaimed = await db
+    .update(scrapeJobs)
+    .set({
+      status: sql`case when ${exhausted} then 'dead'::scrape_job_status else 'queued'::scrape_job_status end`,
+      runAt: sql`case when ${exhausted} then ${scrapeJobs.runAt} else ${nowParam} + least(
+        ${BASE_BACKOFF_MS} * power(2, greatest(${scrapeJobs.attempts} - 1, 0)), ${MAX_BACKOFF_MS}
+      ) * interval '1 millisecond' end`,
+      leasedBy: null,
+      leasedUntil: null,
+      lastError: sql`'Lease expired (worker ' || coalesce(${scrapeJobs.leasedBy}, 'unknown') || ' did not finish)'`,
+      finishedAt: sql`case when ${exhausted} then ${nowParam} else null end`,
+      updatedAt: now,
+    })
+    .where(and(eq(scrapeJobs.status, "leased"), lt(scrapeJobs.leasedUntil, now)))
+    .returning({ id: scrapeJobs.id });
+
+  return reclaimed.length;
+}
+
+/** Move a dead-lettered job back to the queue with a fresh attempt budget */
+export async function retryDeadJob(jobId: string): Promise<boolean> {
+  const updated = await db
+    .update(scrapeJobs)
+    .set({
+      status: "queued",
+      attempts: 0,
+      runAt: new Date(),
+      lastError: null,
+      finishedAt: null,
+      updatedAt: new Date(),
+    })
+    .where(and(eq(scrapeJobs.id, jobId), eq(scrapeJobs.status, "dead")))
+    .returning({ id: scrapeJobs.id })
+    .catch(() => []);
+
+  // Fails on the partial unique index if the pair was re-enqueued meanwhile
+  return updated.length > 0;
+}
+
+export async function countPendingJobs(filter: { fandomId?: string; batchId?: string }): Promise<number> {
+  const conditions = [inArray(scrapeJobs.status, ["queued", "leased"])];
+  if (filter.fandomId) conditions.push(eq(scrapeJobs.fandomId, filter.fandomId));
+  if (filter.batchId) conditions.push(eq(scrapeJobs.batchId, filter.batchId));
+
+  const [row] = await db
+    .select({ count: sql<number>`count(*)` })
+    .from(scrapeJobs)
+    .where(and(...conditions));
+
+  return Number(row.count);
+}
+
+export async function countQueuedJobsByPlatform(platforms: Platform[]): Promise<Partial<Record<Platform, number>>> {
+  if (platforms.length === 0) return {};
+
+  const rows = await db
+    .select({ platform: scrapeJobs.platform, count: sql<number>`count(*)` })
+    .from(scrapeJobs)
+    .where(and(eq(scrapeJobs.status, "queued"), inArray(scrapeJobs.platform, platforms)))
+    .groupBy(scrapeJobs.platform);
+
+  return Object.fromEntries(rows.map((row) => [row.platform, Number(row.count)]));
+}
+
+export async function countBatchFandoms(batchId: string): Promise<number> {
+  const [row] = await db
+    .select({ count: sql<number>`count(distinct ${scrapeJobs.fandomId})` })
+    .from(scrapeJobs)
+    .where(eq(scrapeJobs.batchId, batchId));
+
+  return Number(row.count);
+}
+
+export async function getQueueSummary(): Promise<{
+  counts: Record<ScrapeJob["status"], number>;
+  deadJobs: ScrapeJob[];
+}> {
+  const [countRows, deadJobs] = await Promise.all([
+    db
+      .select({ status: scrapeJobs.status, count: sql<number>`count(*)` })
+      .from(scrapeJobs)
+      .groupBy(scrapeJobs.status),
+    db
+      .select()
+      .from(scrapeJobs)
+      .where(eq(scrapeJobs.status, "dead"))
+      .orderBy(desc(scrapeJobs.finishedAt))
+      .limit(20),
+  ]);
+
+  const counts = { queued: 0, leased: 0, succeeded: 0, dead: 0 };
+  for (const row of countRows) {
+    counts[row.status] = Number(row.count);
+  }
+
+  return { counts, deadJobs };
+}
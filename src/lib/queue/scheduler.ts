@@ -0,0 +1,68 @@
+import { claimDueSchedules, ensureTierSchedules, getScheduledFandomIds } from "./schedules";
+import { enqueueFandomsScrape, reapStuckScrapeRuns } from "@/lib/services/scrape.service";
+
+const TICK_INTERVAL_MS = 60 * 1000;
+
+let started = false;
+
+function delay(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Start the in-process scheduler. Safe to call more than once.
+ *
+ * Once a minute, stuck scrape runs are failed, then due schedules (see
+ * schedules.ts) are claimed and their fandoms enqueued as one batch; the
+ * scrape worker does the rest.
+ */
+export function startScrapeScheduler(): void {
+  if (started) return;
+  started = true;
+
+  console.log("[Scheduler] Starting scrape scheduler");
+  void runScheduler();
+}
+
+async function runScheduler(): Promise<never> {
+  try {
+    await ensureTierSchedules();
+  } catch (error) {
+    console.error("[Scheduler] Failed to create tier schedules:", error);
+  }
+
+  for (;;) {
+    try {
+      await tick();
+    } catch (error) {
+      console.error("[Scheduler] Tick failed:", error);
+    }
+    await delay(TICK_INTERVAL_MS);
+  }
+}
+
+async function tick(): Promise<void> {
+  const reaped = await reapStuckScrapeRuns();
+  if (reaped > 0) {
+    console.log(`[Scheduler] Failed ${reaped} scrape runs stuck in running`);
+  }
+
+  const due = await claimDueSchedules();
+  if (due.length === 0) return;
+
+  const fandomIds = new Set<string>();
+  for (const schedule of due) {
+    for (const id of await getScheduledFandomIds(schedule)) fandomIds.add(id);
+  }
+
+  const labels = due.map((s) => (s.fandomId ? `fandom ${s.fandomId}` : `tier ${s.tier}`));
+  if (fandomIds.size === 0) {
+    console.log(`[Scheduler] ${labels.join(", ")} fired with no fandoms to scrape`);
+    return;
+  }
+
+  const { batchId, enqueued, skipped } = await enqueueFandomsScrape([...fandomIds], "schedule");
+  console.log(
+    `[Scheduler] ${labels.join(", ")}: enqueued ${enqueued} jobs (${skipped} already pending) in batch ${batchId}`
+  );
+}
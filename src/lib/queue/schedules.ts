@@ -0,0 +1,144 @@
+import { db } from "@/lib/db";
+import { fandoms, scrapeSchedules } from "@/lib/db/schema";
+import { and, eq, isNotNull, isNull, lte, notInArray } from "drizzle-orm";
+import type { FandomTier } from "@/types/fandom";
+import { nextCronRun } from "./cron";
+
+export type ScrapeSchedule = typeof scrapeSchedules.$inferSelect;
+
+/** Used when a tier's schedule row is first created */
+export const DEFAULT_TIER_SCHEDULES: Record<FandomTier, string> = {
+  trending: "0 */3 * * *",
+  emerging: "0 */6 * * *",
+  existing: "0 0 * * *",
+};
+
+const TIERS = Object.keys(DEFAULT_TIER_SCHEDULES) as FandomTier[];
+
+/** Create any missing tier rows with their default expressions */
+export async function ensureTierSchedules(): Promise<void> {
+  const now = new Date();
+  await db
+    .insert(scrapeSchedules)
+    .values(
+      TIERS.map((tier) => ({
+        tier,
+        cronExpression: DEFAULT_TIER_SCHEDULES[tier],
+        nextRunAt: nextCronRun(DEFAULT_TIER_SCHEDULES[tier], now),
+      }))
+    )
+    .onConflictDoNothing();
+}
+
+export async function listSchedules(): Promise<ScrapeSchedule[]> {
+  return db.select().from(scrapeSchedules).orderBy(scrapeSchedules.tier, scrapeSchedules.updatedAt);
+}
+
+/**
+ * Create or replace the schedule for a tier, or a per-fandom override.
+ * The next run is recomputed from now; disabled schedules have none.
+ */
+export async function setSchedule(
+  scope: { tier: FandomTier } | { fandomId: string },
+  values: { cronExpression: string; enabled: boolean }
+): Promise<ScrapeSchedule> {
+  const where =
+    "fandomId" in scope
+      ? eq(scrapeSchedules.fandomId, scope.fandomId)
+      : and(eq(scrapeSchedules.tier, scope.tier), isNull(scrapeSchedules.fandomId));
+  const fields = {
+    cronExpression: values.cronExpression,
+    enabled: values.enabled,
+    nextRunAt: values.enabled ? nextCronRun(values.cronExpression) : null,
+    updatedAt: new Date(),
+  };
+
+  const [existing] = await db.select({ id: scrapeSchedules.id }).from(scrapeSchedules).where(where).limit(1);
+
+  if (existing) {
+    const [updated] = await db
+      .update(scrapeSchedules)
+      .set(fields)
+      .where(eq(scrapeSchedules.id, existing.id))
+      .returning();
+    return updated;
+  }
+
+  const [inserted] = await db
+    .insert(scrapeSchedules)
+    .values({
+      ...fields,
+      tier: "tier" in scope ? scope.tier : null,
+      fandomId: "fandomId" in scope ? scope.fandomId : null,
+    })
+    .returning();
+  return inserted;
+}
+
+/** Remove a fandom override so the fandom follows its tier again */
+export async function deleteFandomSchedule(fandomId: string): Promise<boolean> {
+  const deleted = await db
+    .delete(scrapeSchedules)
+    .where(eq(scrapeSchedules.fandomId, fandomId))
+    .returning({ id: scrapeSchedules.id });
+
+  return deleted.length > 0;
+}
+
+/**
+ * Claim every enabled schedule whose next run has passed, advancing it to the
+ * following run. The compare-and-set on next_run_at means that when several
+ * processes tick at once, each schedule fires in exactly one of them.
+ */
+export async function claimDueSchedules(now: Date = new Date()): Promise<ScrapeSchedule[]> {
+  const due = await db
+    .select()
+    .from(scrapeSchedules)
+    .where(and(eq(scrapeSchedules.enabled, true), lte(scrapeSchedules.nextRunAt, now)));
+
+  const claimed: ScrapeSchedule[] = [];
+  for (const schedule of due) {
+    let next: Date | null;
+    try {
+      next = nextCronRun(schedule.cronExpression, now);
+    } catch (error) {
+      console.warn(`[Scheduler] Invalid expression on schedule ${schedule.id}:`, error);
+      next = null;
+    }
+
+    const [row] = await db
+      .update(scrapeSchedules)
+      .set({ lastRunAt: now, nextRunAt: next })
+      .where(
+        and(
+          eq(scrapeSchedules.id, schedule.id),
+          eq(scrapeSchedules.nextRunAt, schedule.nextRunAt!)
+        )
+      )
+      .returning();
+    if (row) claimed.push(row);
+  }
+
+  return claimed;
+}
+
+/**
+ * Fandoms a schedule covers: the override's fandom, or every fandom in the
+ * tier that has no override of its own (a disabled override opts it out).
+ */
+export async function getScheduledFandomIds(schedule: ScrapeSchedule): Promise<string[]> {
+  if (schedule.fandomId) return [schedule.fandomId];
+  if (!schedule.tier) return [];
+
+  const overridden = db
+    .select({ fandomId: scrapeSchedules.fandomId })
+    .from(scrapeSchedules)
+    .where(isNotNull(scrapeSchedules.fandomId));
+
+  const rows = await db
+    .select({ id: fandoms.id })
+    .from(fandoms)
+    .where(and(eq(fandoms.tier, schedule.tier), notInArray(fandoms.id, overridden)));
+
+  return rows.map((r) => r.id);
+}
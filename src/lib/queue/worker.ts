@@ -0,0 +1,133 @@
+import { hostname } from "os";
+import {
+  LEASE_DURATION_MS,
+  leaseNextJob,
+  extendJobLease,
+  completeJob,
+  failJob,
+  reclaimExpiredLeases,
+  countPendingJobs,
+  countBatchFandoms,
+  type ScrapeJob,
+} from "./jobs";
+import {
+  scrapeFandomPlatform,
+  finalizeFandomScrape,
+  finalizeGlobalScrape,
+} from "@/lib/services/scrape.service";
+import { getAgentPlatforms } from "@/lib/agents/config";
+import type { Platform } from "@/types/fandom";
+
+const POLL_INTERVAL_MS = 5000;
+const DELAY_BETWEEN_JOBS_MS = 2000;
+const DEFAULT_CONCURRENCY = 3;
+/** A running job's lease is renewed well before it can expire */
+const LEASE_RENEW_INTERVAL_MS = LEASE_DURATION_MS / 3;
+
+let started = false;
+
+function delay(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Start the in-process scrape worker. Safe to call more than once;
+ * only the first call spawns lanes.
+ *
+ * Each lane leases one job at a time from scrape_jobs and renews the lease
+ * while the job runs. Jobs interrupted by a restart are reclaimed once their
+ * lease expires, so no work is lost.
+ */
+export function startScrapeWorker(): void {
+  if (started) return;
+  started = true;
+
+  const concurrency = Number(process.env.SCRAPE_WORKER_CONCURRENCY) || DEFAULT_CONCURRENCY;
+  const workerId = `${hostname()}:${process.pid}`;
+
+  console.log(`[Worker] Starting scrape worker ${workerId} with ${concurrency} lanes`);
+  for (let lane = 0; lane < concurrency; lane++) {
+    void runLane(`${workerId}#${lane}`);
+  }
+}
+
+async function runLane(laneId: string): Promise<never> {
+  for (;;) {
+    try {
+      const reclaimed = await reclaimExpiredLeases();
+      if (reclaimed > 0) {
+        console.log(`[Worker] Reclaimed ${reclaimed} jobs with expired leases`);
+      }
+
+      const job = await leaseNextJob(laneId, { excludePlatforms: getAgentPlatforms() });
+      if (!job) {
+        await delay(POLL_INTERVAL_MS);
+        continue;
+      }
+
+      await processJob(job, laneId);
+      await delay(DELAY_BETWEEN_JOBS_MS);
+    } catch (error) {
+      console.error(`[Worker] Lane ${laneId} error:`, error);
+      await delay(POLL_INTERVAL_MS);
+    }
+  }
+}
+
+async function processJob(job: ScrapeJob, laneId: string): Promise<void> {
+  console.log(`[Worker] Job ${job.id}: ${job.platform} for ${job.fandomId} (attempt ${job.attempts}/${job.maxAttempts})`);
+
+  const renewal = setInterval(() => {
+    extendJobLease(job.id, laneId)
+      .then((leased) => {
+        if (!leased) console.warn(`[Worker] Job ${job.id}: lease lost while running`);
+      })
+      .catch((error) => console.error(`[Worker] Job ${job.id}: lease renewal failed:`, error));
+  }, LEASE_RENEW_INTERVAL_MS);
+
+  let outcome: "succeeded" | "queued" | "dead" | null;
+  try {
+    const result = await scrapeFandomPlatform(job.fandomId, job.platform as Platform);
+    if (result.success) {
+      outcome = (await completeJob(job.id, laneId, result.scrapeRunId)) ? "succeeded" : null;
+    } else {
+      outcome = await failJob(job, result.error || "Scrape failed", result.scrapeRunId);
+    }
+  } catch (error) {
+    outcome = await failJob(job, error instanceof Error ? error.message : "Unknown error");
+  } finally {
+    clearInterval(renewal);
+  }
+
+  if (!outcome) {
+    // Reclaimed after its lease expired; the current lease holder settles it
+    console.warn(`[Worker] Job ${job.id}: lease lost, result discarded`);
+    return;
+  }
+
+  console.log(`[Worker] Job ${job.id} → ${outcome}`);
+  await finalizeJob(job, outcome);
+}
+
+/**
+ * Post-processing once a job settles: fandom-level work when the fandom has
+ * no pending jobs left, global work when a multi-fandom batch drains. Also
+ * called for jobs external agents finish.
+ */
+export async function finalizeJob(job: ScrapeJob, outcome: "succeeded" | "queued" | "dead"): Promise<void> {
+  // A re-queued job will come back; post-processing waits for the final outcome
+  if (outcome === "queued") return;
+
+  if ((await countPendingJobs({ fandomId: job.fandomId })) === 0) {
+    await finalizeFandomScrape(job.fandomId);
+  }
+
+  if (
+    job.batchId &&
+    (await countPendingJobs({ batchId: job.batchId })) === 0 &&
+    (await countBatchFandoms(job.batchId)) > 1
+  ) {
+    console.log(`[Worker] Batch ${job.batchId} drained — running global post-processing`);
+    await finalizeGlobalScrape();
+  }
+}
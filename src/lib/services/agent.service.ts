@@ -0,0 +1,373 @@
+import { randomBytes } from "crypto";
+import { db } from "@/lib/db";
+import { fandomKeywords, fandoms, ingestAgents, scrapeJobs, scrapeRuns } from "@/lib/db/schema";
+import { and, asc, eq, or } from "drizzle-orm";
+import {
+  AGENT_ID_HEADER,
+  AGENT_SIGNATURE_HEADER,
+  AGENT_TIMESTAMP_HEADER,
+  verifyAgentSignature,
+} from "@/lib/agents/signing";
+import { AGENT_HEARTBEAT_TIMEOUT_MS, getAgentPlatforms } from "@/lib/agents/config";
+import type { AgentHeartbeat, AgentJob, AgentJobOutcome } from "@/lib/agents/types";
+import {
+  leaseNextJob,
+  extendJobLease,
+  completeJob,
+  failJob,
+  finalizeJob,
+  countQueuedJobsByPlatform,
+} from "@/lib/queue";
+import { ingestRawItems, type IngestResult, type IngestTarget } from "@/lib/services/ingest.service";
+import { archiveRawPayload } from "@/lib/services/archive.service";
+import { recordPayloadCheck } from "@/lib/services/drift.service";
+import { advanceScrapeCursor, getScrapeTargets } from "@/lib/services/scrape.service";
+import type { IngestAgent, IngestAgentsSummary, Platform } from "@/types/fandom";
+
+/**
+ * External scraper agents: credentials, request verification, the push path
+ * that feeds their raw items through the same archive, contract check and
+ * ingestion as provider scrapes, and the job lease/heartbeat protocol the
+ * agent CLI (scripts/scraper-agent.ts) polls.
+ */
+
+export type IngestAgentRow = typeof ingestAgents.$inferSelect;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+function mapAgent(
+  row: IngestAgentRow,
+  currentJob: IngestAgent["currentJob"] = null
+): IngestAgent {
+  return {
+    id: row.id,
+    name: row.name,
+    platforms: row.platforms as Platform[],
+    enabled: row.enabled,
+    lastPushAt: row.lastPushAt?.toISOString() ?? null,
+    lastHeartbeatAt: row.lastHeartbeatAt?.toISOString() ?? null,
+    online: !!row.lastHeartbeatAt && Date.now() - row.lastHeartbeatAt.getTime() < AGENT_HEARTBEAT_TIMEOUT_MS,
+    status: row.status as IngestAgent["status"],
+    capabilities: row.capabilities as Platform[],
+    host: row.host,
+    version: row.version,
+    currentJob,
+    createdAt: row.createdAt.toISOString(),
+  };
+}
+
+/** Worker ID an agent leases jobs under */
+const agentWorkerId = (agent: IngestAgentRow) => `agent/${agent.name}`;
+
+export async function listIngestAgents(): Promise<IngestAgentsSummary> {
+  const agentPlatforms = getAgentPlatforms();
+  const [rows, queuedJobs] = await Promise.all([
+    db
+      .select({
+        agent: ingestAgents,
+        jobPlatform: scrapeJobs.platform,
+        jobStatus: scrapeJobs.status,
+        fandomName: fandoms.name,
+      })
+      .from(ingestAgents)
+      .leftJoin(scrapeJobs, eq(ingestAgents.currentJobId, scrapeJobs.id))
+      .leftJoin(fandoms, eq(scrapeJobs.fandomId, fandoms.id))
+      .orderBy(asc(ingestAgents.name)),
+    countQueuedJobsByPlatform(agentPlatforms),
+  ]);
+
+  return {
+    agents: rows.map(({ agent, jobPlatform, jobStatus, fandomName }) =>
+      mapAgent(
+        agent,
+        agent.currentJobId && jobStatus === "leased" && jobPlatform
+          ? { id: agent.currentJobId, fandomName: fandomName ?? "", platform: jobPlatform }
+          : null
+      )
+    ),
+    agentPlatforms,
+    queuedJobs,
+  };
+}
+
+/** Returns the agent and its secret (only ever returned here), or null when the name is taken */
+export async function createIngestAgent(
+  name: string,
+  platforms: Platform[]
+): Promise<{ agent: IngestAgent; secret: string } | null> {
+  const secret = `agt_${randomBytes(32).toString("base64url")}`;
+  const [row] = await db
+    .insert(ingestAgents)
+    .values({ name, secret, platforms })
+    .onConflictDoNothing()
+    .returning();
+
+  return row ? { agent: mapAgent(row), secret } : null;
+}
+
+export async function setIngestAgentEnabled(id: string, enabled: boolean): Promise<boolean> {
+  const updated = await db
+    .update(ingestAgents)
+    .set({ enabled })
+    .where(eq(ingestAgents.id, id))
+    .returning({ id: ingestAgents.id });
+
+  return updated.length > 0;
+}
+
+/** Scrape runs the agent pushed are kept (their actor ID carries its name) */
+export async function deleteIngestAgent(id: string): Promise<boolean> {
+  const deleted = await db
+    .delete(ingestAgents)
+    .where(eq(ingestAgents.id, id))
+    .returning({ id: ingestAgents.id });
+
+  return deleted.length > 0;
+}
+
+/** The enabled agent that signed this request (headers per lib/agents/signing.ts), or null */
+export function authenticateAgentRequest(headers: Headers, body: string): Promise<IngestAgentRow | null> {
+  return authenticateAgent(
+    headers.get(AGENT_ID_HEADER),
+    headers.get(AGENT_TIMESTAMP_HEADER),
+    headers.get(AGENT_SIGNATURE_HEADER),
+    body
+  );
+}
+
+/** The enabled agent that signed this request body, or null */
+export async function authenticateAgent(
+  agentId: string | null,
+  timestamp: string | null,
+  signature: string | null,
+  body: string
+): Promise<IngestAgentRow | null> {
+  if (!agentId || !UUID_PATTERN.test(agentId)) return null;
+
+  const [agent] = await db
+    .select()
+    .from(ingestAgents)
+    .where(and(eq(ingestAgents.id, agentId), eq(ingestAgents.enabled, true)))
+    .limit(1);
+  if (!agent || !verifyAgentSignature(agent.secret, timestamp, body, signature)) return null;
+
+  return agent;
+}
+
+/** Fandom by ID or slug */
+export async function findFandomForPush(fandom: string): Promise<{ id: string; name: string } | null> {
+  const [row] = await db
+    .select({ id: fandoms.id, name: fandoms.name })
+    .from(fandoms)
+    .where(UUID_PATTERN.test(fandom) ? or(eq(fandoms.id, fandom), eq(fandoms.slug, fandom)) : eq(fandoms.slug, fandom))
+    .limit(1);
+
+  return row ?? null;
+}
+
+export interface PushResult extends IngestResult {
+  scrapeRunId: string;
+}
+
+/**
+ * Ingest items an agent scraped itself, in the provider-normalized (Apify)
+ * shape for the platform. Recorded as a scrape run "agent/<name>" so it shows
+ * in Scrape Activity, archived for reprocessing, checked against the payload
+ * contract, then ingested like any provider result. Account pushes advance
+ * the account's scrape cursor.
+ */
+export async function ingestAgentPush(
+  agent: IngestAgentRow,
+  push: {
+    fandomId: string;
+    platform: Platform;
+    items: Record<string, unknown>[];
+    target?: IngestTarget;
+  }
+): Promise<PushResult> {
+  const source = `agent/${agent.name}`;
+  const { fandomId, platform, items, target } = push;
+
+  const [scrapeRun] = await db
+    .insert(scrapeRuns)
+    .values({
+      actorId: source,
+      fandomId,
+      platform,
+      status: "running",
+      startedAt: new Date(),
+      targetType: target?.type ?? null,
+      targetValue: target?.value ?? null,
+    })
+    .returning({ id: scrapeRuns.id });
+
+  await db.update(ingestAgents).set({ lastPushAt: new Date() }).where(eq(ingestAgents.id, agent.id));
+
+  try {
+    await archiveRawPayload({ scrapeRunId: scrapeRun.id, fandomId, platform, source, items });
+    await recordPayloadCheck({
+      scrapeRunId: scrapeRun.id,
+      platform,
+      source,
+      targetType: target?.type ?? null,
+      items,
+    });
+
+    const result = await ingestRawItems({ rawItems: items, fandomId, platform, source, target });
+
+    await db
+      .update(scrapeRuns)
+      .set({
+        status: result.success ? "succeeded" : "failed",
+        finishedAt: new Date(),
+        itemsCount: result.itemsCount,
+        error: result.error ?? null,
+      })
+      .where(eq(scrapeRuns.id, scrapeRun.id));
+
+    if (target?.type === "handle" && result.success && result.newestContent) {
+      await advanceScrapeCursor(fandomId, platform, target.value, result.newestContent);
+    }
+
+    if (target && target.type !== "handle") {
+      await db
+        .update(fandomKeywords)
+        .set({ lastScrapedAt: new Date() })
+        .where(
+          and(
+            eq(fandomKeywords.fandomId, fandomId),
+            eq(fandomKeywords.platform, platform),
+            eq(fandomKeywords.type, target.type),
+            eq(fandomKeywords.value, target.value)
+          )
+        );
+    }
+
+    return { ...result, scrapeRunId: scrapeRun.id };
+  } catch (error) {
+    await db
+      .update(scrapeRuns)
+      .set({
+        status: "failed",
+        finishedAt: new Date(),
+        error: error instanceof Error ? error.message : "Unknown error",
+      })
+      .where(eq(scrapeRuns.id, scrapeRun.id))
+      .catch((e) => console.error(`[Push] Failed to update scrape run:`, e));
+    throw error;
+  }
+}
+
+/**
+ * Record a heartbeat. A busy agent's current job keeps its lease, so long
+ * jobs aren't reclaimed while the agent is alive.
+ */
+export async function recordAgentHeartbeat(agent: IngestAgentRow, heartbeat: AgentHeartbeat): Promise<void> {
+  const jobId =
+    heartbeat.status === "busy" && heartbeat.jobId && UUID_PATTERN.test(heartbeat.jobId) ? heartbeat.jobId : null;
+  const leased = jobId ? await extendJobLease(jobId, agentWorkerId(agent)) : false;
+
+  await db
+    .update(ingestAgents)
+    .set({
+      lastHeartbeatAt: new Date(),
+      status: heartbeat.status,
+      capabilities: heartbeat.capabilities,
+      host: heartbeat.host ?? agent.host,
+      version: heartbeat.version ?? agent.version,
+      currentJobId: leased ? jobId : null,
+    })
+    .where(eq(ingestAgents.id, agent.id));
+}
+
+/**
+ * Lease the next due job for a platform left to agents (AGENT_PLATFORMS) that
+ * this agent may push and can scrape, with the targets to scrape. Null when
+ * there is nothing to do.
+ */
+export async function leaseAgentJob(agent: IngestAgentRow, capabilities: Platform[]): Promise<AgentJob | null> {
+  const platforms = getAgentPlatforms().filter(
+    (p) => capabilities.includes(p) && (agent.platforms.length === 0 || agent.platforms.includes(p))
+  );
+  if (platforms.length === 0) return null;
+
+  const job = await leaseNextJob(agentWorkerId(agent), { platforms });
+  if (!job) return null;
+
+  const [fandom] = await db
+    .select({ id: fandoms.id, name: fandoms.name })
+    .from(fandoms)
+    .where(eq(fandoms.id, job.fandomId))
+    .limit(1);
+  if (!fandom) {
+    const outcome = await failJob(job, "Fandom not found");
+    if (outcome) await finalizeJob(job, outcome);
+    return null;
+  }
+
+  const { handles, keywords } = await getScrapeTargets(fandom, job.platform);
+
+  await db
+    .update(ingestAgents)
+    .set({ status: "busy", currentJobId: job.id, lastHeartbeatAt: new Date(), capabilities })
+    .where(eq(ingestAgents.id, agent.id));
+
+  return {
+    id: job.id,
+    fandomId: fandom.id,
+    fandomName: fandom.name,
+    platform: job.platform,
+    attempt: job.attempts,
+    maxAttempts: job.maxAttempts,
+    leasedUntil: (job.leasedUntil ?? new Date()).toISOString(),
+    targets: [
+      ...handles.map((value) => ({ type: "handle" as const, value })),
+      ...keywords.map((k) => ({ type: k.type, value: k.value })),
+    ],
+  };
+}
+
+/**
+ * Settle a job the agent leased: complete it, or fail it into backoff or the
+ * dead-letter state, then run the same post-processing as the in-process
+ * worker. Null when the job isn't leased to this agent (e.g. its lease
+ * expired and it was reclaimed).
+ */
+export async function finishAgentJob(
+  agent: IngestAgentRow,
+  outcome: AgentJobOutcome
+): Promise<"succeeded" | "queued" | "dead" | null> {
+  if (!UUID_PATTERN.test(outcome.jobId)) return null;
+
+  const [job] = await db
+    .select()
+    .from(scrapeJobs)
+    .where(
+      and(
+        eq(scrapeJobs.id, outcome.jobId),
+        eq(scrapeJobs.status, "leased"),
+        eq(scrapeJobs.leasedBy, agentWorkerId(agent))
+      )
+    )
+    .limit(1);
+
+  await db
+    .update(ingestAgents)
+    .set({ status: "idle", currentJobId: null, lastHeartbeatAt: new Date() })
+    .where(eq(ingestAgents.id, agent.id));
+
+  if (!job) return null;
+
+  let result: "succeeded" | "queued" | "dead" | null;
+  if (outcome.success) {
+    result = (await completeJob(job.id, agentWorkerId(agent), outcome.scrapeRunId)) ? "succeeded" : null;
+  } else {
+    result = await failJob(job, outcome.error || `Agent ${agent.name} failed the job`, outcome.scrapeRunId);
+  }
+  // Reclaimed between the lookup above and the update
+  if (!result) return null;
+
+  console.log(`[Agent] ${agent.name} job ${job.id} (${job.platform}) → ${result}`);
+  await finalizeJob(job, result);
+  return result;
+}
@@ -3,11 +3,15 @@ import { db } from "@/lib/db";
 import { fandoms, fandomPlatforms, contentItems, aiPageInsights, aiDiscoveredFandoms } from "@/lib/db/schema";
 import { eq, desc } from "drizzle-orm";
 import { getAllTrends, getAllContent, getAllInfluencers } from "@/lib/services/fandom.service";
+import { getCommentSamples } from "@/lib/services/comment.service";
 import {
   verifyFandomFollowers,
   computeVerificationStatus,
   type EstimatedFollower,
 } from "@/lib/apify/verify";
+import { sumDistinctFollowers } from "@/lib/utils/accounts";
+import { normalizeSearchKeywords } from "@/lib/utils/search-keywords";
+import type { FandomSearchKeywords } from "@/types/fandom";
 
 const DELAY_BETWEEN_CALLS_MS = 1500;
 const ENABLE_VERIFICATION = process.env.DISCOVERY_VERIFY_FOLLOWERS !== "false";
@@ -21,7 +25,7 @@ interface FandomContext {
   tier: string;
   fandomGroup: string | null;
   demographicTags: string[];
-  platforms: { platform: string; handle: string; followers: number }[];
+  platforms: { platform: string; handle: string; role: string; followers: number }[];
   avgEngagementRate: number;
   weeklyGrowthRate: number;
   totalFollowers: number;
@@ -77,7 +81,7 @@ export async function generateFandomInsights(
     .from(fandomPlatforms)
     .where(eq(fandomPlatforms.fandomId, fandomId));
 
-  const totalFollowers = platforms.reduce((s, p) => s + p.followers, 0);
+  const totalFollowers = sumDistinctFollowers(platforms);
 
   // Fetch top 20 content items by likes
   const content = await db
@@ -102,6 +106,7 @@ export async function generateFandomInsights(
     platforms: platforms.map((p) => ({
       platform: p.platform,
       handle: p.handle,
+      role: p.role,
       followers: p.followers,
     })),
     avgEngagementRate: parseFloat(engRate.toFixed(2)),
@@ -119,8 +124,13 @@ export async function generateFandomInsights(
     hashtags: c.hashtags || [],
   }));
 
+  const commentSamples = (await getCommentSamples(fandomId)).map((c) => ({
+    ...c,
+    text: c.text.slice(0, 200),
+  }));
+
   try {
-    const insights = await callOpenAI(client, context, contentSamples);
+    const insights = await callOpenAI(client, context, contentSamples, commentSamples);
     if (!insights) {
       return { success: false, fandomName: fandom.name };
     }
@@ -182,7 +192,9 @@ export async function generateTrendsInsights(): Promise<boolean> {
   const client = getOpenAIClient();
   if (!client) return false;
 
-  const trends = await getAllTrends();
+  // The last 3 months; stored history goes back further
+  const from = new Date(Date.now() - 90 * 24 * 60 * 60 * 1000).toISOString().split("T")[0];
+  const trends = await getAllTrends(10000, 0, from);
   if (trends.length === 0) return false;
 
   // Summarize trends data for the prompt
@@ -596,6 +608,66 @@ Return a JSON object with detailed information about this fandom.`,
   };
 }
 
+/**
+ * Suggest the Google Trends search keywords for a fandom: the artist or group
+ * it follows, other names fans search by, qualified terms when the name is
+ * ambiguous, and terms to exclude. Null without OPENAI_API_KEY or when the
+ * response does not parse; callers fall back to defaultSearchKeywords.
+ */
+export async function suggestSearchKeywords(
+  name: string,
+  hints: { fandomGroup?: string | null; description?: string | null } = {}
+): Promise<FandomSearchKeywords | null> {
+  const client = getOpenAIClient();
+  if (!client) return null;
+
+  const hintsContext = [
+    hints.fandomGroup ? `Group: ${hints.fandomGroup}` : null,
+    hints.description ? `Description: ${hints.description}` : null,
+  ]
+    .filter(Boolean)
+    .join("\n");
+
+  const response = await client.responses.create({
+    model: "gpt-5.2",
+    tools: [{ type: "web_search_preview" as const }],
+    instructions: `You choose Google Trends search terms for Philippine fandoms. Trends charts what people type into Google, so terms must be what Filipinos actually search for, not the fandom's own name for itself.
+
+- "primary": the artist, group, show, game or creator the fandom follows, as people search it (e.g. "BINI" for "BINI Blooms", "BTS" for "BTS ARMY")
+- "aliases": other names people search by (Tagalog names, abbreviations, the fandom name itself); may be empty
+- "disambiguated": only when the primary term is ambiguous on Google, qualified versions of it (e.g. "SEVENTEEN kpop", "G22 girl group"); the first is charted instead of the primary term; otherwise empty
+- "excluded": words that pull unrelated searches into the primary term (e.g. "hotel" for a group sharing a hotel's name); usually empty`,
+    input: `Fandom: "${name}"
+${hintsContext ? `${hintsContext}\n` : ""}
+Return the search keywords as JSON.`,
+    text: {
+      format: {
+        type: "json_schema",
+        name: "search_keywords",
+        strict: true,
+        schema: {
+          type: "object",
+          properties: {
+            primary: { type: "string" },
+            aliases: { type: "array", items: { type: "string" } },
+            disambiguated: { type: "array", items: { type: "string" } },
+            excluded: { type: "array", items: { type: "string" } },
+          },
+          required: ["primary", "aliases", "disambiguated", "excluded"],
+          additionalProperties: false,
+        },
+      },
+    },
+  });
+
+  try {
+    return normalizeSearchKeywords(JSON.parse(response.output_text));
+  } catch {
+    console.error("[AI] Failed to parse search keywords:", response.output_text);
+    return null;
+  }
+}
+
 export async function discoverNewFandoms(options: DiscoverOptions = {}) {
   const { verify = ENABLE_VERIFICATION } = options;
 
@@ -962,11 +1034,12 @@ async function upsertPageInsight(page: string, insights: Record<string, string>)
 async function callOpenAI(
   client: OpenAI,
   context: FandomContext,
-  contentSamples: ContentSample[]
+  contentSamples: ContentSample[],
+  commentSamples: Array<{ platform: string; text: string; likes: number }> = []
 ): Promise<AIInsights | null> {
   const platformBreakdown = context.platforms
     .map(
-      (p) => `- ${p.platform}: @${p.handle} (${p.followers.toLocaleString()} followers)`
+      (p) => `- ${p.platform}: @${p.handle} [${p.role}] (${p.followers.toLocaleString()} followers)`
     )
     .join("\n");
 
@@ -979,6 +1052,10 @@ async function callOpenAI(
     })
     .join("\n");
 
+  const commentExamples = commentSamples
+    .map((c, i) => `${i + 1}. [${c.platform}] "${c.text}" — ${c.likes} likes`)
+    .join("\n");
+
   const systemPrompt = `You are a social media marketing analyst specializing in Philippine fandoms for PLDT Home campaigns. You analyze fandom communities to provide actionable marketing insights for telecom brand partnerships.
 
 Your audience is PLDT Home's marketing team. They want to know:
@@ -1002,11 +1079,11 @@ ${platformBreakdown}
 
 **Top Performing Content (${contentSamples.length} items):**
 ${contentExamples || "No content data available yet."}
-
+${commentExamples ? `\n**What Fans Say in the Comments (${commentSamples.length} most liked):**\n${commentExamples}\n` : ""}
 Return a JSON object with exactly these 5 fields:
 - "keyBehavior": What are the defining online behaviors of this fandom? What do fans actually do? (1-2 sentences)
 - "engagementPotential": How should brands engage with this fandom? What's the opportunity level and best approach? (1-2 sentences)
-- "communityTone": What's the vibe and communication style of this community? (1-2 sentences)
+- "communityTone": What's the vibe and communication style of this community? Base it on the comments when they are given. (1-2 sentences)
 - "rationale": Why should PLDT Home invest in this fandom for campaigns? What's the business case? (2-3 sentences)
 - "suggestedAction": What specific campaign action should PLDT Home take with this fandom right now? (2-3 sentences)`;
 
@@ -0,0 +1,49 @@
+import { promisify } from "util";
+import { gzip, gunzip } from "zlib";
+import { db } from "@/lib/db";
+import { scrapePayloads } from "@/lib/db/schema";
+import type { Platform } from "@/types/fandom";
+
+const gzipAsync = promisify(gzip);
+const gunzipAsync = promisify(gunzip);
+
+export type ScrapePayload = typeof scrapePayloads.$inferSelect;
+
+/**
+ * Store a provider's raw items, gzipped, against the scrape run that fetched them.
+ * Archiving never fails a scrape — errors are logged and ingestion carries on.
+ */
+export async function archiveRawPayload(params: {
+  scrapeRunId: string;
+  fandomId: string;
+  platform: Platform;
+  source: string;
+  items: Record<string, unknown>[];
+}): Promise<void> {
+  const { scrapeRunId, fandomId, platform, source, items } = params;
+  if (items.length === 0) return;
+
+  try {
+    const raw = Buffer.from(JSON.stringify(items));
+    const payload = await gzipAsync(raw);
+
+    await db.insert(scrapePayloads).values({
+      scrapeRunId,
+      fandomId,
+      platform,
+      source,
+      itemCount: items.length,
+      rawBytes: raw.length,
+      payload,
+    });
+  } catch (error) {
+    console.warn(`[Archive] Failed to archive ${platform} payload for run ${scrapeRunId}:`, error);
+  }
+}
+
+export async function readArchivedItems(
+  payload: Pick<ScrapePayload, "payload">
+): Promise<Record<string, unknown>[]> {
+  const raw = await gunzipAsync(payload.payload);
+  return JSON.parse(raw.toString("utf8")) as Record<string, unknown>[];
+}
@@ -0,0 +1,359 @@
+import { db } from "@/lib/db";
+import { fandoms, metricSnapshots } from "@/lib/db/schema";
+import { and, asc, eq, gte, inArray, lte, sql } from "drizzle-orm";
+import { VALID_PLATFORMS } from "@/lib/constants";
+import { parseCSVRow } from "@/lib/utils/csv";
+import type { BackfillConflictPolicy, BackfillResult, Platform } from "@/types/fandom";
+
+/**
+ * Historical metric backfill: follower and engagement history for a
+ * fandom-platform imported from a CSV or JSON export, so new fandoms don't
+ * start with empty growth charts.
+ *
+ * Each row is one fandom, platform and date. Imported snapshots carry the
+ * import's source tag instead of "scrape"; a later scrape of the same date
+ * rolls its own snapshot up over it.
+ */
+
+export const BACKFILL_CONFLICT_POLICIES: BackfillConflictPolicy[] = ["skip", "overwrite"];
+export const MAX_BACKFILL_ROWS = 10000;
+const MAX_REPORTED_ERRORS = 100;
+const INSERT_CHUNK = 500;
+
+/** Header and key aliases, compared lowercased without separators */
+const COLUMN_ALIASES: Record<string, string> = {
+  fandom: "fandom",
+  slug: "fandom",
+  fandomslug: "fandom",
+  platform: "platform",
+  date: "date",
+  followers: "followers",
+  posts: "postsCount",
+  postscount: "postsCount",
+  engagement: "engagementTotal",
+  engagementtotal: "engagementTotal",
+  engagementrate: "engagementRate",
+  avglikes: "avgLikes",
+  avgcomments: "avgComments",
+  avgshares: "avgShares",
+};
+
+const COUNT_COLUMNS = ["postsCount", "engagementTotal", "avgLikes", "avgComments", "avgShares"] as const;
+
+interface BackfillRow {
+  fandomId: string;
+  platform: Platform;
+  date: string;
+  followers: number;
+  postsCount: number;
+  engagementTotal: number;
+  engagementRate: number | null;
+  avgLikes: number;
+  avgComments: number;
+  avgShares: number;
+}
+
+function canonicalKey(key: string): string | undefined {
+  return COLUMN_ALIASES[key.toLowerCase().replace(/[^a-z]/g, "")];
+}
+
+function canonicalRow(raw: Record<string, unknown>): Record<string, unknown> {
+  const row: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(raw)) {
+    const canonical = canonicalKey(key);
+    if (canonical) row[canonical] = value;
+  }
+  return row;
+}
+
+/**
+ * Rows from a CSV (header row first) or JSON (an array, or { rows: [...] })
+ * file, keyed by canonical column name. Returns an error for unreadable files.
+ */
+export function parseBackfillFile(
+  text: string,
+  format: "csv" | "json"
+): { rows: Record<string, unknown>[]; error?: string } {
+  if (format === "json") {
+    let data: unknown;
+    try {
+      data = JSON.parse(text);
+    } catch {
+      return { rows: [], error: "File is not valid JSON" };
+    }
+    const list = Array.isArray(data) ? data : (data as { rows?: unknown })?.rows;
+    if (!Array.isArray(list)) {
+      return { rows: [], error: "Expected a JSON array of rows, or { rows: [...] }" };
+    }
+    return { rows: list.map((r) => (r && typeof r === "object" ? canonicalRow(r as Record<string, unknown>) : {})) };
+  }
+
+  const lines = text.split("\n").map((l) => l.trim()).filter(Boolean);
+  if (lines.length === 0) return { rows: [], error: "File is empty" };
+
+  const headers = parseCSVRow(lines[0]).map(canonicalKey);
+  for (const required of ["fandom", "platform", "date", "followers"]) {
+    if (!headers.includes(required)) {
+      return { rows: [], error: `Missing "${required}" column in the header row` };
+    }
+  }
+
+  return {
+    rows: lines.slice(1).map((line) => {
+      const cols = parseCSVRow(line);
+      const row: Record<string, unknown> = {};
+      headers.forEach((h, i) => {
+        if (h && cols[i] !== undefined && cols[i] !== "") row[h] = cols[i];
+      });
+      return row;
+    }),
+  };
+}
+
+/** Non-negative number from a JSON number or a CSV cell like "12,345"; undefined when blank */
+function parseCount(value: unknown, integer: boolean): number | null | undefined {
+  if (value === undefined || value === null || value === "") return undefined;
+  const n = typeof value === "number" ? value : Number(String(value).replace(/,/g, ""));
+  if (!Number.isFinite(n) || n < 0 || (integer && !Number.isInteger(n))) return null;
+  return n;
+}
+
+function validateRow(
+  raw: Record<string, unknown>,
+  fandomByKey: Map<string, { id: string }>,
+  today: string
+): BackfillRow | string {
+  const fandomKey = String(raw.fandom ?? "").trim().toLowerCase();
+  if (!fandomKey) return "fandom is required";
+  const fandom = fandomByKey.get(fandomKey);
+  if (!fandom) return `Unknown fandom: ${raw.fandom}`;
+
+  const platform = String(raw.platform ?? "").trim().toLowerCase() as Platform;
+  if (!VALID_PLATFORMS.includes(platform)) return `Invalid platform: ${raw.platform ?? ""}`;
+
+  const date = String(raw.date ?? "").trim();
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date) || isNaN(new Date(`${date}T00:00:00Z`).getTime())) {
+    return `date must be YYYY-MM-DD: ${raw.date ?? ""}`;
+  }
+  if (date > today) return `date is in the future: ${date}`;
+
+  const followers = parseCount(raw.followers, true);
+  if (followers === undefined) return "followers is required";
+  if (followers === null) return `followers must be a whole number of 0 or more: ${raw.followers}`;
+
+  const counts: Record<string, number> = {};
+  for (const column of COUNT_COLUMNS) {
+    const value = parseCount(raw[column], true);
+    if (value === null) return `${column} must be a whole number of 0 or more: ${raw[column]}`;
+    counts[column] = value ?? 0;
+  }
+
+  const engagementRate = parseCount(raw.engagementRate, false);
+  if (engagementRate === null) return `engagementRate must be a number of 0 or more: ${raw.engagementRate}`;
+
+  return {
+    fandomId: fandom.id,
+    platform,
+    date,
+    followers,
+    postsCount: counts.postsCount,
+    engagementTotal: counts.engagementTotal,
+    engagementRate: engagementRate ?? null,
+    avgLikes: counts.avgLikes,
+    avgComments: counts.avgComments,
+    avgShares: counts.avgShares,
+  };
+}
+
+/**
+ * Validate backfill rows and, unless dryRun, write them as metric snapshots
+ * tagged with source. Existing snapshots for a fandom-platform-date are kept
+ * ("skip") or replaced ("overwrite"). A dry run reports exactly what an import
+ * would do. Growth rates of every touched series are recomputed afterwards,
+ * since imported history gives later snapshots a previous value to grow from.
+ */
+export async function importMetricBackfill(params: {
+  rows: Record<string, unknown>[];
+  source: string;
+  policy: BackfillConflictPolicy;
+  dryRun: boolean;
+}): Promise<BackfillResult> {
+  const { rows, source, policy, dryRun } = params;
+  const today = new Date().toISOString().split("T")[0];
+
+  const allFandoms = await db.select({ id: fandoms.id, slug: fandoms.slug, name: fandoms.name }).from(fandoms);
+  const fandomByKey = new Map<string, (typeof allFandoms)[number]>();
+  for (const f of allFandoms) {
+    fandomByKey.set(f.name.toLowerCase(), f);
+    fandomByKey.set(f.slug.toLowerCase(), f);
+  }
+  const fandomById = new Map(allFandoms.map((f) => [f.id, f]));
+
+  const result: BackfillResult = {
+    dryRun,
+    source,
+    policy,
+    rows: rows.length,
+    valid: 0,
+    inserted: 0,
+    overwritten: 0,
+    skipped: 0,
+    errors: [],
+    series: [],
+  };
+  const addError = (row: number, error: string) => {
+    if (result.errors.length < MAX_REPORTED_ERRORS) result.errors.push({ row, error });
+  };
+
+  const valid = new Map<string, BackfillRow>();
+  rows.forEach((raw, index) => {
+    const row = validateRow(raw, fandomByKey, today);
+    if (typeof row === "string") {
+      addError(index + 1, row);
+      return;
+    }
+    const key = `${row.fandomId}:${row.platform}:${row.date}`;
+    if (valid.has(key)) {
+      addError(index + 1, `Duplicate of an earlier row for ${row.platform} on ${row.date}`);
+      return;
+    }
+    valid.set(key, row);
+  });
+
+  const validRows = [...valid.values()];
+  result.valid = validRows.length;
+  // Any invalid row aborts the import; the preview lists what to fix
+  if (validRows.length === 0 || result.valid < result.rows) {
+    result.series = summarizeSeries(validRows, fandomById);
+    return result;
+  }
+
+  const dates = validRows.map((r) => r.date).sort();
+  const existing = await db
+    .select({ fandomId: metricSnapshots.fandomId, platform: metricSnapshots.platform, date: metricSnapshots.date })
+    .from(metricSnapshots)
+    .where(
+      and(
+        inArray(metricSnapshots.fandomId, [...new Set(validRows.map((r) => r.fandomId))]),
+        gte(metricSnapshots.date, dates[0]),
+        lte(metricSnapshots.date, dates[dates.length - 1])
+      )
+    );
+  const existingKeys = new Set(existing.map((e) => `${e.fandomId}:${e.platform}:${e.date}`));
+
+  const toWrite = validRows.filter((r) => {
+    const exists = existingKeys.has(`${r.fandomId}:${r.platform}:${r.date}`);
+    if (exists && policy === "skip") result.skipped++;
+    else if (exists) result.overwritten++;
+    else result.inserted++;
+    return !exists || policy === "overwrite";
+  });
+  result.series = summarizeSeries(validRows, fandomById);
+
+  if (dryRun || toWrite.length === 0) return result;
+
+  for (let i = 0; i < toWrite.length; i += INSERT_CHUNK) {
+    const values = toWrite.slice(i, i + INSERT_CHUNK).map((r) => ({
+      fandomId: r.fandomId,
+      platform: r.platform,
+      date: r.date,
+      followers: r.followers,
+      postsCount: r.postsCount,
+      engagementTotal: r.engagementTotal,
+      engagementRate: (
+        r.engagementRate ??
+        (r.followers > 0 ? ((r.avgLikes + r.avgComments + r.avgShares) / r.followers) * 100 : 0)
+      ).toFixed(4),
+      avgLikes: r.avgLikes,
+      avgComments: r.avgComments,
+      avgShares: r.avgShares,
+      status: "accepted" as const,
+      source,
+    }));
+
+    const insert = db.insert(metricSnapshots).values(values);
+    if (policy === "overwrite") {
+      await insert.onConflictDoUpdate({
+        target: [metricSnapshots.fandomId, metricSnapshots.platform, metricSnapshots.date],
+        set: {
+          followers: sql`excluded.followers`,
+          postsCount: sql`excluded.posts_count`,
+          engagementTotal: sql`excluded.engagement_total`,
+          engagementRate: sql`excluded.engagement_rate`,
+          avgLikes: sql`excluded.avg_likes`,
+          avgComments: sql`excluded.avg_comments`,
+          avgShares: sql`excluded.avg_shares`,
+          status: sql`excluded.status`,
+          source: sql`excluded.source`,
+        },
+      });
+    } else {
+      await insert.onConflictDoNothing();
+    }
+  }
+
+  const touched = new Set(toWrite.map((r) => `${r.fandomId}:${r.platform}`));
+  for (const key of touched) {
+    const [fandomId, platform] = key.split(":");
+    await recomputeGrowthRates(fandomId, platform as Platform);
+  }
+
+  console.log(
+    `[Backfill] ${source}: ${result.inserted} inserted, ${result.overwritten} overwritten, ${result.skipped} skipped across ${touched.size} series`
+  );
+  return result;
+}
+
+function summarizeSeries(
+  rows: BackfillRow[],
+  fandomById: Map<string, { name: string; slug: string }>
+): BackfillResult["series"] {
+  const bySeries = new Map<string, BackfillResult["series"][number]>();
+  for (const r of rows) {
+    const key = `${r.fandomId}:${r.platform}`;
+    const fandom = fandomById.get(r.fandomId);
+    const entry = bySeries.get(key) ?? {
+      fandomName: fandom?.name ?? r.fandomId,
+      fandomSlug: fandom?.slug ?? "",
+      platform: r.platform,
+      from: r.date,
+      to: r.date,
+      rows: 0,
+    };
+    if (r.date < entry.from) entry.from = r.date;
+    if (r.date > entry.to) entry.to = r.date;
+    entry.rows++;
+    bySeries.set(key, entry);
+  }
+  return [...bySeries.values()].sort((a, b) => a.fandomName.localeCompare(b.fandomName) || a.platform.localeCompare(b.platform));
+}
+
+/**
+ * Growth rate of each accepted snapshot against the accepted snapshot before
+ * it, as rollUpMetricSnapshot computes it for scraped days. Only rows whose
+ * value changes are written.
+ */
+async function recomputeGrowthRates(fandomId: string, platform: Platform): Promise<void> {
+  const series = await db
+    .select({ id: metricSnapshots.id, followers: metricSnapshots.followers, growthRate: metricSnapshots.growthRate })
+    .from(metricSnapshots)
+    .where(
+      and(
+        eq(metricSnapshots.fandomId, fandomId),
+        eq(metricSnapshots.platform, platform),
+        eq(metricSnapshots.status, "accepted")
+      )
+    )
+    .orderBy(asc(metricSnapshots.date));
+
+  let previousFollowers = 0;
+  for (const snapshot of series) {
+    const growthRate = snapshot.followers > 0 && previousFollowers > 0
+      ? (((snapshot.followers - previousFollowers) / previousFollowers) * 100).toFixed(4)
+      : "0.0000";
+    if (growthRate !== Number(snapshot.growthRate).toFixed(4)) {
+      await db.update(metricSnapshots).set({ growthRate }).where(eq(metricSnapshots.id, snapshot.id));
+    }
+    previousFollowers = snapshot.followers;
+  }
+}
@@ -0,0 +1,93 @@
+import { db } from "@/lib/db";
+import { contentComments } from "@/lib/db/schema";
+import { desc, eq, sql } from "drizzle-orm";
+import { scrapeWithFailover, type ProviderName } from "@/lib/providers";
+import { normalizeComments } from "@/lib/apify/normalize";
+import { COMMENTS_PER_POST } from "@/lib/constants";
+import type { Platform } from "@/types/fandom";
+
+/**
+ * Fetch and store the comments on a fandom's posts through the providers'
+ * comments feed. Each post is its own provider call; a failure is logged and
+ * skipped so comments never fail the scrape that found the posts. Comment
+ * calls don't feed provider health: posts without comments are common and
+ * would otherwise trip the platform's circuit for account scrapes.
+ *
+ * Returns the number of comments stored (new or refreshed).
+ */
+export async function fetchPostComments(
+  fandomId: string,
+  platform: Platform,
+  posts: Array<{ id: string; url: string }>,
+  skipProviders: ProviderName[] = []
+): Promise<number> {
+  let stored = 0;
+
+  for (const post of posts) {
+    try {
+      const result = await scrapeWithFailover(
+        platform,
+        { handle: post.url, feed: "comments", limit: COMMENTS_PER_POST },
+        { fandomId, skipProviders, recordHealth: false }
+      );
+      if (!result.success) {
+        console.log(`[Comments] No comments for ${platform} ${post.url}: ${result.error ?? "empty"}`);
+        continue;
+      }
+
+      // One row per externalId — ON CONFLICT can't touch the same row twice in a statement
+      const comments = new Map(normalizeComments(platform, result.items).map((c) => [c.externalId, c]));
+      if (comments.size === 0) continue;
+
+      const upserted = await db
+        .insert(contentComments)
+        .values(
+          [...comments.values()].map((c) => ({
+            contentItemId: post.id,
+            fandomId,
+            platform,
+            externalId: c.externalId,
+            author: c.author,
+            text: c.text,
+            likes: c.likes,
+            publishedAt: c.publishedAt ? new Date(c.publishedAt) : null,
+          }))
+        )
+        .onConflictDoUpdate({
+          target: [contentComments.contentItemId, contentComments.externalId],
+          set: {
+            text: sql`excluded.text`,
+            likes: sql`greatest(${contentComments.likes}, excluded.likes)`,
+            scrapedAt: sql`excluded.scraped_at`,
+          },
+        })
+        .returning({ id: contentComments.id });
+
+      stored += upserted.length;
+    } catch (error) {
+      console.error(`[Comments] Failed for ${platform} ${post.url}:`, error);
+    }
+  }
+
+  console.log(`[Comments] ${platform}: stored ${stored} comments from ${posts.length} posts`);
+  return stored;
+}
+
+/** A fandom's most liked comments, for AI prompts */
+export async function getCommentSamples(
+  fandomId: string,
+  limit: number = 30
+): Promise<Array<{ platform: Platform; text: string; likes: number }>> {
+  const rows = await db
+    .select({
+      platform: contentComments.platform,
+      text: contentComments.text,
+      likes: contentComments.likes,
+    })
+    .from(contentComments)
+    .where(eq(contentComments.fandomId, fandomId))
+    .orderBy(desc(contentComments.likes), desc(contentComments.scrapedAt))
+    .limit(limit);
+
+  return rows.map((r) => ({ ...r, platform: r.platform as Platform }));
+}
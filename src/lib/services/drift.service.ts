@@ -0,0 +1,150 @@
+import { db } from "@/lib/db";
+import { payloadChecks } from "@/lib/db/schema";
+import { and, desc, eq, gte, isNull, or, sql } from "drizzle-orm";
+import { checkPayloadContract } from "@/lib/apify/contracts";
+import type { PayloadCoverage, Platform, ScrapeTargetType } from "@/types/fandom";
+
+/**
+ * Schema-drift detection. Every archived scrape payload is checked against
+ * its platform's contract (contracts.ts); the result is stored per run in
+ * payload_checks and compared with the same provider's recent runs, so a
+ * renamed field surfaces as a coverage drop in Settings instead of weeks of
+ * silent zeros.
+ */
+
+/** Previous checks whose average coverage is the baseline */
+const COVERAGE_BASELINE_CHECKS = 10;
+/** Drop in coverage (0-1) against the baseline that raises an alert */
+const COVERAGE_DROP_ALERT = 0.3;
+/** Previous checks whose top-level keys a new payload is compared with */
+const KEY_HISTORY_CHECKS = 5;
+/** Groups without a check in this many days are left out of the report */
+const COVERAGE_REPORT_DAYS = 30;
+
+type Feed = PayloadCoverage["feed"];
+
+function feedOf(targetType: ScrapeTargetType | null): Feed {
+  return targetType === null || targetType === "handle" ? "account" : "keyword";
+}
+
+/** Account feeds include legacy runs recorded before scrape targets existed */
+function feedCondition(feed: Feed) {
+  return feed === "account"
+    ? or(isNull(payloadChecks.targetType), eq(payloadChecks.targetType, "handle"))
+    : sql`${payloadChecks.targetType} in ('hashtag', 'search')`;
+}
+
+/** Check a run's raw items against the platform contract; never fails the scrape */
+export async function recordPayloadCheck(params: {
+  scrapeRunId: string;
+  platform: Platform;
+  source: string;
+  targetType: ScrapeTargetType | null;
+  items: Record<string, unknown>[];
+}): Promise<void> {
+  const { scrapeRunId, platform, source, targetType, items } = params;
+  if (items.length === 0) return;
+
+  try {
+    const feed = feedOf(targetType);
+    const check = checkPayloadContract(platform, items, { accountFeed: feed === "account" });
+
+    const history = await db
+      .select({ keys: payloadChecks.keys })
+      .from(payloadChecks)
+      .where(and(eq(payloadChecks.platform, platform), eq(payloadChecks.source, source), feedCondition(feed)))
+      .orderBy(desc(payloadChecks.checkedAt))
+      .limit(KEY_HISTORY_CHECKS);
+
+    // New keys no recent run had, and keys every recent run had that are now gone
+    const current = new Set(check.keys);
+    const seen = new Set(history.flatMap((h) => h.keys));
+    const addedKeys = history.length > 0 ? check.keys.filter((k) => !seen.has(k)) : [];
+    const removedKeys = history.length > 0
+      ? [...seen].filter((k) => !current.has(k) && history.every((h) => h.keys.includes(k))).sort()
+      : [];
+
+    if (check.missingFields.length > 0 || removedKeys.length > 0) {
+      console.warn(
+        `[Drift] ${platform} (${source}) run ${scrapeRunId}: missing ${check.missingFields.join(", ") || "none"}; ` +
+          `removed keys ${removedKeys.join(", ") || "none"}; new keys ${addedKeys.join(", ") || "none"}`
+      );
+    }
+
+    await db.insert(payloadChecks).values({
+      scrapeRunId,
+      platform,
+      source,
+      targetType,
+      itemCount: items.length,
+      fields: check.fields,
+      missingFields: check.missingFields,
+      addedKeys,
+      removedKeys,
+      keys: check.keys,
+    });
+  } catch (error) {
+    console.warn(`[Drift] Failed to check ${platform} payload for run ${scrapeRunId}:`, error);
+  }
+}
+
+/**
+ * Latest contract check per platform, provider and feed kind, with each
+ * field's coverage against its average over the checks before it. Groups
+ * idle for COVERAGE_REPORT_DAYS are dropped.
+ */
+export async function getPayloadCoverage(): Promise<PayloadCoverage[]> {
+  const since = new Date(Date.now() - COVERAGE_REPORT_DAYS * 24 * 60 * 60 * 1000);
+  const groups = await db
+    .selectDistinct({
+      platform: payloadChecks.platform,
+      source: payloadChecks.source,
+      feed: sql<Feed>`case when ${payloadChecks.targetType} in ('hashtag', 'search') then 'keyword' else 'account' end`,
+    })
+    .from(payloadChecks)
+    .where(gte(payloadChecks.checkedAt, since));
+
+  const report = await Promise.all(
+    groups.map(async (group): Promise<PayloadCoverage | null> => {
+      const [latest, ...previous] = await db
+        .select()
+        .from(payloadChecks)
+        .where(
+          and(
+            eq(payloadChecks.platform, group.platform),
+            eq(payloadChecks.source, group.source),
+            feedCondition(group.feed)
+          )
+        )
+        .orderBy(desc(payloadChecks.checkedAt))
+        .limit(COVERAGE_BASELINE_CHECKS + 1);
+      if (!latest) return null;
+
+      const fields = latest.fields.map((f) => {
+        const history = previous.flatMap((p) => p.fields.filter((pf) => pf.field === f.field));
+        const baseline = history.length > 0
+          ? history.reduce((s, h) => s + h.coverage, 0) / history.length
+          : null;
+        return { ...f, baseline, dropped: baseline !== null && baseline - f.coverage >= COVERAGE_DROP_ALERT };
+      });
+
+      return {
+        platform: group.platform as Platform,
+        source: group.source,
+        feed: group.feed,
+        checkedAt: latest.checkedAt.toISOString(),
+        scrapeRunId: latest.scrapeRunId,
+        itemCount: latest.itemCount,
+        fields,
+        missingFields: latest.missingFields,
+        addedKeys: latest.addedKeys,
+        removedKeys: latest.removedKeys,
+        alert: fields.some((f) => f.dropped),
+      };
+    })
+  );
+
+  return report
+    .filter((r): r is PayloadCoverage => r !== null)
+    .sort((a, b) => Number(b.alert) - Number(a.alert) || a.platform.localeCompare(b.platform) || a.source.localeCompare(b.source));
+}
@@ -4,11 +4,19 @@ import {
   fandomPlatforms,
   metricSnapshots,
   contentItems,
+  contentItemSnapshots,
+  contentComments,
   influencers,
   googleTrends,
   scrapeRuns,
 } from "@/lib/db/schema";
-import { eq, desc, sql, gte, lte, and } from "drizzle-orm";
+import { eq, desc, sql, gte, lte, and, inArray } from "drizzle-orm";
+import { listFandomKeywords } from "@/lib/services/keyword.service";
+import { listFandomSubreddits } from "@/lib/services/subreddit.service";
+import { sumDistinctFollowers } from "@/lib/utils/accounts";
+import { resolveSearchKeywords } from "@/lib/utils/search-keywords";
+import { DEFAULT_TRENDS_GEO } from "@/lib/constants";
+import { currentSeriesCondition } from "@/lib/services/trends.service";
 import type {
   FandomWithMetrics,
   MetricSnapshot,
@@ -23,18 +31,16 @@ import type {
 
 export async function getAllFandoms(dateFrom?: string, dateTo?: string): Promise<FandomWithMetrics[]> {
   // Build date filter conditions for metrics
-  const metricsConditions = [];
+  // Quarantined snapshots stay out of growth rates and KPIs until approved
+  const metricsConditions = [eq(metricSnapshots.status, "accepted")];
   if (dateFrom) metricsConditions.push(gte(metricSnapshots.date, dateFrom));
   if (dateTo) metricsConditions.push(lte(metricSnapshots.date, dateTo));
-  const metricsWhere = metricsConditions.length > 0 ? and(...metricsConditions) : undefined;
 
   // Batch all queries in parallel instead of N+1
   const [rows, allPlatforms, allMetrics, engagementStats, scrapeCounts] = await Promise.all([
     db.select().from(fandoms).orderBy(fandoms.name),
     db.select().from(fandomPlatforms),
-    metricsWhere
-      ? db.select().from(metricSnapshots).where(metricsWhere).orderBy(desc(metricSnapshots.date))
-      : db.select().from(metricSnapshots).orderBy(desc(metricSnapshots.date)),
+    db.select().from(metricSnapshots).where(and(...metricsConditions)).orderBy(desc(metricSnapshots.date)),
     db
       .select({
         fandomId: contentItems.fandomId,
@@ -87,7 +93,7 @@ export async function getAllFandoms(dateFrom?: string, dateTo?: string): Promise
     const platforms = platformsByFandom.get(row.id) || [];
     const latestMetrics = metricsByFandom.get(row.id) || [];
     const eng = engByFandom.get(row.id) || { totalViews: 0, totalEngagement: 0 };
-    const totalFollowers = platforms.reduce((s, p) => s + p.followers, 0);
+    const totalFollowers = sumDistinctFollowers(platforms);
     const engRate =
       eng.totalViews > 0 ? (eng.totalEngagement / eng.totalViews) * 100 : 0;
 
@@ -106,6 +112,10 @@ export async function getAllFandoms(dateFrom?: string, dateTo?: string): Promise
       imageUrl: row.imageUrl,
       fandomGroup: row.fandomGroup,
       demographicTags: (row.demographicTags || []) as DemographicTag[],
+      scrapeItemCap: row.scrapeItemCap,
+      scrapeCommentPosts: row.scrapeCommentPosts,
+      searchKeywords: resolveSearchKeywords(row),
+      trendsGeos: row.trendsGeos,
       createdAt: row.createdAt,
       updatedAt: row.updatedAt,
       aiKeyBehavior: row.aiKeyBehavior,
@@ -118,6 +128,7 @@ export async function getAllFandoms(dateFrom?: string, dateTo?: string): Promise
         fandomId: p.fandomId,
         platform: p.platform as Platform,
         handle: p.handle,
+        role: p.role,
         followers: p.followers,
         url: p.url,
       })),
@@ -148,7 +159,7 @@ export async function getFandomBySlug(slug: string, dateFrom?: string, dateTo?:
     .from(fandomPlatforms)
     .where(eq(fandomPlatforms.fandomId, row.id));
 
-  const metricsConditions = [eq(metricSnapshots.fandomId, row.id)];
+  const metricsConditions = [eq(metricSnapshots.fandomId, row.id), eq(metricSnapshots.status, "accepted")];
   if (dateFrom) metricsConditions.push(gte(metricSnapshots.date, dateFrom));
   if (dateTo) metricsConditions.push(lte(metricSnapshots.date, dateTo));
 
@@ -165,6 +176,12 @@ export async function getFandomBySlug(slug: string, dateFrom?: string, dateTo?:
     .orderBy(desc(contentItems.likes))
     .limit(20);
 
+  const likesVelocity = await getLikesVelocity(content);
+
+  const keywords = await listFandomKeywords(row.id, dateFrom, dateTo);
+
+  const subreddits = await listFandomSubreddits(row.id, dateFrom, dateTo);
+
   const infsByEngagement = await db
     .select()
     .from(influencers)
@@ -179,7 +196,7 @@ export async function getFandomBySlug(slug: string, dateFrom?: string, dateTo?:
     .orderBy(desc(influencers.followers))
     .limit(12);
 
-  const totalFollowers = platforms.reduce((s, p) => s + p.followers, 0);
+  const totalFollowers = sumDistinctFollowers(platforms);
 
   const totalViews = content.reduce((s, c) => s + c.views, 0);
   const totalEngagement = content.reduce(
@@ -198,6 +215,10 @@ export async function getFandomBySlug(slug: string, dateFrom?: string, dateTo?:
     imageUrl: row.imageUrl,
     fandomGroup: row.fandomGroup,
     demographicTags: (row.demographicTags || []) as DemographicTag[],
+    scrapeItemCap: row.scrapeItemCap,
+    scrapeCommentPosts: row.scrapeCommentPosts,
+    searchKeywords: resolveSearchKeywords(row),
+    trendsGeos: row.trendsGeos,
     createdAt: row.createdAt,
     updatedAt: row.updatedAt,
     aiKeyBehavior: row.aiKeyBehavior,
@@ -210,6 +231,7 @@ export async function getFandomBySlug(slug: string, dateFrom?: string, dateTo?:
       fandomId: p.fandomId,
       platform: p.platform as Platform,
       handle: p.handle,
+      role: p.role,
       followers: p.followers,
       url: p.url,
       verified: p.verified || null,
@@ -220,9 +242,14 @@ export async function getFandomBySlug(slug: string, dateFrom?: string, dateTo?:
     weeklyGrowthRate: metrics.length > 0 ? parseFloat(metrics[0].growthRate) : 0,
     latestMetrics: metrics.map(mapMetric),
     hasBeenScraped: content.length > 0 || metrics.length > 0,
-    content: content.map(mapContent),
+    content: content.map((c) => ({
+      ...mapContent(c),
+      likesPerHour: likesVelocity.get(c.id) ?? null,
+    })),
     influencersByEngagement: infsByEngagement.map(mapInfluencer),
     influencersByFollowers: infsByFollowers.map(mapInfluencer),
+    keywords,
+    subreddits,
   };
 }
 
@@ -243,6 +270,62 @@ export async function getAllContent() {
   }));
 }
 
+/** Snapshots older than this aren't used for velocity — it should reflect current momentum */
+const VELOCITY_LOOKBACK_MS = 7 * 24 * 60 * 60 * 1000;
+/** Ignore snapshot pairs closer together than this (e.g. a manual scrape right after cron) */
+const VELOCITY_MIN_SPAN_MS = 60 * 60 * 1000;
+
+/**
+ * Likes gained per hour for each content item.
+ * Uses the latest snapshot against the most recent one at least an hour older;
+ * posts captured only once fall back to their lifetime average since publishing.
+ */
+async function getLikesVelocity(
+  items: (typeof contentItems.$inferSelect)[]
+): Promise<Map<string, number>> {
+  const velocity = new Map<string, number>();
+  if (items.length === 0) return velocity;
+
+  const snapshots = await db
+    .select({
+      contentItemId: contentItemSnapshots.contentItemId,
+      capturedAt: contentItemSnapshots.capturedAt,
+      likes: contentItemSnapshots.likes,
+    })
+    .from(contentItemSnapshots)
+    .where(
+      and(
+        inArray(contentItemSnapshots.contentItemId, items.map((c) => c.id)),
+        gte(contentItemSnapshots.capturedAt, new Date(Date.now() - VELOCITY_LOOKBACK_MS))
+      )
+    )
+    .orderBy(desc(contentItemSnapshots.capturedAt));
+
+  const byItem = new Map<string, typeof snapshots>();
+  for (const snap of snapshots) {
+    const list = byItem.get(snap.contentItemId) ?? [];
+    list.push(snap);
+    byItem.set(snap.contentItemId, list);
+  }
+
+  for (const item of items) {
+    const [latest, ...older] = byItem.get(item.id) ?? [];
+    const previous = latest
+      ? older.find((s) => latest.capturedAt.getTime() - s.capturedAt.getTime() >= VELOCITY_MIN_SPAN_MS)
+      : undefined;
+
+    if (latest && previous) {
+      const hours = (latest.capturedAt.getTime() - previous.capturedAt.getTime()) / 3600000;
+      velocity.set(item.id, Math.max(0, (latest.likes - previous.likes) / hours));
+    } else if (item.publishedAt) {
+      const hours = (Date.now() - item.publishedAt.getTime()) / 3600000;
+      if (hours >= 1) velocity.set(item.id, item.likes / hours);
+    }
+  }
+
+  return velocity;
+}
+
 function mapMetric(m: typeof metricSnapshots.$inferSelect): MetricSnapshot {
   return {
     id: m.id,
@@ -257,6 +340,7 @@ function mapMetric(m: typeof metricSnapshots.$inferSelect): MetricSnapshot {
     avgLikes: m.avgLikes,
     avgComments: m.avgComments,
     avgShares: m.avgShares,
+    source: m.source,
   };
 }
 
@@ -276,6 +360,8 @@ function mapContent(c: typeof contentItems.$inferSelect): ContentItem {
     publishedAt: c.publishedAt,
     scrapedAt: c.scrapedAt,
     hashtags: c.hashtags || [],
+    targetType: c.targetType,
+    targetValue: c.targetValue,
   };
 }
 
@@ -315,7 +401,15 @@ export async function getAllInfluencers(limit = 50, offset = 0) {
   }));
 }
 
-export async function getAllTrends(limit = 1000, offset = 0) {
+/**
+ * Trend points for one country (default PH) in date order, optionally from a
+ * date (YYYY-MM-DD) on, one series per fandom: the one under its current
+ * Trends query. Each country's series is indexed separately.
+ */
+export async function getAllTrends(limit = 1000, offset = 0, dateFrom?: string, region = DEFAULT_TRENDS_GEO) {
+  const current = await currentSeriesCondition();
+  if (!current) return [];
+
   const rows = await db
     .select({
       trend: googleTrends,
@@ -324,7 +418,14 @@ export async function getAllTrends(limit = 1000, offset = 0) {
     })
     .from(googleTrends)
     .innerJoin(fandoms, eq(googleTrends.fandomId, fandoms.id))
-    .orderBy(googleTrends.date)
+    .where(
+      and(
+        eq(googleTrends.region, region),
+        current,
+        dateFrom ? gte(googleTrends.date, dateFrom) : undefined
+      )
+    )
+    .orderBy(googleTrends.date, googleTrends.id)
     .limit(limit)
     .offset(offset);
 
@@ -335,6 +436,8 @@ export async function getAllTrends(limit = 1000, offset = 0) {
     date: r.trend.date,
     interestValue: r.trend.interestValue,
     region: r.trend.region,
+    anchorKeyword: r.trend.anchorKeyword,
+    scaleFactor: r.trend.scaleFactor !== null ? Number(r.trend.scaleFactor) : null,
     fandomName: r.fandomName,
     fandomSlug: r.fandomSlug,
   }));
@@ -342,7 +445,7 @@ export async function getAllTrends(limit = 1000, offset = 0) {
 
 export async function getRecommendations(): Promise<Recommendation[]> {
   // Fetch fandoms, content counts, and all content for insight analysis
-  const [allFandoms, contentCounts, allContentRows, platformMetrics] = await Promise.all([
+  const [allFandoms, contentCounts, allContentRows, platformMetrics, allCommentRows] = await Promise.all([
     getAllFandoms(),
     db
       .select({
@@ -377,6 +480,14 @@ export async function getRecommendations(): Promise<Recommendation[]> {
       })
       .from(contentItems)
       .groupBy(contentItems.fandomId, contentItems.platform),
+    db
+      .select({
+        fandomId: contentComments.fandomId,
+        text: contentComments.text,
+      })
+      .from(contentComments)
+      .orderBy(desc(contentComments.scrapedAt))
+      .limit(5000),
   ]);
 
   const countMap = new Map(
@@ -400,6 +511,13 @@ export async function getRecommendations(): Promise<Recommendation[]> {
     contentByFandom.set(row.fandomId, list);
   }
 
+  const commentsByFandom = new Map<string, string[]>();
+  for (const row of allCommentRows) {
+    const list = commentsByFandom.get(row.fandomId) || [];
+    list.push(row.text);
+    commentsByFandom.set(row.fandomId, list);
+  }
+
   const recommendations: Recommendation[] = allFandoms.map((f) => {
     const segment: "postpaid" | "prepaid" =
       f.demographicTags.includes("abc" as DemographicTag) ? "postpaid" : "prepaid";
@@ -461,7 +579,7 @@ export async function getRecommendations(): Promise<Recommendation[]> {
     }
 
     const fandomContent = contentByFandom.get(f.id) || [];
-    const contentInsight = analyzeContentInsight(fandomContent, f.avgEngagementRate);
+    const contentInsight = analyzeContentInsight(fandomContent, f.avgEngagementRate, commentsByFandom.get(f.id));
 
     // Use AI-generated fields when available, fall back to rule-based
     const finalRationale = f.aiRationale || rationale;
@@ -490,9 +608,32 @@ export async function getRecommendations(): Promise<Recommendation[]> {
   return recommendations.sort((a, b) => b.score - a.score);
 }
 
+/**
+ * Share of comments with positive vs negative wording, as a sentence for the
+ * tone summary. Null without comments or when none carry a clear signal.
+ */
+function describeCommentSentiment(commentTexts: string[]): string | null {
+  const positive = /love|proud|congrats|congratulations|amazing|beautiful|galing|ganda|best|slay|❤|😍|🥰/i;
+  const negative = /hate|worst|disappoint|boring|flop|cringe|scam|nakakainis|pangit|😡|🤮/i;
+
+  let pos = 0;
+  let neg = 0;
+  for (const text of commentTexts) {
+    if (positive.test(text)) pos++;
+    if (negative.test(text)) neg++;
+  }
+  if (pos + neg === 0) return null;
+
+  const posPct = Math.round((pos / commentTexts.length) * 100);
+  const negPct = Math.round((neg / commentTexts.length) * 100);
+  const lean = pos >= neg * 3 ? "strongly positive" : pos > neg ? "mostly positive" : neg > pos ? "critical" : "mixed";
+  return `Comment sentiment is ${lean} (${posPct}% positive, ${negPct}% negative across ${commentTexts.length} comments).`;
+}
+
 function analyzeContentInsight(
   content: { contentType: string; text: string | null; likes: number; comments: number; shares: number; views: number; hashtags: string[] | null }[],
   engagementRate: number,
+  commentTexts: string[] = [],
 ): ContentInsight {
   if (content.length === 0) {
     return {
@@ -539,9 +680,8 @@ function analyzeContentInsight(
   const shareRatio = totalViews > 0 ? totalShares / totalViews : 0;
   const likeRatio = totalViews > 0 ? totalLikes / totalViews : 0;
 
-  // Analyze text for tone signals
-  const allText = content
-    .map((c) => c.text || "")
+  // Analyze text for tone signals: captions plus what fans write in the comments
+  const allText = [...content.map((c) => c.text || ""), ...commentTexts]
     .join(" ")
     .toLowerCase();
 
@@ -566,6 +706,8 @@ function analyzeContentInsight(
   } else {
     tone = "Community engages at a moderate level. Clear, direct messaging with strong visuals recommended.";
   }
+  const sentiment = describeCommentSentiment(commentTexts);
+  if (sentiment) tone += ` ${sentiment}`;
 
   // Fan behavior analysis
   const isVideoHeavy = (typeCounts["video"] || 0) + (typeCounts["reel"] || 0) > content.length * 0.6;
@@ -4,11 +4,13 @@ import {
   fandomPlatforms,
   metricSnapshots,
   contentItems,
+  contentItemSnapshots,
+  accountSnapshots,
   influencers,
-  googleTrends,
   scrapeRuns,
+  scrapePayloads,
 } from "@/lib/db/schema";
-import { eq, and, desc, sql, inArray } from "drizzle-orm";
+import { eq, and, asc, desc, gte, inArray, lt, sql } from "drizzle-orm";
 import { getDatasetItems } from "@/lib/apify/client";
 import {
   normalizeContent,
@@ -16,7 +18,14 @@ import {
   normalizeInfluencers,
 } from "@/lib/apify/normalize";
 import { analyzeScrapeBatch } from "@/lib/services/discovery.service";
-import type { Platform } from "@/types/fandom";
+import { archiveRawPayload, readArchivedItems } from "@/lib/services/archive.service";
+import { recordPayloadCheck } from "@/lib/services/drift.service";
+import { accountKey } from "@/lib/utils/accounts";
+import { findMetricAnomaly } from "@/lib/utils/anomaly";
+import { mergeTrendWindow } from "@/lib/services/trends.service";
+import { isTrendsGeo } from "@/lib/utils/trends-geos";
+import { ANOMALY_BASELINE_SNAPSHOTS, DEFAULT_TRENDS_GEO } from "@/lib/constants";
+import type { Platform, ScrapeTargetType } from "@/types/fandom";
 
 export interface IngestResult {
   success: boolean;
@@ -24,25 +33,40 @@ export interface IngestResult {
   influencerCount: number;
   discoveries: Array<{ tag: string; count: number }>;
   error?: string;
+  /** Most recently published item in the batch, for advancing the scrape cursor */
+  newestContent?: { publishedAt: Date; externalId: string };
+  /** Items in the batch that have comments, most engaged first, for comment fetching */
+  commentedContent?: Array<{ id: string; url: string; engagement: number }>;
+}
+
+/** Account or keyword feed a batch was scraped from; recorded on new content items */
+export interface IngestTarget {
+  type: ScrapeTargetType;
+  value: string;
 }
 
 /**
  * Ingest raw items directly (used by the failover provider system).
  * Skips the Apify dataset fetch step.
+ *
+ * capturedAt dates the metric and content snapshots; it defaults to now and is
+ * set to the original scrape time when an archived payload is reprocessed.
  */
 export async function ingestRawItems(params: {
   rawItems: Record<string, unknown>[];
   fandomId: string;
   platform: Platform;
   source: string;
+  capturedAt?: Date;
+  target?: IngestTarget;
 }): Promise<IngestResult> {
-  const { rawItems, fandomId, platform: validPlatform, source } = params;
+  const { rawItems, fandomId, platform: validPlatform, source, capturedAt, target } = params;
 
   if (rawItems.length === 0) {
     return { success: true, itemsCount: 0, influencerCount: 0, discoveries: [] };
   }
 
-  return ingestItems(rawItems, fandomId, validPlatform, source);
+  return ingestItems(rawItems, fandomId, validPlatform, source, capturedAt, target);
 }
 
 export async function ingestDataset(params: {
@@ -56,6 +80,7 @@ export async function ingestDataset(params: {
   const rawItems = await getDatasetItems(datasetId);
 
   if (rawItems.length === 0) {
+    await updateScrapeRun(datasetId, "succeeded", 0);
     return { success: true, itemsCount: 0, influencerCount: 0, discoveries: [] };
   }
 
@@ -66,159 +91,271 @@ export async function ingestDataset(params: {
     return { success: true, itemsCount: inserted, influencerCount: 0, discoveries: [] };
   }
 
-  const result = await ingestItems(rawItems, fandomId, validPlatform, "apify");
+  const [run] = await db
+    .select({ id: scrapeRuns.id, targetType: scrapeRuns.targetType, targetValue: scrapeRuns.targetValue })
+    .from(scrapeRuns)
+    .where(eq(scrapeRuns.apifyRunId, datasetId))
+    .limit(1);
+  if (run) {
+    await archiveRawPayload({
+      scrapeRunId: run.id,
+      fandomId,
+      platform: validPlatform,
+      source: "apify",
+      items: rawItems,
+    });
+    await recordPayloadCheck({
+      scrapeRunId: run.id,
+      platform: validPlatform,
+      source: "apify",
+      targetType: run.targetType,
+      items: rawItems,
+    });
+  }
+
+  const target = run?.targetType && run.targetValue ? { type: run.targetType, value: run.targetValue } : undefined;
+  const result = await ingestItems(rawItems, fandomId, validPlatform, "apify", new Date(), target);
 
   await updateScrapeRun(datasetId, "succeeded", result.itemsCount);
 
   return result;
 }
 
+export interface ReprocessResult {
+  payloads: number;
+  itemsCount: number;
+  failed: Array<{ payloadId: string; scrapeRunId: string; error: string }>;
+  /** More payloads matched than MAX_REPROCESS_PAYLOADS; narrow the range and call again */
+  truncated: boolean;
+}
+
+const MAX_REPROCESS_PAYLOADS = 200;
+
+/**
+ * Re-run normalization and ingestion over archived raw payloads, either for a
+ * single scrape run or for every payload captured in a date range (YYYY-MM-DD,
+ * inclusive). Snapshots are dated to the original capture, so a normalizer fix
+ * can be backfilled without re-scraping. Current state (influencer profiles,
+ * follower counts) isn't rolled back to the archived values, and the batch
+ * isn't re-run through fandom discovery.
+ */
+export async function reprocessScrapePayloads(filter: {
+  scrapeRunId?: string;
+  from?: string;
+  to?: string;
+  fandomId?: string;
+  platform?: Platform;
+}): Promise<ReprocessResult> {
+  const conditions = [];
+  if (filter.scrapeRunId) conditions.push(eq(scrapePayloads.scrapeRunId, filter.scrapeRunId));
+  if (filter.from) conditions.push(gte(scrapePayloads.capturedAt, new Date(`${filter.from}T00:00:00Z`)));
+  if (filter.to) conditions.push(sql`${scrapePayloads.capturedAt} < (${filter.to}::date + 1)`);
+  if (filter.fandomId) conditions.push(eq(scrapePayloads.fandomId, filter.fandomId));
+  if (filter.platform) conditions.push(eq(scrapePayloads.platform, filter.platform));
+
+  // Ids first — payload blobs are loaded one at a time below
+  const matches = await db
+    .select({ id: scrapePayloads.id })
+    .from(scrapePayloads)
+    .where(and(...conditions))
+    .orderBy(asc(scrapePayloads.capturedAt))
+    .limit(MAX_REPROCESS_PAYLOADS + 1);
+
+  const result: ReprocessResult = {
+    payloads: 0,
+    itemsCount: 0,
+    failed: [],
+    truncated: matches.length > MAX_REPROCESS_PAYLOADS,
+  };
+
+  for (const { id } of matches.slice(0, MAX_REPROCESS_PAYLOADS)) {
+    const [row] = await db
+      .select({
+        payload: scrapePayloads,
+        targetType: scrapeRuns.targetType,
+        targetValue: scrapeRuns.targetValue,
+      })
+      .from(scrapePayloads)
+      .innerJoin(scrapeRuns, eq(scrapePayloads.scrapeRunId, scrapeRuns.id))
+      .where(eq(scrapePayloads.id, id))
+      .limit(1);
+    if (!row) continue;
+    const { payload } = row;
+
+    try {
+      const items = await readArchivedItems(payload);
+      const ingested = await ingestItems(
+        items,
+        payload.fandomId,
+        payload.platform as Platform,
+        `reprocess/${payload.source}`,
+        payload.capturedAt,
+        row.targetType && row.targetValue ? { type: row.targetType, value: row.targetValue } : undefined,
+        true
+      );
+
+      await db
+        .update(scrapePayloads)
+        .set({ reprocessedAt: new Date() })
+        .where(eq(scrapePayloads.id, payload.id));
+
+      result.payloads++;
+      result.itemsCount += ingested.itemsCount;
+    } catch (error) {
+      console.error(`[Reprocess] Failed for payload ${payload.id}:`, error);
+      result.failed.push({
+        payloadId: payload.id,
+        scrapeRunId: payload.scrapeRunId,
+        error: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+  }
+
+  return result;
+}
+
 /**
  * Core ingestion logic shared by both ingestDataset and ingestRawItems.
+ *
+ * Hashtag and search feeds are other people's posts, so they add content and
+ * influencers but no metric snapshot or follower count for the fandom.
+ *
+ * reprocess marks a replayed archive: known influencers keep their current
+ * profile and discovery is skipped, since both were handled at capture time.
  */
 async function ingestItems(
   rawItems: Record<string, unknown>[],
   fandomId: string,
   validPlatform: Platform,
-  source: string
+  source: string,
+  capturedAt: Date = new Date(),
+  target?: IngestTarget,
+  reprocess = false
 ): Promise<IngestResult> {
   let totalInserted = 0;
 
-  // 1. Normalize and batch insert content items (dedup by externalId)
+  let totalUpdated = 0;
+  let newestContent: IngestResult["newestContent"];
+  let commentedContent: IngestResult["commentedContent"];
+
+  // 1. Normalize and upsert content items (dedup by externalId), refreshing
+  //    engagement on posts we've already seen and snapshotting every capture
   const normalizedContent = normalizeContent(validPlatform, rawItems);
 
-  if (normalizedContent.length > 0) {
-    // Batch lookup: find all existing externalIds in one query
-    const allExternalIds = normalizedContent.map((item) => item.externalId);
-    const existingRows = await db
-      .select({ externalId: contentItems.externalId })
-      .from(contentItems)
-      .where(
-        and(
-          eq(contentItems.fandomId, fandomId),
-          inArray(contentItems.externalId, allExternalIds)
-        )
-      );
-    const existingIds = new Set(existingRows.map((r) => r.externalId));
-
-    // Filter to only new items and batch insert
-    const newItems = normalizedContent
-      .filter((item) => !existingIds.has(item.externalId))
-      .map((item) => ({
-        fandomId,
-        platform: validPlatform,
-        externalId: item.externalId,
-        contentType: item.contentType,
-        text: item.text,
-        url: item.url,
-        likes: item.likes,
-        comments: item.comments,
-        shares: item.shares,
-        views: item.views,
-        publishedAt: (() => {
-          if (!item.publishedAt) return null;
-          const d = new Date(item.publishedAt);
-          return isNaN(d.getTime()) ? null : d;
-        })(),
-        hashtags: item.hashtags,
-      }));
-
-    if (newItems.length > 0) {
-      await db.insert(contentItems).values(newItems);
-      totalInserted = newItems.length;
-    }
+  // One row per externalId — ON CONFLICT can't touch the same row twice in a statement
+  const itemsByExternalId = new Map<string, (typeof normalizedContent)[number]>();
+  for (const item of normalizedContent) {
+    if (item.externalId) itemsByExternalId.set(item.externalId, item);
   }
 
-  // 2. Insert metric snapshot for today
-  const normalizedMetrics = normalizeMetrics(validPlatform, rawItems);
-  const today = new Date().toISOString().split("T")[0];
-
-  // Fallback: if normalizer couldn't extract followers, use stored fandom_platforms value
-  if (normalizedMetrics.followers === 0) {
-    const storedPlatform = await db
-      .select({ followers: fandomPlatforms.followers })
-      .from(fandomPlatforms)
-      .where(
-        and(
-          eq(fandomPlatforms.fandomId, fandomId),
-          eq(fandomPlatforms.platform, validPlatform)
-        )
-      )
-      .limit(1);
-    if (storedPlatform.length > 0 && storedPlatform[0].followers > 0) {
-      normalizedMetrics.followers = storedPlatform[0].followers;
+  if (itemsByExternalId.size > 0) {
+    const rows = [...itemsByExternalId.values()].map((item) => ({
+      fandomId,
+      platform: validPlatform,
+      externalId: item.externalId,
+      contentType: item.contentType,
+      text: item.text,
+      url: item.url,
+      likes: item.likes,
+      comments: item.comments,
+      shares: item.shares,
+      views: item.views,
+      publishedAt: (() => {
+        if (!item.publishedAt) return null;
+        const d = new Date(item.publishedAt);
+        return isNaN(d.getTime()) ? null : d;
+      })(),
+      hashtags: item.hashtags,
+      targetType: target?.type ?? null,
+      targetValue: target?.value ?? null,
+    }));
+
+    for (const row of rows) {
+      if (row.publishedAt && (!newestContent || row.publishedAt > newestContent.publishedAt)) {
+        newestContent = { publishedAt: row.publishedAt, externalId: String(row.externalId) };
+      }
     }
-  }
 
-  // Compute growth rate by comparing against previous snapshot
-  let growthRate = 0;
-  if (normalizedMetrics.followers > 0) {
-    const previousSnapshot = await db
-      .select({ followers: metricSnapshots.followers, date: metricSnapshots.date })
-      .from(metricSnapshots)
-      .where(
-        and(
-          eq(metricSnapshots.fandomId, fandomId),
-          eq(metricSnapshots.platform, validPlatform),
-          sql`${metricSnapshots.date} < ${today}`
-        )
-      )
-      .orderBy(desc(metricSnapshots.date))
-      .limit(1);
+    // Counts only move up: a fallback provider that omits a field reports 0,
+    // which would otherwise wipe the real total
+    const upserted = await db
+      .insert(contentItems)
+      .values(rows)
+      .onConflictDoUpdate({
+        target: [contentItems.fandomId, contentItems.externalId],
+        set: {
+          contentType: sql`excluded.content_type`,
+          text: sql`coalesce(excluded.text, ${contentItems.text})`,
+          url: sql`coalesce(excluded.url, ${contentItems.url})`,
+          publishedAt: sql`coalesce(excluded.published_at, ${contentItems.publishedAt})`,
+          hashtags: sql`case when cardinality(excluded.hashtags) > 0 then excluded.hashtags else ${contentItems.hashtags} end`,
+          likes: sql`greatest(${contentItems.likes}, excluded.likes)`,
+          comments: sql`greatest(${contentItems.comments}, excluded.comments)`,
+          shares: sql`greatest(${contentItems.shares}, excluded.shares)`,
+          views: sql`greatest(${contentItems.views}, excluded.views)`,
+          // The first target to find an item keeps the credit
+          targetType: sql`coalesce(${contentItems.targetType}, excluded.target_type)`,
+          targetValue: sql`coalesce(${contentItems.targetValue}, excluded.target_value)`,
+        },
+      })
+      .returning({
+        id: contentItems.id,
+        externalId: contentItems.externalId,
+        url: contentItems.url,
+        likes: contentItems.likes,
+        comments: contentItems.comments,
+        shares: contentItems.shares,
+        views: contentItems.views,
+        // xmax is 0 for freshly inserted rows and set for updated ones
+        inserted: sql<boolean>`(xmax = 0)`,
+      });
 
-    if (previousSnapshot.length > 0 && previousSnapshot[0].followers > 0) {
-      growthRate =
-        ((normalizedMetrics.followers - previousSnapshot[0].followers) /
-          previousSnapshot[0].followers) *
-        100;
-    }
-  }
+    totalInserted = upserted.filter((r) => r.inserted).length;
+    totalUpdated = upserted.length - totalInserted;
 
-  // Compute engagement rate from this batch
-  const totalEng =
-    normalizedMetrics.avgLikes + normalizedMetrics.avgComments + normalizedMetrics.avgShares;
-  const engagementRate =
-    normalizedMetrics.followers > 0
-      ? (totalEng / normalizedMetrics.followers) * 100
-      : 0;
-
-  await db.insert(metricSnapshots).values({
-    fandomId,
-    platform: validPlatform,
-    date: today,
-    followers: normalizedMetrics.followers,
-    postsCount: normalizedMetrics.postsCount,
-    engagementTotal: normalizedMetrics.engagementTotal,
-    engagementRate: engagementRate.toFixed(4),
-    growthRate: growthRate.toFixed(4),
-    avgLikes: normalizedMetrics.avgLikes,
-    avgComments: normalizedMetrics.avgComments,
-    avgShares: normalizedMetrics.avgShares,
-  }).onConflictDoUpdate({
-    target: [metricSnapshots.fandomId, metricSnapshots.platform, metricSnapshots.date],
-    set: {
-      followers: normalizedMetrics.followers,
-      postsCount: normalizedMetrics.postsCount,
-      engagementTotal: normalizedMetrics.engagementTotal,
-      engagementRate: engagementRate.toFixed(4),
-      growthRate: growthRate.toFixed(4),
-      avgLikes: normalizedMetrics.avgLikes,
-      avgComments: normalizedMetrics.avgComments,
-      avgShares: normalizedMetrics.avgShares,
-    },
-  });
+    commentedContent = upserted
+      .filter((r) => r.url && r.comments > 0)
+      .map((r) => ({ id: r.id, url: r.url as string, engagement: r.likes + r.comments + r.shares }))
+      .sort((a, b) => b.engagement - a.engagement);
 
-  // 3. Update follower count on fandom_platforms
-  if (normalizedMetrics.followers > 0) {
+    // Keyed by capture time, so reprocessing a payload rewrites its snapshots.
+    // A live capture records the raised totals; a reprocessed one records what
+    // its payload held, since later captures have raised the totals since.
     await db
-      .update(fandomPlatforms)
-      .set({ followers: normalizedMetrics.followers })
-      .where(
-        and(
-          eq(fandomPlatforms.fandomId, fandomId),
-          eq(fandomPlatforms.platform, validPlatform)
-        )
-      );
+      .insert(contentItemSnapshots)
+      .values(
+        upserted.map((r) => {
+          const counts = reprocess ? itemsByExternalId.get(r.externalId) ?? r : r;
+          return {
+            contentItemId: r.id,
+            capturedAt,
+            likes: counts.likes,
+            comments: counts.comments,
+            shares: counts.shares,
+            views: counts.views,
+          };
+        })
+      )
+      .onConflictDoUpdate({
+        target: [contentItemSnapshots.contentItemId, contentItemSnapshots.capturedAt],
+        set: {
+          likes: sql`excluded.likes`,
+          comments: sql`excluded.comments`,
+          shares: sql`excluded.shares`,
+          views: sql`excluded.views`,
+        },
+      });
+  }
+
+  // 2-3. Account metrics, rolled up into the platform's metric snapshot.
+  //      Keyword feeds are other people's posts and are skipped.
+  if (!target || target.type === "handle") {
+    const handle = target ? target.value : await getOnlyAccountHandle(fandomId, validPlatform);
+    if (handle === null) {
+      console.warn(`[Ingest] ${validPlatform} (${source}): several accounts and no target, skipping metrics`);
+    } else {
+      await recordAccountMetrics(rawItems, fandomId, validPlatform, handle, capturedAt);
+    }
   }
 
   // 4. Extract influencer data from raw items
@@ -234,52 +371,267 @@ async function ingestItems(
   });
   // Batch upsert influencers
   for (const inf of validInfluencers) {
-    await db
-      .insert(influencers)
-      .values({
-        fandomId,
-        platform: validPlatform,
-        username: inf.username,
+    const insert = db.insert(influencers).values({
+      fandomId,
+      platform: validPlatform,
+      username: inf.username,
+      displayName: inf.displayName,
+      followers: inf.followers,
+      engagementRate: String(inf.engagementRate),
+      profileUrl: inf.profileUrl,
+      avatarUrl: inf.avatarUrl,
+      bio: inf.bio,
+      relevanceScore: "0",
+    });
+    if (reprocess) {
+      await insert.onConflictDoNothing();
+      continue;
+    }
+    await insert.onConflictDoUpdate({
+      target: [influencers.fandomId, influencers.platform, influencers.username],
+      set: {
         displayName: inf.displayName,
         followers: inf.followers,
         engagementRate: String(inf.engagementRate),
         profileUrl: inf.profileUrl,
         avatarUrl: inf.avatarUrl,
         bio: inf.bio,
-        relevanceScore: "0",
-      })
-      .onConflictDoUpdate({
-        target: [influencers.fandomId, influencers.platform, influencers.username],
-        set: {
-          displayName: inf.displayName,
-          followers: inf.followers,
-          engagementRate: String(inf.engagementRate),
-          profileUrl: inf.profileUrl,
-          avatarUrl: inf.avatarUrl,
-          bio: inf.bio,
-        },
-      });
+      },
+    });
   }
 
   // 5. Analyze batch for potential new fandoms
-  const newFandomCandidates = await analyzeScrapeBatch(
-    rawItems.map((r) => ({
-      hashtags: (r.hashtags as string[]) ?? [],
-      text: (r.text as string) ?? "",
-    })),
-    validPlatform
-  );
+  const newFandomCandidates = reprocess
+    ? []
+    : await analyzeScrapeBatch(
+        rawItems.map((r) => ({
+          hashtags: (r.hashtags as string[]) ?? [],
+          text: (r.text as string) ?? "",
+        })),
+        validPlatform
+      );
 
-  console.log(`[Ingest] ${validPlatform} (${source}): ${totalInserted} new items, ${validInfluencers.length} influencers`);
+  console.log(`[Ingest] ${validPlatform} (${source}): ${totalInserted} new items, ${totalUpdated} refreshed, ${validInfluencers.length} influencers`);
 
   return {
     success: true,
     itemsCount: totalInserted,
     influencerCount: validInfluencers.length,
     discoveries: newFandomCandidates,
+    newestContent,
+    commentedContent,
   };
 }
 
+/** The platform's handle when the fandom has exactly one account there, else null */
+async function getOnlyAccountHandle(fandomId: string, platform: Platform): Promise<string | null> {
+  const accounts = await db
+    .select({ handle: fandomPlatforms.handle })
+    .from(fandomPlatforms)
+    .where(and(eq(fandomPlatforms.fandomId, fandomId), eq(fandomPlatforms.platform, platform)));
+
+  return accounts.length === 1 ? accounts[0].handle : null;
+}
+
+/**
+ * Store one account's metrics for the capture date, refresh its follower count
+ * (current captures only), then roll the platform's metric snapshot up from
+ * every account captured that day.
+ *
+ * Metrics that are implausible against the account's recent accepted
+ * snapshots (see findMetricAnomaly) are stored quarantined and leave the
+ * follower count alone until a user approves them.
+ */
+async function recordAccountMetrics(
+  rawItems: Record<string, unknown>[],
+  fandomId: string,
+  platform: Platform,
+  handle: string,
+  capturedAt: Date
+): Promise<void> {
+  const normalizedMetrics = normalizeMetrics(platform, rawItems);
+  const today = capturedAt.toISOString().split("T")[0];
+  const isCurrent = today === new Date().toISOString().split("T")[0];
+  const key = accountKey(handle);
+  const accounts = await db
+    .select({ id: fandomPlatforms.id, handle: fandomPlatforms.handle, followers: fandomPlatforms.followers })
+    .from(fandomPlatforms)
+    .where(and(eq(fandomPlatforms.fandomId, fandomId), eq(fandomPlatforms.platform, platform)));
+  const account = accounts.find((a) => accountKey(a.handle) === key);
+
+  // Fallback: if normalizer couldn't extract followers, use stored fandom_platforms value
+  if (normalizedMetrics.followers === 0 && account && account.followers > 0) {
+    normalizedMetrics.followers = account.followers;
+  }
+
+  const history = await db
+    .select({
+      followers: accountSnapshots.followers,
+      avgEngagement: sql<number>`${accountSnapshots.avgLikes} + ${accountSnapshots.avgComments} + ${accountSnapshots.avgShares}`,
+    })
+    .from(accountSnapshots)
+    .where(
+      and(
+        eq(accountSnapshots.fandomId, fandomId),
+        eq(accountSnapshots.platform, platform),
+        eq(accountSnapshots.handle, key),
+        eq(accountSnapshots.status, "accepted"),
+        lt(accountSnapshots.date, today)
+      )
+    )
+    .orderBy(desc(accountSnapshots.date))
+    .limit(ANOMALY_BASELINE_SNAPSHOTS);
+
+  const anomaly = findMetricAnomaly(
+    {
+      followers: normalizedMetrics.followers,
+      avgEngagement: normalizedMetrics.avgLikes + normalizedMetrics.avgComments + normalizedMetrics.avgShares,
+    },
+    history.map((h) => ({ followers: h.followers, avgEngagement: Number(h.avgEngagement) }))
+  );
+  if (anomaly) {
+    console.warn(`[Ingest] ${platform} ${handle} snapshot for ${today} quarantined: ${anomaly}`);
+  }
+
+  const accountMetrics = {
+    followers: normalizedMetrics.followers,
+    postsCount: normalizedMetrics.postsCount,
+    engagementTotal: normalizedMetrics.engagementTotal,
+    avgLikes: normalizedMetrics.avgLikes,
+    avgComments: normalizedMetrics.avgComments,
+    avgShares: normalizedMetrics.avgShares,
+    activeUsers: normalizedMetrics.activeUsers ?? null,
+    status: anomaly ? ("quarantined" as const) : ("accepted" as const),
+    anomalyReason: anomaly,
+  };
+  await db
+    .insert(accountSnapshots)
+    .values({ fandomId, platform, handle: key, date: today, ...accountMetrics })
+    .onConflictDoUpdate({
+      target: [accountSnapshots.fandomId, accountSnapshots.platform, accountSnapshots.handle, accountSnapshots.date],
+      set: accountMetrics,
+    });
+
+  // Update follower count on fandom_platforms (not from older, reprocessed payloads)
+  if (account && normalizedMetrics.followers > 0 && isCurrent && !anomaly) {
+    await db
+      .update(fandomPlatforms)
+      .set({ followers: normalizedMetrics.followers })
+      .where(eq(fandomPlatforms.id, account.id));
+  }
+
+  await rollUpMetricSnapshot(fandomId, platform, today);
+}
+
+/**
+ * Rebuild a platform's daily metric snapshot from its account snapshots:
+ * followers, posts and engagement are summed (one row per account, so nothing
+ * is counted twice) and averages are weighted by each account's post count.
+ * A tracked account with no snapshot that day (its scrape failed) carries its
+ * latest accepted snapshot forward, so a missed handle doesn't read as a
+ * follower drop; accounts never snapshotted aren't counted. The snapshot is
+ * quarantined while any of that day's account snapshots is, and removed once
+ * none are left.
+ */
+export async function rollUpMetricSnapshot(fandomId: string, platform: Platform, date: string): Promise<void> {
+  const ofPlatform = and(eq(accountSnapshots.fandomId, fandomId), eq(accountSnapshots.platform, platform));
+  const dayRows = await db
+    .select()
+    .from(accountSnapshots)
+    .where(and(ofPlatform, eq(accountSnapshots.date, date)));
+
+  if (dayRows.length === 0) {
+    await db
+      .delete(metricSnapshots)
+      .where(
+        and(
+          eq(metricSnapshots.fandomId, fandomId),
+          eq(metricSnapshots.platform, platform),
+          eq(metricSnapshots.date, date)
+        )
+      );
+    return;
+  }
+
+  const tracked = await db
+    .select({ handle: fandomPlatforms.handle })
+    .from(fandomPlatforms)
+    .where(and(eq(fandomPlatforms.fandomId, fandomId), eq(fandomPlatforms.platform, platform)));
+  const seen = new Set(dayRows.map((r) => r.handle));
+  const missing = [...new Set(tracked.map((t) => accountKey(t.handle)))].filter((key) => !seen.has(key));
+
+  const carried =
+    missing.length > 0
+      ? await db
+          .selectDistinctOn([accountSnapshots.handle])
+          .from(accountSnapshots)
+          .where(
+            and(
+              ofPlatform,
+              inArray(accountSnapshots.handle, missing),
+              eq(accountSnapshots.status, "accepted"),
+              lt(accountSnapshots.date, date)
+            )
+          )
+          .orderBy(accountSnapshots.handle, desc(accountSnapshots.date))
+      : [];
+
+  const rows = [...dayRows, ...carried];
+  const sum = (pick: (r: (typeof rows)[number]) => number) => rows.reduce((total, r) => total + pick(r), 0);
+  const followers = sum((r) => r.followers);
+  const postsCount = sum((r) => r.postsCount);
+  const avg = (total: number) => (postsCount > 0 ? Math.round(total / postsCount) : 0);
+  const avgLikes = avg(sum((r) => r.avgLikes * r.postsCount));
+  const avgComments = avg(sum((r) => r.avgComments * r.postsCount));
+  const avgShares = avg(sum((r) => r.avgShares * r.postsCount));
+  const quarantined = dayRows.some((r) => r.status === "quarantined");
+
+  // Compute growth rate by comparing against previous snapshot
+  let growthRate = 0;
+  if (followers > 0) {
+    const previousSnapshot = await db
+      .select({ followers: metricSnapshots.followers })
+      .from(metricSnapshots)
+      .where(
+        and(
+          eq(metricSnapshots.fandomId, fandomId),
+          eq(metricSnapshots.platform, platform),
+          eq(metricSnapshots.status, "accepted"),
+          sql`${metricSnapshots.date} < ${date}`
+        )
+      )
+      .orderBy(desc(metricSnapshots.date))
+      .limit(1);
+
+    if (previousSnapshot.length > 0 && previousSnapshot[0].followers > 0) {
+      growthRate = ((followers - previousSnapshot[0].followers) / previousSnapshot[0].followers) * 100;
+    }
+  }
+
+  // Engagement rate from the per-post averages
+  const engagementRate = followers > 0 ? ((avgLikes + avgComments + avgShares) / followers) * 100 : 0;
+
+  const snapshot = {
+    followers,
+    postsCount,
+    engagementTotal: sum((r) => r.engagementTotal),
+    engagementRate: engagementRate.toFixed(4),
+    growthRate: growthRate.toFixed(4),
+    avgLikes,
+    avgComments,
+    avgShares,
+    status: quarantined ? ("quarantined" as const) : ("accepted" as const),
+    source: "scrape",
+  };
+  await db
+    .insert(metricSnapshots)
+    .values({ fandomId, platform, date, ...snapshot })
+    .onConflictDoUpdate({
+      target: [metricSnapshots.fandomId, metricSnapshots.platform, metricSnapshots.date],
+      set: snapshot,
+    });
+}
+
 async function ingestGoogleTrends(
   rawItems: Record<string, unknown>[],
   fandomId?: string
@@ -319,15 +671,7 @@ async function ingestGoogleTrends(
 
     if (!matchedFandomId) continue;
 
-    // Batch collect all valid trend points for this search term
-    const batchValues: {
-      fandomId: string;
-      keyword: string;
-      date: string;
-      interestValue: number;
-      region: string;
-    }[] = [];
-
+    const points: Array<{ date: string; value: number }> = [];
     for (const point of timelineData) {
       const date = point.date || point.time || "";
       const value = point.value?.[0] ?? 0;
@@ -336,23 +680,18 @@ async function ingestGoogleTrends(
       const parsedDate = parseGoogleTrendsDate(date);
       if (!parsedDate) continue;
 
-      batchValues.push({
-        fandomId: matchedFandomId,
-        keyword: searchTerm,
-        date: parsedDate,
-        interestValue: value,
-        region: "PH",
-      });
+      points.push({ date: parsedDate, value });
     }
 
-    // Batch insert all trend points for this search term
-    if (batchValues.length > 0) {
-      await db.insert(googleTrends).values(batchValues).onConflictDoUpdate({
-        target: [googleTrends.fandomId, googleTrends.keyword, googleTrends.date, googleTrends.region],
-        set: { interestValue: sql`excluded.interest_value` },
-      });
-      inserted += batchValues.length;
-    }
+    // Merged into the stored history like any fetched window (see trends.service.ts)
+    const merged = await mergeTrendWindow({
+      fandomId: matchedFandomId,
+      keyword: searchTerm,
+      region: isTrendsGeo(item.geo) ? item.geo : DEFAULT_TRENDS_GEO,
+      source: "scrape",
+      points,
+    });
+    inserted += merged?.points ?? 0;
   }
 
   return inserted;
@@ -389,12 +728,13 @@ function parseGoogleTrendsDate(dateStr: string): string | null {
 export async function updateScrapeRun(
   datasetId: string,
   status: "succeeded" | "failed",
-  itemsCount: number
+  itemsCount: number,
+  error?: string
 ) {
   try {
     await db
       .update(scrapeRuns)
-      .set({ status, finishedAt: new Date(), itemsCount })
+      .set({ status, finishedAt: new Date(), itemsCount, error: error ?? null })
       .where(eq(scrapeRuns.apifyRunId, datasetId));
   } catch (e) {
     console.warn("[updateScrapeRun] Failed to update scrape run:", datasetId, e);
@@ -0,0 +1,102 @@
+import { db } from "@/lib/db";
+import { fandomKeywords, contentItems } from "@/lib/db/schema";
+import { and, asc, eq, gte, lt, sql } from "drizzle-orm";
+import type { FandomKeyword, KeywordType, Platform } from "@/types/fandom";
+
+export const KEYWORD_TYPES: KeywordType[] = ["hashtag", "search"];
+
+/**
+ * Canonical form of a keyword: hashtags lose their "#" and are lowercased
+ * (platforms treat them case-insensitively); search terms keep their case
+ * but collapse whitespace.
+ */
+export function normalizeKeywordValue(type: KeywordType, value: string): string {
+  const trimmed = value.trim().replace(/\s+/g, " ");
+  return type === "hashtag" ? trimmed.replace(/^#+/, "").replace(/\s/g, "").toLowerCase() : trimmed;
+}
+
+/**
+ * A fandom's keywords with the volume each one found: items it was first to
+ * scrape, published in the date range (YYYY-MM-DD, inclusive).
+ */
+export async function listFandomKeywords(
+  fandomId: string,
+  dateFrom?: string,
+  dateTo?: string
+): Promise<FandomKeyword[]> {
+  const joinConditions = [
+    eq(contentItems.fandomId, fandomKeywords.fandomId),
+    eq(contentItems.platform, fandomKeywords.platform),
+    sql`${contentItems.targetType}::text = ${fandomKeywords.type}::text`,
+    eq(contentItems.targetValue, fandomKeywords.value),
+  ];
+  if (dateFrom) joinConditions.push(gte(contentItems.publishedAt, new Date(`${dateFrom}T00:00:00Z`)));
+  if (dateTo) joinConditions.push(lt(contentItems.publishedAt, sql`(${dateTo}::date + 1)`));
+
+  const rows = await db
+    .select({
+      keyword: fandomKeywords,
+      postsCount: sql<number>`count(${contentItems.id})`,
+      engagementTotal: sql<number>`coalesce(sum(${contentItems.likes} + ${contentItems.comments} + ${contentItems.shares}), 0)`,
+    })
+    .from(fandomKeywords)
+    .leftJoin(contentItems, and(...joinConditions))
+    .where(eq(fandomKeywords.fandomId, fandomId))
+    .groupBy(fandomKeywords.id)
+    .orderBy(asc(fandomKeywords.platform), asc(fandomKeywords.type), asc(fandomKeywords.value));
+
+  return rows.map((r) => ({
+    id: r.keyword.id,
+    fandomId: r.keyword.fandomId,
+    platform: r.keyword.platform as Platform,
+    type: r.keyword.type,
+    value: r.keyword.value,
+    enabled: r.keyword.enabled,
+    lastScrapedAt: r.keyword.lastScrapedAt?.toISOString() ?? null,
+    postsCount: Number(r.postsCount),
+    engagementTotal: Number(r.engagementTotal),
+  }));
+}
+
+/** Returns null when the fandom already tracks this keyword on the platform */
+export async function addFandomKeyword(
+  fandomId: string,
+  keyword: { platform: Platform; type: KeywordType; value: string }
+): Promise<typeof fandomKeywords.$inferSelect | null> {
+  const [inserted] = await db
+    .insert(fandomKeywords)
+    .values({
+      fandomId,
+      platform: keyword.platform,
+      type: keyword.type,
+      value: normalizeKeywordValue(keyword.type, keyword.value),
+    })
+    .onConflictDoNothing()
+    .returning();
+
+  return inserted ?? null;
+}
+
+export async function setFandomKeywordEnabled(
+  fandomId: string,
+  keywordId: string,
+  enabled: boolean
+): Promise<boolean> {
+  const updated = await db
+    .update(fandomKeywords)
+    .set({ enabled })
+    .where(and(eq(fandomKeywords.id, keywordId), eq(fandomKeywords.fandomId, fandomId)))
+    .returning({ id: fandomKeywords.id });
+
+  return updated.length > 0;
+}
+
+/** Content the keyword found stays, still tagged with it */
+export async function deleteFandomKeyword(fandomId: string, keywordId: string): Promise<boolean> {
+  const deleted = await db
+    .delete(fandomKeywords)
+    .where(and(eq(fandomKeywords.id, keywordId), eq(fandomKeywords.fandomId, fandomId)))
+    .returning({ id: fandomKeywords.id });
+
+  return deleted.length > 0;
+}
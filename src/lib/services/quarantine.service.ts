@@ -0,0 +1,108 @@
+import { db } from "@/lib/db";
+import { fandoms, fandomPlatforms, accountSnapshots } from "@/lib/db/schema";
+import { and, asc, desc, eq, gt, sql } from "drizzle-orm";
+import { rollUpMetricSnapshot } from "@/lib/services/ingest.service";
+import { accountKey } from "@/lib/utils/accounts";
+import type { Platform, QuarantinedSnapshot } from "@/types/fandom";
+
+/**
+ * Review of account snapshots that ingestion quarantined (see
+ * findMetricAnomaly). Approving accepts the metrics as real; rejecting drops
+ * the snapshot. Either way the day's platform metric snapshot is rolled up
+ * again, so it leaves quarantine once none of its accounts are.
+ */
+
+export async function listQuarantinedSnapshots(): Promise<QuarantinedSnapshot[]> {
+  const previous = sql<number | null>`(
+    select prev.followers from ${accountSnapshots} prev
+    where prev.fandom_id = ${accountSnapshots.fandomId}
+      and prev.platform = ${accountSnapshots.platform}
+      and prev.handle = ${accountSnapshots.handle}
+      and prev.status = 'accepted'
+      and prev.date < ${accountSnapshots.date}
+    order by prev.date desc
+    limit 1
+  )`;
+
+  const rows = await db
+    .select({
+      snapshot: accountSnapshots,
+      fandomName: fandoms.name,
+      fandomSlug: fandoms.slug,
+      previousFollowers: previous,
+    })
+    .from(accountSnapshots)
+    .innerJoin(fandoms, eq(accountSnapshots.fandomId, fandoms.id))
+    .where(eq(accountSnapshots.status, "quarantined"))
+    .orderBy(desc(accountSnapshots.date), asc(fandoms.name));
+
+  return rows.map((r) => ({
+    id: r.snapshot.id,
+    fandomId: r.snapshot.fandomId,
+    fandomName: r.fandomName,
+    fandomSlug: r.fandomSlug,
+    platform: r.snapshot.platform as Platform,
+    handle: r.snapshot.handle,
+    date: r.snapshot.date,
+    followers: r.snapshot.followers,
+    previousFollowers: r.previousFollowers === null ? null : Number(r.previousFollowers),
+    avgEngagement: r.snapshot.avgLikes + r.snapshot.avgComments + r.snapshot.avgShares,
+    anomalyReason: r.snapshot.anomalyReason,
+  }));
+}
+
+/**
+ * Accept a quarantined snapshot. When it is the account's newest snapshot its
+ * followers also become the account's current follower count, which ingestion
+ * held back. Returns false when no quarantined snapshot has this id.
+ */
+export async function approveSnapshot(id: string): Promise<boolean> {
+  const [snapshot] = await db
+    .update(accountSnapshots)
+    .set({ status: "accepted", anomalyReason: null })
+    .where(and(eq(accountSnapshots.id, id), eq(accountSnapshots.status, "quarantined")))
+    .returning();
+  if (!snapshot) return false;
+
+  const newer = await db
+    .select({ id: accountSnapshots.id })
+    .from(accountSnapshots)
+    .where(
+      and(
+        eq(accountSnapshots.fandomId, snapshot.fandomId),
+        eq(accountSnapshots.platform, snapshot.platform),
+        eq(accountSnapshots.handle, snapshot.handle),
+        gt(accountSnapshots.date, snapshot.date)
+      )
+    )
+    .limit(1);
+
+  if (newer.length === 0 && snapshot.followers > 0) {
+    const accounts = await db
+      .select({ id: fandomPlatforms.id, handle: fandomPlatforms.handle })
+      .from(fandomPlatforms)
+      .where(and(eq(fandomPlatforms.fandomId, snapshot.fandomId), eq(fandomPlatforms.platform, snapshot.platform)));
+    const account = accounts.find((a) => accountKey(a.handle) === snapshot.handle);
+    if (account) {
+      await db
+        .update(fandomPlatforms)
+        .set({ followers: snapshot.followers })
+        .where(eq(fandomPlatforms.id, account.id));
+    }
+  }
+
+  await rollUpMetricSnapshot(snapshot.fandomId, snapshot.platform as Platform, snapshot.date);
+  return true;
+}
+
+/** Delete a quarantined snapshot. Returns false when no quarantined snapshot has this id. */
+export async function rejectSnapshot(id: string): Promise<boolean> {
+  const [snapshot] = await db
+    .delete(accountSnapshots)
+    .where(and(eq(accountSnapshots.id, id), eq(accountSnapshots.status, "quarantined")))
+    .returning();
+  if (!snapshot) return false;
+
+  await rollUpMetricSnapshot(snapshot.fandomId, snapshot.platform as Platform, snapshot.date);
+  return true;
+}
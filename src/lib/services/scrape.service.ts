@@ -1,22 +1,38 @@
+import { randomUUID } from "crypto";
 import { db } from "@/lib/db";
-import { fandoms, fandomPlatforms, scrapeRuns, googleTrends as googleTrends_table } from "@/lib/db/schema";
-import { eq } from "drizzle-orm";
-import { scrapeWithFailover } from "@/lib/providers";
-import { ingestRawItems, ingestDataset, updateScrapeRun } from "@/lib/services/ingest.service";
+import {
+  fandoms,
+  fandomPlatforms,
+  fandomKeywords,
+  scrapeRuns,
+  scrapeAttempts,
+  scrapeCursors,
+} from "@/lib/db/schema";
+import { and, eq, inArray, lt, sql } from "drizzle-orm";
+import {
+  scrapeWithFailover,
+  getProviderPriority,
+  getProvidersNearBudget,
+  type ProviderAttempt,
+  type ProviderName,
+  type ScrapeParams,
+} from "@/lib/providers";
+import { ingestRawItems, ingestDataset, updateScrapeRun, type IngestTarget } from "@/lib/services/ingest.service";
+import { archiveRawPayload } from "@/lib/services/archive.service";
+import { recordPayloadCheck } from "@/lib/services/drift.service";
+import { alignToAnchor, mergeTrendWindow } from "@/lib/services/trends.service";
+import { fetchPostComments } from "@/lib/services/comment.service";
 import { generateFandomInsights, generateAllFandomInsights, generateAllPageInsights } from "@/lib/services/ai.service";
-import type { Platform } from "@/types/fandom";
+import { enqueueScrapeJobs, type ScrapeJobTrigger } from "@/lib/queue/jobs";
+import { accountKey } from "@/lib/utils/accounts";
+import { resolveSearchKeywords, trendsQuery } from "@/lib/utils/search-keywords";
+import { LOW_PRIORITY_TIERS } from "@/lib/constants";
+import type { Platform, KeywordType } from "@/types/fandom";
 
 // Keep legacy imports for the trigger endpoint (unchanged)
 export { runActor } from "@/lib/apify/client";
 export { actorConfigs } from "@/lib/apify/actors";
 
-const DELAY_BETWEEN_BATCHES_MS = 2000;
-const FANDOMS_PER_BATCH = 3;
-
-function delay(ms: number) {
-  return new Promise((resolve) => setTimeout(resolve, ms));
-}
-
 export interface ScrapeResult {
   fandomId: string;
   platform: string;
@@ -27,12 +43,29 @@ export interface ScrapeResult {
   source?: string;
   /** Whether failover was triggered */
   failoverTriggered?: boolean;
+  /** scrape_runs row recording this attempt */
+  scrapeRunId?: string;
 }
 
+/** A target's result plus the posts it found that have comments, most engaged first */
+type TargetResult = ScrapeResult & { commentedContent?: Array<{ id: string; url: string; engagement: number }> };
+
 /**
- * Scrape a single platform for a single fandom.
- * Uses the failover provider system: tries primary provider first,
- * then automatically falls back to secondary on failure.
+ * Scrape a single platform for a single fandom: each of its accounts (the
+ * fandom_platforms handles — official, fanbase, news, ...) and then each
+ * enabled hashtag/search keyword. Every target gets its own scrape run; the
+ * result sums their items.
+ *
+ * The job succeeds when any account scrape does. A keyword failure is
+ * recorded on its run but doesn't re-queue the accounts; with no account
+ * configured, any keyword succeeding is enough.
+ *
+ * When the fandom has scrapeCommentPosts set, the comments on that many of the
+ * most engaged posts found across all targets are fetched afterwards.
+ *
+ * Low-priority fandoms (LOW_PRIORITY_TIERS) don't use providers near their
+ * monthly budget; when every provider on the route is, the scrape is skipped
+ * and reported as a success so the job isn't retried.
  */
 export async function scrapeFandomPlatform(
   fandomId: string,
@@ -50,14 +83,145 @@ export async function scrapeFandomPlatform(
   }
   const fandom = fandomRows[0];
 
-  // Get the handle for this platform
-  const platformRows = await db
+  const skipProviders = LOW_PRIORITY_TIERS.includes(fandom.tier) ? await getProvidersNearBudget() : [];
+  if (skipProviders.length > 0) {
+    const route = await getProviderPriority(platform, fandomId);
+    if (route.every((p) => skipProviders.includes(p))) {
+      console.log(`[Scrape] ${fandom.name} (${platform}) skipped: ${route.join(", ")} near monthly budget`);
+      return {
+        fandomId,
+        platform,
+        success: true,
+        itemsCount: 0,
+        error: `Skipped: ${route.join(", ")} near monthly budget`,
+      };
+    }
+  }
+
+  const { handles, keywords } = await getScrapeTargets(fandom, platform);
+
+  const results: ScrapeResult[] = [];
+  const commented: NonNullable<TargetResult["commentedContent"]> = [];
+  const collect = ({ commentedContent, ...result }: TargetResult) => {
+    results.push(result);
+    commented.push(...(commentedContent ?? []));
+  };
+
+  for (const handle of handles) {
+    collect(await scrapeTarget(fandom, platform, { type: "handle", value: handle }, skipProviders));
+  }
+
+  for (const keyword of keywords) {
+    collect(await scrapeTarget(fandom, platform, { type: keyword.type, value: keyword.value }, skipProviders));
+    await db
+      .update(fandomKeywords)
+      .set({ lastScrapedAt: new Date() })
+      .where(eq(fandomKeywords.id, keyword.id));
+  }
+
+  if (fandom.scrapeCommentPosts > 0) {
+    const posts = new Map(commented.map((post) => [post.id, post]));
+    const top = [...posts.values()].sort((a, b) => b.engagement - a.engagement).slice(0, fandom.scrapeCommentPosts);
+    if (top.length > 0) await fetchPostComments(fandomId, platform, top, skipProviders);
+  }
+
+  if (results.length === 1) return results[0];
+
+  const accountResults = results.slice(0, handles.length);
+  const success = (accountResults.length > 0 ? accountResults : results).some((r) => r.success);
+  return {
+    ...results[0],
+    success,
+    itemsCount: results.reduce((sum, r) => sum + r.itemsCount, 0),
+    error: success
+      ? undefined
+      : results
+          .filter((r) => r.error)
+          .map((r) => r.error)
+          .join("; "),
+  };
+}
+
+/**
+ * What one fandom-platform scrape covers: each account handle, then each
+ * enabled keyword. A platform with neither falls back to the fandom name as
+ * the handle.
+ */
+export async function getScrapeTargets(
+  fandom: { id: string; name: string },
+  platform: Platform
+): Promise<{ handles: string[]; keywords: Array<typeof fandomKeywords.$inferSelect> }> {
+  const accounts = await db
     .select()
     .from(fandomPlatforms)
-    .where(eq(fandomPlatforms.fandomId, fandomId));
+    .where(and(eq(fandomPlatforms.fandomId, fandom.id), eq(fandomPlatforms.platform, platform)));
 
-  const platformEntry = platformRows.find((p) => p.platform === platform);
-  const handle = platformEntry?.handle || fandom.name;
+  const keywords = await db
+    .select()
+    .from(fandomKeywords)
+    .where(
+      and(
+        eq(fandomKeywords.fandomId, fandom.id),
+        eq(fandomKeywords.platform, platform),
+        eq(fandomKeywords.enabled, true)
+      )
+    );
+
+  const handles = accounts.length > 0 ? accounts.map((a) => a.handle) : keywords.length === 0 ? [fandom.name] : [];
+  return { handles, keywords };
+}
+
+/**
+ * Scrape one target through the failover provider system: tries the primary
+ * provider first, then automatically falls back to secondary on failure.
+ *
+ * Account scrapes page back to that account's cursor and advance it.
+ * Keyword feeds are mostly ranked rather than chronological, so they always
+ * fetch up to the item cap and rely on ingest to dedupe.
+ */
+async function scrapeTarget(
+  fandom: typeof fandoms.$inferSelect,
+  platform: Platform,
+  target: IngestTarget,
+  skipProviders: ProviderName[] = []
+): Promise<TargetResult> {
+  const fandomId = fandom.id;
+  const isAccount = target.type === "handle";
+  const label = isAccount ? `${platform} @${accountKey(target.value)}` : `${platform} ${formatKeyword(target.type, target.value)}`;
+
+  let params: ScrapeParams;
+  if (isAccount) {
+    const [cursor] = await db
+      .select()
+      .from(scrapeCursors)
+      .where(
+        and(
+          eq(scrapeCursors.fandomId, fandomId),
+          eq(scrapeCursors.platform, platform),
+          eq(scrapeCursors.handle, accountKey(target.value))
+        )
+      )
+      .limit(1);
+
+    params = {
+      handle: target.value,
+      keyword: fandom.name,
+      limit: fandom.scrapeItemCap,
+      since: cursor
+        ? {
+            publishedAt: cursor.lastPublishedAt?.toISOString() ?? null,
+            externalId: cursor.lastExternalId,
+          }
+        : undefined,
+    };
+  } else {
+    params = {
+      handle: formatKeyword(target.type, target.value),
+      keyword: target.value,
+      feed: target.type as KeywordType,
+      limit: fandom.scrapeItemCap,
+    };
+  }
 
   // Insert scrape run record
   const [scrapeRun] = await db
@@ -68,18 +232,18 @@ export async function scrapeFandomPlatform(
       platform,
       status: "running",
       startedAt: new Date(),
+      targetType: target.type,
+      targetValue: target.value,
     })
     .returning({ id: scrapeRuns.id });
 
   try {
-    console.log(`[Scrape] ${fandom.name} (${platform}) — using failover provider system`);
+    console.log(`[Scrape] ${fandom.name} (${label}) — using failover provider system`);
 
     // Use the failover system
-    const result = await scrapeWithFailover(platform, {
-      handle,
-      keyword: fandom.name,
-      limit: 20,
-    });
+    const result = await scrapeWithFailover(platform, params, { fandomId: fandom.id, skipProviders });
+
+    await recordScrapeAttempts(scrapeRun.id, result.attempts);
 
     if (!result.success || result.items.length === 0) {
       // Mark as failed but don't throw
@@ -89,6 +253,7 @@ export async function scrapeFandomPlatform(
           status: "failed",
           finishedAt: new Date(),
           actorId: `failover/${platform}/${result.source}`,
+          error: result.error ?? "No results",
         })
         .where(eq(scrapeRuns.id, scrapeRun.id))
         .catch((e) => console.error(`[Scrape] Failed to update scrape run:`, e));
@@ -98,6 +263,7 @@ export async function scrapeFandomPlatform(
         return {
           fandomId,
           platform,
+          scrapeRunId: scrapeRun.id,
           success: true,
           itemsCount: 0,
           source: result.source,
@@ -109,6 +275,7 @@ export async function scrapeFandomPlatform(
       return {
         fandomId,
         platform,
+        scrapeRunId: scrapeRun.id,
         success: false,
         itemsCount: 0,
         source: result.source,
@@ -126,12 +293,28 @@ export async function scrapeFandomPlatform(
       })
       .where(eq(scrapeRuns.id, scrapeRun.id));
 
+    await archiveRawPayload({
+      scrapeRunId: scrapeRun.id,
+      fandomId: fandom.id,
+      platform,
+      source: result.source,
+      items: result.items,
+    });
+    await recordPayloadCheck({
+      scrapeRunId: scrapeRun.id,
+      platform,
+      source: result.source,
+      targetType: target.type,
+      items: result.items,
+    });
+
     // Ingest the results
     const ingestResult = await ingestRawItems({
       rawItems: result.items,
       fandomId: fandom.id,
       platform,
       source: result.source,
+      target,
     });
 
     // Update scrape run status
@@ -141,29 +324,41 @@ export async function scrapeFandomPlatform(
         status: ingestResult.success ? "succeeded" : "failed",
         finishedAt: new Date(),
         itemsCount: ingestResult.itemsCount,
+        error: ingestResult.error ?? null,
       })
       .where(eq(scrapeRuns.id, scrapeRun.id));
 
+    if (isAccount && ingestResult.success && ingestResult.newestContent) {
+      await advanceScrapeCursor(fandom.id, platform, target.value, ingestResult.newestContent);
+    }
+
     return {
       fandomId,
       platform,
+      scrapeRunId: scrapeRun.id,
       success: ingestResult.success,
       itemsCount: ingestResult.itemsCount,
       source: result.source,
       failoverTriggered: result.failoverTriggered,
+      commentedContent: ingestResult.commentedContent,
     };
   } catch (error) {
-    console.error(`[Scrape] Failed for ${fandom.name} (${platform}):`, error);
+    console.error(`[Scrape] Failed for ${fandom.name} (${label}):`, error);
 
     await db
       .update(scrapeRuns)
-      .set({ status: "failed", finishedAt: new Date() })
+      .set({
+        status: "failed",
+        finishedAt: new Date(),
+        error: error instanceof Error ? error.message : "Unknown error",
+      })
       .where(eq(scrapeRuns.id, scrapeRun.id))
       .catch((e) => console.error(`[Scrape] Failed to update scrape run:`, e));
 
     return {
       fandomId,
       platform,
+      scrapeRunId: scrapeRun.id,
       success: false,
       itemsCount: 0,
       error: error instanceof Error ? error.message : "Unknown error",
@@ -171,213 +366,283 @@ export async function scrapeFandomPlatform(
   }
 }
 
+function formatKeyword(type: IngestTarget["type"], value: string): string {
+  return type === "hashtag" ? `#${value}` : `"${value}"`;
+}
+
+/** Move an account's cursor forward; it never moves back to an older post */
+export async function advanceScrapeCursor(
+  fandomId: string,
+  platform: Platform,
+  handle: string,
+  newest: { publishedAt: Date; externalId: string }
+): Promise<void> {
+  const isNewer = sql`(${scrapeCursors.lastPublishedAt} is null or excluded.last_published_at > ${scrapeCursors.lastPublishedAt})`;
+  await db
+    .insert(scrapeCursors)
+    .values({
+      fandomId,
+      platform,
+      handle: accountKey(handle),
+      lastPublishedAt: newest.publishedAt,
+      lastExternalId: newest.externalId,
+      updatedAt: new Date(),
+    })
+    .onConflictDoUpdate({
+      target: [scrapeCursors.fandomId, scrapeCursors.platform, scrapeCursors.handle],
+      set: {
+        lastPublishedAt: sql`case when ${isNewer} then excluded.last_published_at else ${scrapeCursors.lastPublishedAt} end`,
+        lastExternalId: sql`case when ${isNewer} then excluded.last_external_id else ${scrapeCursors.lastExternalId} end`,
+        updatedAt: new Date(),
+      },
+    });
+}
+
+/** Persist the failover provider trail; logging must never fail the scrape */
+async function recordScrapeAttempts(scrapeRunId: string, attempts: ProviderAttempt[]): Promise<void> {
+  if (attempts.length === 0) return;
+  try {
+    await db.insert(scrapeAttempts).values(
+      attempts.map((a, i) => ({
+        scrapeRunId,
+        attemptNumber: i + 1,
+        provider: a.provider,
+        outcome: a.outcome,
+        httpStatus: a.httpStatus ?? null,
+        error: a.error ?? null,
+        latencyMs: a.latencyMs,
+        itemCount: a.itemCount,
+        failoverReason: a.failoverReason ?? null,
+      }))
+    );
+  } catch (error) {
+    console.warn(`[Scrape] Failed to record attempts for run ${scrapeRunId}:`, error);
+  }
+}
+
+const DEFAULT_SCRAPE_RUN_TIMEOUT_MINUTES = 60;
+
 /**
- * Scrape all configured platforms for a single fandom, sequentially.
+ * Fail scrape runs still "running" or "ingesting" after
+ * SCRAPE_RUN_TIMEOUT_MINUTES (default 60): async Apify runs whose completion
+ * webhook never arrived or died mid-ingest, and in-process scrapes cut off by
+ * a restart. A webhook arriving later is then ignored.
+ * Runs from the scheduler tick; returns how many runs were failed.
  */
-export async function scrapeAllPlatformsForFandom(
-  fandomId: string
-): Promise<ScrapeResult[]> {
-  const platformRows = await db
-    .select()
-    .from(fandomPlatforms)
-    .where(eq(fandomPlatforms.fandomId, fandomId));
+export async function reapStuckScrapeRuns(): Promise<number> {
+  const timeoutMinutes = Number(process.env.SCRAPE_RUN_TIMEOUT_MINUTES) || DEFAULT_SCRAPE_RUN_TIMEOUT_MINUTES;
+  const cutoff = new Date(Date.now() - timeoutMinutes * 60 * 1000);
+
+  const reaped = await db
+    .update(scrapeRuns)
+    .set({
+      status: "failed",
+      finishedAt: new Date(),
+      error: `Timed out: still running after ${timeoutMinutes} minutes`,
+    })
+    .where(and(inArray(scrapeRuns.status, ["running", "ingesting"]), lt(scrapeRuns.startedAt, cutoff)))
+    .returning({ id: scrapeRuns.id });
 
-  const platformKeys = platformRows
-    .map((p) => p.platform as Platform)
-    .filter((p) => p !== undefined);
+  return reaped.length;
+}
 
-  // Run all platforms in parallel
-  const settled = await Promise.allSettled(
-    platformKeys.map((platform) => scrapeFandomPlatform(fandomId, platform))
-  );
+/**
+ * Queue a scrape of every configured platform for a single fandom.
+ * The work itself runs in the scrape worker (see lib/queue/worker.ts).
+ */
+export async function enqueueFandomScrape(
+  fandomId: string,
+  trigger: ScrapeJobTrigger,
+  batchId?: string
+): Promise<{ enqueued: number; skipped: number }> {
+  return enqueueScrapeJobs(await getScrapePairs([fandomId]), { trigger, batchId });
+}
 
-  const results = settled.map((result, i) =>
-    result.status === "fulfilled"
-      ? result.value
-      : { fandomId, platform: platformKeys[i], success: false, itemsCount: 0, error: String(result.reason) }
-  );
+/**
+ * Fandom-platform pairs with something to scrape: an account in
+ * fandom_platforms or an enabled keyword. Omitting fandomIds covers every fandom.
+ */
+async function getScrapePairs(
+  fandomIds?: string[]
+): Promise<Array<{ fandomId: string; platform: Platform }>> {
+  const [platformRows, keywordRows] = await Promise.all([
+    db
+      .select({ fandomId: fandomPlatforms.fandomId, platform: fandomPlatforms.platform })
+      .from(fandomPlatforms)
+      .where(fandomIds ? inArray(fandomPlatforms.fandomId, fandomIds) : undefined),
+    db
+      .selectDistinct({ fandomId: fandomKeywords.fandomId, platform: fandomKeywords.platform })
+      .from(fandomKeywords)
+      .where(
+        and(
+          eq(fandomKeywords.enabled, true),
+          fandomIds ? inArray(fandomKeywords.fandomId, fandomIds) : undefined
+        )
+      ),
+  ]);
+
+  const pairs = new Map<string, { fandomId: string; platform: Platform }>();
+  for (const row of [...platformRows, ...keywordRows]) {
+    pairs.set(`${row.fandomId}:${row.platform}`, { fandomId: row.fandomId, platform: row.platform as Platform });
+  }
+  return [...pairs.values()];
+}
 
-  // Generate AI insights for this fandom after scraping
+/**
+ * Post-processing once every queued platform for a fandom has finished:
+ * regenerate its AI insights and refresh regional and related Google Trends.
+ */
+export async function finalizeFandomScrape(fandomId: string): Promise<void> {
   try {
     await generateFandomInsights(fandomId);
   } catch (error) {
     console.error(`[Scrape] AI insight generation failed for ${fandomId}:`, error);
   }
 
-  // Trigger regional Google Trends collection for this fandom
-  try {
-    const baseUrl = process.env.NEXT_PUBLIC_APP_URL || 'https://pldt-fandom.aiailabs.net';
-    await fetch(`${baseUrl}/api/scrape/regional-trends`, {
-      method: 'POST',
-      headers: {
-        'X-API-Secret': process.env.PLDT_API_SECRET || '',
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({ fandomIds: [fandomId] }),
-    });
-    console.log(`[Scrape] Triggered regional trends collection for ${fandomId}`);
-  } catch (error) {
-    console.error(`[Scrape] Regional trends trigger failed for ${fandomId}:`, error);
-  }
+  await triggerTrendsCollectors([fandomId]);
+}
 
-  return results;
+/**
+ * Fire-and-forget calls to the Google Trends collectors: regional interest,
+ * then related queries and topics. Omitting fandomIds collects for all fandoms.
+ */
+async function triggerTrendsCollectors(fandomIds?: string[]): Promise<void> {
+  const baseUrl = process.env.NEXT_PUBLIC_APP_URL || 'https://pldt-fandom.aiailabs.net';
+  for (const collector of ['regional-trends', 'related-trends']) {
+    try {
+      await fetch(`${baseUrl}/api/scrape/${collector}`, {
+        method: 'POST',
+        headers: {
+          'X-API-Secret': process.env.PLDT_API_SECRET || '',
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(fandomIds ? { fandomIds } : {}),
+      });
+      console.log(`[Scrape] Triggered ${collector} collection for ${fandomIds ? fandomIds.join(", ") : "all fandoms"}`);
+    } catch (error) {
+      console.error(`[Scrape] ${collector} trigger failed:`, error);
+    }
+  }
 }
 
 /**
  * Scrape Google Trends for all tracked fandoms.
  * Uses comparative batch queries (5 keywords per batch) so values are
- * normalized relative to each other, not individually.
+ * normalized relative to each other, not individually. Each 3-month window
+ * is merged into the stored history, which keeps older points, with one
+ * alignment factor per country taken from the anchor's stored series. Every country
+ * in a fandom's geo set gets its own comparative run, with the fandoms that
+ * track it, stored under that country's code as the region.
  */
 export async function scrapeGoogleTrends(): Promise<{
   total: number;
   succeeded: number;
   failed: number;
-  results: Array<{ fandom: string; keyword: string; dataPoints: number; error?: string }>;
+  results: Array<{ fandom: string; keyword: string; geo: string; dataPoints: number; error?: string }>;
 }> {
   const { fetchGoogleTrendsComparative } = await import("@/lib/google-trends/client");
 
   const allFandoms = await db.select().from(fandoms);
 
-  // Build keyword map: use disambiguated names for Google search
-  const keywordMap: Map<string, { id: string; name: string }> = new Map();
+  // Each fandom is searched by its configured keywords (see utils/search-keywords.ts),
+  // in each country it tracks
+  const keywordMaps = new Map<string, Map<string, { id: string; name: string }>>();
   for (const f of allFandoms) {
-    const keyword = simplifyKeyword(f.name);
-    keywordMap.set(keyword, { id: f.id, name: f.name });
+    const keyword = trendsQuery(resolveSearchKeywords(f));
+    for (const geo of f.trendsGeos) {
+      if (!keywordMaps.has(geo)) keywordMaps.set(geo, new Map());
+      keywordMaps.get(geo)!.set(keyword, { id: f.id, name: f.name });
+    }
   }
 
-  const keywords = Array.from(keywordMap.keys());
-  console.log(`[GoogleTrends] Scraping ${keywords.length} keywords in comparative batches...`);
-
-  const trendResults = await fetchGoogleTrendsComparative(keywords, "PH", "today 3-m");
-
-  const results: Array<{ fandom: string; keyword: string; dataPoints: number; error?: string }> = [];
+  const results: Array<{ fandom: string; keyword: string; geo: string; dataPoints: number; error?: string }> = [];
   let succeeded = 0;
   let failed = 0;
 
-  for (const trend of trendResults) {
-    const fandom = keywordMap.get(trend.keyword);
-    if (!fandom) continue;
+  for (const [geo, keywordMap] of keywordMaps) {
+    const keywords = Array.from(keywordMap.keys());
+    console.log(`[GoogleTrends] Scraping ${keywords.length} keywords in ${geo} in comparative batches...`);
+
+    const trendResults = await fetchGoogleTrendsComparative(keywords, geo, "today 3-m");
+
+    // One alignment factor for the whole fetch, from the anchor's stored series
+    const anchorKeyword = trendResults[0]?.anchor;
+    const alignment = anchorKeyword
+      ? await alignToAnchor({ region: geo, anchorKeyword, anchorPoints: trendResults[0].anchorPoints ?? [] })
+      : undefined;
 
-    if (trend.error || trend.dataPoints.length === 0) {
-      results.push({ fandom: fandom.name, keyword: trend.keyword, dataPoints: 0, error: trend.error || "No data" });
-      failed++;
-    } else {
-      await db.delete(googleTrends_table).where(eq(googleTrends_table.fandomId, fandom.id));
+    for (const trend of trendResults) {
+      const fandom = keywordMap.get(trend.keyword);
+      if (!fandom) continue;
 
-      for (const point of trend.dataPoints) {
-        await db.insert(googleTrends_table).values({
+      if (trend.error || trend.dataPoints.length === 0) {
+        results.push({ fandom: fandom.name, keyword: trend.keyword, geo, dataPoints: 0, error: trend.error || "No data" });
+        failed++;
+      } else {
+        // Merged into the stored history rather than replacing it (see trends.service.ts)
+        await mergeTrendWindow({
           fandomId: fandom.id,
           keyword: trend.keyword,
-          date: point.date,
-          interestValue: point.value,
-          region: "PH",
+          region: geo,
+          source: "scrape",
+          points: trend.dataPoints,
+          anchorKeyword: trend.anchor,
+          scaleFactor: trend.scaleFactor,
+          alignment,
         });
-      }
 
-      results.push({ fandom: fandom.name, keyword: trend.keyword, dataPoints: trend.dataPoints.length });
-      succeeded++;
+        results.push({ fandom: fandom.name, keyword: trend.keyword, geo, dataPoints: trend.dataPoints.length });
+        succeeded++;
+      }
     }
   }
 
-  // Trigger regional Google Trends collection after comparative scrape
-  try {
-    const baseUrl = process.env.NEXT_PUBLIC_APP_URL || 'https://pldt-fandom.aiailabs.net';
-    await fetch(`${baseUrl}/api/scrape/regional-trends`, {
-      method: 'POST',
-      headers: {
-        'X-API-Secret': process.env.PLDT_API_SECRET || '',
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({}), // Empty body = all fandoms
-    });
-    console.log('[GoogleTrends] Triggered regional trends collection for all fandoms');
-  } catch (error) {
-    console.error('[GoogleTrends] Regional trends trigger failed:', error);
-  }
+  // Trigger regional and related Google Trends collection after comparative scrape
+  await triggerTrendsCollectors();
 
   return { total: allFandoms.length, succeeded, failed, results };
 }
 
 /**
- * Simplify a fandom name into a disambiguated Google-searchable keyword.
+ * Queue a scrape of every fandom across all their configured platforms.
+ * All jobs share one batchId so the worker can run page-level
+ * post-processing once the whole batch has drained.
  */
-function simplifyKeyword(name: string): string {
-  const mappings: Record<string, string> = {
-    "BINI Blooms": "BINI",
-    "BTS ARMY": "BTS",
-    "NewJeans Bunnies": "NewJeans",
-    "SEVENTEEN CARAT": "SEVENTEEN kpop",
-    "KAIA Fans": "KAIA girl group",
-    "ALAMAT Fans": "ALAMAT pboy group",
-    "G22 Fans": "G22 girl group",
-    "VXON - Vixies": "VXON group",
-    "YGIG - WeGo": "YGIG group",
-    "JMFyang Fans": "JMFyang",
-    "AshDres Fans": "AshDres",
-    "AlDub Nation": "AlDub",
-    "Cup of Joe (Joewahs)": "Cup of Joe band",
-    "Team Payaman / Cong TV Universe Fans": "Cong TV",
-    "r/DragRacePhilippines": "Drag Race Philippines",
-  };
+export async function enqueueAllFandoms(
+  trigger: ScrapeJobTrigger
+): Promise<{ batchId: string; enqueued: number; skipped: number }> {
+  const batchId = randomUUID();
+  const { enqueued, skipped } = await enqueueScrapeJobs(await getScrapePairs(), { trigger, batchId });
 
-  if (mappings[name]) return mappings[name];
-
-  if (name.includes("SB19")) return "SB19";
-  if (name.includes("PLUUS")) return "PLUUS band";
-  if (name.includes("MLBB") || name.includes("MPL")) return "MPL Philippines";
-  if (name.includes("Roblox")) return "Roblox Philippines";
-  if (name.includes("Genshin")) return "Genshin Impact Philippines";
-  if (name.includes("Valorant")) return "Valorant Philippines";
-  if (name.includes("BookTok")) return "BookTok Philippines";
-  if (name.includes("Cosplay")) return "Cosplay Philippines";
-
-  const cleaned = name.split(/[/\\(]/)[0].trim();
-  const words = cleaned.split(/\s+/);
-  return words.slice(0, 2).join(" ");
+  return { batchId, enqueued, skipped };
 }
 
 /**
- * Scrape all fandoms across all their configured platforms, sequentially.
+ * Queue every configured platform for a set of fandoms as a single batch
+ * (used by the scheduler, where one tick can cover several fandoms).
  */
-export async function scrapeAllFandoms(): Promise<ScrapeResult[]> {
-  const allFandoms = await db.select().from(fandoms);
-  const allResults: ScrapeResult[] = [];
+export async function enqueueFandomsScrape(
+  fandomIds: string[],
+  trigger: ScrapeJobTrigger
+): Promise<{ batchId: string; enqueued: number; skipped: number }> {
+  const batchId = randomUUID();
+  if (fandomIds.length === 0) return { batchId, enqueued: 0, skipped: 0 };
 
-  // Process fandoms in batches of FANDOMS_PER_BATCH concurrently
-  for (let i = 0; i < allFandoms.length; i += FANDOMS_PER_BATCH) {
-    const batch = allFandoms.slice(i, i + FANDOMS_PER_BATCH);
-    const batchResults = await Promise.all(
-      batch.map((f) => scrapeAllPlatformsForFandom(f.id))
-    );
-    allResults.push(...batchResults.flat());
+  const { enqueued, skipped } = await enqueueScrapeJobs(await getScrapePairs(fandomIds), { trigger, batchId });
 
-    if (i + FANDOMS_PER_BATCH < allFandoms.length) {
-      await delay(DELAY_BETWEEN_BATCHES_MS);
-    }
-  }
+  return { batchId, enqueued, skipped };
+}
 
-  // Generate page-level AI insights after all scraping is done
+/**
+ * Post-processing once a multi-fandom batch has drained:
+ * regenerate page-level AI insights and refresh regional and related trends for everyone.
+ */
+export async function finalizeGlobalScrape(): Promise<void> {
   try {
     await generateAllPageInsights();
   } catch (error) {
     console.error("[Scrape] Page insight generation failed:", error);
   }
 
-  // Trigger regional Google Trends collection for all fandoms
-  try {
-    const baseUrl = process.env.NEXT_PUBLIC_APP_URL || 'https://pldt-fandom.aiailabs.net';
-    await fetch(`${baseUrl}/api/scrape/regional-trends`, {
-      method: 'POST',
-      headers: {
-        'X-API-Secret': process.env.PLDT_API_SECRET || '',
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({}),
-    });
-    console.log('[Scrape] Triggered regional trends collection for all fandoms');
-  } catch (error) {
-    console.error('[Scrape] Regional trends trigger failed:', error);
-  }
-
-  return allResults;
+  await triggerTrendsCollectors();
 }
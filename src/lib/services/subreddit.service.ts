@@ -0,0 +1,102 @@
+import { db } from "@/lib/db";
+import { fandomPlatforms, accountSnapshots, contentItems } from "@/lib/db/schema";
+import { and, asc, desc, eq, gte, lte, lt, sql } from "drizzle-orm";
+import { accountKey } from "@/lib/utils/accounts";
+import type { SubredditStats } from "@/types/fandom";
+
+const TOP_POSTS = 5;
+
+/**
+ * Community stats for each of a fandom's subreddits (its Reddit accounts):
+ * subscribers and active users from account_snapshots, daily post/comment
+ * volume and top posts from the content scraped from the subreddit. The date
+ * range is YYYY-MM-DD, inclusive.
+ */
+export async function listFandomSubreddits(
+  fandomId: string,
+  dateFrom?: string,
+  dateTo?: string
+): Promise<SubredditStats[]> {
+  const accounts = await db
+    .select({ handle: fandomPlatforms.handle })
+    .from(fandomPlatforms)
+    .where(and(eq(fandomPlatforms.fandomId, fandomId), eq(fandomPlatforms.platform, "reddit")))
+    .orderBy(asc(fandomPlatforms.handle));
+
+  return Promise.all(accounts.map(({ handle }) => getSubredditStats(fandomId, handle, dateFrom, dateTo)));
+}
+
+async function getSubredditStats(
+  fandomId: string,
+  handle: string,
+  dateFrom?: string,
+  dateTo?: string
+): Promise<SubredditStats> {
+  const snapshotConditions = [
+    eq(accountSnapshots.fandomId, fandomId),
+    eq(accountSnapshots.platform, "reddit"),
+    eq(accountSnapshots.handle, accountKey(handle)),
+    eq(accountSnapshots.status, "accepted"),
+  ];
+  if (dateFrom) snapshotConditions.push(gte(accountSnapshots.date, dateFrom));
+  if (dateTo) snapshotConditions.push(lte(accountSnapshots.date, dateTo));
+
+  // Posts credited to this subreddit's scrapes
+  const contentConditions = [
+    eq(contentItems.fandomId, fandomId),
+    eq(contentItems.platform, "reddit"),
+    sql`${contentItems.targetType}::text = 'handle'`,
+    sql`lower(${contentItems.targetValue}) = lower(${handle})`,
+  ];
+  if (dateFrom) contentConditions.push(gte(contentItems.publishedAt, new Date(`${dateFrom}T00:00:00Z`)));
+  if (dateTo) contentConditions.push(lt(contentItems.publishedAt, sql`(${dateTo}::date + 1)`));
+
+  const day = sql<string>`to_char(${contentItems.publishedAt}, 'YYYY-MM-DD')`;
+  const [snapshots, daily, topPosts] = await Promise.all([
+    db
+      .select({
+        date: accountSnapshots.date,
+        followers: accountSnapshots.followers,
+        activeUsers: accountSnapshots.activeUsers,
+      })
+      .from(accountSnapshots)
+      .where(and(...snapshotConditions))
+      .orderBy(asc(accountSnapshots.date)),
+    db
+      .select({
+        date: day,
+        posts: sql<number>`count(*)`,
+        comments: sql<number>`coalesce(sum(${contentItems.comments}), 0)`,
+      })
+      .from(contentItems)
+      .where(and(...contentConditions, sql`${contentItems.publishedAt} is not null`))
+      .groupBy(day)
+      .orderBy(asc(day)),
+    db
+      .select()
+      .from(contentItems)
+      .where(and(...contentConditions))
+      .orderBy(desc(contentItems.likes))
+      .limit(TOP_POSTS),
+  ]);
+
+  const first = snapshots[0];
+  const latest = snapshots[snapshots.length - 1];
+
+  return {
+    handle: handle.replace(/^\/?r\//i, ""),
+    subscribers: latest?.followers ?? 0,
+    subscriberChange: latest && first ? latest.followers - first.followers : 0,
+    activeUsers: latest?.activeUsers ?? null,
+    lastSnapshotDate: latest?.date ?? null,
+    daily: daily.map((d) => ({ date: d.date, posts: Number(d.posts), comments: Number(d.comments) })),
+    topPosts: topPosts.map((p) => ({
+      id: p.id,
+      text: p.text,
+      url: p.url,
+      likes: p.likes,
+      comments: p.comments,
+      publishedAt: p.publishedAt?.toISOString() ?? null,
+    })),
+  };
+}
@@ -0,0 +1,336 @@
+import { db } from "@/lib/db";
+import { fandoms, googleTrends, googleTrendsAnchors, googleTrendsFetches, googleTrendsRelated } from "@/lib/db/schema";
+import { and, asc, eq, gte, lte, sql, type SQL } from "drizzle-orm";
+import type { RelatedSearchItem } from "@/lib/google-trends/related";
+import { DEFAULT_TRENDS_GEO } from "@/lib/constants";
+import { resolveSearchKeywords, trendsQuery } from "@/lib/utils/search-keywords";
+import type { CountryTrend, RelatedSearch } from "@/types/fandom";
+
+/**
+ * Google Trends history. Each fetch is a window (3 months for comparative
+ * scrapes) that Google scales on its own, so a new window is aligned to the
+ * stored series over the days they share before it is merged in. Points
+ * outside the window are kept, so history grows past 90 days.
+ *
+ * A comparative fetch is aligned once, on its anchor keyword's stored series,
+ * and every keyword in it gets that factor; aligning each keyword on its own
+ * overlap would let series drift apart and leave new ones unaligned.
+ */
+
+/** Fewer shared non-zero days than this and the window is merged unaligned */
+const MIN_OVERLAP_DAYS = 7;
+
+export interface TrendWindow {
+  fandomId: string;
+  keyword: string;
+  region?: string;
+  source: "scrape" | "upload";
+  points: Array<{ date: string; value: number }>;
+  anchorKeyword?: string | null;
+  scaleFactor?: number | null;
+  /** Set for comparative fetches (see alignToAnchor); otherwise taken from this series' overlap */
+  alignment?: TrendAlignment;
+}
+
+export interface TrendAlignment {
+  alignFactor: number;
+  overlapDays: number;
+}
+
+export interface TrendMergeResult {
+  fetchId: string;
+  alignFactor: number;
+  overlapDays: number;
+  points: number;
+}
+
+/**
+ * Ratio of stored to fetched interest over the shared non-zero days; 1 when
+ * they share fewer than MIN_OVERLAP_DAYS.
+ */
+function alignToStored(
+  points: Array<{ date: string; value: number }>,
+  storedByDate: Map<string, number>
+): TrendAlignment {
+  let storedSum = 0;
+  let fetchedSum = 0;
+  let overlapDays = 0;
+  for (const point of points) {
+    const previous = storedByDate.get(point.date);
+    if (previous === undefined || previous === 0 || point.value === 0) continue;
+    storedSum += previous;
+    fetchedSum += point.value;
+    overlapDays++;
+  }
+  const alignFactor = overlapDays >= MIN_OVERLAP_DAYS && fetchedSum > 0 ? storedSum / fetchedSum : 1;
+  return { alignFactor, overlapDays };
+}
+
+function sortedWindow(points: Array<{ date: string; value: number }>) {
+  const sorted = [...points].sort((a, b) => a.date.localeCompare(b.date));
+  return { points: sorted, windowStart: sorted[0]?.date, windowEnd: sorted[sorted.length - 1]?.date };
+}
+
+/**
+ * Merge one fetched window into google_trends. The factor is the ratio of
+ * stored to fetched interest over the overlap (or the fetch's shared factor
+ * when `alignment` is given); the window's points are multiplied by it and
+ * overwrite the overlap (the newest fetch has Google's revised values for
+ * recent days).
+ */
+export async function mergeTrendWindow(window: TrendWindow): Promise<TrendMergeResult | null> {
+  const { fandomId, keyword, source } = window;
+  const region = window.region ?? DEFAULT_TRENDS_GEO;
+  const { points, windowStart, windowEnd } = sortedWindow(window.points);
+  if (points.length === 0) return null;
+
+  let alignment = window.alignment;
+  if (!alignment) {
+    const stored = await db
+      .select({ date: googleTrends.date, interestValue: googleTrends.interestValue })
+      .from(googleTrends)
+      .where(
+        and(
+          eq(googleTrends.fandomId, fandomId),
+          eq(googleTrends.keyword, keyword),
+          eq(googleTrends.region, region),
+          gte(googleTrends.date, windowStart),
+          lte(googleTrends.date, windowEnd)
+        )
+      );
+    alignment = alignToStored(points, new Map(stored.map((row) => [row.date, row.interestValue])));
+  }
+  const { alignFactor, overlapDays } = alignment;
+  const scaleFactor = window.scaleFactor != null ? window.scaleFactor * alignFactor : null;
+
+  const [fetch] = await db
+    .insert(googleTrendsFetches)
+    .values({
+      fandomId,
+      keyword,
+      region,
+      source,
+      windowStart,
+      windowEnd,
+      points,
+      anchorKeyword: window.anchorKeyword ?? null,
+      scaleFactor: window.scaleFactor != null ? window.scaleFactor.toFixed(6) : null,
+      alignFactor: alignFactor.toFixed(6),
+      overlapDays,
+    })
+    .returning({ id: googleTrendsFetches.id });
+
+  const values = points.map((point) => ({
+    fandomId,
+    keyword,
+    date: point.date,
+    interestValue: Math.round(point.value * alignFactor),
+    region,
+    anchorKeyword: window.anchorKeyword ?? null,
+    scaleFactor: scaleFactor !== null ? scaleFactor.toFixed(6) : null,
+    fetchId: fetch.id,
+  }));
+
+  for (let i = 0; i < values.length; i += 500) {
+    await db
+      .insert(googleTrends)
+      .values(values.slice(i, i + 500))
+      .onConflictDoUpdate({
+        target: [googleTrends.fandomId, googleTrends.keyword, googleTrends.date, googleTrends.region],
+        set: {
+          interestValue: sql`excluded.interest_value`,
+          anchorKeyword: sql`excluded.anchor_keyword`,
+          scaleFactor: sql`excluded.scale_factor`,
+          fetchId: sql`excluded.fetch_id`,
+        },
+      });
+  }
+
+  return { fetchId: fetch.id, alignFactor, overlapDays, points: points.length };
+}
+
+/**
+ * Condition on google_trends matching each fandom's current series: the rows
+ * keyed by the query its search keywords build now. Series stored under an
+ * earlier query (or an old CSV column name) stay stored but aren't charted.
+ * Null when there are no fandoms.
+ */
+export async function currentSeriesCondition(): Promise<SQL | null> {
+  const rows = await db
+    .select({ id: fandoms.id, name: fandoms.name, searchKeywords: fandoms.searchKeywords })
+    .from(fandoms);
+  if (rows.length === 0) return null;
+
+  const series = rows.map((f) => sql`(${f.id}::uuid, ${trendsQuery(resolveSearchKeywords(f))})`);
+  return sql`(${googleTrends.fandomId}, ${googleTrends.keyword}) in (${sql.join(series, sql`, `)})`;
+}
+
+/**
+ * The alignment factor for one comparative fetch, shared by every keyword in
+ * it: the anchor's fetched series is aligned to its stored one (in
+ * google_trends_anchors), which is then updated like any series. The first
+ * fetch for an anchor and country starts its series with factor 1.
+ */
+export async function alignToAnchor(input: {
+  region?: string;
+  anchorKeyword: string;
+  anchorPoints: Array<{ date: string; value: number }>;
+}): Promise<TrendAlignment> {
+  const region = input.region ?? DEFAULT_TRENDS_GEO;
+  const { points, windowStart, windowEnd } = sortedWindow(input.anchorPoints);
+  if (points.length === 0) return { alignFactor: 1, overlapDays: 0 };
+
+  const stored = await db
+    .select({ date: googleTrendsAnchors.date, interestValue: googleTrendsAnchors.interestValue })
+    .from(googleTrendsAnchors)
+    .where(
+      and(
+        eq(googleTrendsAnchors.keyword, input.anchorKeyword),
+        eq(googleTrendsAnchors.region, region),
+        gte(googleTrendsAnchors.date, windowStart),
+        lte(googleTrendsAnchors.date, windowEnd)
+      )
+    );
+  const alignment = alignToStored(points, new Map(stored.map((row) => [row.date, row.interestValue])));
+
+  await db
+    .insert(googleTrendsAnchors)
+    .values(
+      points.map((point) => ({
+        keyword: input.anchorKeyword,
+        region,
+        date: point.date,
+        interestValue: Math.round(point.value * alignment.alignFactor),
+      }))
+    )
+    .onConflictDoUpdate({
+      target: [googleTrendsAnchors.keyword, googleTrendsAnchors.region, googleTrendsAnchors.date],
+      set: { interestValue: sql`excluded.interest_value`, updatedAt: new Date() },
+    });
+
+  return alignment;
+}
+
+/**
+ * Store the related queries and topics fetched for a keyword today. A second
+ * fetch on the same day replaces that day's lists; earlier days are kept.
+ */
+export async function saveRelatedSearches(input: {
+  fandomId: string;
+  keyword: string;
+  region?: string;
+  timeRange: string;
+  items: RelatedSearchItem[];
+}): Promise<number> {
+  const { fandomId, keyword, timeRange, items } = input;
+  const region = input.region ?? DEFAULT_TRENDS_GEO;
+  const date = new Date().toISOString().split("T")[0];
+
+  await db
+    .delete(googleTrendsRelated)
+    .where(
+      and(
+        eq(googleTrendsRelated.fandomId, fandomId),
+        eq(googleTrendsRelated.keyword, keyword),
+        eq(googleTrendsRelated.region, region),
+        eq(googleTrendsRelated.date, date)
+      )
+    );
+  if (items.length === 0) return 0;
+
+  await db
+    .insert(googleTrendsRelated)
+    .values(items.map((item) => ({ fandomId, keyword, region, timeRange, date, ...item })))
+    .onConflictDoNothing();
+
+  return items.length;
+}
+
+/**
+ * Each fandom's most recently fetched related queries and topics in one
+ * country (or one fandom's), in Google's order within each list.
+ */
+export async function listRelatedSearches(options: { fandomId?: string; region?: string } = {}): Promise<RelatedSearch[]> {
+  const region = options.region ?? DEFAULT_TRENDS_GEO;
+  const conditions = [
+    eq(googleTrendsRelated.region, region),
+    sql`${googleTrendsRelated.date} = (
+      select max(latest.date) from google_trends_related latest
+      where latest.fandom_id = ${googleTrendsRelated.fandomId} and latest.region = ${region}
+    )`,
+  ];
+  if (options.fandomId) conditions.push(eq(googleTrendsRelated.fandomId, options.fandomId));
+
+  const rows = await db
+    .select({
+      fandomId: googleTrendsRelated.fandomId,
+      fandomName: fandoms.name,
+      fandomSlug: fandoms.slug,
+      keyword: googleTrendsRelated.keyword,
+      region: googleTrendsRelated.region,
+      kind: googleTrendsRelated.kind,
+      ranking: googleTrendsRelated.ranking,
+      term: googleTrendsRelated.term,
+      topicType: googleTrendsRelated.topicType,
+      value: googleTrendsRelated.value,
+      formattedValue: googleTrendsRelated.formattedValue,
+      date: googleTrendsRelated.date,
+    })
+    .from(googleTrendsRelated)
+    .innerJoin(fandoms, eq(googleTrendsRelated.fandomId, fandoms.id))
+    .where(and(...conditions))
+    .orderBy(asc(fandoms.name), asc(googleTrendsRelated.position));
+
+  return rows;
+}
+
+/**
+ * Average interest per fandom per country from a date (YYYY-MM-DD) on.
+ * Only each fandom's current national series count; sub-national rows
+ * ("PH-NCR") are skipped.
+ */
+export async function getTrendsByCountry(dateFrom?: string): Promise<{ geos: string[]; fandoms: CountryTrend[] }> {
+  const current = await currentSeriesCondition();
+  if (!current) return { geos: [], fandoms: [] };
+
+  const rows = await db
+    .select({
+      fandomId: googleTrends.fandomId,
+      fandomName: fandoms.name,
+      fandomSlug: fandoms.slug,
+      region: googleTrends.region,
+      avgInterest: sql<number>`avg(${googleTrends.interestValue})::float`,
+    })
+    .from(googleTrends)
+    .innerJoin(fandoms, eq(googleTrends.fandomId, fandoms.id))
+    .where(
+      and(
+        sql`${googleTrends.region} ~ '^[A-Z]{2}$'`,
+        current,
+        dateFrom ? gte(googleTrends.date, dateFrom) : undefined
+      )
+    )
+    .groupBy(googleTrends.fandomId, fandoms.name, fandoms.slug, googleTrends.region)
+    .orderBy(asc(fandoms.name));
+
+  const geos = new Set<string>();
+  const byFandom = new Map<string, CountryTrend>();
+  for (const row of rows) {
+    geos.add(row.region);
+    if (!byFandom.has(row.fandomId)) {
+      byFandom.set(row.fandomId, {
+        fandomId: row.fandomId,
+        fandomName: row.fandomName,
+        fandomSlug: row.fandomSlug,
+        byGeo: {},
+      });
+    }
+    byFandom.get(row.fandomId)!.byGeo[row.region] = Math.round(Number(row.avgInterest) * 10) / 10;
+  }
+
+  // The default country first, then the rest alphabetically
+  const sortedGeos = [...geos].sort((a, b) =>
+    a === DEFAULT_TRENDS_GEO ? -1 : b === DEFAULT_TRENDS_GEO ? 1 : a.localeCompare(b)
+  );
+  return { geos: sortedGeos, fandoms: [...byFandom.values()] };
+}
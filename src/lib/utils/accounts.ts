@@ -0,0 +1,27 @@
+import type { HandleRole, Platform } from "@/types/fandom";
+
+/**
+ * Identity of a platform account: handles are matched case-insensitively and
+ * without a leading "@" (or "r/" for subreddits), so "@SB19Official" and
+ * "sb19official" are the same account.
+ */
+export function accountKey(handle: string): string {
+  return handle.trim().replace(/^@/, "").replace(/^\/?r\//i, "").toLowerCase();
+}
+
+/** Total followers across accounts, counting each platform account once */
+export function sumDistinctFollowers(
+  accounts: Array<{ platform: string; handle: string; followers: number }>
+): number {
+  const byAccount = new Map<string, number>();
+  for (const a of accounts) {
+    const key = `${a.platform}:${accountKey(a.handle)}`;
+    byAccount.set(key, Math.max(byAccount.get(key) ?? 0, a.followers));
+  }
+  return [...byAccount.values()].reduce((s, f) => s + f, 0);
+}
+
+/** Reddit handles are subreddits; other platforms default to the official account */
+export function defaultHandleRole(platform: Platform): HandleRole {
+  return platform === "reddit" ? "subreddit" : "official";
+}
@@ -0,0 +1,54 @@
+import {
+  ANOMALY_MIN_FOLLOWERS,
+  ENGAGEMENT_ANOMALY_RATIO,
+  FOLLOWER_ANOMALY_RATIO,
+} from "@/lib/constants";
+import { formatNumber } from "@/lib/utils/format";
+
+export interface AccountMetricSample {
+  followers: number;
+  /** Average likes + comments + shares per post */
+  avgEngagement: number;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+/**
+ * Why a new account snapshot is implausible against the account's recent
+ * accepted snapshots (newest first), or null when it looks fine. With no
+ * history there is nothing to compare against, so nothing is flagged.
+ */
+export function findMetricAnomaly(
+  current: AccountMetricSample,
+  history: AccountMetricSample[]
+): string | null {
+  const followerHistory = history.map((h) => h.followers).filter((f) => f > 0);
+  if (followerHistory.length > 0) {
+    const baseline = median(followerHistory);
+    if (current.followers === 0) {
+      return `Followers dropped to 0 from ${formatNumber(baseline)}`;
+    }
+    const ratio = current.followers / baseline;
+    if (
+      baseline >= ANOMALY_MIN_FOLLOWERS &&
+      (ratio >= FOLLOWER_ANOMALY_RATIO || ratio <= 1 / FOLLOWER_ANOMALY_RATIO)
+    ) {
+      return `Followers ${formatNumber(current.followers)} vs ${formatNumber(baseline)} recently (${ratio.toFixed(1)}x)`;
+    }
+  }
+
+  const engagementHistory = history.map((h) => h.avgEngagement).filter((e) => e > 0);
+  if (engagementHistory.length > 0) {
+    const baseline = median(engagementHistory);
+    const ratio = current.avgEngagement / baseline;
+    if (ratio >= ENGAGEMENT_ANOMALY_RATIO) {
+      return `Engagement per post ${formatNumber(current.avgEngagement)} vs ${formatNumber(Math.round(baseline))} recently (${ratio.toFixed(1)}x)`;
+    }
+  }
+
+  return null;
+}
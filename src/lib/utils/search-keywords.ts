@@ -0,0 +1,112 @@
+import type { FandomSearchKeywords } from "@/types/fandom";
+
+/** Fan-base names that follow the artist in a fandom name ("BTS ARMY", "ALAMAT Fans") */
+const FANDOM_SUFFIXES = [
+  "ARMY",
+  "A'TIN",
+  "Blooms",
+  "Bunnies",
+  "CARAT",
+  "BLINK",
+  "ONCE",
+  "Fans",
+  "Nation",
+  "Squad",
+  "Stans",
+];
+
+/** Longest term accepted; Google Trends rejects very long queries */
+const MAX_TERM_LENGTH = 100;
+/** Most terms kept per list */
+const MAX_TERMS = 10;
+
+/**
+ * Keywords for a fandom with none configured: the name (without "r/") up to
+ * any "/", "\", "(" or " - ", with its fan-base suffix dropped
+ * ("BINI Blooms" → "BINI"). The full name is kept as an alias.
+ */
+export function defaultSearchKeywords(name: string): FandomSearchKeywords {
+  const trimmed = name.trim().replace(/^\/?r\//i, "");
+  const cleaned = trimmed.split(/[/\\(]|\s+-\s+/)[0].trim() || trimmed;
+  const words = cleaned.split(/\s+/);
+
+  const suffix = words[words.length - 1];
+  const hasSuffix =
+    words.length > 1 && FANDOM_SUFFIXES.some((s) => s.toLowerCase() === suffix.toLowerCase());
+  const primary = hasSuffix ? words.slice(0, -1).join(" ") : words.join(" ");
+
+  return {
+    primary,
+    aliases: primary.toLowerCase() === name.trim().toLowerCase() ? [] : [name.trim()],
+    disambiguated: [],
+    excluded: [],
+  };
+}
+
+/** The fandom's configured keywords, or the defaults for its name */
+export function resolveSearchKeywords(fandom: {
+  name: string;
+  searchKeywords: FandomSearchKeywords | null;
+}): FandomSearchKeywords {
+  return fandom.searchKeywords ?? defaultSearchKeywords(fandom.name);
+}
+
+/**
+ * The Google Trends query: the first disambiguated term, else the primary
+ * term, followed by "-term" for each excluded term. Stored trend rows are
+ * keyed by it, so changing it starts a new series.
+ */
+export function trendsQuery(keywords: FandomSearchKeywords): string {
+  const term = keywords.disambiguated[0] || keywords.primary;
+  const excluded = keywords.excluded.map((t) => (/\s/.test(t) ? `-"${t}"` : `-${t}`));
+  return [term, ...excluded].join(" ");
+}
+
+/** Whether a search term (e.g. a Trends CSV column) names this fandom */
+export function matchesSearchKeywords(keywords: FandomSearchKeywords, term: string): boolean {
+  const needle = term.trim().toLowerCase();
+  if (!needle) return false;
+  return [trendsQuery(keywords), keywords.primary, ...keywords.aliases, ...keywords.disambiguated].some(
+    (k) => k.toLowerCase() === needle
+  );
+}
+
+function normalizeTerms(value: unknown): string[] | null {
+  if (value === undefined) return [];
+  if (!Array.isArray(value) || value.some((t) => typeof t !== "string")) return null;
+
+  const seen = new Set<string>();
+  const terms: string[] = [];
+  for (const raw of value as string[]) {
+    const term = raw.trim().replace(/\s+/g, " ");
+    if (!term || term.length > MAX_TERM_LENGTH || seen.has(term.toLowerCase())) continue;
+    seen.add(term.toLowerCase());
+    terms.push(term);
+  }
+  return terms.slice(0, MAX_TERMS);
+}
+
+/**
+ * Validate a keyword set from a request body or an AI response. Terms are
+ * trimmed and deduplicated; null when the primary term is missing or a list
+ * is not an array of strings.
+ */
+export function normalizeSearchKeywords(input: unknown): FandomSearchKeywords | null {
+  if (!input || typeof input !== "object") return null;
+  const body = input as Record<string, unknown>;
+
+  const primary = typeof body.primary === "string" ? body.primary.trim().replace(/\s+/g, " ") : "";
+  if (!primary || primary.length > MAX_TERM_LENGTH) return null;
+
+  const aliases = normalizeTerms(body.aliases);
+  const disambiguated = normalizeTerms(body.disambiguated);
+  const excluded = normalizeTerms(body.excluded);
+  if (!aliases || !disambiguated || !excluded) return null;
+
+  return {
+    primary,
+    aliases: aliases.filter((t) => t.toLowerCase() !== primary.toLowerCase()),
+    disambiguated,
+    excluded,
+  };
+}
@@ -0,0 +1,22 @@
+import { MAX_TRENDS_GEOS, TRENDS_GEOS } from "@/lib/constants";
+
+/** A Google Trends country geo: an upper-case ISO 3166-1 alpha-2 code */
+export function isTrendsGeo(value: unknown): value is string {
+  return typeof value === "string" && /^[A-Z]{2}$/.test(value);
+}
+
+/** Dashboard name for a country geo; unlisted codes show as the code */
+export function trendsGeoName(geo: string): string {
+  return TRENDS_GEOS[geo] ?? geo;
+}
+
+/**
+ * Validate a fandom's geo set from a request body: codes are upper-cased and
+ * deduplicated. Null when it is empty, too long or has an invalid code.
+ */
+export function normalizeTrendsGeos(input: unknown): string[] | null {
+  if (!Array.isArray(input)) return null;
+  const geos = [...new Set(input.map((g) => (typeof g === "string" ? g.trim().toUpperCase() : g)))];
+  if (geos.length === 0 || geos.length > MAX_TRENDS_GEOS || !geos.every(isTrendsGeo)) return null;
+  return geos;
+}
@@ -11,10 +11,16 @@ import { NextRequest, NextResponse } from "next/server";
  * - Dashboard UI works seamlessly (same-origin browser requests pass through)
  * - External API calls require a Bearer token
  * - Cron routes are excluded (they use their own CRON_SECRET)
+ * - Webhook routes are excluded (they verify their own signatures)
+ * - Agent routes (push, heartbeat, jobs) are excluded (each request is signed
+ *   with the agent's own secret)
  * - GET/HEAD/OPTIONS are always allowed (read-only)
  * 
  * Set API_SECRET in your environment variables.
  */
+/** Routes external scraper agents call with per-agent signatures */
+const AGENT_ROUTES = ["/api/ingest/push", "/api/ingest/heartbeat", "/api/ingest/jobs"];
+
 export function middleware(req: NextRequest) {
   const { pathname } = req.nextUrl;
   const method = req.method;
@@ -29,6 +35,16 @@ export function middleware(req: NextRequest) {
     return NextResponse.next();
   }
 
+  // Skip webhook routes — they verify their own HMAC signatures
+  if (pathname.startsWith("/api/webhooks/")) {
+    return NextResponse.next();
+  }
+
+  // Skip agent routes — they verify per-agent HMAC signatures
+  if (AGENT_ROUTES.includes(pathname)) {
+    return NextResponse.next();
+  }
+
   // Allow GET/HEAD/OPTIONS through (read-only)
   if (["GET", "HEAD", "OPTIONS"].includes(method)) {
     return NextResponse.next();
@@ -10,10 +10,34 @@ export type Platform =
 
 export type ContentType = "post" | "video" | "reel" | "tweet" | "thread";
 
+export type KeywordType = "hashtag" | "search";
+
+/** What an account is to the fandom; a platform can have several accounts */
+export type HandleRole = "official" | "fanbase" | "news" | "subreddit";
+
+/** What a scrape fetched: the platform account, or a keyword feed */
+export type ScrapeTargetType = "handle" | KeywordType;
+
 export type DemographicTag = "gen_y" | "gen_z" | "abc" | "cde";
 
 export type MarketSegment = "postpaid" | "prepaid" | "all";
 
+/**
+ * The terms a fandom is searched by on Google Trends. The first disambiguated
+ * term (or the primary term) is the query; aliases and the other terms only
+ * identify the fandom, e.g. in uploaded Trends CSV columns.
+ */
+export interface FandomSearchKeywords {
+  /** The artist or group, e.g. "BINI" for "BINI Blooms" */
+  primary: string;
+  /** Other names fans search by */
+  aliases: string[];
+  /** Qualified terms for ambiguous names, e.g. "SEVENTEEN kpop" */
+  disambiguated: string[];
+  /** Terms excluded from the query ("-term") */
+  excluded: string[];
+}
+
 export interface Fandom {
   id: string;
   name: string;
@@ -23,6 +47,14 @@ export interface Fandom {
   imageUrl: string | null;
   fandomGroup: string | null;
   demographicTags: DemographicTag[];
+  /** Max items fetched per platform per scrape */
+  scrapeItemCap: number;
+  /** Top posts per scrape whose comments are fetched (0 = off) */
+  scrapeCommentPosts: number;
+  /** Configured search keywords, or the defaults derived from the name */
+  searchKeywords: FandomSearchKeywords;
+  /** Countries (ISO codes) its Google Trends interest is tracked in */
+  trendsGeos: string[];
   createdAt: Date;
   updatedAt: Date;
 }
@@ -32,10 +64,46 @@ export interface FandomPlatform {
   fandomId: string;
   platform: Platform;
   handle: string;
+  role: HandleRole;
   followers: number;
   url: string | null;
 }
 
+export interface FandomKeyword {
+  id: string;
+  fandomId: string;
+  platform: Platform;
+  type: KeywordType;
+  /** Stored without a leading "#" */
+  value: string;
+  enabled: boolean;
+  lastScrapedAt: string | null;
+  /** Items found by this keyword, published in the requested date range */
+  postsCount: number;
+  engagementTotal: number;
+}
+
+/** A Reddit account (subreddit) with its community stats for a date range */
+export interface SubredditStats {
+  /** fandom_platforms handle, without "r/" */
+  handle: string;
+  /** Latest subscriber count, and its change since the first snapshot in range */
+  subscribers: number;
+  subscriberChange: number;
+  activeUsers: number | null;
+  lastSnapshotDate: string | null;
+  /** Posts scraped from the subreddit per publish day, with their comments */
+  daily: Array<{ date: string; posts: number; comments: number }>;
+  topPosts: Array<{
+    id: string;
+    text: string | null;
+    url: string | null;
+    likes: number;
+    comments: number;
+    publishedAt: string | null;
+  }>;
+}
+
 export interface MetricSnapshot {
   id: string;
   fandomId: string;
@@ -49,6 +117,8 @@ export interface MetricSnapshot {
   avgLikes: number;
   avgComments: number;
   avgShares: number;
+  /** "scrape", or the source tag of a backfill import */
+  source: string;
 }
 
 export interface ContentItem {
@@ -66,6 +136,11 @@ export interface ContentItem {
   publishedAt: Date | null;
   scrapedAt: Date;
   hashtags: string[];
+  /** Target whose scrape first found this item */
+  targetType: ScrapeTargetType | null;
+  targetValue: string | null;
+  /** Likes gained per hour, from recent snapshots (fandom detail only) */
+  likesPerHour?: number | null;
 }
 
 export interface Influencer {
@@ -89,6 +164,49 @@ export interface GoogleTrend {
   date: string;
   interestValue: number;
   region: string;
+  /** Comparative scrapes: keyword the value is indexed against (100 = its peak) */
+  anchorKeyword: string | null;
+  scaleFactor: number | null;
+}
+
+/** Google Trends "related queries" or "related topics" */
+export type RelatedSearchKind = "query" | "topic";
+
+/** "top" ranks by search volume; "rising" by growth over the previous period */
+export type RelatedSearchRanking = "top" | "rising";
+
+/** A related query or topic Google returned for a fandom's keyword on a date */
+export interface RelatedSearch {
+  fandomId: string;
+  fandomName: string;
+  fandomSlug: string;
+  keyword: string;
+  region: string;
+  kind: RelatedSearchKind;
+  ranking: RelatedSearchRanking;
+  term: string;
+  /** Topics only: Google's entity type, e.g. "Girl group" */
+  topicType: string | null;
+  /** Top: 0-100 relative volume. Rising: % growth (Breakout is above 5000) */
+  value: number;
+  /** As Google shows it: "100", "+250%", "Breakout" */
+  formattedValue: string;
+  /** Day the list was fetched */
+  date: string;
+}
+
+/**
+ * A fandom's average Google Trends interest in each country it is tracked in.
+ * Each country is indexed on its own (100 = the anchor keyword's peak there),
+ * so values compare fandoms within a country and a fandom's relative standing
+ * across countries, not absolute search volume.
+ */
+export interface CountryTrend {
+  fandomId: string;
+  fandomName: string;
+  fandomSlug: string;
+  /** Country code → average interest over the range */
+  byGeo: Record<string, number>;
 }
 
 export interface FandomWithMetrics extends Fandom {
@@ -163,10 +281,27 @@ export interface ScrapeRun {
   fandomId: string | null;
   fandomName: string | null;
   platform: Platform | null;
-  status: "pending" | "running" | "succeeded" | "failed";
+  status: "pending" | "running" | "ingesting" | "succeeded" | "failed";
   startedAt: string;
   finishedAt: string | null;
   itemsCount: number;
+  error: string | null;
+  /** Account or keyword feed this run scraped (null for older runs) */
+  targetType: ScrapeTargetType | null;
+  targetValue: string | null;
+  /** Providers tried or skipped for this run, in order */
+  attempts: ScrapeAttempt[];
+}
+
+export interface ScrapeAttempt {
+  attemptNumber: number;
+  provider: string;
+  outcome: "success" | "empty" | "error" | "skipped";
+  httpStatus: number | null;
+  error: string | null;
+  latencyMs: number;
+  itemCount: number;
+  failoverReason: string | null;
 }
 
 export interface ContentInsight {
@@ -192,3 +327,174 @@ export interface Recommendation {
   contentInsight: ContentInsight;
   hasBeenScraped: boolean;
 }
+
+export interface ScrapeQueueJob {
+  id: string;
+  fandomId: string;
+  platform: Platform;
+  status: "queued" | "leased" | "succeeded" | "dead";
+  attempts: number;
+  maxAttempts: number;
+  lastError: string | null;
+  runAt: string;
+  finishedAt: string | null;
+}
+
+export interface ScrapeQueueSummary {
+  counts: Record<ScrapeQueueJob["status"], number>;
+  deadJobs: ScrapeQueueJob[];
+}
+
+export interface ProviderHealth {
+  id: string;
+  provider: string;
+  platform: Platform;
+  successRate: string;
+  emptyRate: string;
+  avgLatencyMs: number;
+  totalCalls: number;
+  consecutiveFailures: number;
+  circuitState: "closed" | "open" | "half_open";
+  openUntil: string | null;
+  lastError: string | null;
+  lastSuccessAt: string | null;
+  lastFailureAt: string | null;
+  healthScore: number;
+}
+
+/** An external scraper agent allowed to push items (secret omitted) */
+export interface IngestAgent {
+  id: string;
+  name: string;
+  /** Empty = all platforms */
+  platforms: Platform[];
+  enabled: boolean;
+  lastPushAt: string | null;
+  lastHeartbeatAt: string | null;
+  /** Heartbeat within AGENT_HEARTBEAT_TIMEOUT_MS */
+  online: boolean;
+  status: "idle" | "busy" | null;
+  capabilities: Platform[];
+  host: string | null;
+  version: string | null;
+  currentJob: { id: string; fandomName: string; platform: Platform } | null;
+  createdAt: string;
+}
+
+/** Settings view of push agents and the jobs routed to them */
+export interface IngestAgentsSummary {
+  agents: IngestAgent[];
+  /** Platforms whose scrape jobs only agents lease (AGENT_PLATFORMS) */
+  agentPlatforms: Platform[];
+  /** Queued jobs per agent platform */
+  queuedJobs: Partial<Record<Platform, number>>;
+}
+
+/** What a backfill import does with a fandom-platform-date that already has a snapshot */
+export type BackfillConflictPolicy = "skip" | "overwrite";
+
+export interface BackfillResult {
+  dryRun: boolean;
+  source: string;
+  policy: BackfillConflictPolicy;
+  /** Rows read from the file */
+  rows: number;
+  valid: number;
+  /** New snapshots (would be) written */
+  inserted: number;
+  /** Existing snapshots (would be) replaced under "overwrite" */
+  overwritten: number;
+  /** Existing snapshots left alone under "skip" */
+  skipped: number;
+  /** 1-based data row numbers; at most the first 100 are listed */
+  errors: Array<{ row: number; error: string }>;
+  series: Array<{ fandomName: string; fandomSlug: string; platform: Platform; from: string; to: string; rows: number }>;
+}
+
+/** An account snapshot held back from metrics until a user approves or rejects it */
+export interface QuarantinedSnapshot {
+  id: string;
+  fandomId: string;
+  fandomName: string;
+  fandomSlug: string;
+  platform: Platform;
+  handle: string;
+  date: string;
+  followers: number;
+  /** Followers on the account's latest accepted snapshot before this one */
+  previousFollowers: number | null;
+  avgEngagement: number;
+  anomalyReason: string | null;
+}
+
+/** How many items in a raw payload carried a contract field (see contracts.ts) */
+export interface FieldCoverage {
+  field: string;
+  /** Share of applicable items (0-1) with a non-empty, non-zero value */
+  coverage: number;
+  /** The raw path most items matched, or null when none did */
+  path: string | null;
+}
+
+/** Latest payload contract check for a platform, provider and feed kind */
+export interface PayloadCoverage {
+  platform: Platform;
+  source: string;
+  feed: "account" | "keyword";
+  checkedAt: string;
+  scrapeRunId: string;
+  itemCount: number;
+  /** baseline: average coverage over the previous checks, null when there are none */
+  fields: Array<FieldCoverage & { baseline: number | null; dropped: boolean }>;
+  missingFields: string[];
+  addedKeys: string[];
+  removedKeys: string[];
+  /** Some field's coverage dropped well below its baseline */
+  alert: boolean;
+}
+
+export interface ProviderBudgetStatus {
+  provider: string;
+  /** YYYY-MM (UTC) */
+  month: string;
+  /** Null when the provider has no budget */
+  monthlyBudgetUsd: number | null;
+  spentUsd: number;
+  credits: number;
+  calls: number;
+  usedPct: number | null;
+  /** Low-priority fandoms skip the provider while this is set */
+  nearExhaustion: boolean;
+}
+
+export interface FandomCost {
+  /** Null for provider calls made outside a fandom scrape */
+  fandomId: string | null;
+  name: string;
+  slug: string | null;
+  tier: FandomTier | null;
+  costUsd: number;
+  credits: number;
+  calls: number;
+  byProvider: Record<string, number>;
+}
+
+export interface ProviderRoute {
+  id: string;
+  platform: Platform;
+  fandomId: string | null;
+  providers: string[];
+  updatedAt: string;
+}
+
+export interface ScrapeSchedule {
+  id: string;
+  /** Set on tier schedules; null on per-fandom overrides */
+  tier: FandomTier | null;
+  fandomId: string | null;
+  cronExpression: string;
+  enabled: boolean;
+  lastRunAt: string | null;
+  nextRunAt: string | null;
+  updatedAt: string;
+}